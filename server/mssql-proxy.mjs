@@ -0,0 +1,593 @@
+// Minimal HTTP proxy that lets the browser app reach SQL Server through the
+// mssql package. By default the password is read from the MSSQL_PASSWORD
+// environment variable, which is only used for the server named by
+// MSSQL_SERVER. A connection can instead name another variable, which must be
+// listed in PROXY_SECRET_VARS, or send a password the browser has decrypted
+// with the user's passphrase.
+//
+// Only the app's origin (MSSQL_PROXY_ORIGIN, the Vite dev server by default)
+// may call the proxy, and only MSSQL_SERVER and the servers listed in
+// PROXY_ALLOWED_SERVERS, as `host` or `host:port`, can be reached.
+//
+// PostgreSQL and MySQL connections are served through the pg and mysql2
+// packages, which are loaded on first use and must be installed separately.
+// The browser renders their statements with positional `values`.
+//
+// Read-only connections are also enforced here: PostgreSQL and MySQL sessions
+// default to read-only transactions. SQL Server has no such session setting
+// and a primary replica ignores ApplicationIntent=ReadOnly, so the proxy
+// rejects SQL Server batches that could write (see assertReadOnlyBatch).
+//
+// When the browser aborts a /query request, the running statement is
+// cancelled: SQL Server requests through the mssql driver, PostgreSQL through
+// pg_cancel_backend and MySQL through KILL QUERY. /explain returns the estimated plan without running the query.
+//
+//   MSSQL_SERVER=db.local MSSQL_PASSWORD=secret node server/mssql-proxy.mjs
+//   PROXY_ALLOWED_SERVERS=qa-db:1433,staging-db PROXY_SECRET_VARS=QA_DB_PASSWORD,STAGING_DB_PASSWORD npm run proxy
+import http from 'node:http';
+import sql from 'mssql';
+
+const PORT = Number(process.env.MSSQL_PROXY_PORT || 5055);
+const ALLOWED_ORIGIN = process.env.MSSQL_PROXY_ORIGIN || 'http://localhost:5000';
+const DEFAULT_SERVER = process.env.MSSQL_SERVER || 'localhost';
+const ALLOWED_SERVERS = [
+  DEFAULT_SERVER,
+  ...(process.env.PROXY_ALLOWED_SERVERS || '').split(',').map(entry => entry.trim()).filter(Boolean),
+];
+
+const SAVEPOINT_NAME = /^[A-Za-z_][A-Za-z0-9_]{0,31}$/;
+const ISOLATION_LEVELS = {
+  'READ UNCOMMITTED': sql.ISOLATION_LEVEL.READ_UNCOMMITTED,
+  'READ COMMITTED': sql.ISOLATION_LEVEL.READ_COMMITTED,
+  'REPEATABLE READ': sql.ISOLATION_LEVEL.REPEATABLE_READ,
+  SNAPSHOT: sql.ISOLATION_LEVEL.SNAPSHOT,
+  SERIALIZABLE: sql.ISOLATION_LEVEL.SERIALIZABLE,
+};
+
+const SECRET_VARS = new Set([
+  'MSSQL_PASSWORD',
+  ...(process.env.PROXY_SECRET_VARS || '').split(',').map(name => name.trim()).filter(Boolean),
+]);
+
+const pools = new Map();
+const transactions = new Map();
+
+const PG_ISOLATION_LEVELS = new Set(['READ UNCOMMITTED', 'READ COMMITTED', 'REPEATABLE READ', 'SERIALIZABLE']);
+
+async function loadDriver(name) {
+  try {
+    return await import(name);
+  } catch {
+    throw new Error(`Install the ${name} package to proxy this connection (npm install ${name})`);
+  }
+}
+
+function matchesServer(entry, connection) {
+  const [host, port] = entry.toLowerCase().split(':');
+  return host === String(connection.server ?? '').toLowerCase() && (!port || Number(port) === Number(connection.port));
+}
+
+function assertAllowedServer(connection) {
+  if (connection && !ALLOWED_SERVERS.some(entry => matchesServer(entry, connection))) {
+    throw new Error(`Server ${connection.server} is not listed in PROXY_ALLOWED_SERVERS`);
+  }
+}
+
+// MSSQL_PASSWORD belongs to MSSQL_SERVER, so it is never sent to another
+// allowed server, whether named or used as the default.
+function assertDefaultServer(connection) {
+  if (!matchesServer(DEFAULT_SERVER, connection)) {
+    throw new Error(`MSSQL_PASSWORD is only used for ${DEFAULT_SERVER}; choose another password source for ${connection.server}`);
+  }
+}
+
+// Only listed variables can be referenced, so a client cannot read arbitrary
+// environment variables from the proxy host.
+function resolvePassword(connection) {
+  const name = connection.passwordEnvVar;
+  if (name) {
+    if (!SECRET_VARS.has(name)) {
+      throw new Error(`Environment variable ${name} is not listed in PROXY_SECRET_VARS`);
+    }
+    if (name === 'MSSQL_PASSWORD') {
+      assertDefaultServer(connection);
+    }
+    if (process.env[name] === undefined) {
+      throw new Error(`Environment variable ${name} is not set on the proxy`);
+    }
+    return process.env[name];
+  }
+  if (connection.password !== undefined || process.env.MSSQL_PASSWORD === undefined) {
+    return connection.password;
+  }
+  assertDefaultServer(connection);
+  return process.env.MSSQL_PASSWORD;
+}
+
+function isolationFor(isolationLevel) {
+  return PG_ISOLATION_LEVELS.has(isolationLevel) ? isolationLevel : 'READ COMMITTED';
+}
+
+// Each non-SQL Server dialect exposes the same operations: a pool, a client
+// taken from it, a query on that client or the one holding the open
+// transaction, cancelling the statement a client is running, and transaction
+// control statements run on the transaction's client.
+const dialects = {
+  postgresql: {
+    async createPool(connection) {
+      const { default: pg } = await loadDriver('pg');
+      return new pg.Pool({
+        host: connection.server,
+        port: connection.port,
+        database: connection.database,
+        user: connection.username,
+        password: resolvePassword(connection),
+        connectionTimeoutMillis: connection.connectionTimeout,
+        statement_timeout: connection.requestTimeout,
+        options: connection.readOnly ? '-c default_transaction_read_only=on' : undefined,
+        ssl: connection.encrypt ? { rejectUnauthorized: !connection.trustServerCertificate } : false,
+      });
+    },
+    // A batch without values may hold several statements, for which pg
+    // returns one result per statement.
+    async query(target, query, values) {
+      const results = [].concat(await target.query(query, values));
+      const resultSets = results
+        .filter(result => Array.isArray(result.fields) && result.fields.length > 0)
+        .map(result => ({ columns: result.fields.map(field => ({ name: field.name })), rows: result.rows }));
+      const [first] = resultSets;
+      return {
+        data: first ? first.rows : [],
+        rowCount: first ? first.rows.length : results.reduce((sum, result) => sum + (result.rowCount ?? 0), 0),
+        resultSets,
+        rowsAffected: results.map(result => result.rowCount ?? 0),
+      };
+    },
+    acquire: pool => pool.connect(),
+    // Issued on another pooled connection, since the client itself is busy.
+    async cancel(pool, client) {
+      await pool.query('SELECT pg_cancel_backend($1)', [client.processID]);
+    },
+    async begin(pool, isolationLevel, readOnly) {
+      const client = await pool.connect();
+      await client.query(`BEGIN ISOLATION LEVEL ${isolationFor(isolationLevel)}${readOnly ? ' READ ONLY' : ''}`);
+      return client;
+    },
+    async end(client, statement) {
+      try {
+        await client.query(statement);
+      } finally {
+        client.release();
+      }
+    },
+    close: pool => pool.end(),
+  },
+  mysql: {
+    async createPool(connection) {
+      const mysql = await loadDriver('mysql2/promise');
+      const pool = mysql.createPool({
+        host: connection.server,
+        port: connection.port,
+        database: connection.database,
+        user: connection.username,
+        password: resolvePassword(connection),
+        connectTimeout: connection.connectionTimeout,
+        ssl: connection.encrypt ? { rejectUnauthorized: !connection.trustServerCertificate } : undefined,
+      });
+      // Queued on the new connection ahead of any query the pool hands it.
+      if (connection.readOnly) {
+        pool.on('connection', session => session.query('SET SESSION TRANSACTION READ ONLY'));
+      }
+      return pool;
+    },
+    async query(target, query, values) {
+      const [result, fields] = await target.query(query, values);
+      return Array.isArray(result)
+        ? {
+            data: result,
+            rowCount: result.length,
+            resultSets: [{ columns: (fields ?? []).map(field => ({ name: field.name })), rows: result }],
+            rowsAffected: [result.length],
+          }
+        : { data: [], rowCount: result.affectedRows ?? 0, resultSets: [], rowsAffected: [result.affectedRows ?? 0] };
+    },
+    acquire: pool => pool.getConnection(),
+    async cancel(pool, client) {
+      await pool.query(`KILL QUERY ${Number(client.connection.threadId)}`);
+    },
+    async begin(pool, isolationLevel, readOnly) {
+      const client = await pool.getConnection();
+      await client.query(`SET TRANSACTION ISOLATION LEVEL ${isolationFor(isolationLevel)}`);
+      await client.query(readOnly ? 'START TRANSACTION READ ONLY' : 'START TRANSACTION');
+      return client;
+    },
+    async end(client, statement) {
+      try {
+        await client.query(statement);
+      } finally {
+        client.release();
+      }
+    },
+    close: pool => pool.end(),
+  },
+};
+
+// Words that change data, schema or permissions, or run code that might.
+// INTO covers SELECT ... INTO, and the OPEN* functions run statements on
+// linked or remote servers.
+const MSSQL_WRITE_WORDS = new Set([
+  'INSERT', 'UPDATE', 'DELETE', 'MERGE', 'TRUNCATE', 'INTO', 'UPDATETEXT', 'WRITETEXT',
+  'CREATE', 'ALTER', 'DROP', 'ENABLE', 'DISABLE', 'GRANT', 'REVOKE', 'DENY',
+  'EXEC', 'EXECUTE', 'SP_EXECUTESQL', 'OPENQUERY', 'OPENROWSET', 'OPENDATASOURCE', 'BULK',
+  'SEND', 'RECEIVE', 'DBCC', 'BACKUP', 'RESTORE', 'KILL', 'SHUTDOWN', 'RECONFIGURE',
+]);
+
+// A batch that starts with any other word may be a bare procedure call.
+const MSSQL_BATCH_STARTS = new Set(['SELECT', 'WITH', 'DECLARE', 'SET', 'IF', 'BEGIN', 'WHILE', 'PRINT', 'WAITFOR']);
+
+// String literals, quoted identifiers and comments are blanked before the
+// words are checked, so `WHERE Note = 'update'` still runs. Variables are
+// skipped as well.
+function assertReadOnlyBatch(query) {
+  const code = query.replace(/'(?:[^']|'')*'|\[(?:[^\]]|\]\])*\]|"(?:[^"]|"")*"|--[^\n]*|\/\*[\s\S]*?\*\//g, ' ');
+  const words = (code.match(/[@#]*[A-Za-z_][\w@#$]*/g) ?? [])
+    .filter(word => !word.startsWith('@'))
+    .map(word => word.toUpperCase());
+
+  if (words.length > 0 && !MSSQL_BATCH_STARTS.has(words[0])) {
+    throw new Error(`The connection is read-only; statements starting with ${words[0]} are not allowed`);
+  }
+  const write = words.find(word => MSSQL_WRITE_WORDS.has(word));
+  if (write) {
+    throw new Error(`The connection is read-only; ${write} is not allowed`);
+  }
+}
+
+function dialectOf(connection) {
+  return connection?.dialect && connection.dialect !== 'sqlserver' ? dialects[connection.dialect] : null;
+}
+
+function mssqlConfig(connection) {
+  return {
+    server: connection.server,
+    port: connection.port,
+    database: connection.database,
+    user: connection.username,
+    password: resolvePassword(connection),
+    connectionTimeout: connection.connectionTimeout,
+    requestTimeout: connection.requestTimeout,
+    options: {
+      encrypt: connection.encrypt,
+      trustServerCertificate: connection.trustServerCertificate,
+      readOnlyIntent: Boolean(connection.readOnly),
+    },
+  };
+}
+
+async function getPool(connectionId, connection) {
+  const existing = pools.get(connectionId);
+  if (existing) return existing;
+
+  const dialect = dialectOf(connection);
+  if (dialect) {
+    const connecting = dialect.createPool(connection).catch(error => {
+      pools.delete(connectionId);
+      throw error;
+    });
+    pools.set(connectionId, connecting);
+    return connecting;
+  }
+
+  if (connection?.dialect === 'sqlite') {
+    throw new Error('SQLite connections run in the browser and cannot be proxied');
+  }
+
+  const pool = new sql.ConnectionPool(mssqlConfig(connection));
+
+  const connecting = pool.connect().catch(error => {
+    pools.delete(connectionId);
+    throw error;
+  });
+  pools.set(connectionId, connecting);
+  return connecting;
+}
+
+async function createRequest(connectionId, connection) {
+  const transaction = transactions.get(connectionId);
+  if (transaction) {
+    return new sql.Request(transaction);
+  }
+  return (await getPool(connectionId, connection)).request();
+}
+
+function requireTransaction(connectionId) {
+  const transaction = transactions.get(connectionId);
+  if (!transaction) {
+    throw new Error('No transaction is active for this connection');
+  }
+  return transaction;
+}
+
+function requireSavepointName(name) {
+  if (!SAVEPOINT_NAME.test(name || '')) {
+    throw new Error(`Invalid savepoint name: ${name}`);
+  }
+  return name;
+}
+
+// Maps the browser's ParameterDescriptor onto an mssql type so values are
+// bound with an explicit type instead of one inferred from the JS value.
+function sqlTypeFor(descriptor) {
+  switch (descriptor.type) {
+    case 'NVarChar':
+      return sql.NVarChar(typeof descriptor.length === 'number' ? descriptor.length : sql.MAX);
+    case 'Int':
+      return sql.Int;
+    case 'UniqueIdentifier':
+      return sql.UniqueIdentifier;
+    case 'DateTime2':
+      return sql.DateTime2;
+    case 'Bit':
+      return sql.Bit;
+    case 'Decimal':
+      return sql.Decimal(descriptor.precision ?? 18, descriptor.scale ?? 0);
+    default:
+      throw new Error(`Unsupported parameter type: ${descriptor.type}`);
+  }
+}
+
+// Column metadata keeps the declared SQL Server type (int, nvarchar, ...) so
+// the browser can type the result grid.
+function toResultSet(recordset) {
+  const columns = Object.values(recordset.columns ?? {})
+    .sort((a, b) => a.index - b.index)
+    .map(column => ({ name: column.name, type: column.type?.declaration }));
+  return { columns, rows: [...recordset] };
+}
+
+function bindInputs(request, parameters, types) {
+  for (const [name, value] of Object.entries(parameters || {})) {
+    const descriptor = types?.[name];
+    if (!descriptor) {
+      request.input(name, value);
+    } else if (descriptor.type === 'DateTime2' && typeof value === 'string') {
+      request.input(name, sqlTypeFor(descriptor), new Date(value));
+    } else {
+      request.input(name, sqlTypeFor(descriptor), value);
+    }
+  }
+  return request;
+}
+
+async function runQuery({ connectionId, connection, query, parameters, types, values }, signal) {
+  const dialect = dialectOf(connection);
+  if (dialect) {
+    const pool = await getPool(connectionId, connection);
+    const transaction = transactions.get(connectionId);
+    const client = transaction ?? (await dialect.acquire(pool));
+    const cancel = () => dialect.cancel(pool, client).catch(() => undefined);
+    signal?.addEventListener('abort', cancel, { once: true });
+    try {
+      return await dialect.query(client, query, values ?? []);
+    } finally {
+      signal?.removeEventListener('abort', cancel);
+      if (!transaction) client.release();
+    }
+  }
+
+  if (connection?.readOnly) {
+    assertReadOnlyBatch(query);
+  }
+
+  const request = bindInputs(await createRequest(connectionId, connection), parameters, types);
+  signal?.addEventListener('abort', () => request.cancel(), { once: true });
+
+  const result = await request.query(query);
+  const recordset = result.recordset;
+
+  return {
+    data: recordset ?? [],
+    rowCount: recordset ? recordset.length : result.rowsAffected.reduce((sum, n) => sum + n, 0),
+    resultSets: (result.recordsets ?? []).map(toResultSet),
+    rowsAffected: result.rowsAffected,
+  };
+}
+
+// SHOWPLAN_XML applies to the whole session, so SQL Server plans are fetched
+// on a dedicated single-connection pool rather than a shared pooled one.
+async function explainQuery({ connectionId, connection, query, parameters, types, values }) {
+  const dialect = dialectOf(connection);
+  if (connection?.dialect === 'postgresql') {
+    const pool = await getPool(connectionId, connection);
+    const result = await pool.query(`EXPLAIN (FORMAT JSON) ${query}`, values ?? []);
+    return { plan: JSON.stringify(result.rows[0]['QUERY PLAN']) };
+  }
+  if (dialect) {
+    const pool = await getPool(connectionId, connection);
+    const [rows] = await pool.query(`EXPLAIN FORMAT=JSON ${query}`, values ?? []);
+    return { plan: rows[0].EXPLAIN };
+  }
+  if (connection?.dialect === 'sqlite') {
+    throw new Error('SQLite connections run in the browser and cannot be proxied');
+  }
+
+  const pool = await new sql.ConnectionPool({ ...mssqlConfig(connection), pool: { min: 0, max: 1 } }).connect();
+  try {
+    await pool.request().batch('SET SHOWPLAN_XML ON');
+    const result = await bindInputs(pool.request(), parameters, types).query(query);
+    const plans = (result.recordsets ?? []).map(recordset => Object.values(recordset[0] ?? {})[0]).filter(Boolean);
+    const [first, ...rest] = plans;
+    if (!first) {
+      throw new Error('SQL Server returned no execution plan');
+    }
+    // Each batch returns its own ShowPlanXML document; merge their statements.
+    return { plan: rest.length === 0 ? first : mergeShowplans(plans) };
+  } finally {
+    await pool.close();
+  }
+}
+
+function mergeShowplans(plans) {
+  const statements = plans.map(plan => plan.match(/<Statements>([\s\S]*)<\/Statements>/)?.[1] ?? '').join('');
+  return plans[0].replace(/<Statements>[\s\S]*<\/Statements>/, `<Statements>${statements}</Statements>`);
+}
+
+async function beginTransaction({ connectionId, connection, isolationLevel }) {
+  if (transactions.has(connectionId)) {
+    throw new Error('A transaction is already active for this connection');
+  }
+
+  const dialect = dialectOf(connection);
+  if (dialect) {
+    const pool = await getPool(connectionId, connection);
+    transactions.set(connectionId, await dialect.begin(pool, isolationLevel, Boolean(connection.readOnly)));
+    return {};
+  }
+
+  const transaction = new sql.Transaction(await getPool(connectionId, connection));
+  await transaction.begin(ISOLATION_LEVELS[isolationLevel] ?? sql.ISOLATION_LEVEL.READ_COMMITTED);
+  transactions.set(connectionId, transaction);
+  return {};
+}
+
+async function commitTransaction({ connectionId, connection }) {
+  const transaction = requireTransaction(connectionId);
+  transactions.delete(connectionId);
+
+  const dialect = dialectOf(connection);
+  if (dialect) {
+    await dialect.end(transaction, 'COMMIT');
+    return {};
+  }
+
+  await transaction.commit();
+  return {};
+}
+
+async function rollbackTransaction({ connectionId, connection, savepoint }) {
+  const transaction = requireTransaction(connectionId);
+  const dialect = dialectOf(connection);
+
+  if (savepoint) {
+    const name = requireSavepointName(savepoint);
+    if (dialect) {
+      await transaction.query(`ROLLBACK TO SAVEPOINT ${name}`);
+    } else {
+      await new sql.Request(transaction).batch(`ROLLBACK TRANSACTION ${name}`);
+    }
+    return {};
+  }
+
+  transactions.delete(connectionId);
+  if (dialect) {
+    await dialect.end(transaction, 'ROLLBACK');
+    return {};
+  }
+
+  await transaction.rollback();
+  return {};
+}
+
+async function createSavepoint({ connectionId, connection, name }) {
+  const transaction = requireTransaction(connectionId);
+  const savepoint = requireSavepointName(name);
+
+  if (dialectOf(connection)) {
+    await transaction.query(`SAVEPOINT ${savepoint}`);
+  } else {
+    await new sql.Request(transaction).batch(`SAVE TRANSACTION ${savepoint}`);
+  }
+  return {};
+}
+
+async function disconnect({ connectionId, connection }) {
+  const dialect = dialectOf(connection);
+  const transaction = transactions.get(connectionId);
+  transactions.delete(connectionId);
+  if (transaction) {
+    const rollingBack = dialect ? dialect.end(transaction, 'ROLLBACK') : transaction.rollback();
+    await rollingBack.catch(() => undefined);
+  }
+
+  const pool = pools.get(connectionId);
+  pools.delete(connectionId);
+  if (pool) {
+    await (dialect ? dialect.close(await pool) : (await pool).close());
+  }
+  return {};
+}
+
+const routes = {
+  '/query': runQuery,
+  '/explain': explainQuery,
+  '/transaction/begin': beginTransaction,
+  '/transaction/commit': commitTransaction,
+  '/transaction/rollback': rollbackTransaction,
+  '/transaction/savepoint': createSavepoint,
+  '/disconnect': disconnect,
+};
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function send(res, status, payload) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  });
+  res.end(payload === undefined ? '' : JSON.stringify(payload));
+}
+
+http
+  .createServer(async (req, res) => {
+    // Browsers always send Origin on cross-origin requests; tools such as
+    // curl send none and are allowed.
+    const origin = req.headers.origin;
+    if (origin && origin !== ALLOWED_ORIGIN) {
+      send(res, 403, { error: `Origin ${origin} is not allowed` });
+      return;
+    }
+
+    if (req.method === 'OPTIONS') {
+      send(res, 204);
+      return;
+    }
+
+    const handler = routes[req.url];
+    if (req.method !== 'POST' || !handler) {
+      send(res, 404, { error: `Unknown route ${req.method} ${req.url}` });
+      return;
+    }
+
+    // A closed connection before the response is written means the browser
+    // aborted the request.
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) controller.abort();
+    });
+
+    try {
+      const body = await readBody(req);
+      assertAllowedServer(body.connection);
+      send(res, 200, await handler(body, controller.signal));
+    } catch (error) {
+      send(res, 500, { error: error instanceof Error ? error.message : 'Proxy error' });
+    }
+  })
+  .listen(PORT, () => {
+    console.log(`mssql proxy listening on http://localhost:${PORT}`);
+  });
@@ -5,9 +5,11 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { CatalogManager } from '@/components/CatalogManager';
 import { TestCaseManager } from '@/components/TestCaseManager';
+import { IntegrityChecker } from '@/components/IntegrityChecker';
 import { DatabaseManager } from '@/components/DatabaseManager';
 import { QueryExecutor } from '@/components/QueryExecutor';
 import { DatabaseStatusIndicator } from '@/components/DatabaseStatusIndicator';
+import { EnvironmentBanner } from '@/components/EnvironmentBanner';
 import { DataEntryManager } from '@/components/DataEntryManager';
 import { HistoryButton } from '@/components/HistoryButton';
 import { HistoryTimeline } from '@/components/HistoryTimeline';
@@ -24,6 +26,8 @@ function App() {
 
   return (
     <div className="min-h-screen bg-background">
+        <EnvironmentBanner />
+
         {/* Header */}
         <header className="border-b bg-card">
           <div className="container mx-auto px-4 py-6">
@@ -181,6 +185,8 @@ function OverviewPanel() {
         />
       </div>
 
+      <IntegrityChecker />
+
       <div className="grid gap-6 md:grid-cols-2">
         <ValidationShowcase />
         
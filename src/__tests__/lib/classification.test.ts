@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatCustomFieldList,
+  matchesClassification,
+  normalizeClassification,
+  parseCustomFieldList,
+  parseTags,
+  removeCustomFieldValues,
+} from '@/lib/classification';
+import { Classification, CustomFieldDefinition } from '@/models/classification.model';
+import { validateClassification, validateCustomFieldDefinition } from '@/validators/classification.validator';
+
+const field = (overrides: Partial<CustomFieldDefinition>): CustomFieldDefinition => ({
+  id: `field-${overrides.key}`,
+  key: 'field',
+  label: 'Field',
+  type: 'text',
+  appliesTo: ['catalog-step', 'test-case'],
+  required: false,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+const definitions = [
+  field({ key: 'storyPoints', label: 'Story Points', type: 'number', appliesTo: ['test-case'] }),
+  field({ key: 'tier', label: 'Tier', type: 'enum', options: ['Gold', 'Silver'], required: true }),
+  field({ key: 'dueDate', label: 'Due Date', type: 'date' }),
+];
+
+describe('classification', () => {
+  it('should split tags and drop blanks and repeats', () => {
+    expect(parseTags(' smoke, Login,, SMOKE ,checkout ')).toEqual(['smoke', 'Login', 'checkout']);
+    expect(parseTags('')).toEqual([]);
+  });
+
+  it('should round-trip custom fields through their CSV form', () => {
+    const values = { storyPoints: 5, tier: 'Gold', dueDate: null };
+    const text = formatCustomFieldList(values);
+
+    expect(text).toBe('storyPoints=5; tier=Gold');
+    expect(parseCustomFieldList(text, definitions)).toEqual({ storyPoints: 5, tier: 'Gold' });
+    expect(parseCustomFieldList('storyPoints=lots; other', definitions)).toEqual({ storyPoints: 'lots', other: null });
+  });
+
+  it('should match tags, owners and custom fields case-insensitively', () => {
+    const item: Classification = {
+      tags: ['Smoke', 'payments'],
+      priority: 'high',
+      owner: 'Billing',
+      customFields: { tier: 'Gold', storyPoints: 3 },
+    };
+
+    expect(matchesClassification(item, { tag: 'smoke', owner: 'billing' })).toBe(true);
+    expect(matchesClassification(item, { priority: 'high', customFields: { tier: 'gold', storyPoints: '3' } })).toBe(true);
+    expect(matchesClassification(item, { priority: 'low' })).toBe(false);
+    expect(matchesClassification(item, { tag: 'smo' })).toBe(false);
+    expect(matchesClassification(item, { customFields: { tier: 'Silver' } })).toBe(false);
+    expect(matchesClassification({}, {})).toBe(true);
+  });
+
+  it('should trim owners and drop empty values before saving', () => {
+    expect(normalizeClassification({ owner: '  ', customFields: { tier: 'Gold', dueDate: '', storyPoints: null } })).toEqual({
+      tags: [],
+      priority: undefined,
+      owner: undefined,
+      customFields: { tier: 'Gold' },
+    });
+  });
+
+  it('should remove the values of a deleted field and keep other items as they are', () => {
+    const items = [{ id: 'a', customFields: { tier: 'Gold', storyPoints: 1 } }, { id: 'b' }];
+    const result = removeCustomFieldValues(items, 'tier');
+
+    expect(result[0].customFields).toEqual({ storyPoints: 1 });
+    expect(result[1]).toBe(items[1]);
+    expect(items[0].customFields).toHaveProperty('tier');
+  });
+
+  it('should validate classification against the fields of the target', () => {
+    expect(validateClassification({ tags: ['smoke'], priority: 'high', customFields: { tier: 'Gold' } }, definitions, 'catalog-step').isValid).toBe(true);
+    expect(validateClassification({ customFields: { tier: 'Bronze' } }, definitions, 'catalog-step').error).toBe(
+      'Tier must be one of Gold, Silver'
+    );
+    expect(validateClassification({ customFields: { tier: 'Gold', storyPoints: 2 } }, definitions, 'catalog-step').error).toBe(
+      'storyPoints is not a custom field of catalog steps'
+    );
+    expect(validateClassification({ customFields: { dueDate: '2026-13-45' } }, definitions, 'test-case').error).toBe(
+      'Due Date expected a date (YYYY-MM-DD); Tier is required'
+    );
+    expect(validateClassification({ tags: ['smoke', 'Smoke'] }, [], 'test-case').error).toBe('Tag "Smoke" is listed more than once');
+    expect(validateClassification({ tags: ['#smoke'] }, [], 'test-case').isValid).toBe(false);
+    expect(validateClassification({ priority: 'urgent' as never }, [], 'test-case').error).toBe('Unknown priority "urgent"');
+  });
+
+  it('should validate custom field definitions', () => {
+    expect(validateCustomFieldDefinition({ key: 'owner2', label: 'Backup owner', type: 'text', appliesTo: ['test-case'] }, definitions).isValid).toBe(true);
+    expect(validateCustomFieldDefinition({ key: 'tier', label: 'Level', type: 'text', appliesTo: ['test-case'] }, definitions).isValid).toBe(false);
+    expect(validateCustomFieldDefinition({ key: 'tier', label: 'Tier', type: 'enum', appliesTo: ['test-case'], options: ['Gold'] }, definitions, 'field-tier').isValid).toBe(true);
+    expect(validateCustomFieldDefinition({ key: 'Story Points', label: 'Story Points', type: 'number', appliesTo: ['test-case'] }, []).isValid).toBe(false);
+    expect(validateCustomFieldDefinition({ key: 'level', label: 'Level', type: 'text', appliesTo: [] }, []).error).toBe(
+      'Choose catalog steps, test cases or both'
+    );
+    expect(validateCustomFieldDefinition({ key: 'level', label: 'Level', type: 'enum', appliesTo: ['test-case'], options: ['A', 'a'] }, []).error).toBe(
+      'Options must be unique'
+    );
+  });
+});
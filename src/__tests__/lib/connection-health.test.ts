@@ -0,0 +1,139 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { dbService } from '@/lib/db-service';
+import { EmbeddedSqlDriver } from '@/lib/embedded-sql-driver';
+import { DatabaseConnection, DatabaseDriver } from '@/lib/db-types';
+import {
+  ConnectionMonitor,
+  DEFAULT_RECONNECT_POLICY,
+  getBackoffDelay,
+  testConnection,
+} from '@/lib/connection-health';
+
+const connection: DatabaseConnection = {
+  id: 'conn-1',
+  name: 'Local',
+  server: 'localhost',
+  port: 0,
+  database: 'TestCaseManagement',
+  username: '',
+  encrypt: false,
+  trustServerCertificate: false,
+  connectionTimeout: 1000,
+  requestTimeout: 1000,
+  driver: 'embedded',
+  isActive: true,
+  createdAt: new Date(),
+};
+
+function brokenDriver(connect: () => Promise<void> = async () => undefined): DatabaseDriver {
+  const fail = async () => {
+    throw new Error('Connection reset');
+  };
+  return {
+    type: 'mssql-proxy',
+    dialect: 'sqlserver',
+    connect,
+    disconnect: async () => undefined,
+    execute: fail,
+    beginTransaction: fail,
+    commitTransaction: fail,
+    rollbackTransaction: fail,
+    createSavepoint: fail,
+    rollbackToSavepoint: fail,
+  };
+}
+
+describe('getBackoffDelay', () => {
+  const policy = { ...DEFAULT_RECONNECT_POLICY, jitter: 0 };
+
+  it('should double the delay for each attempt up to the maximum', () => {
+    expect([0, 1, 2, 3].map(attempt => getBackoffDelay(attempt, policy))).toEqual([1000, 2000, 4000, 8000]);
+    expect(getBackoffDelay(20, policy)).toBe(policy.maxDelayMs);
+  });
+
+  it('should spread the delay by the jitter ratio', () => {
+    const jittered = { ...policy, jitter: 0.2 };
+
+    expect(getBackoffDelay(1, jittered, () => 0)).toBe(1600);
+    expect(getBackoffDelay(1, jittered, () => 1)).toBe(2400);
+  });
+});
+
+describe('testConnection', () => {
+  it('should report latency, server version and permissions', async () => {
+    const result = await testConnection(connection, new EmbeddedSqlDriver());
+
+    expect(result.success).toBe(true);
+    expect(result.latencyMs).toBeGreaterThanOrEqual(0);
+    expect(result.serverVersion).toMatch(/^\d+\.\d+/);
+    expect(result.permissions).toEqual({ canRead: true, canWrite: true, canAlterSchema: true });
+  });
+
+  it('should report probe failures', async () => {
+    const result = await testConnection(connection, brokenDriver());
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Connection reset');
+  });
+
+  it('should give up after the connection timeout', async () => {
+    const hanging = brokenDriver(() => new Promise(() => undefined));
+    const result = await testConnection({ ...connection, connectionTimeout: 20 }, hanging);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Connection timed out after 20ms');
+  });
+});
+
+describe('ConnectionMonitor', () => {
+  let monitor: ConnectionMonitor;
+
+  afterEach(() => {
+    monitor?.stop();
+    dbService.setDriver(null);
+  });
+
+  it('should record a healthy heartbeat as the last connection time', async () => {
+    dbService.setDriver(new EmbeddedSqlDriver());
+    monitor = new ConnectionMonitor({ heartbeatIntervalMs: 60000 });
+    const seen: string[] = [];
+    monitor.subscribe(health => seen.push(health.status));
+
+    monitor.start(connection);
+    const health = await monitor.checkNow();
+
+    expect(health.status).toBe('connected');
+    expect(health.connectionId).toBe('conn-1');
+    expect(health.lastConnected).toBeInstanceOf(Date);
+    expect(seen).toContain('connected');
+  });
+
+  it('should mark slow heartbeats as degraded', async () => {
+    dbService.setDriver(new EmbeddedSqlDriver());
+    monitor = new ConnectionMonitor({ heartbeatIntervalMs: 60000, degradedLatencyMs: -1 });
+
+    monitor.start(connection);
+
+    expect((await monitor.checkNow()).status).toBe('degraded');
+  });
+
+  it('should schedule reconnects with backoff and give up after the last attempt', async () => {
+    dbService.setDriver(brokenDriver());
+    monitor = new ConnectionMonitor({
+      heartbeatIntervalMs: 60000,
+      reconnect: { ...DEFAULT_RECONNECT_POLICY, maxAttempts: 1, initialDelayMs: 60000, jitter: 0 },
+    });
+
+    monitor.start(connection);
+    const first = await monitor.checkNow();
+
+    expect(first.status).toBe('reconnecting');
+    expect(first.reconnectAttempt).toBe(1);
+    expect(first.error).toBe('Connection reset');
+    expect(first.nextRetryAt!.getTime() - Date.now()).toBeGreaterThan(50000);
+
+    const second = await monitor.checkNow();
+    expect(second.status).toBe('disconnected');
+    expect(second.nextRetryAt).toBeUndefined();
+  });
+});
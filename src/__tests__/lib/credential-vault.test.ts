@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { CredentialVault, decryptSecret, encryptSecret } from '@/lib/credential-vault';
+
+describe('encryptSecret', () => {
+  it('should decrypt with the same passphrase', async () => {
+    const secret = await encryptSecret('s3cret', 'correct horse');
+
+    expect(secret.ciphertext).not.toContain('s3cret');
+    expect(await decryptSecret(secret, 'correct horse')).toBe('s3cret');
+  });
+
+  it('should use a fresh salt and IV for every secret', async () => {
+    const first = await encryptSecret('s3cret', 'correct horse');
+    const second = await encryptSecret('s3cret', 'correct horse');
+
+    expect(first.salt).not.toBe(second.salt);
+    expect(first.iv).not.toBe(second.iv);
+    expect(first.ciphertext).not.toBe(second.ciphertext);
+  });
+
+  it('should reject a wrong passphrase', async () => {
+    const secret = await encryptSecret('s3cret', 'correct horse');
+
+    await expect(decryptSecret(secret, 'battery staple')).rejects.toThrow('The passphrase is incorrect');
+  });
+});
+
+describe('CredentialVault', () => {
+  it('should require unlocking before encrypting or decrypting', async () => {
+    const vault = new CredentialVault();
+
+    expect(vault.isUnlocked()).toBe(false);
+    await expect(vault.encrypt('s3cret')).rejects.toThrow('Unlock saved credentials');
+  });
+
+  it('should verify the passphrase against an existing secret', async () => {
+    const secret = await encryptSecret('s3cret', 'correct horse');
+    const vault = new CredentialVault();
+
+    await expect(vault.unlock('battery staple', secret)).rejects.toThrow('The passphrase is incorrect');
+    expect(vault.isUnlocked()).toBe(false);
+
+    await vault.unlock('correct horse', secret);
+    expect(await vault.decrypt(secret)).toBe('s3cret');
+
+    vault.lock();
+    await expect(vault.decrypt(secret)).rejects.toThrow('Unlock saved credentials');
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { buildDataFlow, DataFlowStep, remapStepReferences } from '@/lib/data-flow';
+import { parseStepReference } from '@/lib/step-parameters';
+import { validateDataFlow, validateMembershipArguments } from '@/validators/testcase.validator';
+
+const step = (
+  id: string,
+  processOrder: number,
+  args: DataFlowStep['membership']['arguments'],
+  catalogStep: DataFlowStep['catalogStep']
+): DataFlowStep => ({ membership: { id, processOrder, arguments: args }, catalogStep });
+
+const createOrder = { name: 'Create Order', outputs: [{ name: 'orderId', type: 'integer' as const }] };
+const verifyOrder = {
+  name: 'Verify Order',
+  parameters: [{ name: 'orderId', type: 'integer' as const, required: true }],
+};
+
+describe('data flow', () => {
+  it('should parse step references and ignore other text', () => {
+    expect(parseStepReference('${step2.orderId}')).toEqual({ processOrder: 2, outputName: 'orderId' });
+    expect(parseStepReference('step2.orderId')).toBeNull();
+    expect(parseStepReference(42)).toBeNull();
+  });
+
+  it('should link arguments to the outputs of earlier steps', () => {
+    const edges = buildDataFlow([
+      step('m1', 1, {}, createOrder),
+      step('m2', 2, { orderId: '${step1.orderId}' }, verifyOrder),
+    ]);
+
+    expect(edges).toEqual([
+      {
+        membershipId: 'm2',
+        processOrder: 2,
+        stepName: 'Verify Order',
+        parameterName: 'orderId',
+        source: { processOrder: 1, outputName: 'orderId' },
+        sourceStepName: 'Create Order',
+      },
+    ]);
+  });
+
+  it('should flag references to later, missing or mistyped outputs', () => {
+    const issues = (args: Record<string, string>, producer: DataFlowStep['catalogStep'] = createOrder) =>
+      buildDataFlow([step('m1', 1, {}, producer), step('m2', 2, args, verifyOrder), step('m3', 3, {}, createOrder)])
+        .map(edge => edge.issue);
+
+    expect(issues({ orderId: '${step3.orderId}' })).toEqual(['step 3 does not run before step 2']);
+    expect(issues({ orderId: '${step2.orderId}' })).toEqual(['step 2 does not run before step 2']);
+    expect(issues({ orderId: '${step7.orderId}' })).toEqual(['step 7 does not exist']);
+    expect(issues({ orderId: '${step1.total}' })).toEqual(['step 1 has no output named total']);
+    expect(issues({ orderId: '${step1.orderId}' }, { name: 'Create Order', outputs: [{ name: 'orderId', type: 'string' }] }))
+      .toEqual(['${step1.orderId} is Text but orderId expects Integer']);
+  });
+
+  it('should report broken bindings per membership', () => {
+    const steps = [step('m1', 1, { orderId: '${step2.orderId}' }, verifyOrder), step('m2', 2, {}, createOrder)];
+
+    const results = validateDataFlow(steps);
+
+    expect([...results.keys()]).toEqual(['m1']);
+    expect(results.get('m1')?.error).toBe('orderId: step 2 does not run before step 1');
+    expect(validateMembershipArguments(verifyOrder.parameters, { orderId: '${step2.orderId}' }).isValid).toBe(true);
+  });
+
+  it('should renumber references and drop bindings to removed steps', () => {
+    const remapped = remapStepReferences(
+      { orderId: '${step3.orderId}', customerId: '${step1.customerId}', note: 'literal' },
+      new Map([[2, 1], [3, 2]])
+    );
+
+    expect(remapped).toEqual({ orderId: '${step2.orderId}', note: 'literal' });
+  });
+});
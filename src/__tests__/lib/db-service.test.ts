@@ -0,0 +1,234 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { dbService, CatalogStepQueries, TestCaseQueries, MembershipQueries } from '@/lib/db-service';
+import { EmbeddedSqlDriver } from '@/lib/embedded-sql-driver';
+import { toSqliteDialect } from '@/lib/sql-dialect';
+
+describe('DatabaseService', () => {
+  beforeEach(() => {
+    dbService.setDriver(new EmbeddedSqlDriver());
+  });
+
+  afterEach(() => {
+    dbService.setDriver(null);
+  });
+
+  describe('executeQuery', () => {
+    it('should fail when no driver is configured', async () => {
+      dbService.setDriver(null);
+      const result = await dbService.executeQuery(CatalogStepQueries.getAll());
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('No active database connection');
+    });
+
+    it('should return real rows and row counts from the embedded engine', async () => {
+      const insert = await dbService.executeQuery(
+        CatalogStepQueries.insert({
+          id: 'step-001',
+          name: 'Login',
+          description: 'Log into the application',
+          javaClass: 'com.example.Auth',
+          javaMethod: 'login',
+          sqlTables: ['users'],
+        })
+      );
+      expect(insert.success).toBe(true);
+      expect(insert.rowCount).toBe(1);
+
+      const result = await dbService.executeQuery<any[]>(CatalogStepQueries.getById('step-001'));
+      expect(result.success).toBe(true);
+      expect(result.rowCount).toBe(1);
+      expect(result.data?.[0].Name).toBe('Login');
+      expect(JSON.parse(result.data?.[0].SqlTables)).toEqual(['users']);
+    });
+
+    it('should join test cases with their ordered steps', async () => {
+      await dbService.executeQuery(TestCaseQueries.insert({ id: 'TC-001', name: 'Checkout', description: 'Checkout flow' }));
+      for (const [id, name] of [['s1', 'Open cart'], ['s2', 'Pay']]) {
+        await dbService.executeQuery(
+          CatalogStepQueries.insert({ id, name, description: name, javaClass: 'Cart', javaMethod: 'run', sqlTables: [] })
+        );
+      }
+      await dbService.executeQuery(MembershipQueries.insert({ id: 'm2', testCaseId: 'TC-001', catalogStepId: 's2', processOrder: 2 }));
+      await dbService.executeQuery(MembershipQueries.insert({ id: 'm1', testCaseId: 'TC-001', catalogStepId: 's1', processOrder: 1 }));
+
+      const result = await dbService.executeQuery<any[]>(TestCaseQueries.getWithSteps('TC-001'));
+
+      expect(result.rowCount).toBe(2);
+      expect(result.data?.map(row => row.StepName)).toEqual(['Open cart', 'Pay']);
+    });
+
+    it('should report the number of rows affected by updates', async () => {
+      await dbService.executeQuery(TestCaseQueries.insert({ id: 'TC-001', name: 'A', description: 'A' }));
+      await dbService.executeQuery(TestCaseQueries.insert({ id: 'TC-002', name: 'B', description: 'B' }));
+
+      const result = await dbService.executeQuery({
+        query: 'UPDATE TestCases SET Description = @description',
+        parameters: { description: 'changed' },
+      });
+
+      expect(result.rowCount).toBe(2);
+    });
+
+    it('should surface engine errors as failed results', async () => {
+      const result = await dbService.executeQuery({ query: 'SELECT * FROM MissingTable', parameters: {} });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('no such table');
+    });
+  });
+});
+
+describe('DatabaseService transactions', () => {
+  const countRows = async (table: string) => {
+    const result = await dbService.executeQuery<any[]>({ query: `SELECT COUNT(*) AS Total FROM ${table}`, parameters: {} });
+    return result.data?.[0].Total;
+  };
+
+  const seedTestCase = async () => {
+    await dbService.executeQuery(TestCaseQueries.insert({ id: 'TC-001', name: 'Checkout', description: 'Checkout flow' }));
+    for (const id of ['s1', 's2', 's3']) {
+      await dbService.executeQuery(
+        CatalogStepQueries.insert({ id, name: id, description: id, javaClass: 'Cart', javaMethod: 'run', sqlTables: [] })
+      );
+    }
+    await dbService.executeQuery(MembershipQueries.insert({ id: 'm1', testCaseId: 'TC-001', catalogStepId: 's1', processOrder: 1 }));
+    await dbService.executeQuery(MembershipQueries.insert({ id: 'm2', testCaseId: 'TC-001', catalogStepId: 's2', processOrder: 2 }));
+    await dbService.executeQuery(MembershipQueries.insert({ id: 'm3', testCaseId: 'TC-001', catalogStepId: 's3', processOrder: 3 }));
+  };
+
+  const readOrders = async () => {
+    const result = await dbService.executeQuery<any[]>(MembershipQueries.getByTestCase('TC-001'));
+    return result.data?.map(row => `${row.Id}:${row.ProcessOrder}`);
+  };
+
+  beforeEach(async () => {
+    dbService.setDriver(new EmbeddedSqlDriver());
+    await seedTestCase();
+  });
+
+  afterEach(() => {
+    dbService.setDriver(null);
+  });
+
+  it('should commit all statements and report per-statement results', async () => {
+    const result = await dbService.executeTransaction(
+      MembershipQueries.bulkUpdateOrder([
+        { id: 'm1', processOrder: 2 },
+        { id: 'm2', processOrder: 1 },
+      ]),
+      { isolationLevel: 'SERIALIZABLE' }
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.affectedRows).toBe(4);
+    expect(result.statements.every(s => s.status === 'committed')).toBe(true);
+    expect(result.isolationLevel).toBe('SERIALIZABLE');
+    expect(await readOrders()).toEqual(['m2:1', 'm1:2', 'm3:3']);
+  });
+
+  it('should roll back earlier statements when a later one fails', async () => {
+    const result = await dbService.executeTransaction([
+      ...MembershipQueries.bulkUpdateOrder([{ id: 'm1', processOrder: 9 }]),
+      { query: 'UPDATE TestStepMemberships SET ProcessOrder = 3 WHERE Id = @id', parameters: { id: 'm2' } },
+      TestCaseQueries.delete('TC-001'),
+    ]);
+
+    expect(result.success).toBe(false);
+    expect(result.affectedRows).toBe(0);
+    expect(result.error).toContain('Statement 3 failed');
+    expect(result.statements.map(s => s.status)).toEqual(['rolled-back', 'rolled-back', 'failed', 'skipped']);
+    expect(await readOrders()).toEqual(['m1:1', 'm2:2', 'm3:3']);
+    expect(await countRows('TestCases')).toBe(1);
+  });
+
+  it('should roll back to a named savepoint and continue', async () => {
+    const result = await dbService.executeTransaction([
+      MembershipQueries.delete('m3'),
+      {
+        query: 'UPDATE TestStepMemberships SET ProcessOrder = 1 WHERE Id = @id',
+        parameters: { id: 'm2' },
+        savepoint: 'before_conflict',
+        continueOnError: true,
+      },
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.statements[1].status).toBe('rolled-back');
+    expect(result.statements[1].savepoint).toBe('before_conflict');
+    expect(await readOrders()).toEqual(['m1:1', 'm2:2']);
+  });
+
+  it('should reject unsafe savepoint names', async () => {
+    const result = await dbService.executeTransaction([
+      { ...MembershipQueries.delete('m1'), savepoint: 'x; DROP TABLE TestCases' },
+    ]);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Invalid savepoint name');
+    expect(await countRows('TestStepMemberships')).toBe(3);
+  });
+
+  it('should cascade test case deletes atomically through runInTransaction', async () => {
+    await dbService.runInTransaction(async tx => {
+      await tx.execute(MembershipQueries.deleteByTestCase('TC-001'));
+      await tx.execute(TestCaseQueries.delete('TC-001'));
+    });
+
+    expect(await countRows('TestCases')).toBe(0);
+    expect(await countRows('TestStepMemberships')).toBe(0);
+  });
+
+  it('should commit a previewed write only when confirmed', async () => {
+    const update = { query: 'UPDATE TestStepMemberships SET ProcessOrder = ProcessOrder + 10', parameters: {} };
+    const previews: number[][] = [];
+
+    const declined = await dbService.executeWithPreview(update, async preview => {
+      previews.push(preview.rowsAffected ?? []);
+      return false;
+    });
+    expect(declined).toMatchObject({ success: false, errorCode: 'cancelled' });
+    expect(await readOrders()).toEqual(['m1:1', 'm2:2', 'm3:3']);
+
+    const committed = await dbService.executeWithPreview(update, async preview => {
+      previews.push(preview.rowsAffected ?? []);
+      return true;
+    });
+    expect(committed).toMatchObject({ success: true, rowCount: 3 });
+    expect(await readOrders()).toEqual(['m1:11', 'm2:12', 'm3:13']);
+    expect(previews).toEqual([[3], [3]]);
+  });
+
+  it('should roll back a previewed write that is not answered in time', async () => {
+    const update = { query: 'UPDATE TestStepMemberships SET ProcessOrder = ProcessOrder + 10', parameters: {} };
+    let aborted = false;
+
+    const result = await dbService.executeWithPreview(
+      update,
+      (_preview, signal) =>
+        new Promise<boolean>(() => signal.addEventListener('abort', () => (aborted = true))),
+      { timeout: 20 }
+    );
+
+    expect(result).toMatchObject({ success: false, errorCode: 'timeout' });
+    expect(aborted).toBe(true);
+    expect(await readOrders()).toEqual(['m1:1', 'm2:2', 'm3:3']);
+  });
+});
+
+describe('toSqliteDialect', () => {
+  it('should rewrite TOP into LIMIT', () => {
+    const translated = toSqliteDialect('SELECT TOP (@limit) * FROM TestCases');
+    expect(translated).toMatch(/^SELECT \* FROM TestCases\s+LIMIT @limit$/);
+  });
+
+  it('should rewrite OFFSET/FETCH into LIMIT/OFFSET', () => {
+    const translated = toSqliteDialect('SELECT * FROM TestCases ORDER BY Id OFFSET @offset ROWS FETCH NEXT @fetch ROWS ONLY');
+    expect(translated).toBe('SELECT * FROM TestCases ORDER BY Id LIMIT @fetch OFFSET @offset');
+  });
+
+  it('should map NVARCHAR(MAX) and function defaults', () => {
+    const translated = toSqliteDialect('Description NVARCHAR(MAX), CreatedAt DATETIME2 DEFAULT GETUTCDATE()');
+    expect(translated).toBe('Description TEXT, CreatedAt DATETIME2 DEFAULT (GETUTCDATE())');
+  });
+});
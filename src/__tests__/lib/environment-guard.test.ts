@@ -0,0 +1,121 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { dbService } from '@/lib/db-service';
+import { EmbeddedSqlDriver } from '@/lib/embedded-sql-driver';
+import { DatabaseConnection } from '@/lib/db-types';
+import { tableSchemaService } from '@/lib/table-schema-service';
+import {
+  guardStatement,
+  isConfirmed,
+  isDestructiveStatement,
+  isWriteStatement,
+} from '@/lib/environment-guard';
+
+const connection: DatabaseConnection = {
+  id: 'conn-1',
+  name: 'Prod DB',
+  server: 'localhost',
+  port: 0,
+  database: 'TestCaseManagement',
+  username: '',
+  encrypt: false,
+  trustServerCertificate: false,
+  connectionTimeout: 1000,
+  requestTimeout: 1000,
+  driver: 'embedded',
+  isActive: true,
+  createdAt: new Date(),
+};
+
+describe('statement detection', () => {
+  it('should recognise write and destructive statements', () => {
+    expect(isWriteStatement('INSERT INTO TestCases (Id) VALUES (@id)')).toBe(true);
+    expect(isWriteStatement('SELECT * INTO #copy FROM TestCases')).toBe(true);
+    expect(isWriteStatement('SELECT * FROM TestCases')).toBe(false);
+    expect(isWriteStatement('CALL purge_runs()')).toBe(true);
+    expect(isWriteStatement("BACKUP DATABASE Tests TO DISK = 'tests.bak'")).toBe(true);
+    expect(isWriteStatement("xp_cmdshell 'dir'")).toBe(true);
+
+    expect(isDestructiveStatement('delete from TestCases where Id = @id')).toBe(true);
+    expect(isDestructiveStatement('TRUNCATE TABLE CatalogSteps')).toBe(true);
+    expect(isDestructiveStatement('INSERT INTO TestCases (Id) VALUES (@id)')).toBe(false);
+  });
+
+  it('should ignore keywords inside literals, quoted identifiers and comments', () => {
+    expect(isWriteStatement("SELECT 'DROP TABLE TestCases' AS Text")).toBe(false);
+    expect(isWriteStatement('SELECT [Update], "Delete" FROM Audit')).toBe(false);
+    expect(isDestructiveStatement('-- DELETE later\nSELECT 1 /* TRUNCATE */')).toBe(false);
+  });
+});
+
+describe('guardStatement', () => {
+  it('should allow everything on unprotected environments', () => {
+    const guard = guardStatement({ ...connection, environment: 'qa' }, 'DELETE FROM TestCases');
+
+    expect(guard).toEqual({ allowed: true, requiresConfirmation: false });
+  });
+
+  it('should require the connection name for destructive statements on production', () => {
+    const production = { ...connection, environment: 'production' as const };
+    const guard = guardStatement(production, 'DELETE FROM TestCases');
+
+    expect(guard.requiresConfirmation).toBe(true);
+    expect(guard.confirmationText).toBe('Prod DB');
+    expect(isConfirmed(guard, 'prod db')).toBe(false);
+    expect(isConfirmed(guard, 'Prod DB')).toBe(true);
+    expect(guardStatement(production, 'SELECT * FROM TestCases').requiresConfirmation).toBe(false);
+  });
+
+  it('should reject writes on read-only connections', () => {
+    const guard = guardStatement({ ...connection, readOnly: true }, 'UPDATE TestCases SET Name = @name');
+
+    expect(guard.allowed).toBe(false);
+    expect(guard.reason).toBe('Prod DB is read-only: write statements are not allowed');
+  });
+});
+
+describe('guarded execution', () => {
+  const activate = async (overrides: Partial<DatabaseConnection>) => {
+    dbService.setActiveConnection({ ...connection, ...overrides });
+    dbService.setDriver(new EmbeddedSqlDriver());
+    await dbService.executeQuery({
+      query: `INSERT INTO TestCases (Id, Name, Description) VALUES ('tc-1', 'Login', 'Checks login')`,
+      parameters: {},
+    });
+  };
+
+  afterEach(() => {
+    dbService.setActiveConnection(null);
+  });
+
+  it('should refuse writes through dbService on read-only connections', async () => {
+    await activate({ readOnly: true });
+
+    const write = await dbService.executeQuery({ query: 'DELETE FROM TestCases', parameters: {} });
+    const read = await dbService.executeQuery({ query: 'SELECT COUNT(*) AS Total FROM TestCases', parameters: {} });
+
+    expect(write.success).toBe(false);
+    expect(write.error).toContain('read-only');
+    expect(read.success).toBe(true);
+  });
+
+  it('should have the embedded database reject writes on read-only connections', async () => {
+    const driver = new EmbeddedSqlDriver();
+    await driver.connect({ ...connection, readOnly: true });
+
+    await expect(driver.execute({ query: 'DELETE FROM TestCases', parameters: {} })).rejects.toThrow(/readonly/i);
+    await expect(driver.execute({ query: 'SELECT COUNT(*) AS Total FROM TestCases', parameters: {} })).resolves.toBeTruthy();
+    await driver.disconnect();
+  });
+
+  it('should only delete rows on production once the connection name is typed', async () => {
+    await activate({ environment: 'production' });
+
+    const unconfirmed = await tableSchemaService.deleteRow('TestCases', 'Id', 'tc-1');
+    expect(unconfirmed.success).toBe(false);
+    expect(unconfirmed.error).toContain('Type "Prod DB" to confirm the delete');
+
+    const confirmed = await tableSchemaService.deleteRow('TestCases', 'Id', 'tc-1', 'Prod DB');
+    expect(confirmed.success).toBe(true);
+    expect(confirmed.rowCount).toBe(1);
+  });
+});
@@ -1,7 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { ImportExportService } from '@/lib/import-export-service';
-import { CatalogStep, TestCase, TestStepMembership } from '@/lib/types';
+import { CatalogStep, TestCase, TestFolder, TestStepMembership, TestSuite } from '@/lib/types';
 import { ColumnMapping } from '@/lib/import-export-types';
+import type { ParseLocalConfig } from 'papaparse';
 
 vi.mock('papaparse', () => ({
   default: {
@@ -10,6 +11,25 @@ vi.mock('papaparse', () => ({
   },
 }));
 
+type CsvRow = Record<string, string>;
+
+// Papa.parse is overloaded; the service only uses the local-file form, so the
+// mock is typed against that signature alone.
+const mockParsedRows = async (rows: CsvRow[]) => {
+  const Papa = (await import('papaparse')).default;
+  const parseLocalFile = Papa.parse as (file: File, config: ParseLocalConfig<CsvRow, File>) => void;
+  vi.mocked(parseLocalFile).mockImplementation((file, config) => {
+    config.complete?.(
+      {
+        data: rows,
+        errors: [],
+        meta: { delimiter: ',', linebreak: '\n', aborted: false, truncated: false, cursor: 0, fields: Object.keys(rows[0] ?? {}) },
+      },
+      file
+    );
+  });
+};
+
 describe('ImportExportService', () => {
   let service: ImportExportService;
 
@@ -86,6 +106,8 @@ describe('ImportExportService', () => {
         catalogSteps: [] as CatalogStep[],
         testCases: [] as TestCase[],
         memberships: [] as TestStepMembership[],
+        folders: [] as TestFolder[],
+        suites: [] as TestSuite[],
       };
 
       const mappings: ColumnMapping[] = [
@@ -125,6 +147,8 @@ describe('ImportExportService', () => {
         catalogSteps: [] as CatalogStep[],
         testCases: [] as TestCase[],
         memberships: [] as TestStepMembership[],
+        folders: [] as TestFolder[],
+        suites: [] as TestSuite[],
       };
 
       const mappings: ColumnMapping[] = [
@@ -161,6 +185,8 @@ describe('ImportExportService', () => {
         catalogSteps: [] as CatalogStep[],
         testCases: [] as TestCase[],
         memberships: [] as TestStepMembership[],
+        folders: [] as TestFolder[],
+        suites: [] as TestSuite[],
       };
 
       const mappings: ColumnMapping[] = [
@@ -177,6 +203,80 @@ describe('ImportExportService', () => {
       expect(existingData.memberships[0].processOrder).toBe(1);
     });
 
+    it('should import suites with their test cases in run order', async () => {
+      const mockFile = new File(['test'], 'test.csv', { type: 'text/csv' });
+      await mockParsedRows([
+        { id: 'suite-1', name: 'Smoke', testCaseIds: 'TC-003, TC-001' },
+        { id: 'suite-2', name: 'Empty', testCaseIds: '' },
+      ]);
+
+      const existingData = {
+        catalogSteps: [] as CatalogStep[],
+        testCases: [] as TestCase[],
+        memberships: [] as TestStepMembership[],
+        folders: [] as TestFolder[],
+        suites: [] as TestSuite[],
+      };
+
+      const mappings: ColumnMapping[] = [
+        { sourceColumn: 'id', targetTable: 'test-suites', targetField: 'id' },
+        { sourceColumn: 'name', targetTable: 'test-suites', targetField: 'name' },
+        { sourceColumn: 'testCaseIds', targetTable: 'test-suites', targetField: 'testCaseIds' },
+      ];
+
+      const result = await service.importData(mockFile, mappings, existingData);
+      expect(result.imported).toBe(1);
+      expect(existingData.suites).toHaveLength(1);
+      expect(existingData.suites[0].testCaseIds).toEqual(['TC-003', 'TC-001']);
+      expect(existingData.suites[0].description).toBe('');
+    });
+
+    it('should import tags, priorities, owners and custom fields and reject invalid values', async () => {
+      const mockFile = new File(['test'], 'test.csv', { type: 'text/csv' });
+      await mockParsedRows([
+        { id: 'TC-1', name: 'Pay', description: 'Pay', tags: 'smoke, Smoke, payments', priority: 'High', owner: ' Billing ', customFields: 'storyPoints=5' },
+        { id: 'TC-2', name: 'Refund', description: 'Refund', priority: 'urgent' },
+        { id: 'TC-3', name: 'Void', description: 'Void', customFields: 'storyPoints=many' },
+      ]);
+
+      const now = new Date();
+      const existingData = {
+        catalogSteps: [] as CatalogStep[],
+        testCases: [] as TestCase[],
+        memberships: [] as TestStepMembership[],
+        folders: [] as TestFolder[],
+        suites: [] as TestSuite[],
+        customFields: [
+          { id: 'f1', key: 'storyPoints', label: 'Story Points', type: 'number' as const, appliesTo: ['test-case' as const], required: false, createdAt: now, updatedAt: now },
+        ],
+      };
+
+      const mappings: ColumnMapping[] = ['id', 'name', 'description', 'tags', 'priority', 'owner', 'customFields'].map(field => ({
+        sourceColumn: field,
+        targetTable: 'test-cases',
+        targetField: field,
+      }));
+
+      const result = await service.importData(mockFile, mappings, existingData);
+      expect(result.imported).toBe(1);
+      expect(result.errors).toEqual([
+        'Row 2: Unknown priority "urgent"',
+        'Row 3: Story Points expected a number',
+      ]);
+      expect(existingData.testCases[0]).toMatchObject({
+        tags: ['smoke', 'payments'],
+        priority: 'high',
+        owner: 'Billing',
+        customFields: { storyPoints: 5 },
+      });
+      expect(service.toExportRows('test-cases', existingData.testCases)[0]).toMatchObject({
+        tags: 'smoke, payments',
+        priority: 'high',
+        owner: 'Billing',
+        customFields: 'storyPoints=5',
+      });
+    });
+
     it('should handle import errors gracefully', async () => {
       const mockFile = new File(['test'], 'test.csv', { type: 'text/csv' });
       const Papa = (await import('papaparse')).default;
@@ -196,6 +296,8 @@ describe('ImportExportService', () => {
         catalogSteps: [] as CatalogStep[],
         testCases: [] as TestCase[],
         memberships: [] as TestStepMembership[],
+        folders: [] as TestFolder[],
+        suites: [] as TestSuite[],
       };
 
       const mappings: ColumnMapping[] = [
@@ -226,6 +328,8 @@ describe('ImportExportService', () => {
         catalogSteps: [] as CatalogStep[],
         testCases: [] as TestCase[],
         memberships: [] as TestStepMembership[],
+        folders: [] as TestFolder[],
+        suites: [] as TestSuite[],
       };
 
       const mappings: ColumnMapping[] = [
@@ -280,6 +384,22 @@ describe('ImportExportService', () => {
       removeChildSpy.mockRestore();
     });
 
+    it('should flatten folders, suites and test case folders into importable rows', () => {
+      const now = new Date();
+      const folder: TestFolder = { id: 'f2', name: 'Checkout', parentId: 'f1', createdAt: now, updatedAt: now };
+      const suite: TestSuite = { id: 's1', name: 'Smoke', description: '', testCaseIds: ['TC-2', 'TC-1'], createdAt: now, updatedAt: now };
+      const testCase: TestCase = { id: 'TC-1', name: 'Pay', description: 'Pay for order', createdAt: now, updatedAt: now };
+
+      expect(service.toExportRows('test-folders', [folder])).toEqual([{ id: 'f2', name: 'Checkout', parentId: 'f1' }]);
+      expect(service.toExportRows('test-suites', [suite])).toEqual([
+        { id: 's1', name: 'Smoke', description: '', testCaseIds: 'TC-2, TC-1' },
+      ]);
+      expect(service.toExportRows('test-cases', [testCase])[0].folderId).toBe('');
+
+      const [row] = service.toExportRows('test-suites', [suite]);
+      expect((service as any).createEntity(row, 'test-suites').testCaseIds).toEqual(['TC-2', 'TC-1']);
+    });
+
     it('should export single object to JSON', () => {
       const mockData = { config: 'test', value: 123 };
 
@@ -465,6 +585,15 @@ describe('ImportExportService', () => {
       expect(entity.createdAt).toBeInstanceOf(Date);
     });
 
+    it('should create folder entity and leave blank parents at the root', () => {
+      const child = (service as any).createEntity({ id: 'f2', name: 'Checkout', parentId: 'f1' }, 'test-folders') as TestFolder;
+      const root = (service as any).createEntity({ id: 'f1', name: 'Web', parentId: '' }, 'test-folders') as TestFolder;
+
+      expect(child.parentId).toBe('f1');
+      expect(root.parentId).toBeUndefined();
+      expect(root.createdAt).toBeInstanceOf(Date);
+    });
+
     it('should handle empty SQL tables', () => {
       const row = {
         id: 'step-1',
@@ -0,0 +1,245 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  IntegrityService,
+  PLACEHOLDER_STEP_ID,
+  planRepair,
+  scanIntegrity,
+} from '@/lib/integrity-service';
+import { kvStorageAdapter } from '@/repositories/storage.adapter';
+import { CatalogStep } from '@/models/catalog.model';
+import { TestCase, TestStepMembership } from '@/models/testcase.model';
+import { TestSuite } from '@/models/suite.model';
+import { StepGroup } from '@/models/stepgroup.model';
+
+const now = new Date('2024-01-01T00:00:00Z');
+
+const step = (id: string): CatalogStep => ({
+  id,
+  name: `Step ${id}`,
+  description: '',
+  javaClass: 'com.example.Steps',
+  javaMethod: 'run',
+  sqlTables: [],
+  createdAt: now,
+  updatedAt: now,
+});
+
+const testCase = (id: string): TestCase => ({ id, name: id, description: '', createdAt: now, updatedAt: now });
+
+const membership = (id: string, testCaseId: string, catalogStepId: string, processOrder: number): TestStepMembership => ({
+  id,
+  testCaseId,
+  catalogStepId,
+  processOrder,
+  createdAt: now,
+});
+
+const suite = (id: string, testCaseIds: string[]): TestSuite => ({
+  id,
+  name: id,
+  description: '',
+  testCaseIds,
+  createdAt: now,
+  updatedAt: now,
+});
+
+const stepGroup = (id: string, catalogStepIds: string[]): StepGroup => ({
+  id,
+  name: id,
+  description: '',
+  catalogStepIds,
+  createdAt: now,
+  updatedAt: now,
+});
+
+describe('scanIntegrity', () => {
+  it('should report orphans, dangling steps and duplicate orders', () => {
+    const issues = scanIntegrity({
+      catalogSteps: [step('s1')],
+      testCases: [testCase('TC-001')],
+      memberships: [
+        membership('m1', 'TC-001', 's1', 1),
+        membership('m2', 'TC-001', 's-gone', 1),
+        membership('m3', 'TC-404', 's1', 1),
+      ],
+      suites: [],
+      stepGroups: [],
+    });
+
+    expect(issues.map(i => `${'membershipId' in i ? i.membershipId : ''}:${i.type}`)).toEqual([
+      'm2:missing-catalog-step',
+      'm2:duplicate-process-order',
+      'm3:missing-test-case',
+    ]);
+  });
+
+  it('should return no issues for consistent data', () => {
+    const issues = scanIntegrity({
+      catalogSteps: [step('s1'), step('s2')],
+      testCases: [testCase('TC-001')],
+      memberships: [membership('m1', 'TC-001', 's1', 1), membership('m2', 'TC-001', 's2', 2)],
+      suites: [suite('smoke', ['TC-001'])],
+      stepGroups: [stepGroup('login', ['s1', 's2'])],
+    });
+
+    expect(issues).toEqual([]);
+  });
+
+  it('should report suites that list deleted test cases', () => {
+    const issues = scanIntegrity({
+      catalogSteps: [],
+      testCases: [testCase('TC-001')],
+      memberships: [],
+      suites: [suite('smoke', ['TC-001', 'TC-404'])],
+      stepGroups: [],
+    });
+
+    expect(issues).toEqual([
+      expect.objectContaining({ type: 'suite-missing-test-case', suiteId: 'smoke', testCaseId: 'TC-404' }),
+    ]);
+  });
+
+  it('should report step groups that list deleted catalog steps', () => {
+    const issues = scanIntegrity({
+      catalogSteps: [step('s1')],
+      testCases: [],
+      memberships: [],
+      suites: [],
+      stepGroups: [stepGroup('login', ['s1', 's-gone'])],
+    });
+
+    expect(issues).toEqual([
+      expect.objectContaining({ type: 'group-missing-catalog-step', stepGroupId: 'login', catalogStepId: 's-gone' }),
+    ]);
+  });
+});
+
+describe('planRepair', () => {
+  const data = {
+    catalogSteps: [step('s1')],
+    testCases: [testCase('TC-001')],
+    memberships: [
+      membership('m1', 'TC-001', 's1', 1),
+      membership('m2', 'TC-001', 's-gone', 1),
+      membership('m3', 'TC-404', 's1', 1),
+    ],
+    suites: [suite('smoke', ['TC-001', 'TC-404'])],
+    stepGroups: [stepGroup('login', ['s-gone', 's1'])],
+  };
+
+  it('should delete dangling memberships unless the placeholder policy is active', () => {
+    const plan = planRepair(data, 'cascade');
+
+    expect(plan.deleteMembershipIds.sort()).toEqual(['m2', 'm3']);
+    expect(plan.updateMemberships).toEqual([]);
+    expect(plan.createCatalogSteps).toEqual([]);
+    expect(plan.updateSuites).toEqual([{ ...data.suites[0], testCaseIds: ['TC-001'] }]);
+    expect(plan.updateStepGroups).toEqual([{ ...data.stepGroups[0], catalogStepIds: ['s1'] }]);
+  });
+
+  it('should repoint dangling memberships to the placeholder and renumber duplicates', () => {
+    const plan = planRepair(data, 'placeholder');
+
+    expect(plan.deleteMembershipIds).toEqual(['m3']);
+    expect(plan.createCatalogSteps.map(s => s.id)).toEqual([PLACEHOLDER_STEP_ID]);
+    expect(plan.updateMemberships).toEqual([
+      { ...data.memberships[1], catalogStepId: PLACEHOLDER_STEP_ID, processOrder: 2 },
+    ]);
+  });
+});
+
+describe('IntegrityService', () => {
+  let mockStorage: Map<string, any>;
+  let service: IntegrityService;
+
+  beforeEach(() => {
+    mockStorage = new Map();
+    global.window = {
+      spark: {
+        kv: {
+          get: vi.fn(async (key: string) => mockStorage.get(key)),
+          set: vi.fn(async (key: string, value: any) => {
+            mockStorage.set(key, value);
+          }),
+        },
+      },
+    } as any;
+
+    mockStorage.set('catalog-steps', [step('s1'), step('s2')]);
+    mockStorage.set('test-cases', [testCase('TC-001'), testCase('TC-002')]);
+    mockStorage.set('test-memberships', [
+      membership('m1', 'TC-001', 's1', 1),
+      membership('m2', 'TC-001', 's2', 2),
+      membership('m3', 'TC-002', 's1', 1),
+    ]);
+
+    service = new IntegrityService(kvStorageAdapter);
+  });
+
+  it('should refuse to delete a used step under the restrict policy', async () => {
+    const result = await service.deleteCatalogStep('s1', 'restrict');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('used by 2 test case(s)');
+    expect(mockStorage.get('catalog-steps')).toHaveLength(2);
+  });
+
+  it('should remove memberships under the cascade policy', async () => {
+    const result = await service.deleteCatalogStep('s1', 'cascade');
+
+    expect(result.data).toEqual({ deletedId: 's1', removedMemberships: 2, reassignedMemberships: 0 });
+    expect(mockStorage.get('test-memberships').map((m: TestStepMembership) => m.id)).toEqual(['m2']);
+  });
+
+  it('should remove a deleted catalog step from step groups', async () => {
+    mockStorage.set('step-groups', [stepGroup('login', ['s1', 's2']), stepGroup('logout', ['s2'])]);
+
+    await service.deleteCatalogStep('s1', 'cascade');
+
+    expect(mockStorage.get('step-groups').map((g: StepGroup) => g.catalogStepIds)).toEqual([['s2'], ['s2']]);
+    expect((await service.check()).issues).toEqual([]);
+  });
+
+  it('should repoint memberships to a placeholder step', async () => {
+    const result = await service.deleteCatalogStep('s1', 'placeholder');
+
+    expect(result.data?.reassignedMemberships).toBe(2);
+    expect(mockStorage.get('catalog-steps').map((s: CatalogStep) => s.id)).toEqual(['s2', PLACEHOLDER_STEP_ID]);
+    expect(
+      mockStorage.get('test-memberships').filter((m: TestStepMembership) => m.catalogStepId === PLACEHOLDER_STEP_ID)
+    ).toHaveLength(2);
+  });
+
+  it('should cascade test case deletes to memberships', async () => {
+    const result = await service.deleteTestCase('TC-001');
+
+    expect(result.data?.removedMemberships).toBe(2);
+    expect(mockStorage.get('test-cases').map((tc: TestCase) => tc.id)).toEqual(['TC-002']);
+    expect(mockStorage.get('test-memberships').map((m: TestStepMembership) => m.id)).toEqual(['m3']);
+  });
+
+  it('should remove a deleted test case from suites', async () => {
+    mockStorage.set('test-suites', [suite('smoke', ['TC-002', 'TC-001']), suite('nightly', ['TC-002'])]);
+
+    await service.deleteTestCase('TC-001');
+
+    expect(mockStorage.get('test-suites').map((s: TestSuite) => s.testCaseIds)).toEqual([['TC-002'], ['TC-002']]);
+    expect((await service.check()).issues).toEqual([]);
+  });
+
+  it('should repair every reported issue', async () => {
+    mockStorage.set('test-memberships', [
+      ...mockStorage.get('test-memberships'),
+      membership('m4', 'TC-002', 's-gone', 1),
+      membership('m5', 'TC-404', 's1', 1),
+    ]);
+    mockStorage.set('test-suites', [suite('smoke', ['TC-404', 'TC-002'])]);
+    mockStorage.set('step-groups', [stepGroup('login', ['s1', 's-gone'])]);
+    expect((await service.check()).issues).toHaveLength(5);
+
+    const result = await service.repair('restrict');
+
+    expect(result.success).toBe(true);
+    expect((await service.check()).issues).toEqual([]);
+  });
+});
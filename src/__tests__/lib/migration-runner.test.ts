@@ -0,0 +1,144 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { dbService } from '@/lib/db-service';
+import { EmbeddedSqlDriver } from '@/lib/embedded-sql-driver';
+import { MIGRATIONS, LATEST_SCHEMA_VERSION, Migration } from '@/lib/db-migrations';
+import { MigrationRunner } from '@/lib/migration-runner';
+
+const columnsOf = async (table: string) => {
+  const result = await dbService.executeQuery<any[]>({ query: `PRAGMA table_info(${table})`, parameters: {} });
+  return result.data?.map(row => row.name).sort();
+};
+
+const idTypesOf = async (table: string) => {
+  const result = await dbService.executeQuery<any[]>({ query: `PRAGMA table_info(${table})`, parameters: {} });
+  return result.data?.filter(row => /Id$/.test(row.name)).map(row => `${row.name} ${row.type}`);
+};
+
+const tableExists = async (table: string) => {
+  const result = await dbService.executeQuery<any[]>({
+    query: `SELECT COUNT(*) AS Total FROM sqlite_master WHERE type = 'table' AND name = @table`,
+    parameters: { table },
+  });
+  return result.data?.[0].Total > 0;
+};
+
+describe('MigrationRunner', () => {
+  afterEach(() => {
+    dbService.setDriver(null);
+  });
+
+  it('should report a freshly bootstrapped database as up to date', async () => {
+    dbService.setDriver(new EmbeddedSqlDriver());
+    const status = await new MigrationRunner().getStatus();
+
+    expect(status.currentVersion).toBe(LATEST_SCHEMA_VERSION);
+    expect(status.pending).toEqual([]);
+  });
+
+  it('should apply every migration to an empty database and match the bootstrap schema', async () => {
+    dbService.setDriver(new EmbeddedSqlDriver());
+    const expected = {
+      CatalogSteps: await columnsOf('CatalogSteps'),
+      TestCases: await columnsOf('TestCases'),
+      TestStepMemberships: await columnsOf('TestStepMemberships'),
+    };
+
+    dbService.setDriver(new EmbeddedSqlDriver({ bootstrapSchema: false }));
+    const runner = new MigrationRunner();
+    expect((await runner.getStatus()).pending.map(m => m.version)).toEqual(MIGRATIONS.map(m => m.version));
+
+    const result = await runner.migrate();
+
+    expect(result.success).toBe(true);
+    expect(result.versions).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    expect(result.currentVersion).toBe(LATEST_SCHEMA_VERSION);
+    for (const [table, columns] of Object.entries(expected)) {
+      expect(await columnsOf(table)).toEqual(columns);
+    }
+  });
+
+  it('should convert GUID id columns to strings and keep the rows', async () => {
+    dbService.setDriver(new EmbeddedSqlDriver());
+    const expected = await idTypesOf('TestStepMemberships');
+
+    dbService.setDriver(new EmbeddedSqlDriver({ bootstrapSchema: false }));
+    const runner = new MigrationRunner();
+    await runner.migrate(7);
+    expect(await idTypesOf('TestStepMemberships')).toContain('TestCaseId UNIQUEIDENTIFIER');
+    for (const query of [
+      "INSERT INTO CatalogSteps (Id, Name, JavaClass, JavaMethod) VALUES ('step-1700000000000', 'Login', 'Auth', 'login')",
+      "INSERT INTO TestCases (Id, Name) VALUES ('TC-001', 'Checkout')",
+      "INSERT INTO TestStepMemberships (Id, TestCaseId, CatalogStepId, ProcessOrder) VALUES ('membership-1', 'TC-001', 'step-1700000000000', 1)",
+    ]) {
+      await dbService.executeQuery({ query, parameters: {} });
+    }
+
+    const result = await runner.migrate();
+
+    expect(result.versions).toEqual([8]);
+    expect(await idTypesOf('TestStepMemberships')).toEqual(expected);
+    expect(expected).toEqual(['Id NVARCHAR(255)', 'TestCaseId NVARCHAR(255)', 'CatalogStepId NVARCHAR(255)', 'StepGroupId NVARCHAR(255)']);
+    const memberships = await dbService.executeQuery<any[]>({ query: 'SELECT * FROM TestStepMemberships', parameters: {} });
+    expect(memberships.data).toMatchObject([{ Id: 'membership-1', TestCaseId: 'TC-001', CatalogStepId: 'step-1700000000000' }]);
+    expect(await tableExists('IdStaging_TestCases')).toBe(false);
+  });
+
+  it('should stop at the requested target version', async () => {
+    dbService.setDriver(new EmbeddedSqlDriver({ bootstrapSchema: false }));
+    const result = await new MigrationRunner().migrate(1);
+
+    expect(result.versions).toEqual([1]);
+    expect(await columnsOf('CatalogSteps')).not.toContain('Version');
+  });
+
+  it('should roll back migrations above the target version', async () => {
+    dbService.setDriver(new EmbeddedSqlDriver());
+    const runner = new MigrationRunner();
+
+    const result = await runner.rollback(1);
+
+    expect(result.success).toBe(true);
+    expect(result.versions).toEqual([8, 7, 6, 5, 4, 3, 2]);
+    expect(await columnsOf('TestCases')).not.toContain('Version');
+    expect(await columnsOf('CatalogSteps')).not.toContain('Parameters');
+    expect(await tableExists('StepGroups')).toBe(false);
+    expect((await runner.getStatus()).pending.map(m => m.version)).toEqual([2, 3, 4, 5, 6, 7, 8]);
+
+    await runner.rollback(0);
+    expect(await tableExists('CatalogSteps')).toBe(false);
+  });
+
+  it('should baseline a legacy database that predates SchemaVersions', async () => {
+    dbService.setDriver(new EmbeddedSqlDriver({ bootstrapSchema: false }));
+    for (const statement of MIGRATIONS[0].up) {
+      await dbService.executeQuery({ query: statement, parameters: {} });
+    }
+
+    const runner = new MigrationRunner();
+    const status = await runner.getStatus();
+    expect(status.currentVersion).toBe(1);
+    expect(status.pending.map(m => m.version)).toEqual([2, 3, 4, 5, 6, 7, 8]);
+
+    const result = await runner.migrate();
+    expect(result.versions).toEqual([2, 3, 4, 5, 6, 7, 8]);
+    expect(await columnsOf('CatalogSteps')).toContain('Version');
+  });
+
+  it('should roll back every statement of a failed run', async () => {
+    dbService.setDriver(new EmbeddedSqlDriver({ bootstrapSchema: false }));
+    const broken: Migration = {
+      version: 9,
+      name: 'Broken migration',
+      up: ['CREATE TABLE Scratch (Id INT)', 'ALTER TABLE MissingTable ADD Flag INT'],
+      down: ['DROP TABLE Scratch'],
+    };
+    const runner = new MigrationRunner([...MIGRATIONS, broken]);
+
+    const result = await runner.migrate();
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Migration 9 (Broken migration) failed');
+    expect(await tableExists('CatalogSteps')).toBe(false);
+    expect(await tableExists('Scratch')).toBe(false);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createSavedQuery,
+  defaultSavedQueries,
+  exportQueryLibrary,
+  groupByFolder,
+  importQueryLibrary,
+  recordExecution,
+  upsertSavedQuery,
+} from '@/lib/query-library';
+
+describe('saved queries', () => {
+  it('should seed the library with the example queries', () => {
+    const queries = defaultSavedQueries();
+
+    expect(queries.map(q => q.name)).toContain('Get Test Case With Steps');
+    expect(queries.every(q => q.folder === 'Examples')).toBe(true);
+  });
+
+  it('should group queries by folder and name', () => {
+    const grouped = groupByFolder([
+      createSavedQuery({ name: 'Orphans', folder: 'Diagnostics', query: 'SELECT 1' }),
+      createSavedQuery({ name: 'Counts', folder: 'Diagnostics', query: 'SELECT 2' }),
+      createSavedQuery({ name: 'Scratch', query: 'SELECT 3' }),
+    ]);
+
+    expect(grouped.map(g => g.folder)).toEqual(['Diagnostics', 'Unfiled']);
+    expect(grouped[0].queries.map(q => q.name)).toEqual(['Counts', 'Orphans']);
+  });
+
+  it('should replace a query saved under the same folder and name', () => {
+    const original = createSavedQuery({ name: 'Counts', folder: 'Diagnostics', query: 'SELECT 1' });
+    const { queries, replaced } = upsertSavedQuery(
+      [original],
+      createSavedQuery({ name: 'Counts', folder: 'Diagnostics', query: 'SELECT 2' })
+    );
+
+    expect(replaced).toBe(true);
+    expect(queries).toHaveLength(1);
+    expect(queries[0]).toMatchObject({ id: original.id, query: 'SELECT 2' });
+  });
+});
+
+describe('query library files', () => {
+  it('should round-trip queries with their parameter defaults', () => {
+    const saved = createSavedQuery({
+      name: 'Steps for case',
+      folder: 'Diagnostics',
+      description: 'Lists steps',
+      query: 'SELECT * FROM TestStepMemberships WHERE TestCaseId = @testCaseId',
+      parameters: { testCaseId: { kind: 'testCase', value: 'tc-1' } },
+    });
+
+    const json = JSON.stringify(exportQueryLibrary([saved]));
+    const result = importQueryLibrary([], json);
+
+    expect(result.added).toBe(1);
+    expect(result.errors).toEqual([]);
+    expect(result.queries[0]).toMatchObject({
+      name: 'Steps for case',
+      folder: 'Diagnostics',
+      description: 'Lists steps',
+      parameters: { testCaseId: { kind: 'testCase', value: 'tc-1' } },
+    });
+  });
+
+  it('should skip and report invalid entries', () => {
+    const json = JSON.stringify({
+      queries: [
+        { name: 'No query' },
+        { name: 'Bad parameter', query: 'SELECT @x', parameters: { x: { kind: 'Money', value: '1' } } },
+      ],
+    });
+    const result = importQueryLibrary([], json);
+
+    expect(result.added).toBe(1);
+    expect(result.errors).toEqual([
+      'No query: a name and a query are required',
+      'Bad parameter: parameter @x has an unknown type',
+    ]);
+    expect(importQueryLibrary([], 'not json').errors).toEqual(['The file is not valid JSON']);
+  });
+});
+
+describe('recordExecution', () => {
+  it('should keep the newest executions first up to the limit', () => {
+    let history = recordExecution([], { query: 'SELECT 1', parameters: {}, executionTime: 3, rowCount: 1, success: true });
+    history = recordExecution(history, { query: 'SELECT 2', parameters: {}, executionTime: 4, success: false, error: 'boom' }, 1);
+
+    expect(history).toHaveLength(1);
+    expect(history[0]).toMatchObject({ query: 'SELECT 2', success: false, error: 'boom' });
+  });
+});
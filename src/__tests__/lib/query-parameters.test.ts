@@ -0,0 +1,85 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { dbService, TestCaseQueries } from '@/lib/db-service';
+import { EmbeddedSqlDriver } from '@/lib/embedded-sql-driver';
+import { SqlTypes } from '@/lib/sql-parameters';
+import {
+  bindParameters,
+  detectParameters,
+  guessParameterKind,
+  parseParameterValue,
+} from '@/lib/query-parameters';
+
+describe('detectParameters', () => {
+  it('should list parameters in order of first use without duplicates', () => {
+    expect(detectParameters('SELECT * FROM TestCases WHERE Id = @id OR Name = @name OR Id = @ID')).toEqual(['id', 'name']);
+  });
+
+  it('should ignore literals, comments, system functions and declared variables', () => {
+    const query = `
+      DECLARE @total INT, @label AS NVARCHAR(50);
+      -- filter by @ignored
+      SELECT @total = COUNT(*) FROM TestCases WHERE Name <> '@home' /* @skip */ AND Id = @testCaseId;
+      SELECT @@ROWCOUNT, @total, @label;
+    `;
+
+    expect(detectParameters(query)).toEqual(['testCaseId']);
+  });
+});
+
+describe('parameter inputs', () => {
+  it('should guess input kinds from parameter names', () => {
+    expect(guessParameterKind('testCaseId')).toBe('testCase');
+    expect(guessParameterKind('catalogStepId')).toBe('catalogStep');
+    expect(guessParameterKind('processOrder')).toBe('Int');
+    expect(guessParameterKind('createdAt')).toBe('DateTime2');
+    expect(guessParameterKind('isActive')).toBe('Bit');
+    expect(guessParameterKind('name')).toBe('NVarChar');
+  });
+
+  it('should convert form text to typed values', () => {
+    expect(parseParameterValue('42', 'Int')).toBe(42);
+    expect(parseParameterValue('', 'Int')).toBeNull();
+    expect(parseParameterValue('abc', 'Int')).toBe('abc');
+    expect(parseParameterValue('true', 'Bit')).toBe(true);
+    expect(parseParameterValue('', 'NVarChar')).toBe('');
+  });
+
+  it('should bind every detected parameter with a descriptor', () => {
+    const statement = bindParameters('SELECT * FROM TestStepMemberships WHERE TestCaseId = @testCaseId AND ProcessOrder > @processOrder', {
+      testCaseId: { kind: 'testCase', value: 'tc-1' },
+    });
+
+    expect(statement.parameters).toEqual({ testCaseId: 'tc-1', processOrder: null });
+    expect(statement.types).toEqual({ testCaseId: SqlTypes.NVarChar(255), processOrder: SqlTypes.Int() });
+  });
+
+  it('should bind an input whose name differs from the query only in case', () => {
+    const statement = bindParameters('SELECT * FROM TestCases WHERE Id = @TestCaseID OR Id = @testcaseid', {
+      testCaseId: { kind: 'testCase', value: 'tc-1' },
+    });
+
+    expect(statement.parameters).toEqual({ TestCaseID: 'tc-1' });
+    expect(statement.types).toEqual({ TestCaseID: SqlTypes.NVarChar(255) });
+  });
+});
+
+describe('binding form values into queries', () => {
+  afterEach(() => {
+    dbService.setDriver(null);
+  });
+
+  it('should run a query with bound parameters instead of substituted text', async () => {
+    dbService.setDriver(new EmbeddedSqlDriver());
+    await dbService.executeQuery(TestCaseQueries.insert({ id: 'tc-1', name: "O'Brien", description: '' }));
+
+    const result = await dbService.executeQuery(
+      bindParameters('SELECT Id FROM TestCases WHERE Name = @name', { name: { kind: 'NVarChar', value: "O'Brien" } })
+    );
+    const invalid = await dbService.executeQuery(
+      bindParameters('SELECT Id FROM TestCases WHERE Version = @version', { version: { kind: 'Int', value: '1.5' } })
+    );
+
+    expect(result.data).toEqual([{ Id: 'tc-1' }]);
+    expect(invalid.error).toBe('Invalid parameters: @version expected a whole number for INT');
+  });
+});
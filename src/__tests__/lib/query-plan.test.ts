@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { dbService } from '@/lib/db-service';
+import { DriverResult } from '@/lib/db-types';
+import { EmbeddedSqlDriver } from '@/lib/embedded-sql-driver';
+import { parseQueryPlan } from '@/lib/query-plan';
+
+const SHOWPLAN_XML = `<?xml version="1.0" encoding="utf-16"?>
+<ShowPlanXML xmlns="http://schemas.microsoft.com/sqlserver/2004/07/showplan" Version="1.564">
+  <BatchSequence><Batch><Statements>
+    <StmtSimple StatementText="SELECT * FROM TestCases tc JOIN TestStepMemberships m ON m.TestCaseId = tc.Id" StatementSubTreeCost="0.0500">
+      <QueryPlan>
+        <RelOp PhysicalOp="Hash Match" LogicalOp="Inner Join" EstimateRows="40" EstimatedTotalSubtreeCost="0.0500">
+          <Hash>
+            <RelOp PhysicalOp="Clustered Index Scan" LogicalOp="Clustered Index Scan" EstimateRows="10" EstimatedTotalSubtreeCost="0.0100">
+              <IndexScan><Object Database="[TestRegistry]" Table="[TestCases]" Index="[PK_TestCases]" /></IndexScan>
+            </RelOp>
+            <RelOp PhysicalOp="Table Scan" LogicalOp="Table Scan" EstimateRows="40" EstimatedTotalSubtreeCost="0.0150">
+              <TableScan><Object Table="[TestStepMemberships]" /></TableScan>
+            </RelOp>
+          </Hash>
+        </RelOp>
+      </QueryPlan>
+    </StmtSimple>
+  </Statements></Batch></BatchSequence>
+</ShowPlanXML>`;
+
+describe('parseQueryPlan', () => {
+  it('should build the SHOWPLAN XML operator tree with cost percentages', () => {
+    const [statement] = parseQueryPlan('sqlserver', SHOWPLAN_XML).statements;
+    const [join] = statement.operators;
+
+    expect(statement.statement).toContain('SELECT * FROM TestCases');
+    expect(statement.totalCost).toBe(0.05);
+    expect(join).toMatchObject({ operation: 'Hash Match', detail: 'Inner Join', estimatedRows: 40 });
+    expect(join.costPercent).toBeCloseTo(50);
+    expect(join.children.map(child => [child.operation, child.detail, Math.round(child.costPercent ?? 0)])).toEqual([
+      ['Clustered Index Scan', 'TestCases.PK_TestCases', 20],
+      ['Table Scan', 'TestStepMemberships', 30],
+    ]);
+  });
+
+  it('should read PostgreSQL JSON plans', () => {
+    const raw = JSON.stringify([
+      {
+        Plan: {
+          'Node Type': 'Sort',
+          'Total Cost': 20,
+          'Plan Rows': 5,
+          Plans: [{ 'Node Type': 'Index Scan', 'Relation Name': 'testcases', 'Index Name': 'pk_testcases', 'Total Cost': 15, 'Plan Rows': 5 }],
+        },
+      },
+    ]);
+
+    const [statement] = parseQueryPlan('postgresql', raw).statements;
+
+    expect(statement.totalCost).toBe(20);
+    expect(statement.operators[0]).toMatchObject({ operation: 'Sort', cost: 5, costPercent: 25 });
+    expect(statement.operators[0].children[0]).toMatchObject({
+      operation: 'Index Scan',
+      detail: 'testcases · pk_testcases',
+      costPercent: 75,
+    });
+  });
+});
+
+class HangingDriver extends EmbeddedSqlDriver {
+  async execute<T = any>(): Promise<DriverResult<T>> {
+    return new Promise(() => undefined);
+  }
+}
+
+describe('DatabaseService query control', () => {
+  afterEach(() => {
+    dbService.setDriver(null);
+  });
+
+  describe('with the embedded driver', () => {
+    beforeEach(() => {
+      dbService.setDriver(new EmbeddedSqlDriver());
+    });
+
+    it('should explain each statement without running it', async () => {
+      const result = await dbService.explainQuery({
+        query: "SELECT * FROM TestCases WHERE Name = @name; DELETE FROM TestCases WHERE Id = @id",
+        parameters: { name: 'Login', id: 'tc-1' },
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.statements).toHaveLength(2);
+      expect(result.data?.statements[0].operators[0].operation).toMatch(/TestCases/);
+
+      const count = await dbService.executeQuery<Array<{ total: number }>>({
+        query: 'SELECT COUNT(*) AS total FROM TestCases',
+        parameters: {},
+      });
+      expect(count.success).toBe(true);
+    });
+
+    // Resolves once the transaction is open, with a function that commits it.
+    const openTransaction = () =>
+      new Promise<() => Promise<void>>(opened => {
+        const transaction = dbService.runInTransaction(
+          () =>
+            new Promise<void>(finish =>
+              opened(async () => {
+                finish();
+                await transaction;
+              })
+            )
+        );
+      });
+
+    it('should start the timeout once the open transaction has finished', async () => {
+      const commit = await openTransaction();
+      const query = dbService.executeQuery({ query: 'SELECT 1', parameters: {} }, { timeout: 20 });
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+      await commit();
+
+      expect((await query).success).toBe(true);
+    });
+
+    it('should not run a query aborted while it waited for a transaction', async () => {
+      const commit = await openTransaction();
+      const controller = new AbortController();
+      const query = dbService.executeQuery(
+        { query: `INSERT INTO TestCases (Id, Name, Description) VALUES ('tc-late', 'Late', 'Aborted insert')`, parameters: {} },
+        { signal: controller.signal, timeout: 0 }
+      );
+
+      controller.abort();
+      await commit();
+      expect(await query).toMatchObject({ success: false, errorCode: 'cancelled' });
+
+      const count = await dbService.executeQuery<Array<{ total: number }>>({
+        query: "SELECT COUNT(*) AS total FROM TestCases WHERE Id = 'tc-late'",
+        parameters: {},
+      });
+      expect(count.data?.[0].total).toBe(0);
+    });
+
+    it('should stop an embedded batch when the signal is already aborted', async () => {
+      const driver = new EmbeddedSqlDriver();
+      await driver.connect(null);
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(driver.execute({ query: 'SELECT 1', parameters: {} }, { signal: controller.signal })).rejects.toThrow(
+        'Aborted'
+      );
+      await driver.disconnect();
+    });
+  });
+
+  describe('with a driver that never answers', () => {
+    beforeEach(() => {
+      dbService.setDriver(new HangingDriver());
+    });
+
+    it('should report a timeout distinctly', async () => {
+      const result = await dbService.executeQuery({ query: 'SELECT 1', parameters: {} }, { timeout: 20 });
+
+      expect(result).toMatchObject({ success: false, errorCode: 'timeout', error: 'Query timed out after 20ms' });
+    });
+
+    it('should stop waiting when the caller aborts', async () => {
+      const controller = new AbortController();
+      const running = dbService.executeQuery({ query: 'SELECT 1', parameters: {} }, { signal: controller.signal, timeout: 0 });
+      controller.abort();
+
+      expect(await running).toMatchObject({ success: false, errorCode: 'cancelled' });
+    });
+  });
+});
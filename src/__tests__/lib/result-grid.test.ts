@@ -0,0 +1,99 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { dbService } from '@/lib/db-service';
+import { EmbeddedSqlDriver } from '@/lib/embedded-sql-driver';
+import { ResultSet } from '@/lib/db-types';
+import {
+  describeColumns,
+  filterRows,
+  formatCell,
+  resultSetsOf,
+  sortRows,
+  toExportRows,
+  viewResultSet,
+} from '@/lib/result-grid';
+
+const resultSet: ResultSet = {
+  columns: [{ name: 'Id' }, { name: 'Name' }, { name: 'Total', type: 'bigint' }, { name: 'CreatedAt' }],
+  rows: [
+    { Id: 1, Name: 'Checkout', Total: '900', CreatedAt: '2024-03-01T10:00:00.000Z' },
+    { Id: 2, Name: null, Total: '1000', CreatedAt: '2024-01-15T08:30:00.000Z' },
+    { Id: 3, Name: 'Login', Total: null, CreatedAt: '2024-02-10T12:00:00.000Z' },
+  ],
+};
+
+describe('describeColumns', () => {
+  it('should type columns from declared types and from values otherwise', () => {
+    expect(describeColumns(resultSet).map(column => column.kind)).toEqual(['number', 'text', 'number', 'date']);
+    expect(describeColumns({ columns: [{ name: 'Flag', type: 'bit' }, { name: 'Blob', type: 'varbinary' }], rows: [] })
+      .map(column => column.kind)).toEqual(['boolean', 'binary']);
+  });
+});
+
+describe('result grid views', () => {
+  const columns = describeColumns(resultSet);
+
+  it('should sort by column kind and keep NULL last', () => {
+    const byTotal = sortRows(resultSet.rows, columns, { field: 'Total', direction: 'asc' });
+    const byDate = sortRows(resultSet.rows, columns, { field: 'CreatedAt', direction: 'desc' });
+
+    expect(byTotal.map(row => row.Id)).toEqual([1, 2, 3]);
+    expect(byDate.map(row => row.Id)).toEqual([1, 3, 2]);
+  });
+
+  it('should filter on the displayed text of every column', () => {
+    expect(filterRows(resultSet.rows, columns, 'login').map(row => row.Id)).toEqual([3]);
+    expect(filterRows(resultSet.rows, columns, '1000').map(row => row.Id)).toEqual([2]);
+    expect(filterRows(resultSet.rows, columns, 'null').map(row => row.Id)).toEqual([2, 3]);
+  });
+
+  it('should page filtered and sorted rows', () => {
+    const view = viewResultSet(resultSet, columns, {
+      page: 2,
+      pageSize: 2,
+      sort: { field: 'Id', direction: 'desc' },
+    });
+
+    expect(view.items.map(row => row.Id)).toEqual([1]);
+    expect(view.total).toBe(3);
+    expect(view.hasMore).toBe(false);
+  });
+
+  it('should export rows in column order with binary values as hex', () => {
+    const binary: ResultSet = {
+      columns: [{ name: 'Hash', type: 'varbinary' }, { name: 'Id' }],
+      rows: [{ Id: 7, Hash: { type: 'Buffer', data: [0, 171, 255] } }],
+    };
+    const exported = toExportRows(binary.rows, describeColumns(binary));
+
+    expect(Object.keys(exported[0])).toEqual(['Hash', 'Id']);
+    expect(exported[0]).toEqual({ Hash: '0x00ABFF', Id: 7 });
+    expect(formatCell(null, 'text')).toBe('NULL');
+  });
+});
+
+describe('query result sets', () => {
+  afterEach(() => {
+    dbService.setDriver(null);
+  });
+
+  it('should fall back to data when a driver returns no result sets', () => {
+    const sets = resultSetsOf({ success: true, data: [{ Id: 1, Name: 'A' }], executionTime: 0 });
+
+    expect(sets).toEqual([{ columns: [{ name: 'Id' }, { name: 'Name' }], rows: [{ Id: 1, Name: 'A' }] }]);
+  });
+
+  it('should return one result set per statement in a batch', async () => {
+    dbService.setDriver(new EmbeddedSqlDriver());
+
+    const result = await dbService.executeQuery({
+      query: "SELECT 1 AS One; INSERT INTO TestCases (Id, Name, Description) VALUES ('tc-1', 'A', ''); SELECT Id, Name FROM TestCases",
+      parameters: {},
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.resultSets).toEqual([
+      { columns: [{ name: 'One' }], rows: [{ One: 1 }] },
+      { columns: [{ name: 'Id' }, { name: 'Name' }], rows: [{ Id: 'tc-1', Name: 'A' }] },
+    ]);
+  });
+});
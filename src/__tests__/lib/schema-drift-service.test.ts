@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { dbService } from '@/lib/db-service';
+import { EmbeddedSqlDriver } from '@/lib/embedded-sql-driver';
+import { SQL_SERVER_SCHEMA } from '@/lib/db-schema';
+import { migrationRunner } from '@/lib/migration-runner';
+import { tableSchemaService } from '@/lib/table-schema-service';
+import {
+  detectTableDrift,
+  getDeclaredIndexes,
+  parseColumnType,
+  schemaDriftService,
+} from '@/lib/schema-drift-service';
+
+const run = (query: string) => dbService.executeQuery({ query, parameters: {} });
+
+describe('SchemaDriftService', () => {
+  beforeEach(() => {
+    tableSchemaService.clearCache();
+    dbService.setDriver(new EmbeddedSqlDriver());
+  });
+
+  afterEach(() => {
+    dbService.setDriver(null);
+  });
+
+  it('should find no drift on a freshly created database', async () => {
+    const report = await schemaDriftService.check();
+
+    expect(report.drifts).toEqual([]);
+    expect(report.alterScript).toBe('');
+    expect(report.tablesChecked).toEqual(Object.keys(SQL_SERVER_SCHEMA));
+  });
+
+  it('should report missing columns and indexes with statements that restore them', async () => {
+    await migrationRunner.rollback(1);
+    await run('DROP INDEX IX_TestCases_Name');
+
+    const report = await schemaDriftService.check(['CatalogSteps', 'TestCases']);
+
+    expect(report.drifts.map(d => `${d.type}:${d.tableName}.${d.objectName}`)).toEqual([
+      'type-mismatch:CatalogSteps.Id',
+      'missing-column:CatalogSteps.Parameters',
+      'missing-column:CatalogSteps.Outputs',
+      'missing-column:CatalogSteps.Tags',
+      'missing-column:CatalogSteps.Priority',
+      'missing-column:CatalogSteps.Owner',
+      'missing-column:CatalogSteps.CustomFields',
+      'missing-column:CatalogSteps.Version',
+      'type-mismatch:TestCases.Id',
+      'missing-column:TestCases.FolderId',
+      'missing-column:TestCases.Tags',
+      'missing-column:TestCases.Priority',
+      'missing-column:TestCases.Owner',
+      'missing-column:TestCases.CustomFields',
+      'missing-column:TestCases.Version',
+      'missing-index:TestCases.IX_TestCases_Name',
+    ]);
+    expect(report.alterScript).toContain(
+      'ALTER TABLE CatalogSteps ADD Version INT NOT NULL CONSTRAINT DF_CatalogSteps_Version DEFAULT 1;'
+    );
+    expect(report.alterScript).toContain('CREATE INDEX IX_TestCases_Name ON TestCases(Name);');
+  });
+
+  it('should report missing tables and undeclared columns and indexes', async () => {
+    await run('DROP TABLE SchemaVersions');
+    await run('ALTER TABLE TestCases ADD Legacy NVARCHAR(50)');
+    await run('CREATE INDEX IX_TestCases_Legacy ON TestCases(Legacy)');
+
+    const report = await schemaDriftService.check(['TestCases', 'SchemaVersions']);
+
+    expect(report.drifts.map(d => d.type)).toEqual(['unexpected-column', 'unexpected-index', 'missing-table']);
+    expect(report.drifts[0].actual).toBe('nvarchar(50)');
+    expect(report.alterScript).toContain('-- Review before dropping data: ALTER TABLE TestCases DROP COLUMN Legacy;');
+    expect(report.alterScript).toContain('CREATE TABLE SchemaVersions');
+  });
+
+  it('should reject tables that are not declared', async () => {
+    await expect(schemaDriftService.check(['Unknown'])).rejects.toThrow('Table Unknown is not declared');
+  });
+});
+
+describe('detectTableDrift', () => {
+  const declared = SQL_SERVER_SCHEMA.CatalogSteps;
+  const introspected = () => ({
+    tableName: 'CatalogSteps',
+    lastUpdated: new Date(),
+    source: 'database' as const,
+    columns: declared.columns.map(column => {
+      const type = parseColumnType(column.type);
+      return {
+        columnName: column.name,
+        dataType: type.dataType,
+        maxLength: type.maxLength,
+        isNullable: column.nullable,
+        isPrimaryKey: column.isPrimaryKey,
+        isForeignKey: column.isForeignKey,
+        isIdentity: false,
+      };
+    }),
+  });
+  const indexes = getDeclaredIndexes()
+    .filter(i => i.tableName === 'CatalogSteps')
+    .map(i => ({ indexName: i.indexName, columns: i.columns, isUnique: false }));
+
+  it('should parse declared column types', () => {
+    expect(parseColumnType('NVARCHAR(255)')).toEqual({ dataType: 'nvarchar', maxLength: 255 });
+    expect(parseColumnType('NVARCHAR(MAX)')).toEqual({ dataType: 'nvarchar', maxLength: -1 });
+    expect(parseColumnType('INT')).toEqual({ dataType: 'int', maxLength: undefined });
+  });
+
+  it('should read declared indexes from the create statements', () => {
+    expect(getDeclaredIndexes().map(i => i.indexName)).toContain('IX_Memberships_CatalogStepId');
+  });
+
+  it('should merge length and nullability fixes into one ALTER COLUMN', () => {
+    const actual = introspected();
+    const name = actual.columns.find(c => c.columnName === 'Name')!;
+    name.maxLength = 100;
+    name.isNullable = true;
+
+    const drifts = detectTableDrift(declared, actual, getDeclaredIndexes(), indexes);
+
+    expect(drifts.map(d => `${d.type}:${d.expected}:${d.actual}`)).toEqual([
+      'type-mismatch:nvarchar(255):nvarchar(100)',
+      'nullability-mismatch:NOT NULL:NULL',
+    ]);
+    expect(new Set(drifts.map(d => d.statement))).toEqual(
+      new Set(['ALTER TABLE CatalogSteps ALTER COLUMN Name NVARCHAR(255) NOT NULL;'])
+    );
+  });
+
+  it('should rebuild indexes that cover different columns', () => {
+    const changed = indexes.map(i => (i.indexName === 'IX_CatalogSteps_Name' ? { ...i, columns: ['JavaMethod'] } : i));
+
+    const drifts = detectTableDrift(declared, introspected(), getDeclaredIndexes(), changed);
+
+    expect(drifts).toHaveLength(1);
+    expect(drifts[0].type).toBe('index-mismatch');
+    expect(drifts[0].statement).toBe(
+      'DROP INDEX IX_CatalogSteps_Name ON CatalogSteps;\nCREATE INDEX IX_CatalogSteps_Name ON CatalogSteps(Name);'
+    );
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { CatalogStepQueries, TestCaseQueries } from '@/lib/db-service';
+import { generateCreateTablesScript } from '@/lib/db-schema';
+import { getConnectionDialect, renderStatement, translateQuery } from '@/lib/sql-dialect';
+import { DatabaseConnection } from '@/lib/db-types';
+import { CatalogStep } from '@/lib/types';
+
+const step: CatalogStep = {
+  id: 'step-001',
+  name: 'Login',
+  description: 'Log in',
+  javaClass: 'com.example.Auth',
+  javaMethod: 'login',
+  sqlTables: [],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  version: 3,
+};
+
+describe('translateQuery', () => {
+  it('should leave SQL Server statements untouched', () => {
+    const statement = CatalogStepQueries.update(step);
+    expect(translateQuery(statement.query, 'sqlserver')).toBe(statement.query);
+  });
+
+  it('should render PostgreSQL DDL with native types and quoted identifiers', () => {
+    const script = generateCreateTablesScript('postgresql');
+
+    expect(script).toContain('"Id" VARCHAR(255) PRIMARY KEY');
+    expect(script).toContain('"TestCaseId" VARCHAR(255) NOT NULL');
+    expect(script).toContain('"Name" VARCHAR(255) NOT NULL');
+    expect(script).toContain('"Description" TEXT');
+    expect(script).toContain(`"CreatedAt" TIMESTAMP NOT NULL DEFAULT (NOW() AT TIME ZONE 'UTC')`);
+    expect(script).toContain('CREATE INDEX "IX_CatalogSteps_Name" ON "CatalogSteps"("Name")');
+    expect(script).not.toMatch(/NVARCHAR|UNIQUEIDENTIFIER|UUID|GETUTCDATE|DATETIME2/);
+  });
+
+  it('should render MySQL DDL without named default constraints', () => {
+    const script = generateCreateTablesScript('mysql');
+
+    expect(script).toContain('Id VARCHAR(255) PRIMARY KEY');
+    expect(script).toContain('Description LONGTEXT');
+    expect(script).toContain('CreatedAt DATETIME(6) NOT NULL DEFAULT (UTC_TIMESTAMP(6))');
+    expect(script).toContain('Version INT NOT NULL DEFAULT 1');
+    expect(script).not.toContain('DF_CatalogSteps_Version');
+  });
+
+  it('should rewrite TOP into LIMIT for every dialect but SQL Server', () => {
+    const query = 'SELECT TOP (@limit) * FROM TestCases';
+
+    expect(translateQuery(query, 'sqlserver')).toBe(query);
+    expect(translateQuery(query, 'mysql')).toBe('SELECT * FROM TestCases\nLIMIT @limit');
+    expect(translateQuery(query, 'postgresql')).toBe('SELECT * FROM "TestCases"\nLIMIT @limit');
+  });
+
+  it('should not rewrite inside string literals', () => {
+    const translated = translateQuery("SELECT Name FROM TestCases WHERE Name = 'GETUTCDATE() NVARCHAR(MAX)'", 'postgresql');
+    expect(translated).toBe(`SELECT "Name" FROM "TestCases" WHERE "Name" = 'GETUTCDATE() NVARCHAR(MAX)'`);
+  });
+});
+
+describe('renderStatement', () => {
+  it('should keep named parameters for SQL Server and SQLite', () => {
+    const statement = TestCaseQueries.getById('TC-001');
+
+    expect(renderStatement(statement, 'sqlserver')).toEqual({ ...statement, values: [] });
+    expect(renderStatement(statement, 'sqlite').values).toEqual([]);
+  });
+
+  it('should number PostgreSQL parameters and reuse them when repeated', () => {
+    const rendered = renderStatement(CatalogStepQueries.update(step), 'postgresql');
+
+    expect(rendered.query).toContain('"Name" = $1');
+    expect(rendered.query).toContain('"UpdatedAt" = (NOW() AT TIME ZONE \'UTC\')');
+    expect(rendered.query).toContain('($13 IS NULL OR "Version" = $13)');
+    expect(rendered.values).toEqual([
+      'Login', 'Log in', 'com.example.Auth', 'login', '[]', '[]', '[]', '[]', null, null, '{}', 'step-001', 3,
+    ]);
+  });
+
+  it('should emit one MySQL placeholder per occurrence', () => {
+    const rendered = renderStatement(CatalogStepQueries.update(step), 'mysql');
+
+    expect(rendered.query).toContain('(? IS NULL OR Version = ?)');
+    expect(rendered.values.slice(-3)).toEqual(['step-001', 3, 3]);
+  });
+
+  it('should render paging for MySQL as LIMIT and OFFSET', () => {
+    const { page } = CatalogStepQueries.getPage({ page: 2, pageSize: 10 });
+    const rendered = renderStatement(page(10, 10), 'mysql');
+
+    expect(rendered.query).toMatch(/LIMIT \? OFFSET \?\s*$/);
+    expect(rendered.values.slice(-2)).toEqual([10, 10]);
+  });
+});
+
+describe('getConnectionDialect', () => {
+  it('should treat embedded connections as SQLite and default to SQL Server', () => {
+    const base = { id: 'c1', name: 'Local' } as DatabaseConnection;
+
+    expect(getConnectionDialect({ ...base, driver: 'embedded', dialect: 'postgresql' })).toBe('sqlite');
+    expect(getConnectionDialect({ ...base, driver: 'mssql-proxy' })).toBe('sqlserver');
+    expect(getConnectionDialect({ ...base, driver: 'mssql-proxy', dialect: 'mysql' })).toBe('mysql');
+  });
+});
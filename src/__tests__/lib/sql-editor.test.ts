@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { SQL_SERVER_SCHEMA } from '@/lib/db-schema';
+import { TableSchemaInfo } from '@/lib/table-schema-service';
+import {
+  applyCompletion,
+  buildCompletionSchema,
+  formatSql,
+  getCompletions,
+  referencedTables,
+  tokenizeSql,
+} from '@/lib/sql-editor';
+
+const schema = buildCompletionSchema(SQL_SERVER_SCHEMA);
+
+function completionsAt(query: string) {
+  const cursor = query.indexOf('|');
+  return getCompletions(query.replace('|', ''), cursor, schema).map(completion => completion.label);
+}
+
+describe('tokenizeSql', () => {
+  it('should classify tokens and keep the original text', () => {
+    const query = "SELECT Name, COUNT(*) FROM TestCases -- note\nWHERE Name = N'it''s' AND Version > @version";
+    const tokens = tokenizeSql(query);
+
+    expect(tokens.map(token => token.text).join('')).toBe(query);
+    expect(tokens.filter(token => token.type !== 'whitespace' && token.type !== 'punctuation').map(token => [token.type, token.text])).toEqual([
+      ['keyword', 'SELECT'],
+      ['identifier', 'Name'],
+      ['keyword', 'COUNT'],
+      ['operator', '*'],
+      ['keyword', 'FROM'],
+      ['identifier', 'TestCases'],
+      ['comment', '-- note'],
+      ['keyword', 'WHERE'],
+      ['identifier', 'Name'],
+      ['operator', '='],
+      ['string', "N'it''s'"],
+      ['keyword', 'AND'],
+      ['identifier', 'Version'],
+      ['operator', '>'],
+      ['parameter', '@version'],
+    ]);
+  });
+});
+
+describe('formatSql', () => {
+  it('should put clauses, list items and conditions on their own lines', () => {
+    const formatted = formatSql(
+      "select tc.Name, count(*) as Steps from TestCases tc inner join TestStepMemberships m on tc.Id = m.TestCaseId where tc.Name like '%a  b%' and m.ProcessOrder between 1 and 5 group by tc.Name order by Steps desc"
+    );
+
+    expect(formatted).toBe(
+      [
+        'SELECT',
+        '  tc.Name,',
+        '  COUNT(*) AS Steps',
+        'FROM TestCases tc',
+        'INNER JOIN TestStepMemberships m ON tc.Id = m.TestCaseId',
+        "WHERE tc.Name LIKE '%a  b%'",
+        '  AND m.ProcessOrder BETWEEN 1 AND 5',
+        'GROUP BY',
+        '  tc.Name',
+        'ORDER BY',
+        '  Steps DESC',
+      ].join('\n')
+    );
+    expect(formatSql(formatted)).toBe(formatted);
+  });
+
+  it('should keep insert column lists inline and separate statements', () => {
+    expect(formatSql('insert into TestCases (Id, Name) values (@id, @name); select 1')).toBe(
+      ['INSERT INTO TestCases (Id, Name)', 'VALUES (@id, @name);', '', 'SELECT', '  1'].join('\n')
+    );
+  });
+});
+
+describe('completions', () => {
+  it('should complete tables after FROM and JOIN', () => {
+    expect(completionsAt('SELECT * FROM Test|')).toEqual(['TestFolders', 'TestCases', 'TestSuites', 'TestStepMemberships']);
+    expect(completionsAt('SELECT * FROM |')).toEqual(Object.keys(SQL_SERVER_SCHEMA));
+  });
+
+  it('should complete columns of aliased and referenced tables', () => {
+    expect(completionsAt('SELECT m.Pro| FROM TestStepMemberships m')).toEqual(['ProcessOrder']);
+    expect(completionsAt('SELECT Jav| FROM CatalogSteps')).toEqual(['JavaClass', 'JavaMethod']);
+    expect(referencedTables('SELECT * FROM TestCases AS tc JOIN CatalogSteps WHERE 1 = 1')).toEqual(
+      new Map([['testcases', 'TestCases'], ['tc', 'TestCases'], ['catalogsteps', 'CatalogSteps']])
+    );
+  });
+
+  it('should complete parameters used elsewhere in the query', () => {
+    expect(completionsAt('SELECT * FROM TestCases WHERE Id = @testCaseId OR Name = @t| OR Version = @version')).toEqual([
+      '@testCaseId',
+    ]);
+  });
+
+  it('should prefer introspected columns over declared ones', () => {
+    const introspected: TableSchemaInfo = {
+      tableName: 'TestCases',
+      columns: [{ columnName: 'Priority', dataType: 'int', isNullable: true, isPrimaryKey: false, isForeignKey: false, isIdentity: false }],
+      lastUpdated: new Date(),
+      source: 'database',
+    };
+
+    expect(buildCompletionSchema(SQL_SERVER_SCHEMA, [introspected]).TestCases).toEqual([{ name: 'Priority', type: 'int' }]);
+  });
+
+  it('should replace the partial word with the chosen completion', () => {
+    expect(applyCompletion('SELECT m.Pro FROM x', 12, { label: 'ProcessOrder', kind: 'column' })).toEqual({
+      text: 'SELECT m.ProcessOrder FROM x',
+      cursor: 21,
+    });
+  });
+});
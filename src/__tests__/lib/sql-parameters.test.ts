@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { dbService, TestCaseQueries } from '@/lib/db-service';
+import { EmbeddedSqlDriver } from '@/lib/embedded-sql-driver';
+import { checkParameter, notNull, SqlTypes, validateParameters } from '@/lib/sql-parameters';
+
+describe('checkParameter', () => {
+  it('should check strings against NVARCHAR lengths', () => {
+    expect(checkParameter("Customer's order; retry", SqlTypes.NVarChar(50))).toBeNull();
+    expect(checkParameter('x'.repeat(11), SqlTypes.NVarChar(10))).toBe('is 11 characters, longer than NVARCHAR(10)');
+    expect(checkParameter(42, SqlTypes.NVarChar())).toBe('expected a string for NVARCHAR(MAX)');
+  });
+
+  it('should check numbers against INT and DECIMAL', () => {
+    expect(checkParameter(7, SqlTypes.Int())).toBeNull();
+    expect(checkParameter(1.5, SqlTypes.Int())).toBe('expected a whole number for INT');
+    expect(checkParameter(2 ** 31, SqlTypes.Int())).toBe('is outside the INT range');
+    expect(checkParameter(123.45, SqlTypes.Decimal(5, 2))).toBeNull();
+    expect(checkParameter(1234.5, SqlTypes.Decimal(5, 2))).toBe('has too many digits for DECIMAL(5, 2)');
+    expect(checkParameter(1.234, SqlTypes.Decimal(5, 2))).toBe('has more than 2 decimal places for DECIMAL(5, 2)');
+  });
+
+  it('should check GUIDs, dates and bits', () => {
+    expect(checkParameter('3f2504e0-4f89-11d3-9a0c-0305e82c3301', SqlTypes.UniqueIdentifier())).toBeNull();
+    expect(checkParameter('step-1', SqlTypes.UniqueIdentifier())).toBe('expected a GUID for UNIQUEIDENTIFIER');
+    expect(checkParameter('2024-01-31T10:00:00Z', SqlTypes.DateTime2())).toBeNull();
+    expect(checkParameter('not a date', SqlTypes.DateTime2())).toBe('expected a date for DATETIME2');
+    expect(checkParameter(true, SqlTypes.Bit())).toBeNull();
+    expect(checkParameter('yes', SqlTypes.Bit())).toBe('expected true, false, 0 or 1 for BIT');
+  });
+
+  it('should allow null unless the descriptor is not nullable', () => {
+    expect(checkParameter(null, SqlTypes.Int())).toBeNull();
+    expect(checkParameter(undefined, notNull(SqlTypes.Int()))).toBe('is required');
+  });
+});
+
+describe('validateParameters', () => {
+  it('should report every parameter that does not match its descriptor', () => {
+    const errors = validateParameters({
+      query: 'SELECT @name, @version, @note',
+      parameters: { name: 'x'.repeat(300), version: 'two', note: 'untyped' },
+      types: { name: SqlTypes.NVarChar(255), version: SqlTypes.Int() },
+    });
+
+    expect(errors).toEqual([
+      '@name is 300 characters, longer than NVARCHAR(255)',
+      '@version expected a whole number for INT',
+    ]);
+  });
+});
+
+describe('DatabaseService parameter binding', () => {
+  beforeEach(() => {
+    dbService.setDriver(new EmbeddedSqlDriver());
+  });
+
+  afterEach(() => {
+    dbService.setDriver(null);
+  });
+
+  it('should store quotes and semicolons exactly as entered', async () => {
+    const name = "Customer's order; retry";
+    await dbService.executeQuery(TestCaseQueries.insert({ id: 'tc-1', name, description: "-- it's fine" }));
+
+    const result = await dbService.executeQuery<any[]>(TestCaseQueries.getById('tc-1'));
+
+    expect(result.success).toBe(true);
+    expect(result.data![0].Name).toBe(name);
+    expect(result.data![0].Description).toBe("-- it's fine");
+  });
+
+  it('should fail without running statements whose parameters do not match their types', async () => {
+    const result = await dbService.executeQuery(TestCaseQueries.insert({ id: 'tc-1', name: 'x'.repeat(256), description: '' }));
+    const count = await dbService.executeQuery<any[]>({ query: 'SELECT COUNT(*) AS Total FROM TestCases', parameters: {} });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Invalid parameters: @name is 256 characters, longer than NVARCHAR(255)');
+    expect(count.data![0].Total).toBe(0);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { classifyQuery } from '@/lib/statement-classifier';
+
+describe('classifyQuery', () => {
+  it('should classify single reads, writes and DDL', () => {
+    expect(classifyQuery('SELECT * FROM TestCases WHERE Id = @id').kind).toBe('read');
+    expect(classifyQuery('WITH recent AS (SELECT * FROM TestCases) SELECT * FROM recent').kind).toBe('read');
+    expect(classifyQuery('UPDATE CatalogSteps SET Name = @name WHERE Id = @id').kind).toBe('write');
+    expect(classifyQuery('SELECT * INTO #copy FROM TestCases').kind).toBe('write');
+    expect(classifyQuery('EXEC sp_refresh_catalog').kind).toBe('write');
+    expect(classifyQuery('TRUNCATE TABLE TestStepMemberships').kind).toBe('ddl');
+    expect(classifyQuery('drop table TestCases').kind).toBe('ddl');
+  });
+
+  it('should split batches on semicolons and GO lines', () => {
+    const classification = classifyQuery(
+      "INSERT INTO TestCases (Id, Name) VALUES (@id, 'a;b');\nSELECT * FROM TestCases\nGO\nALTER TABLE TestCases ADD Notes NVARCHAR(MAX)"
+    );
+
+    expect(classification.kind).toBe('multi');
+    expect(classification.statements).toEqual([
+      { text: "INSERT INTO TestCases (Id, Name) VALUES (@id, 'a;b')", kind: 'write' },
+      { text: 'SELECT * FROM TestCases', kind: 'read' },
+      { text: 'ALTER TABLE TestCases ADD Notes NVARCHAR(MAX)', kind: 'ddl' },
+    ]);
+    expect(classification).toMatchObject({ hasWrites: true, hasDdl: true });
+  });
+
+  it('should ignore keywords in literals, comments, quoted names and column references', () => {
+    const classification = classifyQuery(
+      "-- DROP TABLE later\nSELECT 'DELETE' AS Action, [Update], h.Delete FROM History h /* TRUNCATE */;"
+    );
+
+    expect(classification).toEqual({
+      kind: 'read',
+      statements: [{ text: expect.stringContaining('SELECT'), kind: 'read' }],
+      hasWrites: false,
+      hasDdl: false,
+    });
+  });
+
+  it('should treat statements it does not recognise as writes', () => {
+    for (const query of [
+      'CALL refresh_catalog()',
+      'REPLACE INTO TestCases (Id, Name) VALUES (@id, @name)',
+      "COPY TestCases FROM '/tmp/cases.csv'",
+      "DBCC CHECKIDENT('TestCases', RESEED, 0)",
+      "BACKUP DATABASE Tests TO DISK = 'tests.bak'",
+      "sp_rename 'TestCases', 'Cases'",
+      "xp_cmdshell 'dir'",
+      'SET TRANSACTION READ WRITE',
+    ]) {
+      expect(classifyQuery(query).kind).toBe('write');
+    }
+    expect(classifyQuery("SELECT REPLACE(Name, 'a', 'b') FROM TestCases").kind).toBe('read');
+    expect(classifyQuery('DECLARE @id INT = 1; SET @id = 2; SELECT @id').hasWrites).toBe(false);
+    expect(classifyQuery('EXPLAIN SELECT * FROM TestCases').kind).toBe('read');
+  });
+
+  it('should treat a write without a separator after a read as a write', () => {
+    expect(classifyQuery('SELECT 1 DELETE FROM TestCases').kind).toBe('write');
+    expect(classifyQuery('   ').statements).toEqual([]);
+  });
+});
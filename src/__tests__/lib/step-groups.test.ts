@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyStepGroupChange,
+  detachStepGroup,
+  findStepGroupUsages,
+  insertStepGroup,
+  syncLinkedMemberships,
+} from '@/lib/step-groups';
+import { StepGroup } from '@/models/stepgroup.model';
+import { TestStepMembership } from '@/models/testcase.model';
+import { CatalogStep } from '@/models/catalog.model';
+import { validateStepGroupInsertion, validateStepGroupSteps } from '@/validators/stepgroup.validator';
+
+const group = (catalogStepIds: string[]): StepGroup => ({
+  id: 'g1',
+  name: 'Login',
+  description: '',
+  catalogStepIds,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+const membership = (
+  id: string,
+  testCaseId: string,
+  catalogStepId: string,
+  processOrder: number,
+  extra: Partial<TestStepMembership> = {}
+): TestStepMembership => ({ id, testCaseId, catalogStepId, processOrder, createdAt: new Date(), ...extra });
+
+const linked = { stepGroupId: 'g1', groupLinked: true };
+
+const summary = (memberships: TestStepMembership[]) =>
+  [...memberships]
+    .sort((a, b) => a.processOrder - b.processOrder)
+    .map(m => `${m.processOrder}:${m.catalogStepId}`);
+
+describe('step groups', () => {
+  it('should append the group steps in order, linked or expanded', () => {
+    const existing = [membership('m1', 'TC-1', 'search', 1)];
+
+    const linkedResult = insertStepGroup(existing, group(['open', 'login']), 'TC-1', 'link');
+    const expanded = insertStepGroup(existing, group(['open', 'login']), 'TC-1', 'expand');
+
+    expect(summary(linkedResult)).toEqual(['1:search', '2:open', '3:login']);
+    expect(linkedResult.slice(1).every(m => m.stepGroupId === 'g1' && m.groupLinked)).toBe(true);
+    expect(expanded.slice(1).every(m => m.stepGroupId === 'g1' && !m.groupLinked)).toBe(true);
+  });
+
+  it('should rebuild the linked block in place, keeping arguments of retained steps', () => {
+    const memberships = [
+      membership('m1', 'TC-1', 'open', 1, linked),
+      membership('m2', 'TC-1', 'login', 2, { ...linked, arguments: { user: 'admin' } }),
+      membership('m3', 'TC-1', 'checkout', 3, { arguments: { token: '${step2.token}' } }),
+    ];
+
+    const result = syncLinkedMemberships(memberships, group(['login', 'accept', 'open']));
+
+    expect(summary(result)).toEqual(['1:login', '2:accept', '3:open', '4:checkout']);
+    expect(result[0]).toMatchObject({ id: 'm2', arguments: { user: 'admin' } });
+    expect(result[1]).toMatchObject({ testCaseId: 'TC-1', ...linked });
+    expect(result[3].arguments).toEqual({ token: '${step1.token}' });
+  });
+
+  it('should only rebuild test cases that link the changed group', () => {
+    const memberships = [
+      membership('m1', 'TC-1', 'open', 1, linked),
+      membership('m2', 'TC-2', 'open', 1, { stepGroupId: 'g1', groupLinked: false }),
+      membership('m3', 'TC-3', 'open', 1),
+    ];
+
+    const result = applyStepGroupChange(memberships, group(['open', 'login']));
+
+    expect(result.testCaseIds).toEqual(['TC-1']);
+    expect(summary(result.memberships.filter(m => m.testCaseId === 'TC-1'))).toEqual(['1:open', '2:login']);
+    expect(result.memberships.filter(m => m.testCaseId !== 'TC-1')).toEqual(memberships.slice(1));
+  });
+
+  it('should detach linked steps and report usage per test case', () => {
+    const memberships = [
+      membership('m1', 'TC-1', 'open', 1, linked),
+      membership('m2', 'TC-1', 'login', 2, linked),
+      membership('m3', 'TC-2', 'open', 1, { stepGroupId: 'g1', groupLinked: false }),
+    ];
+
+    expect(findStepGroupUsages(memberships, 'g1')).toEqual([
+      { testCaseId: 'TC-1', linkedSteps: 2, expandedSteps: 0 },
+      { testCaseId: 'TC-2', linkedSteps: 0, expandedSteps: 1 },
+    ]);
+    expect(findStepGroupUsages(detachStepGroup(memberships, 'g1'), 'g1')).toEqual([
+      { testCaseId: 'TC-1', linkedSteps: 0, expandedSteps: 2 },
+      { testCaseId: 'TC-2', linkedSteps: 0, expandedSteps: 1 },
+    ]);
+    expect(findStepGroupUsages(detachStepGroup(memberships, 'g1', true), 'g1')).toEqual([]);
+  });
+
+  it('should refuse to insert a group with deleted or already present steps', () => {
+    const catalogSteps = [{ id: 'open', name: 'Open App' }, { id: 'login', name: 'Log In' }] as CatalogStep[];
+
+    expect(validateStepGroupSteps([]).isValid).toBe(false);
+    expect(validateStepGroupInsertion(group(['open', 'gone']), [], catalogSteps).error).toContain('1 deleted');
+    expect(
+      validateStepGroupInsertion(group(['open', 'login']), [membership('m1', 'TC-1', 'login', 1)], catalogSteps).error
+    ).toBe('Already in this test case: Log In');
+    expect(validateStepGroupInsertion(group(['open', 'login']), [], catalogSteps).isValid).toBe(true);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { StepParameter } from '@/models/catalog.model';
+import { checkArgument, parseArgumentValue, resolveArguments } from '@/lib/step-parameters';
+import { validateMembershipArguments } from '@/validators/testcase.validator';
+
+const parameters: StepParameter[] = [
+  { name: 'orderId', type: 'string', required: true },
+  { name: 'quantity', type: 'integer', required: true, defaultValue: 1 },
+  { name: 'express', type: 'boolean', required: false },
+  { name: 'currency', type: 'string', required: false, allowedValues: ['EUR', 'USD'] },
+];
+
+describe('step arguments', () => {
+  it('should parse typed text and keep unparsable text for validation', () => {
+    expect(parseArgumentValue('42', 'integer')).toBe(42);
+    expect(parseArgumentValue('TRUE', 'boolean')).toBe(true);
+    expect(parseArgumentValue(' ', 'decimal')).toBeNull();
+    expect(parseArgumentValue('many', 'integer')).toBe('many');
+    expect(parseArgumentValue(' padded ', 'string')).toBe(' padded ');
+  });
+
+  it('should check presence, type and allowed values', () => {
+    expect(checkArgument(parameters[0], undefined)).toBe('is required');
+    expect(checkArgument(parameters[1], undefined)).toBeNull();
+    expect(checkArgument(parameters[1], 'many')).toBe('expected a whole number');
+    expect(checkArgument(parameters[3], 'GBP')).toBe('must be one of EUR, USD');
+    expect(checkArgument({ name: 'on', type: 'date', required: false }, '2024-02-30x')).toBe('expected a date (YYYY-MM-DD)');
+  });
+
+  it('should fall back to defaults when resolving arguments', () => {
+    expect(resolveArguments(parameters, { orderId: 'A-1', express: true })).toEqual({
+      orderId: 'A-1',
+      quantity: 1,
+      express: true,
+      currency: null,
+    });
+  });
+
+  it('should report every invalid or undeclared membership argument', () => {
+    expect(validateMembershipArguments(parameters, { orderId: 'A-1', currency: 'EUR' }).isValid).toBe(true);
+
+    const result = validateMembershipArguments(parameters, { quantity: 2.5, coupon: 'X' });
+    expect(result.isValid).toBe(false);
+    expect(result.error).toBe('orderId is required; quantity expected a whole number; coupon is not a parameter of this step');
+  });
+});
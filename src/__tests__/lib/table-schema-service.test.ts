@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { dbService } from '@/lib/db-service';
+import { EmbeddedSqlDriver } from '@/lib/embedded-sql-driver';
+import { buildFilterClause, quoteIdentifier, tableSchemaService } from '@/lib/table-schema-service';
+
+describe('quoteIdentifier', () => {
+  it('should quote identifiers for each dialect', () => {
+    expect(quoteIdentifier('TestCases')).toBe('[TestCases]');
+    expect(quoteIdentifier('TestCases', 'postgresql')).toBe('"TestCases"');
+    expect(quoteIdentifier('TestCases', 'mysql')).toBe('`TestCases`');
+  });
+
+  it('should reject malformed identifiers', () => {
+    expect(() => quoteIdentifier('Name]; DROP TABLE TestCases; --')).toThrow('Invalid column name');
+    expect(() => quoteIdentifier('1Name')).toThrow('Invalid column name');
+  });
+});
+
+describe('buildFilterClause', () => {
+  const resolved = { column: (name: string) => `[${name}]` };
+
+  it('should bind every value as a parameter', () => {
+    const { clause, parameters } = buildFilterClause(
+      {
+        testCaseId: 'tc-1',
+        match: 'any',
+        conditions: [
+          { column: 'Name', operator: 'contains', value: '50%_off' },
+          { column: 'ProcessOrder', operator: 'in', value: [1, 2] },
+          { column: 'Description', operator: 'isNull' },
+        ],
+      },
+      resolved
+    );
+
+    expect(clause).toBe(
+      "WHERE [TestCaseId] = @testCaseId AND ([Name] LIKE @filter0 ESCAPE '!' OR [ProcessOrder] IN (@filter1_0, @filter1_1) OR [Description] IS NULL)"
+    );
+    expect(parameters).toEqual({ testCaseId: 'tc-1', filter0: '%50!%!_off%', filter1_0: 1, filter1_1: 2 });
+  });
+
+  it('should return an empty clause without a filter', () => {
+    expect(buildFilterClause(undefined, resolved)).toEqual({ clause: '', parameters: {} });
+  });
+});
+
+describe('TableSchemaService', () => {
+  beforeEach(async () => {
+    dbService.setDriver(new EmbeddedSqlDriver());
+    tableSchemaService.clearCache();
+    await tableSchemaService.insertRow('TestCases', { Id: 'tc-1', Name: "Customer's 100% order", Description: 'First' });
+    await tableSchemaService.insertRow('TestCases', { Id: 'tc-2', Name: 'Checkout', Description: 'Second' });
+  });
+
+  afterEach(() => {
+    dbService.setDriver(null);
+  });
+
+  it('should filter rows with structured conditions', async () => {
+    const result = await tableSchemaService.getTableData('TestCases', {
+      conditions: [{ column: 'name', operator: 'contains', value: '100%' }],
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data!.map(row => row.Id)).toEqual(['tc-1']);
+  });
+
+  it('should reject unknown tables and columns without running them', async () => {
+    const unknownTable = await tableSchemaService.getTableData('Secrets');
+    const unknownColumn = await tableSchemaService.getTableData('TestCases', {
+      conditions: [{ column: 'Password', operator: 'equals', value: 'x' }],
+    });
+    const injected = await tableSchemaService.getTableData('TestCases; DROP TABLE TestCases');
+
+    expect(unknownTable.error).toBe('Unknown table "Secrets"');
+    expect(unknownColumn.error).toBe('Unknown column "Password" in TestCases');
+    expect(injected.error).toContain('Invalid table name');
+    expect((await tableSchemaService.getTableData('TestCases')).data).toHaveLength(2);
+  });
+
+  it('should validate row columns on insert, update and delete', async () => {
+    const insert = await tableSchemaService.insertRow('TestCases', { Id: 'tc-3', 'Name) VALUES (1); --': 'x' });
+    const update = await tableSchemaService.updateRow('TestCases', { Id: 'tc-1', Name: 'Renamed' }, 'Id', 'tc-1');
+    const remove = await tableSchemaService.deleteRow('TestCases', 'Missing', 'tc-2');
+
+    expect(insert.error).toContain('Invalid column name');
+    expect(update.success).toBe(true);
+    expect(remove.error).toBe('Unknown column "Missing" in TestCases');
+  });
+});
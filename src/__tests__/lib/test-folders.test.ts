@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildFolderTree,
+  countTestCasesByFolder,
+  flattenFolderTree,
+  formatFolderPath,
+  getDescendantFolderIds,
+  removeFolder,
+} from '@/lib/test-folders';
+import { moveSuiteEntry, resolveSuite } from '@/lib/test-suites';
+import { TestFolder } from '@/models/folder.model';
+import { TestSuite } from '@/models/suite.model';
+import { validateTestFolder } from '@/validators/folder.validator';
+import { validateTestSuite } from '@/validators/suite.validator';
+
+const folder = (id: string, name: string, parentId?: string): TestFolder => ({
+  id,
+  name,
+  parentId,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+const folders = [
+  folder('checkout', 'Checkout'),
+  folder('payments', 'Payments', 'checkout'),
+  folder('cards', 'Cards', 'payments'),
+  folder('account', 'Account'),
+];
+
+const testCases = [
+  { id: 'TC-1', folderId: 'checkout' },
+  { id: 'TC-2', folderId: 'cards' },
+  { id: 'TC-3', folderId: 'cards' },
+  { id: 'TC-4' },
+];
+
+describe('test folders', () => {
+  it('should nest folders by name and total the counts of subfolders', () => {
+    const counts = countTestCasesByFolder(testCases);
+    const tree = buildFolderTree(folders, counts);
+
+    expect(counts.get(null)).toBe(1);
+    expect(flattenFolderTree(tree).map(node => `${node.depth}:${node.folder.name}:${node.totalCount}`)).toEqual([
+      '0:Account:0',
+      '0:Checkout:3',
+      '1:Payments:2',
+      '2:Cards:2',
+    ]);
+    expect(tree[1].directCount).toBe(1);
+  });
+
+  it('should show orphaned folders at the root and survive parent cycles', () => {
+    const tree = buildFolderTree(
+      [folder('a', 'A', 'b'), folder('b', 'B', 'a'), folder('c', 'C', 'gone')],
+      new Map()
+    );
+
+    expect(tree.map(node => node.folder.id)).toEqual(['c']);
+  });
+
+  it('should resolve descendants and paths', () => {
+    expect(getDescendantFolderIds(folders, 'checkout')).toEqual(['checkout', 'payments', 'cards']);
+    expect(formatFolderPath(folders, 'cards')).toBe('Checkout / Payments / Cards');
+    expect(formatFolderPath(folders, undefined)).toBe('Unfiled');
+  });
+
+  it('should move subfolders up to the parent of a removed folder', () => {
+    const result = removeFolder(folders, 'payments');
+
+    expect(result.map(f => f.id)).toEqual(['checkout', 'cards', 'account']);
+    expect(result.find(f => f.id === 'cards')?.parentId).toBe('checkout');
+  });
+
+  it('should reject duplicate sibling names and moves into a subfolder', () => {
+    expect(validateTestFolder({ name: 'Payments', parentId: 'checkout' }, folders).error).toContain('already exists');
+    expect(validateTestFolder({ name: 'Payments' }, folders).isValid).toBe(true);
+    expect(validateTestFolder({ name: 'A/B' }, folders).isValid).toBe(false);
+    expect(validateTestFolder({ name: 'Checkout', parentId: 'cards' }, folders, 'checkout').error).toBe(
+      'A folder cannot be moved into itself or one of its subfolders'
+    );
+  });
+});
+
+describe('test suites', () => {
+  const suite: TestSuite = {
+    id: 'suite-1',
+    name: 'Smoke',
+    description: '',
+    testCaseIds: ['TC-3', 'TC-9', 'TC-1'],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  it('should keep the run order and report deleted test cases', () => {
+    const resolved = resolveSuite(suite, testCases);
+
+    expect(resolved.testCases.map(tc => tc.id)).toEqual(['TC-3', 'TC-1']);
+    expect(resolved.missingIds).toEqual(['TC-9']);
+    expect(moveSuiteEntry(suite.testCaseIds, 2, -1)).toEqual(['TC-3', 'TC-1', 'TC-9']);
+    expect(moveSuiteEntry(suite.testCaseIds, 0, -1)).toBe(suite.testCaseIds);
+  });
+
+  it('should validate names and test case references', () => {
+    expect(validateTestSuite({ name: 'Regression', testCaseIds: ['TC-1', 'TC-2'] }, [suite], testCases).isValid).toBe(true);
+    expect(validateTestSuite({ name: 'smoke', testCaseIds: ['TC-1'] }, [suite], testCases).isValid).toBe(false);
+    expect(validateTestSuite({ name: 'Smoke', testCaseIds: ['TC-1'] }, [suite], testCases, 'suite-1').isValid).toBe(true);
+    expect(validateTestSuite({ name: 'Regression', testCaseIds: ['TC-1', 'TC-1'] }, [], testCases).error).toBe(
+      'A test case can only appear once in a suite'
+    );
+    expect(validateTestSuite({ name: 'Regression', testCaseIds: ['TC-9'] }, [], testCases).error).toBe(
+      'Unknown test case(s): TC-9'
+    );
+  });
+});
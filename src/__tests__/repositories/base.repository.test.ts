@@ -189,6 +189,27 @@ describe('BaseRepository', () => {
       expect(result.updatedAt.getTime()).toBeGreaterThanOrEqual(originalItem.updatedAt.getTime());
     });
 
+    it('should bump the version on every update', async () => {
+      const created = await repository.create({ id: '1', name: 'Original', value: 10, createdAt: new Date(), updatedAt: new Date() });
+      const updated = await repository.update({ ...created, name: 'Updated' });
+
+      expect(created.version).toBe(1);
+      expect(updated.version).toBe(2);
+    });
+
+    it('should return a conflict when the stored version moved on', async () => {
+      const created = await repository.create({ id: '1', name: 'Original', value: 10, createdAt: new Date(), updatedAt: new Date() });
+      await repository.update({ ...created, name: 'Saved elsewhere' });
+
+      const result = await repository.tryUpdate({ ...created, name: 'Stale edit' });
+
+      expect(result.success).toBe(false);
+      expect(result.conflict?.current.name).toBe('Saved elsewhere');
+      expect(result.conflict?.attempted.name).toBe('Stale edit');
+      expect((await repository.findById('1'))?.name).toBe('Saved elsewhere');
+      await expect(repository.update({ ...created, name: 'Stale edit' })).rejects.toThrow('changed by someone else');
+    });
+
     it('should preserve other items when updating one', async () => {
       const items: TestEntity[] = [
         { id: '1', name: 'Item 1', value: 10, createdAt: new Date(), updatedAt: new Date() },
@@ -327,4 +348,80 @@ describe('BaseRepository', () => {
       expect(allItems).toHaveLength(0);
     });
   });
+
+  describe('findPage', () => {
+    const seedItems = () => {
+      const items: TestEntity[] = [
+        { id: '1', name: 'Gamma', value: 20, createdAt: new Date(), updatedAt: new Date() },
+        { id: '2', name: 'Alpha', value: 20, createdAt: new Date(), updatedAt: new Date() },
+        { id: '3', name: 'Beta', value: 10, createdAt: new Date(), updatedAt: new Date() },
+        { id: '4', name: 'Alphabet', value: 30, createdAt: new Date(), updatedAt: new Date() },
+      ];
+      mockStorage.set('test-storage-key', items);
+    };
+
+    it('should return the requested page with totals', async () => {
+      seedItems();
+
+      const page = await repository.findPage({
+        page: 2,
+        pageSize: 3,
+        sort: [{ field: 'name', direction: 'asc' }],
+      });
+
+      expect(page.items.map(i => i.name)).toEqual(['Gamma']);
+      expect(page.total).toBe(4);
+      expect(page.hasMore).toBe(false);
+    });
+
+    it('should sort by multiple fields', async () => {
+      seedItems();
+
+      const page = await repository.findPage({
+        page: 1,
+        pageSize: 10,
+        sort: [
+          { field: 'value', direction: 'desc' },
+          { field: 'name', direction: 'asc' },
+        ],
+      });
+
+      expect(page.items.map(i => i.id)).toEqual(['4', '2', '1', '3']);
+    });
+
+    it('should only search the requested fields', async () => {
+      seedItems();
+
+      const byName = await repository.findPage({ page: 1, pageSize: 10, search: { query: 'alpha', fields: ['name'] } });
+      const byId = await repository.findPage({ page: 1, pageSize: 10, search: { query: 'alpha', fields: ['id'] } });
+
+      expect(byName.total).toBe(2);
+      expect(byName.hasMore).toBe(false);
+      expect(byId.total).toBe(0);
+    });
+
+    it('should combine filters with the search', async () => {
+      seedItems();
+
+      const page = await repository.findPage({
+        page: 1,
+        pageSize: 10,
+        search: { query: 'alpha', fields: ['name'] },
+        filters: [{ field: 'name', values: ['Alpha', 'Beta'] }],
+      });
+      const none = await repository.findPage({ page: 1, pageSize: 10, filters: [{ field: 'name', values: [] }] });
+
+      expect(page.items.map(i => i.id)).toEqual(['2']);
+      expect(none.total).toBe(0);
+    });
+
+    it('should cap results at the search limit', async () => {
+      seedItems();
+
+      const page = await repository.findPage({ page: 1, pageSize: 10, search: { query: 'a', limit: 2 } });
+
+      expect(page.items).toHaveLength(2);
+      expect(page.total).toBe(2);
+    });
+  });
 });
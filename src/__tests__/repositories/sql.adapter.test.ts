@@ -0,0 +1,296 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { dbService } from '@/lib/db-service';
+import { EmbeddedSqlDriver } from '@/lib/embedded-sql-driver';
+import { SqlStorageAdapter } from '@/repositories/sql.adapter';
+import { CatalogRepository } from '@/repositories/catalog.repository';
+import { TestCaseRepository, MembershipRepository } from '@/repositories/testcase.repository';
+import { StepGroupRepository } from '@/repositories/stepgroup.repository';
+import { TestFolderRepository } from '@/repositories/folder.repository';
+import { TestSuiteRepository } from '@/repositories/suite.repository';
+import { CustomFieldRepository } from '@/repositories/customfield.repository';
+import { createStorageAdapter, kvStorageAdapter } from '@/repositories/storage.adapter';
+import { DatabaseConnection } from '@/lib/db-types';
+import { IntegrityService, PLACEHOLDER_STEP_ID } from '@/lib/integrity-service';
+import { CatalogStep } from '@/models/catalog.model';
+
+describe('SqlStorageAdapter', () => {
+  const adapter = new SqlStorageAdapter();
+  const catalogRepository = new CatalogRepository(adapter);
+  const testCaseRepository = new TestCaseRepository(adapter);
+  const membershipRepository = new MembershipRepository(adapter);
+  const stepGroupRepository = new StepGroupRepository(adapter);
+  const folderRepository = new TestFolderRepository(adapter);
+  const suiteRepository = new TestSuiteRepository(adapter);
+
+  const createStep = (id: string, name: string): CatalogStep => ({
+    id,
+    name,
+    description: `${name} step`,
+    javaClass: 'com.example.Steps',
+    javaMethod: 'run',
+    sqlTables: ['orders'],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const seed = async () => {
+    await catalogRepository.create(createStep('s1', 'Open cart'));
+    await catalogRepository.create(createStep('s2', 'Pay'));
+    await testCaseRepository.create({ id: 'TC-001', name: 'Checkout', description: 'Checkout flow', createdAt: new Date(), updatedAt: new Date() });
+    await membershipRepository.create({ id: 'm1', testCaseId: 'TC-001', catalogStepId: 's1', processOrder: 1 });
+    await membershipRepository.create({ id: 'm2', testCaseId: 'TC-001', catalogStepId: 's2', processOrder: 2 });
+  };
+
+  beforeEach(() => {
+    dbService.setDriver(new EmbeddedSqlDriver());
+  });
+
+  afterEach(() => {
+    dbService.setDriver(null);
+  });
+
+  it('should map rows back into entities', async () => {
+    await seed();
+
+    const step = await catalogRepository.findById('s1');
+
+    expect(step?.name).toBe('Open cart');
+    expect(step?.sqlTables).toEqual(['orders']);
+    expect(step?.createdAt).toBeInstanceOf(Date);
+    expect((await catalogRepository.findAll()).map(s => s.id)).toEqual(['s1', 's2']);
+  });
+
+  it('should load a test case with its ordered steps', async () => {
+    await seed();
+
+    const result = await testCaseRepository.findWithSteps('TC-001');
+
+    expect(result?.testCase.name).toBe('Checkout');
+    expect(result?.steps.map(s => s.catalogStep.name)).toEqual(['Open cart', 'Pay']);
+  });
+
+  it('should persist step parameters, outputs and membership arguments as JSON columns', async () => {
+    await seed();
+    const step = (await catalogRepository.findById('s2'))!;
+    await catalogRepository.update({
+      ...step,
+      parameters: [{ name: 'amount', type: 'decimal', required: true, allowedValues: [9.99, 19.99] }],
+      outputs: [{ name: 'paymentId', type: 'string' }],
+    });
+    const [membership] = await membershipRepository.findByCatalogStep('s2');
+    await membershipRepository.update({ ...membership, arguments: { amount: 19.99 } });
+
+    const result = await testCaseRepository.findWithSteps('TC-001');
+
+    expect(result?.steps[1].catalogStep.parameters).toEqual([
+      { name: 'amount', type: 'decimal', required: true, allowedValues: [9.99, 19.99] },
+    ]);
+    expect(result?.steps[1].catalogStep.outputs).toEqual([{ name: 'paymentId', type: 'string' }]);
+    expect(result?.steps[1].membership.arguments).toEqual({ amount: 19.99 });
+    expect(result?.steps[0].membership.arguments).toEqual({});
+  });
+
+  it('should store step groups and find the test cases that use them', async () => {
+    await seed();
+    await stepGroupRepository.create({ id: 'g1', name: 'Checkout', description: '', catalogStepIds: ['s1', 's2'], createdAt: new Date(), updatedAt: new Date() });
+    const [m1, m2] = await membershipRepository.findByTestCase('TC-001');
+    await membershipRepository.update({ ...m1, stepGroupId: 'g1', groupLinked: true });
+    await membershipRepository.update({ ...m2, stepGroupId: 'g1', groupLinked: false });
+
+    expect((await stepGroupRepository.findById('g1'))?.catalogStepIds).toEqual(['s1', 's2']);
+    expect((await stepGroupRepository.findByCatalogStep('s2')).map(g => g.id)).toEqual(['g1']);
+    expect(await stepGroupRepository.findUsages('g1')).toEqual([
+      { testCaseId: 'TC-001', linkedSteps: 1, expandedSteps: 1 },
+    ]);
+  });
+
+  it('should store folders and suites and filter test cases by folder', async () => {
+    await seed();
+    await folderRepository.create({ id: 'f1', name: 'Checkout', createdAt: new Date(), updatedAt: new Date() });
+    await folderRepository.create({ id: 'f2', name: 'Payments', parentId: 'f1', createdAt: new Date(), updatedAt: new Date() });
+    await testCaseRepository.create({ id: 'TC-002', name: 'Pay by card', description: '', folderId: 'f2', createdAt: new Date(), updatedAt: new Date() });
+    await testCaseRepository.create({ id: 'TC-003', name: 'Refund', description: '', folderId: 'f1', createdAt: new Date(), updatedAt: new Date() });
+    await suiteRepository.create({ id: 'suite-1', name: 'Smoke', description: '', testCaseIds: ['TC-003', 'TC-001'], createdAt: new Date(), updatedAt: new Date() });
+
+    const inFolder = await testCaseRepository.findPage({
+      page: 1,
+      pageSize: 10,
+      sort: [{ field: 'id', direction: 'asc' }],
+      filters: [{ field: 'folderId', values: ['f1', 'f2'] }],
+    });
+    const unfiled = await testCaseRepository.findPage({ page: 1, pageSize: 10, filters: [{ field: 'folderId', values: [null] }] });
+    await testCaseRepository.moveToFolder(['TC-002'], undefined);
+
+    expect((await folderRepository.findChildren('f1')).map(f => f.id)).toEqual(['f2']);
+    expect((await suiteRepository.findById('suite-1'))?.testCaseIds).toEqual(['TC-003', 'TC-001']);
+    expect((await suiteRepository.findByTestCase('TC-001')).map(s => s.id)).toEqual(['suite-1']);
+    expect(inFolder.items.map(tc => tc.id)).toEqual(['TC-002', 'TC-003']);
+    expect(unfiled.items.map(tc => tc.id)).toEqual(['TC-001']);
+    expect((await testCaseRepository.findByFolder()).map(tc => tc.id)).toEqual(['TC-001', 'TC-002']);
+  });
+
+  it('should store classification and custom fields and filter by them', async () => {
+    await seed();
+    await catalogRepository.update({
+      ...(await catalogRepository.findById('s2'))!,
+      tags: ['payments', 'Smoke'],
+      priority: 'high',
+      owner: 'Billing',
+      customFields: { storyPoints: 3, tier: 'Gold' },
+    });
+    await testCaseRepository.create({
+      id: 'TC-002',
+      name: 'Refund',
+      description: '',
+      tags: ['smoke'],
+      priority: 'low',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    await new CustomFieldRepository(adapter).create({
+      id: 'field-1',
+      key: 'tier',
+      label: 'Tier',
+      type: 'enum',
+      appliesTo: ['catalog-step'],
+      required: false,
+      options: ['Gold', 'Silver'],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    const step = await catalogRepository.findById('s2');
+    const lowPriority = await testCaseRepository.findPage({ page: 1, pageSize: 10, filters: [{ field: 'priority', values: ['low'] }] });
+    const tagged = await catalogRepository.findPage({ page: 1, pageSize: 10, search: { query: 'smoke', fields: ['tags'] } });
+
+    expect(step?.tags).toEqual(['payments', 'Smoke']);
+    expect(step?.customFields).toEqual({ storyPoints: 3, tier: 'Gold' });
+    expect((await catalogRepository.findById('s1'))?.priority).toBeUndefined();
+    expect((await catalogRepository.findByFilters({ tag: 'smoke', customFields: { tier: 'gold' } })).map(s => s.id)).toEqual(['s2']);
+    expect((await catalogRepository.findByFilters({ owner: 'billing', priority: 'low' }))).toEqual([]);
+    expect((await testCaseRepository.findByFilters({ tag: 'SMOKE' })).map(tc => tc.id)).toEqual(['TC-002']);
+    expect(lowPriority.items.map(tc => tc.id)).toEqual(['TC-002']);
+    expect(tagged.items.map(s => s.id)).toEqual(['s2']);
+    expect((await new CustomFieldRepository(adapter).findByTarget('catalog-step'))[0]).toMatchObject({
+      key: 'tier',
+      required: false,
+      options: ['Gold', 'Silver'],
+    });
+  });
+
+  it('should swap process orders atomically', async () => {
+    await seed();
+
+    await membershipRepository.bulkUpdateOrders([
+      { id: 'm1', processOrder: 2 },
+      { id: 'm2', processOrder: 1 },
+    ]);
+
+    const memberships = await membershipRepository.findByTestCase('TC-001');
+    expect(memberships.map(m => m.id)).toEqual(['m2', 'm1']);
+  });
+
+  it('should page and search with OFFSET/FETCH', async () => {
+    for (let i = 1; i <= 7; i++) {
+      await catalogRepository.create(createStep(`s${i}`, `Step ${i}`));
+    }
+    await catalogRepository.create({ ...createStep('s8', 'Verify order'), javaClass: 'com.example.Orders' });
+
+    const page = await catalogRepository.findPage({
+      page: 2,
+      pageSize: 3,
+      sort: [{ field: 'name', direction: 'desc' }],
+    });
+    const search = await catalogRepository.findPage({
+      page: 1,
+      pageSize: 3,
+      search: { query: 'orders', fields: ['javaClass'] },
+    });
+
+    expect(page.items.map(s => s.name)).toEqual(['Step 5', 'Step 4', 'Step 3']);
+    expect(page.total).toBe(8);
+    expect(page.hasMore).toBe(true);
+    expect(search.items.map(s => s.id)).toEqual(['s8']);
+  });
+
+  it('should reject sorting on unmapped fields', async () => {
+    await expect(
+      catalogRepository.findPage({ page: 1, pageSize: 10, sort: [{ field: 'Name; DROP TABLE TestCases', direction: 'asc' }] })
+    ).rejects.toThrow('Unknown field');
+  });
+
+  it('should detect concurrent edits through the version column', async () => {
+    await seed();
+    const loaded = (await testCaseRepository.findById('TC-001'))!;
+
+    const first = await testCaseRepository.tryUpdate({ ...loaded, name: 'First save' });
+    const second = await testCaseRepository.tryUpdate({ ...loaded, name: 'Second save' });
+
+    expect(first.success).toBe(true);
+    expect(first.data?.version).toBe(2);
+    expect(second.success).toBe(false);
+    expect(second.conflict?.current.name).toBe('First save');
+  });
+
+  it('should throw when updating a missing item', async () => {
+    await expect(catalogRepository.update(createStep('missing', 'Missing'))).rejects.toThrow(
+      'Item with id missing not found'
+    );
+  });
+
+  it('should delete memberships by catalog step and report the count', async () => {
+    await seed();
+
+    expect(await membershipRepository.deleteByCatalogStep('s1')).toBe(1);
+    expect(await membershipRepository.findAll()).toHaveLength(1);
+  });
+
+  it('should move memberships onto the placeholder step before deleting', async () => {
+    await seed();
+
+    const result = await new IntegrityService(adapter).deleteCatalogStep('s1', 'placeholder');
+    const memberships = await membershipRepository.findByTestCase('TC-001');
+
+    expect(result.success).toBe(true);
+    expect(memberships.map(m => m.catalogStepId)).toEqual([PLACEHOLDER_STEP_ID, 's2']);
+    expect(await catalogRepository.exists('s1')).toBe(false);
+  });
+
+  it('should roll back a test case cascade that fails part way', async () => {
+    await seed();
+    const deleteRow = vi.spyOn(SqlStorageAdapter.prototype, 'delete').mockRejectedValueOnce(new Error('Deadlock victim'));
+
+    const result = await new IntegrityService(adapter).deleteTestCase('TC-001');
+    deleteRow.mockRestore();
+
+    expect(result).toEqual({ success: false, error: 'Deadlock victim' });
+    expect(await membershipRepository.findByTestCase('TC-001')).toHaveLength(2);
+    expect(await testCaseRepository.exists('TC-001')).toBe(true);
+  });
+
+  it('should surface database errors', async () => {
+    await seed();
+
+    await expect(
+      membershipRepository.create({ id: 'm3', testCaseId: 'TC-001', catalogStepId: 's2', processOrder: 1 })
+    ).rejects.toThrow(/UNIQUE constraint failed/);
+  });
+
+  it('should reject collections without a table mapping', async () => {
+    await expect(adapter.findAll('unknown')).rejects.toThrow('Collection unknown has no SQL table mapping');
+  });
+});
+
+describe('createStorageAdapter', () => {
+  const connection = { id: 'conn-1', repositoryStorage: 'sql' } as DatabaseConnection;
+
+  it('should fall back to the KV store without a connection', () => {
+    expect(createStorageAdapter(null)).toBe(kvStorageAdapter);
+  });
+
+  it('should pick the adapter configured on the connection', () => {
+    expect(createStorageAdapter(connection).kind).toBe('sql');
+    expect(createStorageAdapter({ ...connection, repositoryStorage: 'indexeddb' }).kind).toBe('indexeddb');
+    expect(createStorageAdapter({ ...connection, repositoryStorage: 'kv' }).kind).toBe('kv');
+  });
+});
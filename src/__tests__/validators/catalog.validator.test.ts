@@ -7,8 +7,10 @@ import {
   validateSQLTable,
   validateCatalogStep,
   validateBulkCatalogSteps,
+  validateStepParameters,
+  validateStepOutputs,
 } from '@/validators/catalog.validator';
-import { CatalogStep } from '@/models/catalog.model';
+import { CatalogStep, StepParameter } from '@/models/catalog.model';
 
 describe('Catalog Validator', () => {
   const mockExistingSteps: CatalogStep[] = [
@@ -414,4 +416,52 @@ describe('Catalog Validator', () => {
       expect(results.get(1)?.isValid).toBe(false);
     });
   });
+
+  describe('validateStepParameters', () => {
+    const parameter = (overrides: Partial<StepParameter>): StepParameter => ({
+      name: 'orderId',
+      type: 'string',
+      required: true,
+      ...overrides,
+    });
+
+    it('should accept typed defaults and allowed values', () => {
+      const result = validateStepParameters([
+        parameter({}),
+        parameter({ name: 'quantity', type: 'integer', defaultValue: 1, allowedValues: [1, 5, 10] }),
+        parameter({ name: 'shipOn', type: 'date', required: false, defaultValue: '2024-06-01' }),
+      ]);
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject invalid and duplicate names', () => {
+      expect(validateStepParameters([parameter({ name: 'Order Id' })]).error).toContain('Invalid parameter name');
+      expect(validateStepParameters([parameter({}), parameter({ type: 'integer' })]).error).toContain(
+        'declared more than once'
+      );
+    });
+
+    it('should reject defaults and allowed values that do not match the type', () => {
+      expect(validateStepParameters([parameter({ type: 'integer', defaultValue: 1.5 })]).error).toBe(
+        'Default value of orderId expected a whole number'
+      );
+      expect(validateStepParameters([parameter({ allowedValues: ['a', 'b'], defaultValue: 'c' })]).error).toBe(
+        'Default value of orderId must be one of a, b'
+      );
+      expect(validateStepParameters([parameter({ type: 'decimal', allowedValues: ['x'] })]).isValid).toBe(false);
+    });
+  });
+
+  describe('validateStepOutputs', () => {
+    it('should accept uniquely named outputs', () => {
+      expect(validateStepOutputs([{ name: 'orderId', type: 'integer' }, { name: 'total', type: 'decimal' }]).isValid).toBe(true);
+    });
+
+    it('should reject invalid and duplicate names', () => {
+      expect(validateStepOutputs([{ name: '1st', type: 'string' }]).error).toContain('Invalid output name');
+      expect(
+        validateStepOutputs([{ name: 'orderId', type: 'string' }, { name: 'OrderId', type: 'string' }]).error
+      ).toContain('Output "OrderId" is declared more than once');
+    });
+  });
 });
@@ -1,16 +1,101 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useKV } from '@github/spark/hooks';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Plus, PencilSimple, Trash, Code, Database } from '@phosphor-icons/react';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, PencilSimple, Trash, Code, Database, MagnifyingGlass } from '@phosphor-icons/react';
 import { CatalogStep } from '@/lib/types';
+import { FilterOptions, SortOptions, UpdateResult } from '@/models/common.model';
+import { CatalogStepDeletePolicy } from '@/models/integrity.model';
+import { integrityService } from '@/lib/integrity-service';
+import { catalogRepository } from '@/repositories/catalog.repository';
+import { customFieldRepository } from '@/repositories/customfield.repository';
+import { usePagedRepository, useRepositoryItems } from '@/repositories/base.repository';
 import { CatalogStepDialog } from './CatalogStepDialog';
+import { CustomFieldManager } from './CustomFieldManager';
+import { ClassificationSummary } from './ClassificationSummary';
+import { PRIORITIES, PRIORITY_LABELS } from '@/lib/classification';
+import { PageControls } from './PageControls';
+import { toast } from 'sonner';
+
+const PAGE_SIZE = 24;
+
+const SORT_PRESETS: Record<string, { label: string; sort: SortOptions[] }> = {
+  'name-asc': { label: 'Name (A–Z)', sort: [{ field: 'name', direction: 'asc' }] },
+  'name-desc': { label: 'Name (Z–A)', sort: [{ field: 'name', direction: 'desc' }] },
+  'java-class': {
+    label: 'Java class, then method',
+    sort: [
+      { field: 'javaClass', direction: 'asc' },
+      { field: 'javaMethod', direction: 'asc' },
+      { field: 'name', direction: 'asc' },
+    ],
+  },
+  recent: {
+    label: 'Recently updated',
+    sort: [
+      { field: 'updatedAt', direction: 'desc' },
+      { field: 'name', direction: 'asc' },
+    ],
+  },
+};
+
+const SEARCH_FIELDS: Record<string, string> = {
+  all: 'All fields',
+  name: 'Name',
+  description: 'Description',
+  javaClass: 'Java class',
+  javaMethod: 'Java method',
+  sqlTables: 'SQL tables',
+  tags: 'Tags',
+  owner: 'Owner',
+};
 
 export function CatalogManager() {
-  const [catalogSteps, setCatalogSteps] = useKV<CatalogStep[]>("catalog-steps", []);
+  const [deletePolicy] = useKV<CatalogStepDeletePolicy>('catalog-step-delete-policy', 'restrict');
+  const { items: customFields, refresh: refreshCustomFields } = useRepositoryItems(customFieldRepository);
   const [selectedStep, setSelectedStep] = useState<CatalogStep | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [page, setPage] = useState(1);
+  const [sortKey, setSortKey] = useState('name-asc');
+  const [searchField, setSearchField] = useState('all');
+  const [searchInput, setSearchInput] = useState('');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [priorityFilter, setPriorityFilter] = useState('all');
+
+  const filters: FilterOptions[] | undefined =
+    priorityFilter === 'all' ? undefined : [{ field: 'priority', values: [priorityFilter] }];
+
+  const { result, loading, error, refresh } = usePagedRepository(catalogRepository, {
+    page,
+    pageSize: PAGE_SIZE,
+    sort: SORT_PRESETS[sortKey].sort,
+    search: searchTerm
+      ? { query: searchTerm, fields: searchField === 'all' ? undefined : [searchField] }
+      : undefined,
+    filters,
+  });
+  const catalogSteps = result.items;
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearchTerm(searchInput.trim());
+      setPage(1);
+    }, 250);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  useEffect(() => {
+    if (!loading && page > 1 && catalogSteps.length === 0) {
+      setPage(current => current - 1);
+    }
+  }, [loading, page, catalogSteps.length]);
+
+  useEffect(() => {
+    if (error) toast.error(error);
+  }, [error]);
 
   const handleCreateStep = () => {
     setSelectedStep(null);
@@ -22,24 +107,57 @@ export function CatalogManager() {
     setIsDialogOpen(true);
   };
 
-  const handleDeleteStep = (stepId: string) => {
-    setCatalogSteps(current => (current || []).filter(step => step.id !== stepId));
+  const handleDeleteStep = async (stepId: string) => {
+    const result = await integrityService.deleteCatalogStep(stepId, deletePolicy || 'restrict');
+
+    if (!result.success) {
+      toast.error(result.error);
+      return;
+    }
+
+    const { removedMemberships, reassignedMemberships } = result.data!;
+    if (removedMemberships > 0) {
+      toast.info(`Removed the step from ${removedMemberships} test case position(s)`);
+    } else if (reassignedMemberships > 0) {
+      toast.info(`Replaced the step with a placeholder in ${reassignedMemberships} test case position(s)`);
+    }
+    refresh();
   };
 
-  const handleSaveStep = (step: CatalogStep) => {
-    setCatalogSteps(current => {
-      const currentSteps = current || [];
-      const existing = currentSteps.find(s => s.id === step.id);
-      if (existing) {
-        return currentSteps.map(s => s.id === step.id ? step : s);
+  const handleSaveStep = async (step: CatalogStep): Promise<UpdateResult<CatalogStep>> => {
+    try {
+      if (await catalogRepository.exists(step.id)) {
+        const result = await catalogRepository.tryUpdate(step);
+        if (!result.success) {
+          if (!result.conflict) toast.error(result.error);
+          return result;
+        }
       } else {
-        return [...currentSteps, step];
+        await catalogRepository.create(step);
       }
-    });
-    setIsDialogOpen(false);
+      setIsDialogOpen(false);
+      refresh();
+      return { success: true, data: step };
+    } catch (err) {
+      const error = err instanceof Error ? err.message : 'Failed to save step';
+      toast.error(error);
+      return { success: false, error };
+    }
+  };
+
+  // Deleting a field or narrowing its targets clears values shown on the cards.
+  const handleCustomFieldsChange = () => {
+    refreshCustomFields();
+    refresh();
   };
 
-  if (!catalogSteps || catalogSteps.length === 0) {
+  const customFieldManager = (
+    <div className="border-t pt-6">
+      <CustomFieldManager onChange={handleCustomFieldsChange} />
+    </div>
+  );
+
+  if (!loading && result.total === 0 && !searchTerm) {
     return (
       <div className="flex flex-col items-center justify-center py-12">
         <div className="text-center max-w-md">
@@ -60,6 +178,8 @@ export function CatalogManager() {
           onOpenChange={setIsDialogOpen}
           onSave={handleSaveStep}
         />
+
+        <div className="w-full mt-12">{customFieldManager}</div>
       </div>
     );
   }
@@ -79,6 +199,55 @@ export function CatalogManager() {
         </Button>
       </div>
 
+      <div className="flex flex-col gap-2 sm:flex-row">
+        <div className="relative flex-1">
+          <MagnifyingGlass size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            placeholder="Search steps..."
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+        <Select value={searchField} onValueChange={(value) => { setSearchField(value); setPage(1); }}>
+          <SelectTrigger className="sm:w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(SEARCH_FIELDS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={priorityFilter} onValueChange={(value) => { setPriorityFilter(value); setPage(1); }}>
+          <SelectTrigger className="sm:w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All priorities</SelectItem>
+            {PRIORITIES.map(priority => (
+              <SelectItem key={priority} value={priority}>{PRIORITY_LABELS[priority]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={sortKey} onValueChange={(value) => { setSortKey(value); setPage(1); }}>
+          <SelectTrigger className="sm:w-52">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(SORT_PRESETS).map(([value, preset]) => (
+              <SelectItem key={value} value={value}>{preset.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {!loading && catalogSteps.length === 0 && (
+        <p className="py-8 text-center text-sm text-muted-foreground">
+          No steps match {searchTerm ? `"${searchTerm}"` : 'the selected priority'}
+        </p>
+      )}
+
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
         {catalogSteps.map(step => (
           <Card key={step.id} className="hover:shadow-md transition-shadow">
@@ -129,12 +298,20 @@ export function CatalogManager() {
                     </div>
                   </div>
                 )}
+
+                <ClassificationSummary value={step} definitions={customFields} target="catalog-step" />
               </div>
             </CardContent>
           </Card>
         ))}
       </div>
 
+      {result.total > 0 && (
+        <PageControls result={result} loading={loading} onPageChange={setPage} />
+      )}
+
+      {customFieldManager}
+
       <CatalogStepDialog
         step={selectedStep}
         open={isDialogOpen}
@@ -1,5 +1,4 @@
 import { useEffect, useState } from 'react';
-import { useKV } from '@github/spark/hooks';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -15,7 +14,17 @@ import {
 } from '@/components/ui/dialog';
 import { Plus, X } from '@phosphor-icons/react';
 import { ValidatedInput } from './ValidatedInput';
+import { ConflictMergeDialog, MergeField } from './ConflictMergeDialog';
+import { ClassificationEditor } from './ClassificationEditor';
+import { StepParametersEditor } from './StepParametersEditor';
+import { StepOutputsEditor } from './StepOutputsEditor';
 import { CatalogStep } from '@/lib/types';
+import { StepOutput, StepParameter } from '@/models/catalog.model';
+import { validateStepOutputs, validateStepParameters } from '@/validators/catalog.validator';
+import { validateClassification } from '@/validators/classification.validator';
+import { Classification } from '@/models/classification.model';
+import { formatCustomFieldList, normalizeClassification } from '@/lib/classification';
+import { UpdateResult, VersionConflict } from '@/models/common.model';
 import { 
   validateCatalogStepName, 
   validateJavaClassName, 
@@ -23,22 +32,48 @@ import {
   validateSQLTableName,
   ValidationResult 
 } from '@/lib/validation';
+import { catalogRepository } from '@/repositories/catalog.repository';
+import { customFieldRepository } from '@/repositories/customfield.repository';
+import { useRepositoryItemsWhenOpen } from '@/repositories/base.repository';
 import { toast } from 'sonner';
 
 interface CatalogStepDialogProps {
   step: CatalogStep | null;
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onSave: (step: CatalogStep) => void;
+  onSave: (step: CatalogStep) => Promise<UpdateResult<CatalogStep>> | void;
 }
 
+const MERGE_FIELDS: MergeField<CatalogStep>[] = [
+  { key: 'name', label: 'Step Name' },
+  { key: 'description', label: 'Description' },
+  { key: 'javaClass', label: 'Java Class' },
+  { key: 'javaMethod', label: 'Java Method' },
+  { key: 'sqlTables', label: 'SQL Tables', format: (value) => (value as string[]).join(', ') },
+  {
+    key: 'parameters',
+    label: 'Parameters',
+    format: (value) => ((value as StepParameter[] | undefined) ?? []).map(p => `${p.name}: ${p.type}`).join(', '),
+  },
+  {
+    key: 'outputs',
+    label: 'Outputs',
+    format: (value) => ((value as StepOutput[] | undefined) ?? []).map(o => `${o.name}: ${o.type}`).join(', '),
+  },
+  { key: 'tags', label: 'Tags', format: (value) => ((value as string[] | undefined) ?? []).join(', ') },
+  { key: 'priority', label: 'Priority' },
+  { key: 'owner', label: 'Owner' },
+  { key: 'customFields', label: 'Custom Fields', format: (value) => formatCustomFieldList(value as CatalogStep['customFields']) },
+];
+
 export function CatalogStepDialog({
   step,
   open,
   onOpenChange,
   onSave,
 }: CatalogStepDialogProps) {
-  const [allSteps] = useKV<CatalogStep[]>("catalog-steps", []);
+  const { items: allSteps } = useRepositoryItemsWhenOpen(catalogRepository, open);
+  const { items: customFields } = useRepositoryItemsWhenOpen(customFieldRepository, open);
   
   const [formData, setFormData] = useState({
     name: '',
@@ -46,9 +81,14 @@ export function CatalogStepDialog({
     javaClass: '',
     javaMethod: '',
     sqlTables: [] as string[],
+    parameters: [] as StepParameter[],
+    outputs: [] as StepOutput[],
+    classification: {} as Classification,
   });
   
   const [newTable, setNewTable] = useState('');
+  const [baseVersion, setBaseVersion] = useState<number | undefined>();
+  const [conflict, setConflict] = useState<VersionConflict<CatalogStep> | null>(null);
   
   const [validations, setValidations] = useState<{
     name?: ValidationResult;
@@ -63,15 +103,24 @@ export function CatalogStepDialog({
     javaMethod: false,
   });
 
+  const loadStep = (source: CatalogStep) => {
+    setFormData({
+      name: source.name,
+      description: source.description,
+      javaClass: source.javaClass,
+      javaMethod: source.javaMethod,
+      sqlTables: [...source.sqlTables],
+      parameters: (source.parameters ?? []).map(parameter => ({ ...parameter })),
+      outputs: (source.outputs ?? []).map(output => ({ ...output })),
+      classification: normalizeClassification(source),
+    });
+    setBaseVersion(source.version);
+  };
+
   useEffect(() => {
+    setConflict(null);
     if (step) {
-      setFormData({
-        name: step.name,
-        description: step.description,
-        javaClass: step.javaClass,
-        javaMethod: step.javaMethod,
-        sqlTables: [...step.sqlTables],
-      });
+      loadStep(step);
     } else {
       setFormData({
         name: '',
@@ -79,6 +128,9 @@ export function CatalogStepDialog({
         javaClass: '',
         javaMethod: '',
         sqlTables: [],
+        parameters: [],
+        outputs: [],
+        classification: {},
       });
     }
     setNewTable('');
@@ -90,7 +142,7 @@ export function CatalogStepDialog({
     let result: ValidationResult;
     
     if (field === 'name') {
-      result = validateCatalogStepName(value, allSteps || [], step?.id);
+      result = validateCatalogStepName(value, allSteps, step?.id);
       setValidations(prev => ({ ...prev, name: result }));
     } else if (field === 'javaClass') {
       result = validateJavaClassName(value);
@@ -157,7 +209,7 @@ export function CatalogStepDialog({
     }));
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     setTouched({ name: true, javaClass: true, javaMethod: true });
@@ -165,7 +217,21 @@ export function CatalogStepDialog({
     const javaClassValidation = validateField('javaClass', formData.javaClass);
     const javaMethodValidation = validateField('javaMethod', formData.javaMethod);
 
-    if (!nameValidation?.isValid || !javaClassValidation?.isValid || !javaMethodValidation?.isValid) {
+    const parameters = formData.parameters.map(parameter => ({ ...parameter, name: parameter.name.trim() }));
+    const parametersValidation = validateStepParameters(parameters);
+    const outputs = formData.outputs.map(output => ({ ...output, name: output.name.trim() }));
+    const outputsValidation = validateStepOutputs(outputs);
+    const classification = normalizeClassification(formData.classification);
+    const classificationValidation = validateClassification(classification, customFields, 'catalog-step');
+
+    if (
+      !nameValidation?.isValid ||
+      !javaClassValidation?.isValid ||
+      !javaMethodValidation?.isValid ||
+      !parametersValidation.isValid ||
+      !outputsValidation.isValid ||
+      !classificationValidation.isValid
+    ) {
       toast.error('Please fix validation errors before saving', {
         description: 'Check the form for error messages and suggestions',
       });
@@ -180,24 +246,55 @@ export function CatalogStepDialog({
       javaClass: formData.javaClass.trim(),
       javaMethod: formData.javaMethod.trim(),
       sqlTables: formData.sqlTables,
+      parameters,
+      outputs,
+      ...classification,
       createdAt: step?.createdAt || now,
       updatedAt: now,
+      version: baseVersion,
     };
 
-    onSave(stepData);
+    await saveStep(stepData);
+  };
+
+  const saveStep = async (stepData: CatalogStep) => {
+    const result = await onSave(stepData);
+
+    if (result && !result.success) {
+      if (result.conflict) {
+        setConflict(result.conflict);
+      }
+      return;
+    }
+
     toast.success(
       step ? 'Test step updated successfully' : 'Test step created successfully',
       { description: stepData.name }
     );
   };
 
+  const handleResolveConflict = async (merged: CatalogStep) => {
+    setConflict(null);
+    loadStep(merged);
+    await saveStep(merged);
+  };
+
+  const handleDiscardChanges = (current: CatalogStep) => {
+    setConflict(null);
+    loadStep(current);
+    toast.info('Loaded the saved version of this step');
+  };
+
   const isFormValid = 
     formData.name.trim() && 
     formData.javaClass.trim() && 
     formData.javaMethod.trim() &&
     (!validations.name || validations.name.isValid) &&
     (!validations.javaClass || validations.javaClass.isValid) &&
-    (!validations.javaMethod || validations.javaMethod.isValid);
+    (!validations.javaMethod || validations.javaMethod.isValid) &&
+    validateStepParameters(formData.parameters).isValid &&
+    validateStepOutputs(formData.outputs).isValid &&
+    validateClassification(formData.classification, customFields, 'catalog-step').isValid;
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -207,7 +304,7 @@ export function CatalogStepDialog({
             {step ? 'Edit Test Step' : 'Create New Test Step'}
           </DialogTitle>
           <DialogDescription>
-            Define a reusable test step with Java class/method references and SQL table associations.
+            Define a reusable test step with Java class/method references, SQL table associations, the arguments its method takes and the values it produces for later steps.
           </DialogDescription>
         </DialogHeader>
 
@@ -308,6 +405,23 @@ export function CatalogStepDialog({
             )}
           </div>
 
+          <StepParametersEditor
+            parameters={formData.parameters}
+            onChange={(parameters) => setFormData(prev => ({ ...prev, parameters }))}
+          />
+
+          <StepOutputsEditor
+            outputs={formData.outputs}
+            onChange={(outputs) => setFormData(prev => ({ ...prev, outputs }))}
+          />
+
+          <ClassificationEditor
+            value={formData.classification}
+            onChange={(classification) => setFormData(prev => ({ ...prev, classification }))}
+            definitions={customFields}
+            target="catalog-step"
+          />
+
           <DialogFooter>
             <Button
               type="button"
@@ -322,6 +436,14 @@ export function CatalogStepDialog({
           </DialogFooter>
         </form>
       </DialogContent>
+
+      <ConflictMergeDialog
+        conflict={conflict}
+        fields={MERGE_FIELDS}
+        onResolve={handleResolveConflict}
+        onDiscard={handleDiscardChanges}
+        onCancel={() => setConflict(null)}
+      />
     </Dialog>
   );
 }
\ No newline at end of file
@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, X } from '@phosphor-icons/react';
+import {
+  Classification,
+  CustomFieldDefinition,
+  CustomFieldTarget,
+  CustomFieldValue,
+  Priority,
+} from '@/models/classification.model';
+import {
+  PRIORITIES,
+  PRIORITY_LABELS,
+  formatCustomFieldValue,
+  getCustomFieldsFor,
+  parseCustomFieldValue,
+  parseTags,
+} from '@/lib/classification';
+import { validateClassification } from '@/validators/classification.validator';
+
+interface ClassificationEditorProps {
+  value: Classification;
+  onChange: (value: Classification) => void;
+  definitions: CustomFieldDefinition[];
+  target: CustomFieldTarget;
+}
+
+// Select items cannot have an empty value, so "not set" has its own.
+const NONE = 'none';
+
+export function ClassificationEditor({ value, onChange, definitions, target }: ClassificationEditorProps) {
+  const [newTags, setNewTags] = useState('');
+  const tags = value.tags ?? [];
+  const fields = getCustomFieldsFor(definitions, target);
+  const validation = validateClassification(value, definitions, target);
+
+  const handleAddTags = () => {
+    const added = parseTags(newTags).filter(tag => !tags.some(t => t.toLowerCase() === tag.toLowerCase()));
+    if (added.length > 0) {
+      onChange({ ...value, tags: [...tags, ...added] });
+    }
+    setNewTags('');
+  };
+
+  const setCustomField = (key: string, fieldValue: CustomFieldValue) => {
+    onChange({ ...value, customFields: { ...value.customFields, [key]: fieldValue } });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Priority</Label>
+          <Select
+            value={value.priority ?? NONE}
+            onValueChange={(priority) =>
+              onChange({ ...value, priority: priority === NONE ? undefined : (priority as Priority) })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>Not set</SelectItem>
+              {PRIORITIES.map(priority => (
+                <SelectItem key={priority} value={priority}>{PRIORITY_LABELS[priority]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="owner">Owner</Label>
+          <Input
+            id="owner"
+            value={value.owner ?? ''}
+            onChange={(e) => onChange({ ...value, owner: e.target.value })}
+            placeholder="e.g., payments-team"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Tags</Label>
+        <div className="flex gap-2">
+          <Input
+            value={newTags}
+            onChange={(e) => setNewTags(e.target.value)}
+            placeholder="smoke, login"
+            onKeyPress={(e) => e.key === 'Enter' && (e.preventDefault(), handleAddTags())}
+          />
+          <Button type="button" variant="outline" size="sm" onClick={handleAddTags} disabled={!newTags.trim()}>
+            <Plus size={14} />
+          </Button>
+        </div>
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {tags.map(tag => (
+              <Badge key={tag} variant="secondary" className="gap-1">
+                <span className="text-xs">{tag}</span>
+                <button
+                  type="button"
+                  onClick={() => onChange({ ...value, tags: tags.filter(t => t !== tag) })}
+                  className="hover:bg-destructive/20 rounded-sm p-0.5"
+                >
+                  <X size={10} />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {fields.length > 0 && (
+        <div className="grid grid-cols-2 gap-4">
+          {fields.map(field => {
+            const current = value.customFields?.[field.key];
+            return (
+              <div key={field.id} className="space-y-2">
+                <Label htmlFor={`custom-${field.key}`}>
+                  {field.label}
+                  {field.required && <span className="text-destructive"> *</span>}
+                </Label>
+                {field.type === 'enum' ? (
+                  <Select
+                    value={formatCustomFieldValue(current) || NONE}
+                    onValueChange={(option) => setCustomField(field.key, option === NONE ? null : option)}
+                  >
+                    <SelectTrigger id={`custom-${field.key}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>Not set</SelectItem>
+                      {(field.options ?? []).map(option => (
+                        <SelectItem key={option} value={option}>{option}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Input
+                    id={`custom-${field.key}`}
+                    type={field.type === 'text' ? 'text' : field.type}
+                    value={formatCustomFieldValue(current)}
+                    onChange={(e) => setCustomField(field.key, parseCustomFieldValue(e.target.value, field.type))}
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {!validation.isValid && <p className="text-sm text-destructive">{validation.error}</p>}
+    </div>
+  );
+}
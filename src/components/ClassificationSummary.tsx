@@ -0,0 +1,65 @@
+import { Badge } from '@/components/ui/badge';
+import { Flag, Tag, User } from '@phosphor-icons/react';
+import { Classification, CustomFieldDefinition, CustomFieldTarget } from '@/models/classification.model';
+import {
+  PRIORITY_LABELS,
+  formatCustomFieldValue,
+  getCustomFieldsFor,
+  isMissingCustomFieldValue,
+} from '@/lib/classification';
+
+interface ClassificationSummaryProps {
+  value: Classification;
+  definitions: CustomFieldDefinition[];
+  target: CustomFieldTarget;
+}
+
+export function ClassificationSummary({ value, definitions, target }: ClassificationSummaryProps) {
+  const fields = getCustomFieldsFor(definitions, target).filter(
+    field => !isMissingCustomFieldValue(value.customFields?.[field.key])
+  );
+  const tags = value.tags ?? [];
+
+  if (!value.priority && !value.owner && tags.length === 0 && fields.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-1">
+      {(value.priority || value.owner) && (
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          {value.priority && (
+            <Badge variant={value.priority === 'critical' ? 'destructive' : 'outline'} className="gap-1 text-xs">
+              <Flag size={10} />
+              {PRIORITY_LABELS[value.priority]}
+            </Badge>
+          )}
+          {value.owner && (
+            <span className="flex items-center gap-1 text-muted-foreground">
+              <User size={12} />
+              {value.owner}
+            </span>
+          )}
+        </div>
+      )}
+      {tags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1">
+          <Tag size={12} className="text-muted-foreground" />
+          {tags.map(tag => (
+            <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>
+          ))}
+        </div>
+      )}
+      {fields.length > 0 && (
+        <dl className="grid grid-cols-[auto_1fr] gap-x-2 text-xs">
+          {fields.map(field => (
+            <div key={field.id} className="contents">
+              <dt className="text-muted-foreground">{field.label}</dt>
+              <dd className="truncate">{formatCustomFieldValue(value.customFields?.[field.key])}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
+}
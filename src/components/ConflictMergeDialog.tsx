@@ -0,0 +1,129 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Warning } from '@phosphor-icons/react';
+import { VersionConflict } from '@/models/common.model';
+
+export interface MergeField<T> {
+  key: keyof T & string;
+  label: string;
+  format?: (value: T[keyof T]) => string;
+}
+
+interface ConflictMergeDialogProps<T extends { version?: number }> {
+  conflict: VersionConflict<T> | null;
+  fields: MergeField<T>[];
+  onResolve: (merged: T) => void;
+  onDiscard: (current: T) => void;
+  onCancel: () => void;
+}
+
+type Choice = 'mine' | 'theirs';
+
+function formatValue<T>(field: MergeField<T>, value: T[keyof T]): string {
+  return field.format ? field.format(value) : String(value ?? '');
+}
+
+export function ConflictMergeDialog<T extends { version?: number }>({
+  conflict,
+  fields,
+  onResolve,
+  onDiscard,
+  onCancel,
+}: ConflictMergeDialogProps<T>) {
+  const [choices, setChoices] = useState<Record<string, Choice>>({});
+
+  useEffect(() => {
+    setChoices({});
+  }, [conflict]);
+
+  if (!conflict) return null;
+
+  const changedFields = fields.filter(
+    field => formatValue(field, conflict.current[field.key]) !== formatValue(field, conflict.attempted[field.key])
+  );
+
+  const handleResolve = () => {
+    const merged = { ...conflict.current };
+    for (const field of changedFields) {
+      if (choices[field.key] !== 'theirs') {
+        merged[field.key] = conflict.attempted[field.key];
+      }
+    }
+    onResolve({ ...merged, version: conflict.current.version });
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Warning size={20} className="text-destructive" />
+            Someone else changed this item
+          </DialogTitle>
+          <DialogDescription>
+            It was saved elsewhere while you were editing. Pick which value to keep for each field that differs.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {changedFields.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              The other change matches yours. Saving will keep the current values.
+            </p>
+          )}
+
+          {changedFields.map(field => (
+            <div key={field.key} className="space-y-2">
+              <Label className="font-semibold">{field.label}</Label>
+              <RadioGroup
+                value={choices[field.key] ?? 'mine'}
+                onValueChange={(value) => setChoices(current => ({ ...current, [field.key]: value as Choice }))}
+                className="grid grid-cols-2 gap-2"
+              >
+                {(['mine', 'theirs'] as Choice[]).map(choice => {
+                  const source = choice === 'mine' ? conflict.attempted : conflict.current;
+                  const id = `${field.key}-${choice}`;
+                  return (
+                    <Label
+                      key={choice}
+                      htmlFor={id}
+                      className="flex cursor-pointer items-start gap-2 rounded-md border p-3 font-normal"
+                    >
+                      <RadioGroupItem value={choice} id={id} className="mt-0.5" />
+                      <div className="min-w-0 space-y-1">
+                        <span className="text-xs font-medium text-muted-foreground">
+                          {choice === 'mine' ? 'Your version' : 'Saved version'}
+                        </span>
+                        <p className="break-words text-sm">{formatValue(field, source[field.key]) || '(empty)'}</p>
+                      </div>
+                    </Label>
+                  );
+                })}
+              </RadioGroup>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Keep Editing
+          </Button>
+          <Button variant="outline" onClick={() => onDiscard(conflict.current)}>
+            Discard My Changes
+          </Button>
+          <Button onClick={handleResolve}>Save Merged</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,46 @@
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle, XCircle } from '@phosphor-icons/react';
+import { ConnectionPermissions, ConnectionProbeResult } from '@/lib/connection-health';
+
+const PERMISSION_LABELS: Record<keyof ConnectionPermissions, string> = {
+  canRead: 'Read',
+  canWrite: 'Write',
+  canAlterSchema: 'Alter schema',
+};
+
+interface ConnectionTestResultProps {
+  result: ConnectionProbeResult;
+}
+
+export function ConnectionTestResult({ result }: ConnectionTestResultProps) {
+  if (!result.success) {
+    return (
+      <div className="flex items-start gap-2 text-sm text-destructive">
+        <XCircle size={16} weight="fill" className="mt-0.5 shrink-0" />
+        <span>{result.error}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex items-center gap-2">
+        <CheckCircle size={16} weight="fill" className="text-green-600" />
+        <span>Connected in {result.latencyMs}ms</span>
+      </div>
+      {result.serverVersion && (
+        <p className="text-xs text-muted-foreground font-mono break-all">{result.serverVersion}</p>
+      )}
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(PERMISSION_LABELS) as Array<keyof ConnectionPermissions>).map(key => {
+          const granted = result.permissions?.[key];
+          return (
+            <Badge key={key} variant={granted ? 'default' : granted === false ? 'destructive' : 'outline'}>
+              {PERMISSION_LABELS[key]}: {granted ? 'yes' : granted === false ? 'no' : 'unknown'}
+            </Badge>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ValidatedInput } from './ValidatedInput';
+import { CustomFieldDefinition } from '@/lib/types';
+import { CustomFieldTarget, CustomFieldType } from '@/models/classification.model';
+import { CUSTOM_FIELD_TARGET_LABELS, CUSTOM_FIELD_TYPE_LABELS } from '@/lib/classification';
+import { ValidationResult } from '@/validators/common.validator';
+import {
+  validateCustomFieldDefinition,
+  validateCustomFieldKey,
+  validateCustomFieldLabel,
+  validateCustomFieldOptions,
+} from '@/validators/classification.validator';
+import { toast } from 'sonner';
+
+interface CustomFieldDialogProps {
+  field: CustomFieldDefinition | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  existingFields: CustomFieldDefinition[];
+  onSave: (field: CustomFieldDefinition) => void;
+}
+
+const splitOptions = (text: string) => text.split('\n').map(option => option.trim()).filter(Boolean);
+
+export function CustomFieldDialog({ field, open, onOpenChange, existingFields, onSave }: CustomFieldDialogProps) {
+  const [key, setKey] = useState('');
+  const [label, setLabel] = useState('');
+  const [type, setType] = useState<CustomFieldType>('text');
+  const [appliesTo, setAppliesTo] = useState<CustomFieldTarget[]>([]);
+  const [required, setRequired] = useState(false);
+  const [options, setOptions] = useState('');
+  const [keyValidation, setKeyValidation] = useState<ValidationResult>();
+  const [labelValidation, setLabelValidation] = useState<ValidationResult>();
+
+  useEffect(() => {
+    if (open) {
+      setKey(field?.key ?? '');
+      setLabel(field?.label ?? '');
+      setType(field?.type ?? 'text');
+      setAppliesTo(field ? [...field.appliesTo] : ['catalog-step', 'test-case']);
+      setRequired(field?.required ?? false);
+      setOptions((field?.options ?? []).join('\n'));
+      setKeyValidation(undefined);
+      setLabelValidation(undefined);
+    }
+  }, [field, open]);
+
+  const optionsValidation = type === 'enum' && options.trim() ? validateCustomFieldOptions(splitOptions(options)) : undefined;
+
+  const toggleTarget = (target: CustomFieldTarget, checked: boolean) => {
+    setAppliesTo(current => (checked ? [...current, target] : current.filter(t => t !== target)));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const input = {
+      key: key.trim(),
+      label: label.trim(),
+      type,
+      appliesTo,
+      required,
+      options: type === 'enum' ? splitOptions(options) : undefined,
+    };
+    setKeyValidation(validateCustomFieldKey(input.key, existingFields, field?.id));
+    setLabelValidation(validateCustomFieldLabel(input.label));
+    const validation = validateCustomFieldDefinition(input, existingFields, field?.id);
+    if (!validation.isValid) {
+      toast.error('Please fix validation errors before saving', { description: validation.error });
+      return;
+    }
+
+    const now = new Date();
+    onSave({
+      id: field?.id ?? `field-${Date.now()}`,
+      ...input,
+      createdAt: field?.createdAt ?? now,
+      updatedAt: now,
+      version: field?.version,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{field ? 'Edit Custom Field' : 'Create Custom Field'}</DialogTitle>
+          <DialogDescription>
+            An extra attribute filled in on catalog steps, test cases or both.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <ValidatedInput
+              id="field-label"
+              label="Label"
+              value={label}
+              onChange={(value) => {
+                setLabel(value);
+                if (labelValidation) setLabelValidation(validateCustomFieldLabel(value));
+              }}
+              onBlur={() => setLabelValidation(validateCustomFieldLabel(label))}
+              validation={labelValidation}
+              placeholder="Story Points"
+              required
+            />
+
+            <ValidatedInput
+              id="field-key"
+              label="Key"
+              value={key}
+              onChange={(value) => {
+                setKey(value);
+                if (keyValidation) setKeyValidation(validateCustomFieldKey(value, existingFields, field?.id));
+              }}
+              onBlur={() => setKeyValidation(validateCustomFieldKey(key, existingFields, field?.id))}
+              validation={keyValidation}
+              placeholder="storyPoints"
+              className="font-mono text-sm"
+              required
+              disabled={!!field}
+              description={field ? 'Keys cannot be changed after creation' : 'Used in CSV files'}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={type} onValueChange={(value) => setType(value as CustomFieldType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CUSTOM_FIELD_TYPE_LABELS) as CustomFieldType[]).map(fieldType => (
+                    <SelectItem key={fieldType} value={fieldType}>{CUSTOM_FIELD_TYPE_LABELS[fieldType]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Applies To</Label>
+              {(Object.keys(CUSTOM_FIELD_TARGET_LABELS) as CustomFieldTarget[]).map(target => (
+                <label key={target} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={appliesTo.includes(target)}
+                    onCheckedChange={(checked) => toggleTarget(target, checked === true)}
+                  />
+                  {CUSTOM_FIELD_TARGET_LABELS[target]}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={required} onCheckedChange={(checked) => setRequired(checked === true)} />
+            Required
+          </label>
+
+          {type === 'enum' && (
+            <div className="space-y-2">
+              <Label htmlFor="field-options">Options</Label>
+              <Textarea
+                id="field-options"
+                value={options}
+                onChange={(e) => setOptions(e.target.value)}
+                placeholder={'One option per line\nBronze\nSilver\nGold'}
+                rows={4}
+              />
+              {optionsValidation && !optionsValidation.isValid && (
+                <p className="text-sm text-destructive">{optionsValidation.error}</p>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!key.trim() || !label.trim() || appliesTo.length === 0}>
+              {field ? 'Save Field' : 'Create Field'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
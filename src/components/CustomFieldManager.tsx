@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Plus, PencilSimple, Trash, SlidersHorizontal } from '@phosphor-icons/react';
+import { CustomFieldDefinition } from '@/lib/types';
+import { Classification, CustomFieldTarget } from '@/models/classification.model';
+import { Entity, EntityWithId } from '@/models/common.model';
+import {
+  CUSTOM_FIELD_TARGET_LABELS,
+  CUSTOM_FIELD_TYPE_LABELS,
+  removeCustomFieldValues,
+} from '@/lib/classification';
+import { customFieldRepository } from '@/repositories/customfield.repository';
+import { catalogRepository } from '@/repositories/catalog.repository';
+import { testCaseRepository } from '@/repositories/testcase.repository';
+import { BaseRepository, useRepositoryItems } from '@/repositories/base.repository';
+import { CustomFieldDialog } from './CustomFieldDialog';
+import { toast } from 'sonner';
+
+interface CustomFieldManagerProps {
+  // Called after fields were written or values cleared from items.
+  onChange?: () => void;
+}
+
+// Patches only the items that held a value for the key.
+async function clearValuesFrom<T extends Entity & Classification>(repository: BaseRepository<T>, key: string): Promise<void> {
+  const items = await repository.findAll();
+  const cleared = removeCustomFieldValues(items, key).filter((item, index) => item !== items[index]);
+  if (cleared.length > 0) {
+    await repository.updateMany(cleared.map(({ id, customFields }) => ({ id, customFields }) as Partial<T> & EntityWithId));
+  }
+}
+
+export function CustomFieldManager({ onChange }: CustomFieldManagerProps) {
+  const { items: fields, refresh } = useRepositoryItems(customFieldRepository);
+  const [editingField, setEditingField] = useState<CustomFieldDefinition | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const sortedFields = [...fields].sort((a, b) => a.label.localeCompare(b.label));
+
+  // Values left on items the field no longer applies to would fail validation
+  // the next time those items are saved.
+  const clearValues = async (key: string, targets: CustomFieldTarget[]) => {
+    if (targets.includes('catalog-step')) {
+      await clearValuesFrom(catalogRepository, key);
+    }
+    if (targets.includes('test-case')) {
+      await clearValuesFrom(testCaseRepository, key);
+    }
+  };
+
+  const handleSave = async (field: CustomFieldDefinition) => {
+    try {
+      const previous = fields.find(f => f.id === field.id);
+      if (previous) {
+        await customFieldRepository.update(field);
+        await clearValues(field.key, previous.appliesTo.filter(target => !field.appliesTo.includes(target)));
+      } else {
+        await customFieldRepository.create(field);
+      }
+      refresh();
+      onChange?.();
+      toast.success(previous ? 'Custom field updated' : 'Custom field created');
+      setIsDialogOpen(false);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save custom field');
+    }
+  };
+
+  const handleDelete = async (field: CustomFieldDefinition) => {
+    try {
+      await customFieldRepository.delete(field.id);
+      await clearValues(field.key, field.appliesTo);
+      refresh();
+      onChange?.();
+      toast.success(`Deleted ${field.label}`, { description: 'Its values were removed from steps and test cases' });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete custom field');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-xl font-semibold">Custom Fields</h3>
+          <p className="text-sm text-muted-foreground">
+            Extra attributes for catalog steps and test cases, shown in their managers and exports
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => { setEditingField(null); setIsDialogOpen(true); }}
+          className="gap-2"
+        >
+          <Plus size={16} />
+          New Field
+        </Button>
+      </div>
+
+      {sortedFields.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No custom fields yet</p>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+          {sortedFields.map(field => (
+            <Card key={field.id}>
+              <CardHeader className="pb-3">
+                <div className="flex items-start justify-between">
+                  <CardTitle className="flex items-center gap-2 text-lg">
+                    <SlidersHorizontal size={18} />
+                    {field.label}
+                  </CardTitle>
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => { setEditingField(field); setIsDialogOpen(true); }}
+                    >
+                      <PencilSimple size={14} />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(field)}>
+                      <Trash size={14} />
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <code className="text-xs text-muted-foreground">{field.key}</code>
+                <div className="flex flex-wrap gap-1">
+                  <Badge variant="secondary">{CUSTOM_FIELD_TYPE_LABELS[field.type]}</Badge>
+                  {field.required && <Badge variant="outline">Required</Badge>}
+                  {field.appliesTo.map(target => (
+                    <Badge key={target} variant="outline">{CUSTOM_FIELD_TARGET_LABELS[target]}</Badge>
+                  ))}
+                </div>
+                {field.type === 'enum' && (
+                  <p className="text-xs text-muted-foreground">{(field.options ?? []).join(', ')}</p>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <CustomFieldDialog
+        field={editingField}
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        existingFields={fields}
+        onSave={handleSave}
+      />
+    </div>
+  );
+}
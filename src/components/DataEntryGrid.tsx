@@ -25,6 +25,15 @@ import { Label } from '@/components/ui/label';
 import { Plus, PencilSimple, Trash, FloppyDisk, X, ArrowsClockwise, Database } from '@phosphor-icons/react';
 import { toast } from 'sonner';
 import { tableSchemaService, TableColumn, TableRow, TableDataFilter } from '@/lib/table-schema-service';
+import { ENVIRONMENT_LABELS, isProtectedEnvironment } from '@/lib/environment-guard';
+import { useActiveConnection } from '@/hooks/use-active-connection';
+import { TypedConfirmDialog } from './TypedConfirmDialog';
+
+interface PendingConfirmation {
+  title: string;
+  actionLabel: string;
+  run: (confirmation: string) => Promise<void>;
+}
 
 interface DataEntryGridProps {
   tableName: string;
@@ -41,6 +50,10 @@ export function DataEntryGrid({ tableName, filter, onSchemaUpdate }: DataEntryGr
   const [isNewRow, setIsNewRow] = useState(false);
   const [formData, setFormData] = useState<TableRow>({});
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
+  const [pendingConfirmation, setPendingConfirmation] = useState<PendingConfirmation | null>(null);
+  const activeConnection = useActiveConnection();
+  const readOnly = activeConnection?.readOnly ?? false;
+  const needsTypedConfirmation = isProtectedEnvironment(activeConnection);
 
   const primaryKeyColumn = useMemo(
     () => columns.find(col => col.isPrimaryKey),
@@ -134,12 +147,26 @@ export function DataEntryGrid({ tableName, filter, onSchemaUpdate }: DataEntryGr
       return;
     }
 
+    if (needsTypedConfirmation) {
+      setPendingConfirmation({
+        title: 'Delete Row',
+        actionLabel: 'Delete',
+        run: confirmation => deleteRow(row, primaryKeyColumn, confirmation),
+      });
+      return;
+    }
+
     const confirmed = window.confirm(`Are you sure you want to delete this row?`);
     if (!confirmed) return;
 
+    await deleteRow(row, primaryKeyColumn);
+  };
+
+  const deleteRow = async (row: TableRow, primaryKeyColumn: TableColumn, confirmation?: string) => {
+    setPendingConfirmation(null);
     try {
       const pkValue = row[primaryKeyColumn.columnName];
-      const result = await tableSchemaService.deleteRow(tableName, primaryKeyColumn.columnName, pkValue);
+      const result = await tableSchemaService.deleteRow(tableName, primaryKeyColumn.columnName, pkValue, confirmation);
       
       if (result.success) {
         toast.success('Row deleted successfully');
@@ -169,13 +196,23 @@ export function DataEntryGrid({ tableName, filter, onSchemaUpdate }: DataEntryGr
       return;
     }
 
+    if (!isNewRow && needsTypedConfirmation) {
+      setPendingConfirmation({ title: 'Update Row', actionLabel: 'Save', run: saveRow });
+      return;
+    }
+
+    await saveRow();
+  };
+
+  const saveRow = async (confirmation?: string) => {
+    setPendingConfirmation(null);
     try {
       let result;
       if (isNewRow) {
         result = await tableSchemaService.insertRow(tableName, formData);
       } else if (primaryKeyColumn) {
         const pkValue = formData[primaryKeyColumn.columnName];
-        result = await tableSchemaService.updateRow(tableName, formData, primaryKeyColumn.columnName, pkValue);
+        result = await tableSchemaService.updateRow(tableName, formData, primaryKeyColumn.columnName, pkValue, confirmation);
       } else {
         toast.error('Cannot save: No primary key defined');
         return;
@@ -342,6 +379,7 @@ export function DataEntryGrid({ tableName, filter, onSchemaUpdate }: DataEntryGr
               </CardTitle>
               <CardDescription>
                 {rows.length} row{rows.length !== 1 ? 's' : ''} • {columns.length} column{columns.length !== 1 ? 's' : ''}
+                {readOnly && ' • Read-only connection'}
               </CardDescription>
             </div>
             <div className="flex gap-2">
@@ -349,7 +387,7 @@ export function DataEntryGrid({ tableName, filter, onSchemaUpdate }: DataEntryGr
                 <ArrowsClockwise size={16} />
                 Refresh
               </Button>
-              <Button size="sm" onClick={handleAddRow}>
+              <Button size="sm" onClick={handleAddRow} disabled={readOnly}>
                 <Plus size={16} />
                 Add Row
               </Button>
@@ -411,6 +449,7 @@ export function DataEntryGrid({ tableName, filter, onSchemaUpdate }: DataEntryGr
                                 variant="ghost"
                                 size="sm"
                                 onClick={() => handleEditRow(row)}
+                                disabled={readOnly}
                               >
                                 <PencilSimple size={14} />
                               </Button>
@@ -418,6 +457,7 @@ export function DataEntryGrid({ tableName, filter, onSchemaUpdate }: DataEntryGr
                                 variant="ghost"
                                 size="sm"
                                 onClick={() => handleDeleteRow(row)}
+                                disabled={readOnly}
                               >
                                 <Trash size={14} />
                               </Button>
@@ -434,6 +474,16 @@ export function DataEntryGrid({ tableName, filter, onSchemaUpdate }: DataEntryGr
         </CardContent>
       </Card>
 
+      <TypedConfirmDialog
+        open={pendingConfirmation !== null}
+        title={pendingConfirmation?.title ?? ''}
+        description={`${tableName} is on ${activeConnection?.environment ? ENVIRONMENT_LABELS[activeConnection.environment] : 'a protected environment'}. This change cannot be undone from here.`}
+        confirmationText={activeConnection?.name ?? ''}
+        actionLabel={pendingConfirmation?.actionLabel}
+        onConfirm={confirmation => pendingConfirmation?.run(confirmation)}
+        onCancel={() => setPendingConfirmation(null)}
+      />
+
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
         <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
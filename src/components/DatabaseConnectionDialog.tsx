@@ -4,9 +4,21 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
-import { DatabaseConnection } from '@/lib/db-types';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ConnectionEnvironment, CredentialSource, DatabaseConnection, DatabaseDriverType, RepositoryStorage, SqlDialect } from '@/lib/db-types';
+import { DEFAULT_PROXY_URL } from '@/lib/mssql-proxy-driver';
+import { DEFAULT_DIALECT_PORTS, SQL_DIALECT_LABELS } from '@/lib/sql-dialect';
+import { ConnectionProbeResult, testConnection } from '@/lib/connection-health';
+import { formatConnectionString, parseConnectionString } from '@/lib/connection-string';
+import { credentialVault } from '@/lib/credential-vault';
+import { ENVIRONMENT_LABELS, isProtectedEnvironment } from '@/lib/environment-guard';
+import { ConnectionTestResult } from './ConnectionTestResult';
+import { Copy, DownloadSimple } from '@phosphor-icons/react';
 import { toast } from 'sonner';
 
+const ENV_VAR_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
 interface DatabaseConnectionDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -27,40 +39,154 @@ export function DatabaseConnectionDialog({
       port: 1433,
       database: 'TestCaseManagement',
       username: '',
+      credentialSource: 'proxy-default',
       encrypt: true,
       trustServerCertificate: false,
       connectionTimeout: 15000,
       requestTimeout: 30000,
+      driver: 'mssql-proxy',
+      dialect: 'sqlserver',
+      proxyUrl: DEFAULT_PROXY_URL,
+      repositoryStorage: 'sql',
+      environment: 'development',
+      readOnly: false,
       isActive: false,
     }
   );
 
-  const handleSave = () => {
-    if (!formData.name || !formData.server || !formData.database || !formData.username) {
+  const isEmbedded = formData.driver === 'embedded';
+  const dialect: SqlDialect = isEmbedded ? 'sqlite' : formData.dialect || 'sqlserver';
+
+  const credentialSource: CredentialSource = isEmbedded ? 'proxy-default' : formData.credentialSource || 'proxy-default';
+
+  const [testResult, setTestResult] = useState<ConnectionProbeResult | null>(null);
+  const [testing, setTesting] = useState(false);
+  const [password, setPassword] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [connectionString, setConnectionString] = useState('');
+
+  const handleDialectChange = (value: SqlDialect) => {
+    const usesDefaultPort = !formData.port || formData.port === DEFAULT_DIALECT_PORTS[dialect];
+    setFormData({
+      ...formData,
+      dialect: value,
+      port: usesDefaultPort ? DEFAULT_DIALECT_PORTS[value] : formData.port,
+    });
+  };
+
+  const isComplete = () =>
+    Boolean(formData.name && formData.database && (isEmbedded || (formData.server && formData.username)));
+
+  // Typed passwords are encrypted before they leave the dialog; an empty
+  // password keeps the one already saved on the connection.
+  const resolveCredentials = async (): Promise<Pick<DatabaseConnection, 'credentialSource' | 'encryptedPassword' | 'passwordEnvVar'>> => {
+    if (credentialSource === 'environment') {
+      if (!ENV_VAR_NAME.test(formData.passwordEnvVar || '')) {
+        throw new Error('Enter the name of an environment variable on the proxy, such as QA_DB_PASSWORD');
+      }
+      return { credentialSource, passwordEnvVar: formData.passwordEnvVar };
+    }
+
+    if (credentialSource === 'encrypted') {
+      if (!credentialVault.isUnlocked()) {
+        await credentialVault.unlock(passphrase, formData.encryptedPassword);
+      }
+      if (password) {
+        return { credentialSource, encryptedPassword: await credentialVault.encrypt(password) };
+      }
+      if (formData.encryptedPassword) {
+        return { credentialSource, encryptedPassword: formData.encryptedPassword };
+      }
+      throw new Error('Enter the password to encrypt');
+    }
+
+    return { credentialSource };
+  };
+
+  const buildConnection = async (): Promise<DatabaseConnection> => ({
+    id: connection?.id || crypto.randomUUID(),
+    name: formData.name!,
+    server: formData.server || 'localhost',
+    port: formData.port || DEFAULT_DIALECT_PORTS[dialect],
+    database: formData.database!,
+    username: formData.username || '',
+    ...(await resolveCredentials()),
+    encrypt: formData.encrypt ?? true,
+    trustServerCertificate: formData.trustServerCertificate ?? false,
+    connectionTimeout: formData.connectionTimeout || 15000,
+    requestTimeout: formData.requestTimeout || 30000,
+    driver: formData.driver || 'mssql-proxy',
+    dialect,
+    proxyUrl: formData.proxyUrl || DEFAULT_PROXY_URL,
+    repositoryStorage: formData.repositoryStorage || 'sql',
+    environment: formData.environment,
+    readOnly: formData.readOnly ?? false,
+    isActive: false,
+    createdAt: connection?.createdAt || new Date(),
+    lastConnected: connection?.lastConnected,
+  });
+
+  const handleTest = async () => {
+    if (!isComplete()) {
       toast.error('Please fill in all required fields');
       return;
     }
 
-    const connectionConfig: DatabaseConnection = {
-      id: connection?.id || crypto.randomUUID(),
-      name: formData.name!,
-      server: formData.server!,
-      port: formData.port || 1433,
-      database: formData.database!,
-      username: formData.username!,
-      encrypt: formData.encrypt ?? true,
-      trustServerCertificate: formData.trustServerCertificate ?? false,
-      connectionTimeout: formData.connectionTimeout || 15000,
-      requestTimeout: formData.requestTimeout || 30000,
-      isActive: false,
-      createdAt: connection?.createdAt || new Date(),
-    };
+    setTesting(true);
+    try {
+      setTestResult(await testConnection(await buildConnection()));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Connection test failed');
+    } finally {
+      setTesting(false);
+    }
+  };
 
-    onSave(connectionConfig);
+  const handleSave = async () => {
+    if (!isComplete()) {
+      toast.error('Please fill in all required fields');
+      return;
+    }
+
+    try {
+      onSave(await buildConnection());
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save the connection');
+      return;
+    }
+    setPassword('');
+    setPassphrase('');
     onOpenChange(false);
     toast.success('Database connection configuration saved');
   };
 
+  const handleImportConnectionString = () => {
+    try {
+      const parsed = parseConnectionString(connectionString);
+      setFormData({
+        ...formData,
+        ...parsed.connection,
+        driver: 'mssql-proxy',
+        credentialSource: parsed.password !== undefined ? 'encrypted' : formData.credentialSource,
+      });
+      if (parsed.password !== undefined) {
+        setPassword(parsed.password);
+      }
+      setConnectionString('');
+      toast.success('Connection string imported');
+      if (parsed.ignoredKeys.length > 0) {
+        toast.warning(`Ignored unsupported keys: ${parsed.ignoredKeys.join(', ')}`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Invalid connection string');
+    }
+  };
+
+  const handleCopyConnectionString = () => {
+    navigator.clipboard.writeText(formatConnectionString({ ...formData, dialect }));
+    toast.success('Connection string copied to clipboard (without password)');
+  };
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
@@ -69,7 +195,7 @@ export function DatabaseConnectionDialog({
             {connection ? 'Edit Database Connection' : 'New Database Connection'}
           </DialogTitle>
           <DialogDescription>
-            Configure connection settings for Microsoft SQL Server. Connection strings use the mssql package format.
+            Configure connection settings for SQL Server, PostgreSQL or MySQL, or use the embedded SQLite engine.
           </DialogDescription>
         </DialogHeader>
 
@@ -84,9 +210,140 @@ export function DatabaseConnectionDialog({
             />
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="connectionString">Import Connection String</Label>
+            <div className="flex gap-2">
+              <Textarea
+                id="connectionString"
+                rows={2}
+                className="font-mono text-xs"
+                placeholder="Server=localhost,1433;Database=TestCaseManagement;User Id=sa;Password=...;Encrypt=true"
+                value={connectionString}
+                onChange={(e) => setConnectionString(e.target.value)}
+              />
+              <Button variant="outline" onClick={handleImportConnectionString} disabled={!connectionString.trim()}>
+                <DownloadSimple size={16} />
+                Import
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Accepts ADO.NET key=value strings and mssql://, postgres:// or mysql:// URIs. A password in the string is encrypted before it is saved.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="environment">Environment</Label>
+              <Select
+                value={formData.environment || 'development'}
+                onValueChange={(value) => setFormData({ ...formData, environment: value as ConnectionEnvironment })}
+              >
+                <SelectTrigger id="environment">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(ENVIRONMENT_LABELS) as ConnectionEnvironment[]).map(value => (
+                    <SelectItem key={value} value={value}>{ENVIRONMENT_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {isProtectedEnvironment(formData as DatabaseConnection) && (
+                <p className="text-xs text-muted-foreground">
+                  Deletes, updates and schema changes need the connection name typed to confirm.
+                </p>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between rounded-lg border p-3">
+              <div className="space-y-0.5">
+                <Label htmlFor="readOnly">Read-only</Label>
+                <p className="text-xs text-muted-foreground">
+                  Reject every write statement on this connection
+                </p>
+              </div>
+              <Switch
+                id="readOnly"
+                checked={formData.readOnly ?? false}
+                onCheckedChange={(checked) => setFormData({ ...formData, readOnly: checked })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="driver">Driver</Label>
+            <Select
+              value={formData.driver || 'mssql-proxy'}
+              onValueChange={(value) => setFormData({ ...formData, driver: value as DatabaseDriverType })}
+            >
+              <SelectTrigger id="driver">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="mssql-proxy">Database server (via local proxy)</SelectItem>
+                <SelectItem value="embedded">Embedded SQLite (offline, in-browser)</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {isEmbedded
+                ? 'Runs the same queries against an in-memory SQLite database. Data is not persisted between sessions.'
+                : 'Requests are forwarded to the database server by the proxy started with npm run proxy.'}
+            </p>
+          </div>
+
+          {!isEmbedded && (
+            <div className="space-y-2">
+              <Label htmlFor="dialect">SQL Dialect</Label>
+              <Select value={dialect} onValueChange={(value) => handleDialectChange(value as SqlDialect)}>
+                <SelectTrigger id="dialect">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(['sqlserver', 'postgresql', 'mysql'] as SqlDialect[]).map(value => (
+                    <SelectItem key={value} value={value}>{SQL_DIALECT_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Queries and DDL are rendered for this database before they are sent to the proxy.
+              </p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="repositoryStorage">Repository Storage</Label>
+            <Select
+              value={formData.repositoryStorage || 'sql'}
+              onValueChange={(value) => setFormData({ ...formData, repositoryStorage: value as RepositoryStorage })}
+            >
+              <SelectTrigger id="repositoryStorage">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="sql">SQL tables on this connection</SelectItem>
+                <SelectItem value="indexeddb">IndexedDB (browser, persistent)</SelectItem>
+                <SelectItem value="kv">Spark KV store</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Where catalog steps, test cases and memberships are read and written while this connection is active.
+            </p>
+          </div>
+
+          {!isEmbedded && (
+            <div className="space-y-2">
+              <Label htmlFor="proxyUrl">Proxy URL</Label>
+              <Input
+                id="proxyUrl"
+                placeholder={DEFAULT_PROXY_URL}
+                value={formData.proxyUrl}
+                onChange={(e) => setFormData({ ...formData, proxyUrl: e.target.value })}
+              />
+            </div>
+          )}
+
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
-              <Label htmlFor="server">Server Address *</Label>
+              <Label htmlFor="server">Server Address {!isEmbedded && '*'}</Label>
               <Input
                 id="server"
                 placeholder="localhost or IP address"
@@ -100,9 +357,9 @@ export function DatabaseConnectionDialog({
               <Input
                 id="port"
                 type="number"
-                placeholder="1433"
+                placeholder={String(DEFAULT_DIALECT_PORTS[dialect])}
                 value={formData.port}
-                onChange={(e) => setFormData({ ...formData, port: parseInt(e.target.value) || 1433 })}
+                onChange={(e) => setFormData({ ...formData, port: parseInt(e.target.value) || DEFAULT_DIALECT_PORTS[dialect] })}
               />
             </div>
           </div>
@@ -118,7 +375,7 @@ export function DatabaseConnectionDialog({
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="username">Username *</Label>
+            <Label htmlFor="username">Username {!isEmbedded && '*'}</Label>
             <Input
               id="username"
               placeholder="sa or domain\\user"
@@ -127,6 +384,76 @@ export function DatabaseConnectionDialog({
             />
           </div>
 
+          {!isEmbedded && (
+            <div className="space-y-4 pt-4 border-t">
+              <h4 className="text-sm font-semibold">Password</h4>
+
+              <div className="space-y-2">
+                <Label htmlFor="credentialSource">Password Source</Label>
+                <Select
+                  value={credentialSource}
+                  onValueChange={(value) => setFormData({ ...formData, credentialSource: value as CredentialSource })}
+                >
+                  <SelectTrigger id="credentialSource">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="proxy-default">Proxy default (MSSQL_PASSWORD)</SelectItem>
+                    <SelectItem value="encrypted">Encrypted in this browser with a passphrase</SelectItem>
+                    <SelectItem value="environment">Environment variable on the proxy</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {credentialSource === 'encrypted' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="password">Password</Label>
+                    <Input
+                      id="password"
+                      type="password"
+                      autoComplete="new-password"
+                      placeholder={formData.encryptedPassword ? 'Leave blank to keep the saved password' : ''}
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                    />
+                  </div>
+                  {!credentialVault.isUnlocked() && (
+                    <div className="space-y-2">
+                      <Label htmlFor="passphrase">Passphrase</Label>
+                      <Input
+                        id="passphrase"
+                        type="password"
+                        autoComplete="off"
+                        value={passphrase}
+                        onChange={(e) => setPassphrase(e.target.value)}
+                      />
+                    </div>
+                  )}
+                  <p className="col-span-2 text-xs text-muted-foreground">
+                    The password is encrypted with AES-GCM using a key derived from your passphrase. The passphrase is kept in memory for this session only.
+                  </p>
+                </div>
+              )}
+
+              {credentialSource === 'environment' && (
+                <div className="space-y-2">
+                  <Label htmlFor="passwordEnvVar">Variable Name</Label>
+                  <Input
+                    id="passwordEnvVar"
+                    className="font-mono"
+                    placeholder="QA_DB_PASSWORD"
+                    value={formData.passwordEnvVar || ''}
+                    onChange={(e) => setFormData({ ...formData, passwordEnvVar: e.target.value.trim() })}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    The proxy reads this variable when it connects. It must be listed in PROXY_SECRET_VARS where the proxy runs.
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+
           <div className="space-y-4 pt-4 border-t">
             <h4 className="text-sm font-semibold">Security Options</h4>
             
@@ -185,15 +512,31 @@ export function DatabaseConnectionDialog({
             </div>
           </div>
 
-          <div className="bg-muted p-4 rounded-lg space-y-2">
-            <h4 className="text-sm font-semibold">Example Connection String</h4>
-            <code className="text-xs block font-mono bg-background p-2 rounded">
-              {`Server=${formData.server || 'localhost'},${formData.port || 1433};Database=${formData.database || 'TestCaseManagement'};User Id=${formData.username || 'username'};Encrypt=${formData.encrypt};TrustServerCertificate=${formData.trustServerCertificate}`}
-            </code>
-          </div>
+          {!isEmbedded && (
+            <div className="bg-muted p-4 rounded-lg space-y-2">
+              <div className="flex items-center justify-between">
+                <h4 className="text-sm font-semibold">Connection String</h4>
+                <Button variant="outline" size="sm" onClick={handleCopyConnectionString}>
+                  <Copy size={14} />
+                  Copy
+                </Button>
+              </div>
+              <code className="text-xs block font-mono bg-background p-2 rounded break-all">
+                {formatConnectionString({ ...formData, dialect })}
+              </code>
+            </div>
+          )}
+          {testResult && (
+            <div className="border rounded-lg p-4">
+              <ConnectionTestResult result={testResult} />
+            </div>
+          )}
         </div>
 
         <DialogFooter>
+          <Button variant="outline" onClick={handleTest} disabled={testing} className="mr-auto">
+            {testing ? 'Testing...' : 'Test Connection'}
+          </Button>
           <Button variant="outline" onClick={() => onOpenChange(false)}>
             Cancel
           </Button>
@@ -1,13 +1,25 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useKV } from '@github/spark/hooks';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { DatabaseConnectionDialog } from './DatabaseConnectionDialog';
-import { DatabaseConnection } from '@/lib/db-types';
+import { SchemaMigrations } from './SchemaMigrations';
+import { SchemaDriftPanel } from './SchemaDriftPanel';
+import { ConnectionTestResult } from './ConnectionTestResult';
+import { UnlockCredentialsDialog } from './UnlockCredentialsDialog';
+import { DatabaseConnection, SqlDialect } from '@/lib/db-types';
 import { dbService } from '@/lib/db-service';
+import { createStorageAdapter, setStorageAdapter } from '@/repositories/storage.adapter';
 import { SQL_SERVER_SCHEMA, generateCreateTablesScript } from '@/lib/db-schema';
-import { Database, Plus, Power, Trash, Code, CheckCircle, XCircle, Copy } from '@phosphor-icons/react';
+import { SQL_DIALECT_LABELS, getConnectionDialect } from '@/lib/sql-dialect';
+import { CONNECTION_HEALTH_LABELS, ConnectionProbeResult, connectionMonitor, testConnection } from '@/lib/connection-health';
+import { credentialVault } from '@/lib/credential-vault';
+import { ENVIRONMENT_LABELS, ENVIRONMENT_STYLES } from '@/lib/environment-guard';
+import { useConnectionHealth } from '@/hooks/use-connection-health';
+import { useActiveConnection } from '@/hooks/use-active-connection';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Database, Plus, Power, Trash, Code, CheckCircle, XCircle, Copy, Heartbeat, Plugs } from '@phosphor-icons/react';
 import { toast } from 'sonner';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -19,8 +31,26 @@ export function DatabaseManager() {
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingConnection, setEditingConnection] = useState<DatabaseConnection | undefined>();
   const [schemaDialogOpen, setSchemaDialogOpen] = useState(false);
+  const [schemaDialect, setSchemaDialect] = useState<SqlDialect | null>(null);
+  const [testResults, setTestResults] = useState<Record<string, ConnectionProbeResult>>({});
+  const [busyConnectionId, setBusyConnectionId] = useState<string | null>(null);
+  const [pendingUnlock, setPendingUnlock] = useState<{ connection: DatabaseConnection; activate: boolean } | null>(null);
+  const health = useConnectionHealth();
+  // The stored isActive flag survives a reload; the driver behind it does not.
+  const connectedId = useActiveConnection()?.id;
 
   const activeConnection = connections?.find(c => c.id === activeConnectionId);
+  const scriptDialect = schemaDialect ?? (activeConnection ? getConnectionDialect(activeConnection) : 'sqlserver');
+  const activeHealth = health.connectionId === activeConnectionId ? health : null;
+
+  // Heartbeats keep lastConnected current for the monitored connection.
+  useEffect(() => {
+    const { connectionId, lastConnected } = health;
+    if (!connectionId || !lastConnected) return;
+    setConnections((current) =>
+      current?.map(c => c.id === connectionId ? { ...c, lastConnected } : c) || []
+    );
+  }, [health.connectionId, health.lastConnected?.getTime()]);
 
   const handleSaveConnection = (connection: DatabaseConnection) => {
     setConnections((current) => {
@@ -37,24 +67,58 @@ export function DatabaseManager() {
     setConnections((current) => current?.filter(c => c.id !== id) || []);
     if (activeConnectionId === id) {
       setActiveConnectionId(null);
+      connectionMonitor.stop();
       dbService.setActiveConnection(null);
+      setStorageAdapter(createStorageAdapter(null));
     }
     toast.success('Connection removed');
   };
 
-  const handleActivateConnection = (connection: DatabaseConnection) => {
-    const updatedConnection = { ...connection, isActive: true, lastConnected: new Date() };
+  const needsUnlock = (connection: DatabaseConnection, activate: boolean) => {
+    if (connection.credentialSource !== 'encrypted' || credentialVault.isUnlocked()) {
+      return false;
+    }
+    setPendingUnlock({ connection, activate });
+    return true;
+  };
+
+  const handleUnlocked = (connection: DatabaseConnection) => {
+    const activate = pendingUnlock?.activate;
+    setPendingUnlock(null);
+    if (activate) {
+      handleActivateConnection(connection);
+    } else {
+      handleTestConnection(connection);
+    }
+  };
+
+  const handleTestConnection = async (connection: DatabaseConnection) => {
+    setBusyConnectionId(connection.id);
+    const result = await testConnection(connection);
+    setBusyConnectionId(null);
+    setTestResults((current) => ({ ...current, [connection.id]: result }));
+    return result;
+  };
+
+  const handleActivateConnection = async (connection: DatabaseConnection) => {
+    if (needsUnlock(connection, true)) return;
+    const probe = await handleTestConnection(connection);
+    if (!probe.success) {
+      toast.error(`Could not connect to ${connection.name}: ${probe.error}`);
+      return;
+    }
+
+    const updatedConnection = { ...connection, isActive: true, lastConnected: probe.checkedAt };
     
     setConnections((current) =>
-      current?.map(c => ({
-        ...c,
-        isActive: c.id === connection.id,
-      })) || []
+      current?.map(c => c.id === connection.id ? updatedConnection : { ...c, isActive: false }) || []
     );
     
     setActiveConnectionId(connection.id);
     dbService.setActiveConnection(updatedConnection);
-    toast.success(`Connected to ${connection.name}`);
+    setStorageAdapter(createStorageAdapter(updatedConnection));
+    connectionMonitor.start(updatedConnection);
+    toast.success(`Connected to ${connection.name} in ${probe.latencyMs}ms`);
   };
 
   const handleDisconnect = () => {
@@ -63,20 +127,33 @@ export function DatabaseManager() {
         current?.map(c => c.id === activeConnectionId ? { ...c, isActive: false } : c) || []
       );
       setActiveConnectionId(null);
+      connectionMonitor.stop();
       dbService.setActiveConnection(null);
+      setStorageAdapter(createStorageAdapter(null));
       toast.info('Disconnected from database');
     }
   };
 
+  // After a reload nothing is monitored yet, so the stored connection is
+  // connected again instead.
+  const handleCheckNow = () => {
+    if (!activeConnection) return;
+    if (activeConnection.id === connectedId) {
+      connectionMonitor.checkNow();
+    } else {
+      handleActivateConnection(activeConnection);
+    }
+  };
+
   const handleEditConnection = (connection: DatabaseConnection) => {
     setEditingConnection(connection);
     setDialogOpen(true);
   };
 
   const handleCopySchema = () => {
-    const schema = generateCreateTablesScript();
+    const schema = generateCreateTablesScript(scriptDialect);
     navigator.clipboard.writeText(schema);
-    toast.success('SQL schema copied to clipboard');
+    toast.success(`${SQL_DIALECT_LABELS[scriptDialect]} schema copied to clipboard`);
   };
 
   return (
@@ -85,7 +162,7 @@ export function DatabaseManager() {
         <div>
           <h2 className="text-2xl font-semibold">Database Connections</h2>
           <p className="text-muted-foreground">
-            Manage SQL Server connections and view schema information
+            Manage database connections and view schema information
           </p>
         </div>
         <Button onClick={() => { setEditingConnection(undefined); setDialogOpen(true); }}>
@@ -107,10 +184,16 @@ export function DatabaseManager() {
                   <CardDescription>{activeConnection.name}</CardDescription>
                 </div>
               </div>
-              <Button variant="outline" size="sm" onClick={handleDisconnect}>
-                <Power size={16} />
-                Disconnect
-              </Button>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={handleCheckNow}>
+                  <Heartbeat size={16} />
+                  Check Now
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleDisconnect}>
+                  <Power size={16} />
+                  Disconnect
+                </Button>
+              </div>
             </div>
           </CardHeader>
           <CardContent>
@@ -135,33 +218,88 @@ export function DatabaseManager() {
                   </Badge>
                 </span>
               </div>
+              <div>
+                <span className="text-muted-foreground">Health:</span>
+                <span className="ml-2 font-medium">
+                  {activeHealth ? CONNECTION_HEALTH_LABELS[activeHealth.status] : 'Not monitored'}
+                  {activeHealth?.latencyMs !== undefined && ` (${activeHealth.latencyMs}ms)`}
+                </span>
+              </div>
+              <div>
+                <span className="text-muted-foreground">Last heartbeat:</span>
+                <span className="ml-2 font-medium">
+                  {activeHealth?.lastConnected ? new Date(activeHealth.lastConnected).toLocaleTimeString() : 'Never'}
+                </span>
+              </div>
             </div>
+            {activeHealth?.status === 'reconnecting' && activeHealth.nextRetryAt && (
+              <p className="text-sm text-muted-foreground mt-4">
+                Attempt {activeHealth.reconnectAttempt} failed: {activeHealth.error}. Retrying at{' '}
+                {activeHealth.nextRetryAt.toLocaleTimeString()}.
+              </p>
+            )}
+            {activeHealth?.status === 'disconnected' && (
+              <p className="text-sm text-destructive mt-4">
+                Gave up reconnecting: {activeHealth.error}. Use Check Now to try again.
+              </p>
+            )}
           </CardContent>
         </Card>
       )}
 
+      {activeConnection && <SchemaMigrations connectionId={activeConnection.id} />}
+
+      {activeConnection && <SchemaDriftPanel key={activeConnection.id} />}
+
       <div className="grid gap-4">
         {connections && connections.length > 0 ? (
           connections.map((connection) => (
-            <Card key={connection.id} className={connection.isActive ? 'opacity-50' : ''}>
+            <Card key={connection.id} className={connection.id === connectedId ? 'opacity-50' : ''}>
               <CardHeader>
                 <div className="flex items-center justify-between">
                   <div className="flex items-center gap-3">
                     <Database size={24} className="text-primary" />
                     <div>
-                      <CardTitle className="text-lg">{connection.name}</CardTitle>
+                      <CardTitle className="text-lg flex items-center gap-2">
+                        {connection.name}
+                        <Badge variant="outline" className="text-xs">
+                          {connection.driver === 'embedded'
+                            ? 'Embedded SQLite'
+                            : SQL_DIALECT_LABELS[getConnectionDialect(connection)]}
+                        </Badge>
+                        {connection.environment && (
+                          <Badge variant="outline" className={`text-xs ${ENVIRONMENT_STYLES[connection.environment].badge}`}>
+                            {ENVIRONMENT_LABELS[connection.environment]}
+                          </Badge>
+                        )}
+                        {connection.readOnly && (
+                          <Badge variant="secondary" className="text-xs">Read-only</Badge>
+                        )}
+                      </CardTitle>
                       <CardDescription>
-                        {connection.server}:{connection.port} / {connection.database}
+                        {connection.driver === 'embedded'
+                          ? `In-memory / ${connection.database}`
+                          : `${connection.server}:${connection.port} / ${connection.database}`}
                       </CardDescription>
                     </div>
                   </div>
                   <div className="flex gap-2">
-                    {!connection.isActive && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => !needsUnlock(connection, false) && handleTestConnection(connection)}
+                      disabled={busyConnectionId === connection.id}
+                    >
+                      <Plugs size={16} />
+                      Test
+                    </Button>
+                    {connection.id !== connectedId && (
                       <>
                         <Button
                           variant="default"
                           size="sm"
                           onClick={() => handleActivateConnection(connection)}
+                          disabled={busyConnectionId === connection.id}
                         >
                           <Power size={16} />
                           Connect
@@ -179,13 +317,18 @@ export function DatabaseManager() {
                       variant="ghost"
                       size="sm"
                       onClick={() => handleDeleteConnection(connection.id)}
-                      disabled={connection.isActive}
+                      disabled={connection.id === connectedId}
                     >
                       <Trash size={16} />
                     </Button>
                   </div>
                 </div>
               </CardHeader>
+              {testResults[connection.id] && (
+                <CardContent>
+                  <ConnectionTestResult result={testResults[connection.id]} />
+                </CardContent>
+              )}
             </Card>
           ))
         ) : (
@@ -211,10 +354,20 @@ export function DatabaseManager() {
             <div>
               <CardTitle>Database Schema</CardTitle>
               <CardDescription>
-                SQL Server table definitions for the test case management system
+                Table definitions for the test case management system
               </CardDescription>
             </div>
             <div className="flex gap-2">
+              <Select value={scriptDialect} onValueChange={(value) => setSchemaDialect(value as SqlDialect)}>
+                <SelectTrigger className="w-36 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SQL_DIALECT_LABELS) as SqlDialect[]).map(dialect => (
+                    <SelectItem key={dialect} value={dialect}>{SQL_DIALECT_LABELS[dialect]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <Button variant="outline" size="sm" onClick={handleCopySchema}>
                 <Copy size={16} />
                 Copy SQL
@@ -252,6 +405,12 @@ export function DatabaseManager() {
         </CardContent>
       </Card>
 
+      <UnlockCredentialsDialog
+        connection={pendingUnlock?.connection ?? null}
+        onUnlocked={handleUnlocked}
+        onCancel={() => setPendingUnlock(null)}
+      />
+
       <DatabaseConnectionDialog
         open={dialogOpen}
         onOpenChange={setDialogOpen}
@@ -262,14 +421,14 @@ export function DatabaseManager() {
       <Dialog open={schemaDialogOpen} onOpenChange={setSchemaDialogOpen}>
         <DialogContent className="max-w-4xl max-h-[90vh]">
           <DialogHeader>
-            <DialogTitle>SQL Server Schema</DialogTitle>
+            <DialogTitle>{SQL_DIALECT_LABELS[scriptDialect]} Schema</DialogTitle>
             <DialogDescription>
               Complete table definitions with indexes and foreign key constraints
             </DialogDescription>
           </DialogHeader>
           <ScrollArea className="h-[600px] w-full pr-4">
             <pre className="text-xs font-mono bg-muted p-4 rounded-lg overflow-x-auto">
-              {generateCreateTablesScript()}
+              {generateCreateTablesScript(scriptDialect)}
             </pre>
           </ScrollArea>
         </DialogContent>
@@ -1,11 +1,29 @@
 import { useKV } from '@github/spark/hooks';
 import { Badge } from '@/components/ui/badge';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { DatabaseConnection } from '@/lib/db-types';
-import { Database, CheckCircle, XCircle } from '@phosphor-icons/react';
+import { CONNECTION_HEALTH_LABELS, ConnectionHealthStatus } from '@/lib/connection-health';
+import { useConnectionHealth } from '@/hooks/use-connection-health';
+import { CheckCircle, XCircle, Warning, ArrowsClockwise } from '@phosphor-icons/react';
+
+const STATUS_STYLES: Record<ConnectionHealthStatus, string> = {
+  connected: 'bg-green-600 hover:bg-green-700',
+  degraded: 'bg-amber-500 hover:bg-amber-600',
+  reconnecting: 'bg-amber-500 hover:bg-amber-600',
+  disconnected: 'bg-destructive hover:bg-destructive/90',
+};
+
+const STATUS_ICONS: Record<ConnectionHealthStatus, typeof CheckCircle> = {
+  connected: CheckCircle,
+  degraded: Warning,
+  reconnecting: ArrowsClockwise,
+  disconnected: XCircle,
+};
 
 export function DatabaseStatusIndicator() {
   const [connections] = useKV<DatabaseConnection[]>('db-connections', []);
   const [activeConnectionId] = useKV<string | null>('active-connection-id', null);
+  const health = useConnectionHealth();
 
   const activeConnection = connections?.find(c => c.id === activeConnectionId);
 
@@ -18,10 +36,32 @@ export function DatabaseStatusIndicator() {
     );
   }
 
+  // A stored active connection that is not being monitored, e.g. after a
+  // reload, has no live driver behind it.
+  const monitored = health.connectionId === activeConnection.id;
+  const status: ConnectionHealthStatus = monitored ? health.status : 'disconnected';
+  const Icon = STATUS_ICONS[status];
+
   return (
-    <Badge variant="default" className="gap-2 bg-green-600 hover:bg-green-700">
-      <CheckCircle size={14} weight="fill" />
-      {activeConnection.name}
-    </Badge>
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge variant="default" className={`gap-2 ${STATUS_STYLES[status]}`}>
+          <Icon size={14} weight="fill" />
+          {activeConnection.name}
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent>
+        <div className="space-y-1 text-xs">
+          <p className="font-semibold">{CONNECTION_HEALTH_LABELS[status]}</p>
+          {monitored && health.latencyMs !== undefined && <p>Latency: {health.latencyMs}ms</p>}
+          {monitored && health.lastConnected && <p>Last heartbeat: {health.lastConnected.toLocaleTimeString()}</p>}
+          {monitored && health.status === 'reconnecting' && health.nextRetryAt && (
+            <p>Retry {health.reconnectAttempt} at {health.nextRetryAt.toLocaleTimeString()}</p>
+          )}
+          {monitored && health.error && <p>{health.error}</p>}
+          {!monitored && <p>Reconnect from the Database tab</p>}
+        </div>
+      </TooltipContent>
+    </Tooltip>
   );
 }
@@ -0,0 +1,28 @@
+import { useActiveConnection } from '@/hooks/use-active-connection';
+import { ENVIRONMENT_LABELS, ENVIRONMENT_STYLES, isProtectedEnvironment } from '@/lib/environment-guard';
+import { Lock, ShieldWarning } from '@phosphor-icons/react';
+import { cn } from '@/lib/utils';
+
+export function EnvironmentBanner() {
+  const connection = useActiveConnection();
+
+  if (!connection?.environment) return null;
+
+  return (
+    <div className={cn('sticky top-0 z-50 w-full py-1.5 text-sm font-medium', ENVIRONMENT_STYLES[connection.environment].banner)}>
+      <div className="container mx-auto px-4 flex items-center justify-center gap-2">
+        {isProtectedEnvironment(connection) && <ShieldWarning size={16} weight="fill" />}
+        <span className="uppercase tracking-wide">{ENVIRONMENT_LABELS[connection.environment]}</span>
+        <span>·</span>
+        <span>{connection.name}</span>
+        {connection.readOnly && (
+          <span className="flex items-center gap-1">
+            <span>·</span>
+            <Lock size={14} weight="fill" />
+            Read-only
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
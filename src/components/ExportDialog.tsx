@@ -15,8 +15,17 @@ import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Badge } from '@/components/ui/badge';
 import { toast } from 'sonner';
 import { Download, FileText } from '@phosphor-icons/react';
-import { CatalogStep, TestCase, TestStepMembership } from '@/lib/types';
+import { CatalogStep, TestCase, TestFolder, TestStepMembership, TestSuite } from '@/lib/types';
 import { importExportService } from '@/lib/import-export-service';
+import { ImportExportTable } from '@/lib/import-export-types';
+
+const TABLES: Array<{ table: ImportExportTable; title: string; description: string }> = [
+  { table: 'catalog-steps', title: 'Catalog Steps', description: 'Reusable test step definitions' },
+  { table: 'test-cases', title: 'Test Cases', description: 'Test case definitions and metadata' },
+  { table: 'test-memberships', title: 'Step Memberships', description: 'Relationships between steps and test cases' },
+  { table: 'test-folders', title: 'Test Folders', description: 'Folder tree that organizes test cases' },
+  { table: 'test-suites', title: 'Test Suites', description: 'Ordered selections of test cases' },
+];
 
 interface ExportDialogProps {
   open: boolean;
@@ -27,12 +36,22 @@ export function ExportDialog({ open, onOpenChange }: ExportDialogProps) {
   const [catalogSteps] = useKV<CatalogStep[]>("catalog-steps", []);
   const [testCases] = useKV<TestCase[]>("test-cases", []);
   const [memberships] = useKV<TestStepMembership[]>("test-memberships", []);
+  const [folders] = useKV<TestFolder[]>("test-folders", []);
+  const [suites] = useKV<TestSuite[]>("test-suites", []);
   
-  const [selectedTables, setSelectedTables] = useState<Set<string>>(new Set(['catalog-steps']));
+  const [selectedTables, setSelectedTables] = useState<Set<ImportExportTable>>(new Set(['catalog-steps']));
   const [format, setFormat] = useState<'csv' | 'json'>('csv');
   const [exporting, setExporting] = useState(false);
 
-  const handleTableToggle = (table: string) => {
+  const tableItems: Record<ImportExportTable, Array<CatalogStep | TestCase | TestStepMembership | TestFolder | TestSuite>> = {
+    'catalog-steps': catalogSteps || [],
+    'test-cases': testCases || [],
+    'test-memberships': memberships || [],
+    'test-folders': folders || [],
+    'test-suites': suites || [],
+  };
+
+  const handleTableToggle = (table: ImportExportTable) => {
     setSelectedTables(prev => {
       const newSet = new Set(prev);
       if (newSet.has(table)) {
@@ -44,47 +63,9 @@ export function ExportDialog({ open, onOpenChange }: ExportDialogProps) {
     });
   };
 
-  const getTableData = (table: string) => {
-    switch (table) {
-      case 'catalog-steps':
-        return (catalogSteps || []).map(step => ({
-          id: step.id,
-          name: step.name,
-          description: step.description,
-          javaClass: step.javaClass,
-          javaMethod: step.javaMethod,
-          sqlTables: step.sqlTables.join(', '),
-        }));
-      case 'test-cases':
-        return (testCases || []).map(tc => ({
-          id: tc.id,
-          name: tc.name,
-          description: tc.description,
-        }));
-      case 'test-memberships':
-        return (memberships || []).map(m => ({
-          id: m.id,
-          testCaseId: m.testCaseId,
-          catalogStepId: m.catalogStepId,
-          processOrder: m.processOrder,
-        }));
-      default:
-        return [];
-    }
-  };
+  const getTableData = (table: ImportExportTable) => importExportService.toExportRows(table, tableItems[table]);
 
-  const getTableCount = (table: string): number => {
-    switch (table) {
-      case 'catalog-steps':
-        return catalogSteps?.length || 0;
-      case 'test-cases':
-        return testCases?.length || 0;
-      case 'test-memberships':
-        return memberships?.length || 0;
-      default:
-        return 0;
-    }
-  };
+  const getTableCount = (table: ImportExportTable): number => tableItems[table].length;
 
   const handleExport = async () => {
     if (selectedTables.size === 0) {
@@ -116,7 +97,7 @@ export function ExportDialog({ open, onOpenChange }: ExportDialogProps) {
         
         toast.success(`Exported ${data.length} records from ${table}`);
       } else {
-        const exportData: Record<string, any[]> = {};
+        const exportData: Partial<Record<ImportExportTable, Record<string, any>[]>> = {};
         let totalRecords = 0;
         
         for (const table of tables) {
@@ -172,62 +153,26 @@ export function ExportDialog({ open, onOpenChange }: ExportDialogProps) {
           <div>
             <Label className="text-base font-semibold mb-3 block">Select Tables</Label>
             <div className="space-y-3">
-              <div className="flex items-center space-x-3 p-3 border rounded-lg hover:bg-muted/50 transition-colors">
-                <Checkbox
-                  id="catalog-steps"
-                  checked={selectedTables.has('catalog-steps')}
-                  onCheckedChange={() => handleTableToggle('catalog-steps')}
-                />
-                <div className="flex-1">
-                  <Label htmlFor="catalog-steps" className="cursor-pointer font-medium">
-                    Catalog Steps
-                  </Label>
-                  <p className="text-sm text-muted-foreground">
-                    Reusable test step definitions
-                  </p>
+              {TABLES.map(({ table, title, description }) => (
+                <div key={table} className="flex items-center space-x-3 p-3 border rounded-lg hover:bg-muted/50 transition-colors">
+                  <Checkbox
+                    id={table}
+                    checked={selectedTables.has(table)}
+                    onCheckedChange={() => handleTableToggle(table)}
+                  />
+                  <div className="flex-1">
+                    <Label htmlFor={table} className="cursor-pointer font-medium">
+                      {title}
+                    </Label>
+                    <p className="text-sm text-muted-foreground">
+                      {description}
+                    </p>
+                  </div>
+                  <Badge variant="secondary">
+                    {getTableCount(table)} records
+                  </Badge>
                 </div>
-                <Badge variant="secondary">
-                  {getTableCount('catalog-steps')} records
-                </Badge>
-              </div>
-
-              <div className="flex items-center space-x-3 p-3 border rounded-lg hover:bg-muted/50 transition-colors">
-                <Checkbox
-                  id="test-cases"
-                  checked={selectedTables.has('test-cases')}
-                  onCheckedChange={() => handleTableToggle('test-cases')}
-                />
-                <div className="flex-1">
-                  <Label htmlFor="test-cases" className="cursor-pointer font-medium">
-                    Test Cases
-                  </Label>
-                  <p className="text-sm text-muted-foreground">
-                    Test case definitions and metadata
-                  </p>
-                </div>
-                <Badge variant="secondary">
-                  {getTableCount('test-cases')} records
-                </Badge>
-              </div>
-
-              <div className="flex items-center space-x-3 p-3 border rounded-lg hover:bg-muted/50 transition-colors">
-                <Checkbox
-                  id="test-memberships"
-                  checked={selectedTables.has('test-memberships')}
-                  onCheckedChange={() => handleTableToggle('test-memberships')}
-                />
-                <div className="flex-1">
-                  <Label htmlFor="test-memberships" className="cursor-pointer font-medium">
-                    Step Memberships
-                  </Label>
-                  <p className="text-sm text-muted-foreground">
-                    Relationships between steps and test cases
-                  </p>
-                </div>
-                <Badge variant="secondary">
-                  {getTableCount('test-memberships')} records
-                </Badge>
-              </div>
+              ))}
             </div>
           </div>
 
@@ -21,20 +21,23 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
 import { toast } from 'sonner';
 import { Upload, ArrowRight, Check, Warning } from '@phosphor-icons/react';
-import { CatalogStep, TestCase, TestStepMembership } from '@/lib/types';
+import { CatalogStep, CustomFieldDefinition, TestCase, TestFolder, TestStepMembership, TestSuite } from '@/lib/types';
 import { importExportService } from '@/lib/import-export-service';
-import { ImportPreview, ColumnMapping, TABLE_FIELD_DEFINITIONS } from '@/lib/import-export-types';
+import { ImportPreview, ColumnMapping, ImportExportTable, TABLE_FIELD_DEFINITIONS } from '@/lib/import-export-types';
 
 interface ImportDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  targetTable: 'catalog-steps' | 'test-cases' | 'test-memberships';
+  targetTable: ImportExportTable;
 }
 
 export function ImportDialog({ open, onOpenChange, targetTable }: ImportDialogProps) {
   const [catalogSteps, setCatalogSteps] = useKV<CatalogStep[]>("catalog-steps", []);
   const [testCases, setTestCases] = useKV<TestCase[]>("test-cases", []);
   const [memberships, setMemberships] = useKV<TestStepMembership[]>("test-memberships", []);
+  const [folders, setFolders] = useKV<TestFolder[]>("test-folders", []);
+  const [suites, setSuites] = useKV<TestSuite[]>("test-suites", []);
+  const [customFields] = useKV<CustomFieldDefinition[]>("custom-fields", []);
   
   const [preview, setPreview] = useState<ImportPreview | null>(null);
   const [mappings, setMappings] = useState<ColumnMapping[]>([]);
@@ -134,6 +137,9 @@ export function ImportDialog({ open, onOpenChange, targetTable }: ImportDialogPr
           catalogSteps: catalogSteps || [],
           testCases: testCases || [],
           memberships: memberships || [],
+          folders: folders || [],
+          suites: suites || [],
+          customFields: customFields || [],
         }
       );
 
@@ -148,6 +154,12 @@ export function ImportDialog({ open, onOpenChange, targetTable }: ImportDialogPr
           case 'test-memberships':
             setMemberships((current: TestStepMembership[]) => [...current]);
             break;
+          case 'test-folders':
+            setFolders((current: TestFolder[]) => [...current]);
+            break;
+          case 'test-suites':
+            setSuites((current: TestSuite[]) => [...current]);
+            break;
         }
 
         toast.success(`Imported ${result.imported} records successfully`);
@@ -11,21 +11,40 @@ import {
   FileArrowUp,
   FileText 
 } from '@phosphor-icons/react';
-import { CatalogStep, TestCase, TestStepMembership } from '@/lib/types';
+import { CatalogStep, TestCase, TestFolder, TestStepMembership, TestSuite } from '@/lib/types';
 import { importExportService } from '@/lib/import-export-service';
+import { ImportExportTable } from '@/lib/import-export-types';
 import { ImportDialog } from './ImportDialog';
 import { ExportDialog } from './ExportDialog';
 
+const TABLES: Array<{ table: ImportExportTable; title: string; description: string }> = [
+  { table: 'catalog-steps', title: 'Catalog Steps', description: 'Import reusable test steps' },
+  { table: 'test-cases', title: 'Test Cases', description: 'Import test case definitions' },
+  { table: 'test-memberships', title: 'Step Memberships', description: 'Import step-to-case relationships' },
+  { table: 'test-folders', title: 'Test Folders', description: 'Import the folder tree' },
+  { table: 'test-suites', title: 'Test Suites', description: 'Import ordered suites of test cases' },
+];
+
 export function ImportExportManager() {
   const [catalogSteps] = useKV<CatalogStep[]>("catalog-steps", []);
   const [testCases] = useKV<TestCase[]>("test-cases", []);
   const [memberships] = useKV<TestStepMembership[]>("test-memberships", []);
+  const [folders] = useKV<TestFolder[]>("test-folders", []);
+  const [suites] = useKV<TestSuite[]>("test-suites", []);
   
   const [importDialogOpen, setImportDialogOpen] = useState(false);
   const [exportDialogOpen, setExportDialogOpen] = useState(false);
-  const [selectedTable, setSelectedTable] = useState<'catalog-steps' | 'test-cases' | 'test-memberships'>('catalog-steps');
+  const [selectedTable, setSelectedTable] = useState<ImportExportTable>('catalog-steps');
+
+  const tableItems: Record<ImportExportTable, Array<CatalogStep | TestCase | TestStepMembership | TestFolder | TestSuite>> = {
+    'catalog-steps': catalogSteps || [],
+    'test-cases': testCases || [],
+    'test-memberships': memberships || [],
+    'test-folders': folders || [],
+    'test-suites': suites || [],
+  };
 
-  const handleTemplateDownload = (table: 'catalog-steps' | 'test-cases' | 'test-memberships') => {
+  const handleTemplateDownload = (table: ImportExportTable) => {
     try {
       importExportService.generateTemplate(table);
       toast.success(`Template downloaded for ${table}`);
@@ -34,41 +53,10 @@ export function ImportExportManager() {
     }
   };
 
-  const handleQuickExport = (table: 'catalog-steps' | 'test-cases' | 'test-memberships') => {
+  const handleQuickExport = (table: ImportExportTable) => {
     try {
-      let data: any[] = [];
-      let filename = '';
-
-      switch (table) {
-        case 'catalog-steps':
-          data = (catalogSteps || []).map(step => ({
-            id: step.id,
-            name: step.name,
-            description: step.description,
-            javaClass: step.javaClass,
-            javaMethod: step.javaMethod,
-            sqlTables: step.sqlTables.join(', '),
-          }));
-          filename = 'catalog-steps.csv';
-          break;
-        case 'test-cases':
-          data = (testCases || []).map(tc => ({
-            id: tc.id,
-            name: tc.name,
-            description: tc.description,
-          }));
-          filename = 'test-cases.csv';
-          break;
-        case 'test-memberships':
-          data = (memberships || []).map(m => ({
-            id: m.id,
-            testCaseId: m.testCaseId,
-            catalogStepId: m.catalogStepId,
-            processOrder: m.processOrder,
-          }));
-          filename = 'test-memberships.csv';
-          break;
-      }
+      const data = importExportService.toExportRows(table, tableItems[table]);
+      const filename = `${table}.csv`;
 
       if (data.length === 0) {
         toast.warning(`No data to export for ${table}`);
@@ -82,7 +70,7 @@ export function ImportExportManager() {
     }
   };
 
-  const openImportDialog = (table: 'catalog-steps' | 'test-cases' | 'test-memberships') => {
+  const openImportDialog = (table: ImportExportTable) => {
     setSelectedTable(table);
     setImportDialogOpen(true);
   };
@@ -110,92 +98,36 @@ export function ImportExportManager() {
 
         <TabsContent value="import" className="space-y-6">
           <div className="grid gap-4 md:grid-cols-3">
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <Upload size={20} />
-                  Catalog Steps
-                </CardTitle>
-                <CardDescription>
-                  Import reusable test steps
-                </CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-3">
-                <Button 
-                  onClick={() => openImportDialog('catalog-steps')}
-                  className="w-full"
-                >
-                  <Upload size={16} className="mr-2" />
-                  Import CSV
-                </Button>
-                <Button 
-                  variant="outline"
-                  onClick={() => handleTemplateDownload('catalog-steps')}
-                  className="w-full"
-                >
-                  <FileText size={16} className="mr-2" />
-                  Download Template
-                </Button>
-              </CardContent>
-            </Card>
-
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <Upload size={20} />
-                  Test Cases
-                </CardTitle>
-                <CardDescription>
-                  Import test case definitions
-                </CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-3">
-                <Button 
-                  onClick={() => openImportDialog('test-cases')}
-                  className="w-full"
-                >
-                  <Upload size={16} className="mr-2" />
-                  Import CSV
-                </Button>
-                <Button 
-                  variant="outline"
-                  onClick={() => handleTemplateDownload('test-cases')}
-                  className="w-full"
-                >
-                  <FileText size={16} className="mr-2" />
-                  Download Template
-                </Button>
-              </CardContent>
-            </Card>
-
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <Upload size={20} />
-                  Step Memberships
-                </CardTitle>
-                <CardDescription>
-                  Import step-to-case relationships
-                </CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-3">
-                <Button 
-                  onClick={() => openImportDialog('test-memberships')}
-                  className="w-full"
-                >
-                  <Upload size={16} className="mr-2" />
-                  Import CSV
-                </Button>
-                <Button 
-                  variant="outline"
-                  onClick={() => handleTemplateDownload('test-memberships')}
-                  className="w-full"
-                >
-                  <FileText size={16} className="mr-2" />
-                  Download Template
-                </Button>
-              </CardContent>
-            </Card>
+            {TABLES.map(({ table, title, description }) => (
+              <Card key={table}>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Upload size={20} />
+                    {title}
+                  </CardTitle>
+                  <CardDescription>
+                    {description}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <Button 
+                    onClick={() => openImportDialog(table)}
+                    className="w-full"
+                  >
+                    <Upload size={16} className="mr-2" />
+                    Import CSV
+                  </Button>
+                  <Button 
+                    variant="outline"
+                    onClick={() => handleTemplateDownload(table)}
+                    className="w-full"
+                  >
+                    <FileText size={16} className="mr-2" />
+                    Download Template
+                  </Button>
+                </CardContent>
+              </Card>
+            ))}
           </div>
 
           <Card className="bg-muted/50">
@@ -215,7 +147,7 @@ export function ImportExportManager() {
                 <ul className="text-sm text-muted-foreground space-y-1">
                   <li>• Ensure all required fields are mapped</li>
                   <li>• IDs must be unique across all records</li>
-                  <li>• For SQL tables, use comma-separated values</li>
+                  <li>• For SQL tables and suite test cases, use comma-separated values</li>
                   <li>• Test with a small file first</li>
                 </ul>
               </div>
@@ -225,71 +157,29 @@ export function ImportExportManager() {
 
         <TabsContent value="export" className="space-y-6">
           <div className="grid gap-4 md:grid-cols-3">
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <Download size={20} />
-                  Catalog Steps
-                </CardTitle>
-                <CardDescription>
-                  {catalogSteps?.length || 0} records available
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <Button 
-                  onClick={() => handleQuickExport('catalog-steps')}
-                  className="w-full"
-                  disabled={(catalogSteps?.length || 0) === 0}
-                >
-                  <Download size={16} className="mr-2" />
-                  Export to CSV
-                </Button>
-              </CardContent>
-            </Card>
-
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <Download size={20} />
-                  Test Cases
-                </CardTitle>
-                <CardDescription>
-                  {testCases?.length || 0} records available
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <Button 
-                  onClick={() => handleQuickExport('test-cases')}
-                  className="w-full"
-                  disabled={(testCases?.length || 0) === 0}
-                >
-                  <Download size={16} className="mr-2" />
-                  Export to CSV
-                </Button>
-              </CardContent>
-            </Card>
-
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <Download size={20} />
-                  Step Memberships
-                </CardTitle>
-                <CardDescription>
-                  {memberships?.length || 0} records available
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <Button 
-                  onClick={() => handleQuickExport('test-memberships')}
-                  className="w-full"
-                  disabled={(memberships?.length || 0) === 0}
-                >
-                  <Download size={16} className="mr-2" />
-                  Export to CSV
-                </Button>
-              </CardContent>
-            </Card>
+            {TABLES.map(({ table, title }) => (
+              <Card key={table}>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Download size={20} />
+                    {title}
+                  </CardTitle>
+                  <CardDescription>
+                    {tableItems[table].length} records available
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Button 
+                    onClick={() => handleQuickExport(table)}
+                    className="w-full"
+                    disabled={tableItems[table].length === 0}
+                  >
+                    <Download size={16} className="mr-2" />
+                    Export to CSV
+                  </Button>
+                </CardContent>
+              </Card>
+            ))}
           </div>
 
           <Card>
@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { useKV } from '@github/spark/hooks';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ShieldCheck, Wrench, Warning, CheckCircle } from '@phosphor-icons/react';
+import { CatalogStepDeletePolicy, IntegrityIssueType, IntegrityReport } from '@/models/integrity.model';
+import { integrityService } from '@/lib/integrity-service';
+import { toast } from 'sonner';
+
+const ISSUE_LABELS: Record<IntegrityIssueType, string> = {
+  'missing-test-case': 'Orphaned membership',
+  'missing-catalog-step': 'Dangling step reference',
+  'duplicate-process-order': 'Duplicate process order',
+  'suite-missing-test-case': 'Dangling suite entry',
+  'group-missing-catalog-step': 'Dangling step group entry',
+};
+
+const POLICY_DESCRIPTIONS: Record<CatalogStepDeletePolicy, string> = {
+  restrict: 'Refuse to delete catalog steps that test cases still use.',
+  cascade: 'Delete the step and remove it from every test case that uses it.',
+  placeholder: 'Delete the step and replace its usages with a "Deleted Step" placeholder.',
+};
+
+export function IntegrityChecker() {
+  const [policy, setPolicy] = useKV<CatalogStepDeletePolicy>('catalog-step-delete-policy', 'restrict');
+  const [report, setReport] = useState<IntegrityReport | null>(null);
+  const [busy, setBusy] = useState(false);
+  const activePolicy = policy || 'restrict';
+
+  const handleCheck = async () => {
+    setBusy(true);
+    try {
+      setReport(await integrityService.check());
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Integrity check failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRepair = async () => {
+    setBusy(true);
+    const result = await integrityService.repair(activePolicy);
+    setBusy(false);
+
+    if (!result.success) {
+      toast.error(result.error);
+      return;
+    }
+
+    const plan = result.data!;
+    toast.success(
+      `Repaired: ${plan.deleteMembershipIds.length} removed, ${plan.updateMemberships.length} updated`
+    );
+    await handleCheck();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck size={20} />
+          Data Integrity
+        </CardTitle>
+        <CardDescription>
+          Find memberships that point at missing test cases or steps, and duplicate process orders
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="deletePolicy">When a used catalog step is deleted</Label>
+          <Select value={activePolicy} onValueChange={(value) => setPolicy(value as CatalogStepDeletePolicy)}>
+            <SelectTrigger id="deletePolicy">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="restrict">Restrict</SelectItem>
+              <SelectItem value="cascade">Cascade</SelectItem>
+              <SelectItem value="placeholder">Set to placeholder</SelectItem>
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">{POLICY_DESCRIPTIONS[activePolicy]}</p>
+        </div>
+
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleCheck} disabled={busy} className="gap-2">
+            <ShieldCheck size={16} />
+            Run Check
+          </Button>
+          <Button onClick={handleRepair} disabled={busy || !report || report.issues.length === 0} className="gap-2">
+            <Wrench size={16} />
+            Repair All
+          </Button>
+        </div>
+
+        {report && report.issues.length === 0 && (
+          <div className="flex items-center gap-2 text-sm text-green-600">
+            <CheckCircle size={16} />
+            No problems found across {report.totals.memberships} memberships
+          </div>
+        )}
+
+        {report && report.issues.length > 0 && (
+          <ScrollArea className="h-64 rounded-md border">
+            <div className="space-y-2 p-3">
+              {report.issues.map((issue, index) => (
+                <div key={`${issue.type}-${index}`} className="flex items-start gap-2 text-sm">
+                  <Warning size={16} className="mt-0.5 shrink-0 text-destructive" />
+                  <div className="space-y-1">
+                    <Badge variant="outline" className="text-xs">
+                      {ISSUE_LABELS[issue.type]}
+                    </Badge>
+                    <p className="text-muted-foreground">{issue.message}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,44 @@
+import { Button } from '@/components/ui/button';
+import { CaretLeft, CaretRight } from '@phosphor-icons/react';
+import { PaginatedResult } from '@/models/common.model';
+
+interface PageControlsProps {
+  result: PaginatedResult<unknown>;
+  loading?: boolean;
+  onPageChange: (page: number) => void;
+}
+
+export function PageControls({ result, loading, onPageChange }: PageControlsProps) {
+  const first = result.total === 0 ? 0 : (result.page - 1) * result.pageSize + 1;
+  const last = Math.min(result.page * result.pageSize, result.total);
+  const pageCount = Math.max(1, Math.ceil(result.total / result.pageSize));
+
+  return (
+    <div className="flex items-center justify-between text-sm text-muted-foreground">
+      <span>
+        Showing {first}–{last} of {result.total}
+      </span>
+      <div className="flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={loading || result.page <= 1}
+          onClick={() => onPageChange(result.page - 1)}
+        >
+          <CaretLeft size={14} />
+        </Button>
+        <span>
+          Page {result.page} of {pageCount}
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={loading || !result.hasMore}
+          onClick={() => onPageChange(result.page + 1)}
+        >
+          <CaretRight size={14} />
+        </Button>
+      </div>
+    </div>
+  );
+}
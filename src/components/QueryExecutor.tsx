@@ -1,19 +1,73 @@
-import { useState } from 'react';
+import { useMemo, useRef, useState } from 'react';
+import { useKV } from '@github/spark/hooks';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
-import { dbService, CatalogStepQueries, TestCaseQueries, MembershipQueries } from '@/lib/db-service';
-import { Play, Clock, CheckCircle, XCircle, Code } from '@phosphor-icons/react';
+import { dbService } from '@/lib/db-service';
+import { Play, Clock, CheckCircle, XCircle, Code, FloppyDisk, TextAlignLeft, Stop, Timer, TreeStructure } from '@phosphor-icons/react';
+import { Switch } from '@/components/ui/switch';
 import { toast } from 'sonner';
-import { ScrollArea } from '@/components/ui/scroll-area';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { TypedConfirmDialog } from './TypedConfirmDialog';
+import { guardStatement, StatementGuard } from '@/lib/environment-guard';
+import { useActiveConnection } from '@/hooks/use-active-connection';
+import { DriverResult, QueryResult } from '@/lib/db-types';
+import { resultSetsOf } from '@/lib/result-grid';
+import { bindParameters, detectParameters, ParameterInput } from '@/lib/query-parameters';
+import { ResultGrid } from './ResultGrid';
+import { QueryPlanView } from './QueryPlanView';
+import { QueryPlan } from '@/lib/query-plan';
+import { classifyQuery, QUERY_KIND_LABELS, QueryKind } from '@/lib/statement-classifier';
+import { WritePreviewDialog } from './WritePreviewDialog';
+import { QueryParameterForm } from './QueryParameterForm';
+import { SqlEditor } from './SqlEditor';
+import { formatSql } from '@/lib/sql-editor';
+import { useCompletionSchema } from '@/hooks/use-completion-schema';
+import { QueryLibraryPanel } from './QueryLibraryPanel';
+import { SaveQueryDetails, SaveQueryDialog } from './SaveQueryDialog';
+import {
+  createSavedQuery,
+  defaultSavedQueries,
+  exportQueryLibrary,
+  importQueryLibrary,
+  QueryExecution,
+  recordExecution,
+  SavedQuery,
+  upsertSavedQuery,
+} from '@/lib/query-library';
+import { importExportService } from '@/lib/import-export-service';
+
+const KIND_BADGE_VARIANTS: Record<QueryKind, 'secondary' | 'outline' | 'destructive'> = {
+  read: 'secondary',
+  write: 'outline',
+  ddl: 'destructive',
+  multi: 'outline',
+};
 
 export function QueryExecutor() {
   const [customQuery, setCustomQuery] = useState('');
-  const [queryResult, setQueryResult] = useState<any>(null);
+  const [queryResult, setQueryResult] = useState<QueryResult | null>(null);
   const [isExecuting, setIsExecuting] = useState(false);
   const [executionTime, setExecutionTime] = useState<number | null>(null);
+  const [pendingGuard, setPendingGuard] = useState<StatementGuard | null>(null);
+  const [parameterInputs, setParameterInputs] = useState<Record<string, ParameterInput>>({});
+  const parameterNames = useMemo(() => detectParameters(customQuery), [customQuery]);
+  const classification = useMemo(() => classifyQuery(customQuery), [customQuery]);
+  const [allowDdl, setAllowDdl] = useState(false);
+  const [writePreview, setWritePreview] = useState<DriverResult | null>(null);
+  const commitDecisionRef = useRef<((commit: boolean) => void) | null>(null);
+  const [isCancellable, setIsCancellable] = useState(false);
+  const activeConnection = useActiveConnection();
+  const completionSchema = useCompletionSchema(customQuery);
+  const resultSets = useMemo(() => (queryResult ? resultSetsOf(queryResult) : []), [queryResult]);
+  const [initialQueries] = useState(defaultSavedQueries);
+  const [savedQueries, setSavedQueries] = useKV<SavedQuery[]>('saved-queries', initialQueries);
+  const [queryHistory, setQueryHistory] = useKV<QueryExecution[]>('query-history', []);
+  const [loadedQuery, setLoadedQuery] = useState<SavedQuery | null>(null);
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+  const [queryPlan, setQueryPlan] = useState<QueryPlan | null>(null);
+  const [isExplaining, setIsExplaining] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const executeCustomQuery = async () => {
     if (!dbService.isConnected()) {
@@ -26,53 +80,149 @@ export function QueryExecutor() {
       return;
     }
 
+    if (classification.hasDdl && !allowDdl) {
+      toast.error('DDL statements are blocked. Turn on Allow DDL to run them');
+      return;
+    }
+
+    const guard = guardStatement(activeConnection, customQuery);
+    if (!guard.allowed) {
+      toast.error(guard.reason);
+      return;
+    }
+    if (guard.requiresConfirmation) {
+      setPendingGuard(guard);
+      return;
+    }
+
+    await runQuery();
+  };
+
+  const runQuery = async () => {
+    setPendingGuard(null);
     setIsExecuting(true);
     setQueryResult(null);
+    // Writes run in a transaction held open for the commit preview, so
+    // only reads can be cancelled mid-statement. An unanswered preview is
+    // rolled back once the connection's request timeout passes.
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsCancellable(!classification.hasWrites);
 
     try {
-      const result = await dbService.executeQuery({
-        query: customQuery,
-        parameters: {},
-      });
+      const statement = bindParameters(customQuery, parameterInputs);
+      const result = classification.hasWrites
+        ? await dbService.executeWithPreview(statement, previewWrite, { signal: controller.signal })
+        : await dbService.executeQuery(statement, { signal: controller.signal });
 
       setExecutionTime(result.executionTime);
+      setQueryHistory((current) =>
+        recordExecution(current ?? [], {
+          query: customQuery,
+          parameters: parameterInputs,
+          connectionId: activeConnection?.id,
+          connectionName: activeConnection?.name,
+          executionTime: result.executionTime,
+          rowCount: result.rowCount,
+          success: result.success,
+          error: result.error,
+        })
+      );
 
+      setQueryResult(result);
       if (result.success) {
-        setQueryResult(result);
         toast.success(`Query executed successfully in ${result.executionTime.toFixed(2)}ms`);
+      } else if (result.errorCode === 'cancelled') {
+        toast.info(classification.hasWrites ? 'Changes rolled back' : 'Query cancelled');
+      } else if (result.errorCode === 'timeout') {
+        toast.error(result.error);
       } else {
-        setQueryResult(result);
         toast.error('Query execution failed');
       }
     } catch (error) {
       toast.error('Unexpected error during query execution');
     } finally {
+      abortControllerRef.current = null;
       setIsExecuting(false);
     }
   };
 
-  const loadSampleQuery = (query: string) => {
+  const previewWrite = (preview: DriverResult, signal: AbortSignal) =>
+    new Promise<boolean>(resolve => {
+      commitDecisionRef.current = resolve;
+      setWritePreview(preview);
+      signal.addEventListener('abort', () => decideCommit(false), { once: true });
+    });
+
+  const decideCommit = (commit: boolean) => {
+    commitDecisionRef.current?.(commit);
+    commitDecisionRef.current = null;
+    setWritePreview(null);
+  };
+
+  const cancelQuery = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const explainQuery = async () => {
+    if (!customQuery.trim()) {
+      toast.error('Please enter a query');
+      return;
+    }
+
+    setIsExplaining(true);
+    try {
+      const result = await dbService.explainQuery(bindParameters(customQuery, parameterInputs));
+      if (result.success && result.data) {
+        setQueryPlan(result.data);
+      } else {
+        toast.error(result.error ?? 'Could not fetch the execution plan');
+      }
+    } finally {
+      setIsExplaining(false);
+    }
+  };
+
+  const loadQuery = (query: string, inputs: Record<string, ParameterInput>, saved?: SavedQuery) => {
     setCustomQuery(query);
+    setParameterInputs(inputs);
+    setLoadedQuery(saved ?? null);
+  };
+
+  const saveQuery = (details: SaveQueryDetails) => {
+    const saved = createSavedQuery({ ...details, query: customQuery, parameters: parameterInputs });
+    setSavedQueries((current) => upsertSavedQuery(current ?? [], saved).queries);
+    setLoadedQuery(saved);
+    setSaveDialogOpen(false);
+    toast.success(`Saved "${saved.name}" to ${saved.folder}`);
+  };
+
+  const deleteSavedQuery = (id: string) => {
+    setSavedQueries((current) => (current ?? []).filter(q => q.id !== id));
+    if (loadedQuery?.id === id) {
+      setLoadedQuery(null);
+    }
+  };
+
+  const exportLibrary = () => {
+    importExportService.exportToJSON(exportQueryLibrary(savedQueries ?? []), 'saved-queries.json');
+  };
+
+  const importLibrary = (json: string) => {
+    const result = importQueryLibrary(savedQueries ?? [], json);
+    setSavedQueries(result.queries);
+
+    if (result.added + result.replaced > 0) {
+      toast.success(`Imported ${result.added} new and ${result.replaced} updated queries`);
+    }
+    if (result.errors.length > 0) {
+      toast.error(`Skipped invalid entries: ${result.errors.join('; ')}`);
+    }
   };
 
-  const sampleQueries = [
-    {
-      name: 'Get All Catalog Steps',
-      query: CatalogStepQueries.getAll().query,
-    },
-    {
-      name: 'Get All Test Cases',
-      query: TestCaseQueries.getAll().query,
-    },
-    {
-      name: 'Get Test Case With Steps',
-      query: TestCaseQueries.getWithSteps('[TEST_CASE_ID]').query,
-    },
-    {
-      name: 'Get Memberships by Test Case',
-      query: MembershipQueries.getByTestCase('[TEST_CASE_ID]').query,
-    },
-  ];
+  const updateParameter = (name: string, input: ParameterInput) => {
+    setParameterInputs(current => ({ ...current, [name]: input }));
+  };
 
   return (
     <div className="space-y-6">
@@ -94,38 +244,86 @@ export function QueryExecutor() {
           <div className="space-y-2">
             <div className="flex items-center justify-between">
               <label className="text-sm font-medium">Query</label>
-              <Badge variant="secondary">
-                <Code size={12} className="mr-1" />
-                Prepared Statement
-              </Badge>
+              <div className="flex items-center gap-2">
+                {classification.statements.length > 0 && (
+                  <Badge variant={KIND_BADGE_VARIANTS[classification.kind]}>
+                    {QUERY_KIND_LABELS[classification.kind]}
+                    {classification.kind === 'multi' && ` (${classification.statements.length})`}
+                  </Badge>
+                )}
+                <Badge variant="secondary">
+                  <Code size={12} className="mr-1" />
+                  Prepared Statement
+                </Badge>
+              </div>
             </div>
-            <Textarea
+            <SqlEditor
               value={customQuery}
-              onChange={(e) => setCustomQuery(e.target.value)}
+              onChange={setCustomQuery}
+              schema={completionSchema}
               placeholder="SELECT * FROM CatalogSteps WHERE Name = @name"
-              className="font-mono text-sm min-h-[200px]"
             />
+            <p className="text-xs text-muted-foreground">
+              Ctrl+Space shows completions for tables, columns and parameters. Shift+Alt+F formats the query.
+            </p>
           </div>
 
-          <div className="flex items-center justify-between">
-            <div className="flex gap-2">
-              {sampleQueries.map((sample) => (
-                <Button
-                  key={sample.name}
-                  variant="outline"
-                  size="sm"
-                  onClick={() => loadSampleQuery(sample.query)}
-                >
-                  {sample.name}
-                </Button>
-              ))}
-            </div>
-            <Button onClick={executeCustomQuery} disabled={isExecuting || !dbService.isConnected()}>
-              <Play size={16} weight="fill" />
-              {isExecuting ? 'Executing...' : 'Execute'}
+          <QueryParameterForm names={parameterNames} inputs={parameterInputs} onChange={updateParameter} />
+
+          <div className="flex items-center justify-end gap-2">
+            {classification.hasDdl && (
+              <label className="mr-auto flex items-center gap-2 text-sm">
+                <Switch checked={allowDdl} onCheckedChange={setAllowDdl} />
+                Allow DDL
+              </label>
+            )}
+            <Button variant="outline" onClick={() => setCustomQuery(formatSql(customQuery))} disabled={!customQuery.trim()}>
+              <TextAlignLeft size={16} />
+              Format
+            </Button>
+            <Button variant="outline" onClick={() => setSaveDialogOpen(true)} disabled={!customQuery.trim()}>
+              <FloppyDisk size={16} />
+              Save
             </Button>
+            <Button
+              variant="outline"
+              onClick={explainQuery}
+              disabled={isExplaining || !customQuery.trim() || !dbService.isConnected()}
+            >
+              <TreeStructure size={16} />
+              {isExplaining ? 'Explaining...' : 'Explain'}
+            </Button>
+            {isExecuting ? (
+              <Button variant="destructive" onClick={cancelQuery} disabled={!isCancellable}>
+                <Stop size={16} weight="fill" />
+                Cancel
+              </Button>
+            ) : (
+              <Button onClick={executeCustomQuery} disabled={!dbService.isConnected()}>
+                <Play size={16} weight="fill" />
+                Execute
+              </Button>
+            )}
           </div>
 
+          {classification.hasDdl && !allowDdl && (
+            <p className="text-sm text-muted-foreground">
+              This query changes the schema (CREATE, ALTER, DROP, TRUNCATE...) and is blocked until you allow DDL.
+            </p>
+          )}
+
+          {classification.hasWrites && (
+            <p className="text-sm text-muted-foreground">
+              Writes run in a transaction. You will see the affected row counts and choose to commit or roll back.
+            </p>
+          )}
+
+          {activeConnection?.readOnly && (
+            <p className="text-sm text-muted-foreground">
+              {activeConnection.name} is read-only. Only SELECT statements will run.
+            </p>
+          )}
+
           {!dbService.isConnected() && (
             <div className="bg-muted p-4 rounded-lg flex items-center gap-3">
               <XCircle size={20} className="text-muted-foreground" />
@@ -137,6 +335,51 @@ export function QueryExecutor() {
         </CardContent>
       </Card>
 
+      <Card>
+        <CardHeader>
+          <CardTitle>Query Library</CardTitle>
+          <CardDescription>
+            Saved queries with their parameter defaults, and the history of queries run from this tab
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <QueryLibraryPanel
+            savedQueries={savedQueries ?? []}
+            history={queryHistory ?? []}
+            onLoad={loadQuery}
+            onDelete={deleteSavedQuery}
+            onExport={exportLibrary}
+            onImport={importLibrary}
+            onClearHistory={() => setQueryHistory([])}
+          />
+        </CardContent>
+      </Card>
+
+      <SaveQueryDialog
+        open={saveDialogOpen}
+        initial={loadedQuery ?? undefined}
+        folders={[...new Set((savedQueries ?? []).map(q => q.folder))]}
+        onSave={saveQuery}
+        onCancel={() => setSaveDialogOpen(false)}
+      />
+
+      <TypedConfirmDialog
+        open={pendingGuard !== null}
+        title="Confirm Destructive Statement"
+        description={`${pendingGuard?.reason}. Check the statement before running it.`}
+        confirmationText={pendingGuard?.confirmationText ?? ''}
+        actionLabel="Execute"
+        onConfirm={runQuery}
+        onCancel={() => setPendingGuard(null)}
+      />
+
+      <WritePreviewDialog
+        preview={writePreview}
+        statements={classification.statements}
+        onCommit={() => decideCommit(true)}
+        onRollback={() => decideCommit(false)}
+      />
+
       {queryResult && (
         <Card>
           <CardHeader>
@@ -154,6 +397,16 @@ export function QueryExecutor() {
                     <CheckCircle size={12} weight="fill" />
                     Success
                   </Badge>
+                ) : queryResult.errorCode === 'timeout' ? (
+                  <Badge variant="destructive" className="gap-1">
+                    <Timer size={12} weight="fill" />
+                    Timed Out
+                  </Badge>
+                ) : queryResult.errorCode === 'cancelled' ? (
+                  <Badge variant="secondary" className="gap-1">
+                    <Stop size={12} weight="fill" />
+                    Cancelled
+                  </Badge>
                 ) : (
                   <Badge variant="destructive" className="gap-1">
                     <XCircle size={12} weight="fill" />
@@ -164,11 +417,56 @@ export function QueryExecutor() {
             </div>
           </CardHeader>
           <CardContent>
-            <ScrollArea className="h-[300px] w-full">
-              <pre className="text-xs font-mono bg-muted p-4 rounded-lg">
-                {JSON.stringify(queryResult, null, 2)}
+            {queryResult.errorCode === 'cancelled' ? (
+              <p className="text-sm text-muted-foreground">{queryResult.error}</p>
+            ) : !queryResult.success ? (
+              <pre className="text-xs font-mono bg-destructive/10 text-destructive p-4 rounded-lg whitespace-pre-wrap">
+                {queryResult.error}
               </pre>
-            </ScrollArea>
+            ) : resultSets.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Statement completed. {queryResult.rowCount ?? 0} row(s) affected.
+              </p>
+            ) : resultSets.length === 1 ? (
+              <ResultGrid resultSet={resultSets[0]} exportName="query-result" />
+            ) : (
+              <Tabs defaultValue="0">
+                <TabsList>
+                  {resultSets.map((resultSet, index) => (
+                    <TabsTrigger key={index} value={String(index)}>
+                      Result {index + 1}
+                      <Badge variant="secondary" className="ml-2">{resultSet.rows.length}</Badge>
+                    </TabsTrigger>
+                  ))}
+                </TabsList>
+                {resultSets.map((resultSet, index) => (
+                  <TabsContent key={index} value={String(index)}>
+                    <ResultGrid resultSet={resultSet} exportName={`query-result-${index + 1}`} />
+                  </TabsContent>
+                ))}
+              </Tabs>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {queryPlan && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>Estimated Execution Plan</CardTitle>
+                <CardDescription>
+                  Operators with their share of the estimated statement cost. The query was not run.
+                </CardDescription>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => setQueryPlan(null)}>
+                Close
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <QueryPlanView plan={queryPlan} />
           </CardContent>
         </Card>
       )}
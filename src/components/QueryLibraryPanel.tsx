@@ -0,0 +1,142 @@
+import { useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  CheckCircle,
+  ClockCounterClockwise,
+  DownloadSimple,
+  Folder,
+  Trash,
+  UploadSimple,
+  XCircle,
+} from '@phosphor-icons/react';
+import { groupByFolder, QueryExecution, SavedQuery } from '@/lib/query-library';
+import { ParameterInput } from '@/lib/query-parameters';
+
+interface QueryLibraryPanelProps {
+  savedQueries: SavedQuery[];
+  history: QueryExecution[];
+  onLoad: (query: string, parameters: Record<string, ParameterInput>, saved?: SavedQuery) => void;
+  onDelete: (id: string) => void;
+  onExport: () => void;
+  onImport: (json: string) => void;
+  onClearHistory: () => void;
+}
+
+export function QueryLibraryPanel({
+  savedQueries,
+  history,
+  onLoad,
+  onDelete,
+  onExport,
+  onImport,
+  onClearHistory,
+}: QueryLibraryPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) {
+      onImport(await file.text());
+    }
+  };
+
+  return (
+    <Tabs defaultValue="saved">
+      <TabsList>
+        <TabsTrigger value="saved">Saved ({savedQueries.length})</TabsTrigger>
+        <TabsTrigger value="history">History ({history.length})</TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="saved" className="space-y-3">
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+            <UploadSimple size={14} />
+            Import JSON
+          </Button>
+          <Button variant="outline" size="sm" onClick={onExport} disabled={savedQueries.length === 0}>
+            <DownloadSimple size={14} />
+            Export JSON
+          </Button>
+          <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleFileSelect} />
+        </div>
+
+        <ScrollArea className="h-[280px] pr-3">
+          {savedQueries.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4">No saved queries yet.</p>
+          ) : (
+            groupByFolder(savedQueries).map(({ folder, queries }) => (
+              <div key={folder} className="mb-4">
+                <h4 className="flex items-center gap-1 text-sm font-semibold mb-2">
+                  <Folder size={14} />
+                  {folder}
+                </h4>
+                <div className="space-y-1">
+                  {queries.map(saved => (
+                    <div key={saved.id} className="flex items-start justify-between gap-2 rounded-md p-2 hover:bg-muted">
+                      <button
+                        type="button"
+                        className="flex-1 text-left"
+                        onClick={() => onLoad(saved.query, saved.parameters, saved)}
+                      >
+                        <div className="text-sm font-medium">{saved.name}</div>
+                        {saved.description && <div className="text-xs text-muted-foreground">{saved.description}</div>}
+                      </button>
+                      <Button variant="ghost" size="sm" onClick={() => onDelete(saved.id)}>
+                        <Trash size={14} />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))
+          )}
+        </ScrollArea>
+      </TabsContent>
+
+      <TabsContent value="history" className="space-y-3">
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={onClearHistory} disabled={history.length === 0}>
+            <Trash size={14} />
+            Clear History
+          </Button>
+        </div>
+
+        <ScrollArea className="h-[280px] pr-3">
+          {history.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4">Executed queries appear here.</p>
+          ) : (
+            <div className="space-y-1">
+              {history.map(execution => (
+                <button
+                  key={execution.id}
+                  type="button"
+                  className="w-full rounded-md p-2 text-left hover:bg-muted"
+                  onClick={() => onLoad(execution.query, execution.parameters)}
+                >
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    {execution.success ? (
+                      <CheckCircle size={14} weight="fill" className="text-green-600" />
+                    ) : (
+                      <XCircle size={14} weight="fill" className="text-destructive" />
+                    )}
+                    <ClockCounterClockwise size={12} />
+                    {new Date(execution.executedAt).toLocaleString()}
+                    {execution.connectionName && <Badge variant="outline">{execution.connectionName}</Badge>}
+                    <span>{execution.executionTime.toFixed(0)}ms</span>
+                    {execution.success && <span>{execution.rowCount ?? 0} row(s)</span>}
+                  </div>
+                  <div className="font-mono text-xs truncate mt-1">{execution.query.trim()}</div>
+                  {execution.error && <div className="text-xs text-destructive truncate">{execution.error}</div>}
+                </button>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </TabsContent>
+    </Tabs>
+  );
+}
@@ -0,0 +1,133 @@
+import { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { catalogRepository } from '@/repositories/catalog.repository';
+import { testCaseRepository } from '@/repositories/testcase.repository';
+import {
+  findParameterInput,
+  guessParameterKind,
+  ParameterInput,
+  ParameterInputKind,
+  ParameterLookup,
+  PARAMETER_KIND_LABELS,
+} from '@/lib/query-parameters';
+
+interface LookupOption {
+  id: string;
+  name: string;
+}
+
+interface QueryParameterFormProps {
+  names: string[];
+  inputs: Record<string, ParameterInput>;
+  onChange: (name: string, input: ParameterInput) => void;
+}
+
+const INPUT_TYPES: Partial<Record<ParameterInputKind, string>> = {
+  Int: 'number',
+  Decimal: 'number',
+  DateTime2: 'datetime-local',
+};
+
+export function QueryParameterForm({ names, inputs, onChange }: QueryParameterFormProps) {
+  const [lookups, setLookups] = useState<Record<ParameterLookup, LookupOption[]> | null>(null);
+
+  const inputFor = (name: string): ParameterInput =>
+    findParameterInput(inputs, name) ?? { kind: guessParameterKind(name), value: '' };
+  const needsLookups = names.some(name => {
+    const { kind } = inputFor(name);
+    return kind === 'testCase' || kind === 'catalogStep';
+  });
+
+  useEffect(() => {
+    if (!needsLookups || lookups) return;
+
+    Promise.all([testCaseRepository.findAll(), catalogRepository.findAll()])
+      .then(([testCases, catalogSteps]) => {
+        setLookups({
+          testCase: testCases.map(({ id, name }) => ({ id, name })),
+          catalogStep: catalogSteps.map(({ id, name }) => ({ id, name })),
+        });
+      })
+      .catch(() => setLookups({ testCase: [], catalogStep: [] }));
+  }, [needsLookups, lookups]);
+
+  if (names.length === 0) return null;
+
+  const renderValue = (name: string, input: ParameterInput) => {
+    if (input.kind === 'testCase' || input.kind === 'catalogStep') {
+      const options = lookups?.[input.kind] ?? [];
+      return (
+        <Select value={input.value} onValueChange={(value) => onChange(name, { ...input, value })}>
+          <SelectTrigger id={`param-${name}`}>
+            <SelectValue placeholder={lookups ? 'Select...' : 'Loading...'} />
+          </SelectTrigger>
+          <SelectContent>
+            {options.map(option => (
+              <SelectItem key={option.id} value={option.id}>
+                {option.name}
+                <span className="ml-2 font-mono text-xs text-muted-foreground">{option.id}</span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    if (input.kind === 'Bit') {
+      return (
+        <Select value={input.value || 'null'} onValueChange={(value) => onChange(name, { ...input, value: value === 'null' ? '' : value })}>
+          <SelectTrigger id={`param-${name}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="null">NULL</SelectItem>
+            <SelectItem value="true">true</SelectItem>
+            <SelectItem value="false">false</SelectItem>
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    return (
+      <Input
+        id={`param-${name}`}
+        type={INPUT_TYPES[input.kind] ?? 'text'}
+        step={input.kind === 'Decimal' ? 'any' : undefined}
+        value={input.value}
+        placeholder={input.kind === 'NVarChar' ? '' : 'NULL'}
+        onChange={(e) => onChange(name, { ...input, value: e.target.value })}
+        className="font-mono text-sm"
+      />
+    );
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <h4 className="text-sm font-semibold">Parameters</h4>
+      {names.map(name => {
+        const input = inputFor(name);
+        return (
+          <div key={name} className="grid grid-cols-[160px_220px_1fr] items-center gap-2">
+            <Label htmlFor={`param-${name}`} className="font-mono">@{name}</Label>
+            <Select
+              value={input.kind}
+              onValueChange={(kind) => onChange(name, { kind: kind as ParameterInputKind, value: '' })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PARAMETER_KIND_LABELS) as ParameterInputKind[]).map(kind => (
+                  <SelectItem key={kind} value={kind}>{PARAMETER_KIND_LABELS[kind]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {renderValue(name, input)}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
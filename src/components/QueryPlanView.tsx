@@ -0,0 +1,56 @@
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { PlanNode, QueryPlan } from '@/lib/query-plan';
+
+function PlanOperator({ node, depth }: { node: PlanNode; depth: number }) {
+  return (
+    <>
+      <div className="flex items-center gap-3 py-1 text-sm" style={{ paddingLeft: `${depth * 1.25}rem` }}>
+        <div className="min-w-0 flex-1">
+          <span className="font-medium">{node.operation}</span>
+          {node.detail && <span className="ml-2 text-muted-foreground">{node.detail}</span>}
+        </div>
+        {node.estimatedRows !== undefined && (
+          <span className="text-xs text-muted-foreground whitespace-nowrap">
+            {node.estimatedRows.toLocaleString()} rows
+          </span>
+        )}
+        {node.costPercent !== undefined && (
+          <div className="flex w-32 items-center gap-2">
+            <Progress value={node.costPercent} className="h-1.5" />
+            <span className="w-12 text-right text-xs font-mono">{node.costPercent.toFixed(1)}%</span>
+          </div>
+        )}
+      </div>
+      {node.children.map((child, index) => (
+        <PlanOperator key={index} node={child} depth={depth + 1} />
+      ))}
+    </>
+  );
+}
+
+export function QueryPlanView({ plan }: { plan: QueryPlan }) {
+  if (plan.statements.length === 0) {
+    return <p className="text-sm text-muted-foreground">The database returned no plan for this query.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {plan.statements.map((statement, index) => (
+        <div key={index} className="space-y-2 rounded-lg border p-3">
+          <div className="flex items-center justify-between gap-4">
+            <code className="truncate text-xs text-muted-foreground">{statement.statement ?? `Statement ${index + 1}`}</code>
+            {statement.totalCost !== undefined && (
+              <Badge variant="outline" className="shrink-0">Estimated cost {statement.totalCost.toFixed(4)}</Badge>
+            )}
+          </div>
+          <div className="divide-y">
+            {statement.operators.map((node, nodeIndex) => (
+              <PlanOperator key={nodeIndex} node={node} depth={0} />
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
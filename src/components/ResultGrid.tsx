@@ -0,0 +1,143 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ArrowDown, ArrowUp, DownloadSimple, MagnifyingGlass } from '@phosphor-icons/react';
+import { ResultSet } from '@/lib/db-types';
+import { describeColumns, filterRows, formatCell, sortRows, toExportRows, viewResultSet } from '@/lib/result-grid';
+import { importExportService } from '@/lib/import-export-service';
+import { SortOptions } from '@/models/common.model';
+import { cn } from '@/lib/utils';
+import { PageControls } from './PageControls';
+
+const PAGE_SIZE = 50;
+
+interface ResultGridProps {
+  resultSet: ResultSet;
+  exportName: string;
+}
+
+export function ResultGrid({ resultSet, exportName }: ResultGridProps) {
+  const [filter, setFilter] = useState('');
+  const [sort, setSort] = useState<SortOptions | undefined>();
+  const [page, setPage] = useState(1);
+
+  const columns = useMemo(() => describeColumns(resultSet), [resultSet]);
+  const view = useMemo(
+    () => viewResultSet(resultSet, columns, { page, pageSize: PAGE_SIZE, sort, filter }),
+    [resultSet, columns, page, sort, filter]
+  );
+
+  useEffect(() => {
+    setPage(1);
+  }, [resultSet, filter, sort]);
+
+  // Ascending, then descending, then back to the order the database returned.
+  const toggleSort = (field: string) => {
+    if (sort?.field !== field) {
+      setSort({ field, direction: 'asc' });
+    } else if (sort.direction === 'asc') {
+      setSort({ field, direction: 'desc' });
+    } else {
+      setSort(undefined);
+    }
+  };
+
+  const handleExport = (format: 'csv' | 'json') => {
+    const rows = toExportRows(sortRows(filterRows(resultSet.rows, columns, filter), columns, sort), columns);
+    if (format === 'csv') {
+      importExportService.exportToCSV(rows, `${exportName}.csv`);
+    } else {
+      importExportService.exportToJSON(rows, `${exportName}.json`);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="relative flex-1 max-w-sm">
+          <MagnifyingGlass size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter rows..."
+            className="pl-8 h-8"
+          />
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => handleExport('csv')} disabled={view.total === 0}>
+            <DownloadSimple size={14} />
+            CSV
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => handleExport('json')} disabled={view.total === 0}>
+            <DownloadSimple size={14} />
+            JSON
+          </Button>
+        </div>
+      </div>
+
+      <ScrollArea className="w-full rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {columns.map(column => (
+                <TableHead
+                  key={column.name}
+                  className={cn('whitespace-nowrap cursor-pointer select-none', column.kind === 'number' && 'text-right')}
+                  onClick={() => toggleSort(column.name)}
+                >
+                  <span className="inline-flex items-center gap-1">
+                    {column.name}
+                    {column.type && <span className="text-xs font-normal text-muted-foreground">{column.type}</span>}
+                    {sort?.field === column.name &&
+                      (sort.direction === 'asc' ? <ArrowUp size={12} /> : <ArrowDown size={12} />)}
+                  </span>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {view.items.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={Math.max(columns.length, 1)} className="text-center py-8 text-muted-foreground">
+                  {resultSet.rows.length === 0 ? 'The query returned no rows' : 'No rows match the filter'}
+                </TableCell>
+              </TableRow>
+            ) : (
+              view.items.map((row, idx) => (
+                <TableRow key={idx}>
+                  {columns.map(column => {
+                    const value = row[column.name];
+                    return (
+                      <TableCell
+                        key={column.name}
+                        className={cn(
+                          'font-mono text-xs whitespace-nowrap max-w-[400px] truncate',
+                          column.kind === 'number' && 'text-right',
+                          (value === null || value === undefined) && 'italic text-muted-foreground'
+                        )}
+                      >
+                        {formatCell(value, column.kind)}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+        <ScrollBar orientation="horizontal" />
+      </ScrollArea>
+
+      <PageControls result={view} onPageChange={setPage} />
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { FloppyDisk } from '@phosphor-icons/react';
+import { DEFAULT_FOLDER, SavedQuery } from '@/lib/query-library';
+
+export type SaveQueryDetails = Pick<SavedQuery, 'name' | 'folder' | 'description'>;
+
+interface SaveQueryDialogProps {
+  open: boolean;
+  initial?: SaveQueryDetails;
+  folders: string[];
+  onSave: (details: SaveQueryDetails) => void;
+  onCancel: () => void;
+}
+
+export function SaveQueryDialog({ open, initial, folders, onSave, onCancel }: SaveQueryDialogProps) {
+  const [name, setName] = useState('');
+  const [folder, setFolder] = useState('');
+  const [description, setDescription] = useState('');
+
+  useEffect(() => {
+    setName(initial?.name ?? '');
+    setFolder(initial?.folder ?? '');
+    setDescription(initial?.description ?? '');
+  }, [open, initial]);
+
+  const handleSave = () => {
+    if (name.trim()) {
+      onSave({ name, folder, description });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FloppyDisk size={20} />
+            Save Query
+          </DialogTitle>
+          <DialogDescription>
+            The query and the current parameter values are saved together. Saving with an existing folder and name
+            replaces that query.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="saved-query-name">Name</Label>
+            <Input id="saved-query-name" autoFocus value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="saved-query-folder">Folder</Label>
+            <Input
+              id="saved-query-folder"
+              list="saved-query-folders"
+              placeholder={DEFAULT_FOLDER}
+              value={folder}
+              onChange={(e) => setFolder(e.target.value)}
+            />
+            <datalist id="saved-query-folders">
+              {folders.map(existing => (
+                <option key={existing} value={existing} />
+              ))}
+            </datalist>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="saved-query-description">Description</Label>
+            <Textarea
+              id="saved-query-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="min-h-[80px]"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!name.trim()}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
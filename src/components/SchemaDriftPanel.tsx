@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { CheckCircle, Copy, MagnifyingGlass, Warning } from '@phosphor-icons/react';
+import { schemaDriftService, SchemaDriftReport, SchemaDriftType } from '@/lib/schema-drift-service';
+import { toast } from 'sonner';
+
+const DRIFT_LABELS: Record<SchemaDriftType, string> = {
+  'missing-table': 'Missing table',
+  'missing-column': 'Missing column',
+  'unexpected-column': 'Extra column',
+  'type-mismatch': 'Type',
+  'nullability-mismatch': 'Nullability',
+  'missing-index': 'Missing index',
+  'index-mismatch': 'Index columns',
+  'unexpected-index': 'Extra index',
+};
+
+export function SchemaDriftPanel() {
+  const [report, setReport] = useState<SchemaDriftReport | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const handleCheck = async () => {
+    setBusy(true);
+    try {
+      setReport(await schemaDriftService.check());
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Drift check failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCopyScript = () => {
+    if (!report) return;
+    navigator.clipboard.writeText(report.alterScript);
+    toast.success('ALTER script copied to clipboard');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <MagnifyingGlass size={20} />
+              Schema Drift
+            </CardTitle>
+            <CardDescription>
+              Compare the connected database with the declared tables, columns and indexes
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            {report && report.drifts.length > 0 && (
+              <Button variant="outline" size="sm" onClick={handleCopyScript}>
+                <Copy size={16} />
+                Copy ALTER Script
+              </Button>
+            )}
+            <Button size="sm" onClick={handleCheck} disabled={busy}>
+              <MagnifyingGlass size={16} />
+              Check Drift
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      {report && (
+        <CardContent className="space-y-4">
+          {report.drifts.length === 0 ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <CheckCircle size={16} className="text-primary" weight="fill" />
+              {report.tablesChecked.length} tables match the declared schema
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center gap-2 text-sm">
+                <Warning size={16} className="text-destructive" weight="fill" />
+                {report.drifts.length} difference(s) found
+              </div>
+              <ScrollArea className="max-h-64">
+                <div className="space-y-2">
+                  {report.drifts.map((drift, index) => (
+                    <div key={index} className="flex items-start gap-2 text-sm">
+                      <Badge variant="outline" className="shrink-0">{DRIFT_LABELS[drift.type]}</Badge>
+                      <div>
+                        <p>{drift.message}</p>
+                        {(drift.expected || drift.actual) && (
+                          <p className="text-xs text-muted-foreground font-mono">
+                            expected {drift.expected ?? '—'}, found {drift.actual ?? '—'}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+              <pre className="text-xs font-mono bg-muted p-4 rounded-lg overflow-x-auto">
+                {report.alterScript}
+              </pre>
+            </>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,104 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ArrowCounterClockwise, ArrowUp, GitBranch } from '@phosphor-icons/react';
+import { migrationRunner, MigrationRunResult, MigrationStatus } from '@/lib/migration-runner';
+import { toast } from 'sonner';
+
+interface SchemaMigrationsProps {
+  connectionId: string;
+}
+
+export function SchemaMigrations({ connectionId }: SchemaMigrationsProps) {
+  const [status, setStatus] = useState<MigrationStatus | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const loadStatus = async () => {
+    try {
+      setStatus(await migrationRunner.getStatus());
+    } catch (error) {
+      setStatus(null);
+      toast.error(error instanceof Error ? error.message : 'Could not read schema version');
+    }
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, [connectionId]);
+
+  const runAndReport = async (run: () => Promise<MigrationRunResult>, verb: string) => {
+    setBusy(true);
+    const result = await run();
+    setBusy(false);
+
+    if (!result.success) {
+      toast.error(result.error);
+    } else if (result.versions.length === 0) {
+      toast.info('Schema is already at the requested version');
+    } else {
+      toast.success(`${verb} ${result.versions.length} migration(s), now at version ${result.currentVersion}`);
+    }
+    await loadStatus();
+  };
+
+  const handleApply = () => runAndReport(() => migrationRunner.migrate(), 'Applied');
+
+  const handleRollback = () => {
+    if (!status || status.currentVersion === 0) return;
+    runAndReport(() => migrationRunner.rollback(status.currentVersion - 1), 'Rolled back');
+  };
+
+  const lastApplied = status?.applied[status.applied.length - 1];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <GitBranch size={20} />
+              Schema Migrations
+            </CardTitle>
+            <CardDescription>
+              {status
+                ? `Version ${status.currentVersion}${lastApplied ? ` – ${lastApplied.name}` : ''}`
+                : 'Schema version unknown'}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleRollback}
+              disabled={busy || !status || status.currentVersion === 0}
+            >
+              <ArrowCounterClockwise size={16} />
+              Roll Back
+            </Button>
+            <Button size="sm" onClick={handleApply} disabled={busy || !status || status.pending.length === 0}>
+              <ArrowUp size={16} />
+              Apply Pending
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {status && status.pending.length > 0 ? (
+          <div className="space-y-2">
+            {status.pending.map(migration => (
+              <div key={migration.version} className="flex items-center gap-2 text-sm">
+                <Badge variant="secondary">v{migration.version}</Badge>
+                <span>{migration.name}</span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            {status ? 'The database schema is up to date.' : 'Connect to a database to check its schema version.'}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
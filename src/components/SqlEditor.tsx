@@ -0,0 +1,191 @@
+import { useMemo, useRef, useState } from 'react';
+import { cn } from '@/lib/utils';
+import {
+  applyCompletion,
+  Completion,
+  CompletionSchema,
+  formatSql,
+  getCompletions,
+  SqlTokenType,
+  tokenizeSql,
+  wordBeforeCursor,
+} from '@/lib/sql-editor';
+
+const TOKEN_STYLES: Partial<Record<SqlTokenType, string>> = {
+  keyword: 'text-sky-700 dark:text-sky-400',
+  string: 'text-green-700 dark:text-green-400',
+  number: 'text-orange-600 dark:text-orange-400',
+  comment: 'text-muted-foreground italic',
+  parameter: 'text-purple-600 dark:text-purple-400',
+  operator: 'text-rose-600 dark:text-rose-400',
+};
+
+const KIND_LABELS: Record<Completion['kind'], string> = {
+  table: 'table',
+  column: 'column',
+  parameter: 'param',
+  keyword: 'keyword',
+};
+
+// The textarea and the highlighted copy behind it share font, padding and
+// scroll position, so the transparent text sits exactly on its colours.
+const SHARED_CLASSES = 'absolute inset-0 m-0 p-3 font-mono text-sm leading-5 whitespace-pre overflow-auto';
+
+interface SqlEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  schema: CompletionSchema;
+  placeholder?: string;
+  className?: string;
+}
+
+export function SqlEditor({ value, onChange, schema, placeholder, className }: SqlEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const highlightRef = useRef<HTMLPreElement>(null);
+  const [completions, setCompletions] = useState<Completion[]>([]);
+  const [selected, setSelected] = useState(0);
+  const [anchor, setAnchor] = useState({ line: 0, column: 0 });
+  const [scroll, setScroll] = useState({ top: 0, left: 0 });
+
+  const tokens = useMemo(() => tokenizeSql(value), [value]);
+
+  const closeCompletions = () => setCompletions([]);
+
+  // Typing shows completions once a word is started; Ctrl+Space shows them
+  // for an empty word too, such as right after FROM.
+  const updateCompletions = (text: string, cursor: number, explicit = false) => {
+    const word = wordBeforeCursor(text, cursor);
+    if (!explicit && word === '') {
+      closeCompletions();
+      return;
+    }
+
+    const lines = text.slice(0, cursor - word.length).split('\n');
+    setAnchor({ line: lines.length - 1, column: lines[lines.length - 1].length });
+    setCompletions(getCompletions(text, cursor, schema));
+    setSelected(0);
+  };
+
+  const accept = (completion: Completion) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const { text, cursor } = applyCompletion(value, textarea.selectionStart, completion);
+    onChange(text);
+    closeCompletions();
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(cursor, cursor);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (completions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setSelected(current => (current + step + completions.length) % completions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        accept(completions[selected]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        closeCompletions();
+        return;
+      }
+    }
+
+    if (e.key === ' ' && e.ctrlKey) {
+      e.preventDefault();
+      updateCompletions(value, e.currentTarget.selectionStart, true);
+    } else if (e.key.toLowerCase() === 'f' && e.shiftKey && e.altKey) {
+      e.preventDefault();
+      onChange(formatSql(value));
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      const { selectionStart, selectionEnd } = e.currentTarget;
+      const textarea = e.currentTarget;
+      onChange(value.slice(0, selectionStart) + '  ' + value.slice(selectionEnd));
+      requestAnimationFrame(() => textarea.setSelectionRange(selectionStart + 2, selectionStart + 2));
+    }
+  };
+
+  const handleScroll = (e: React.UIEvent<HTMLTextAreaElement>) => {
+    const { scrollTop, scrollLeft } = e.currentTarget;
+    if (highlightRef.current) {
+      highlightRef.current.scrollTop = scrollTop;
+      highlightRef.current.scrollLeft = scrollLeft;
+    }
+    setScroll({ top: scrollTop, left: scrollLeft });
+  };
+
+  return (
+    <div className={cn('relative h-[240px] rounded-md border bg-background', className)}>
+      <pre ref={highlightRef} aria-hidden className={cn(SHARED_CLASSES, 'pointer-events-none overflow-hidden')}>
+        {tokens.map((token, index) => (
+          <span key={index} className={TOKEN_STYLES[token.type]}>
+            {token.text}
+          </span>
+        ))}
+        {/* Keeps a trailing newline visible. */}
+        {' '}
+      </pre>
+      <textarea
+        ref={textareaRef}
+        value={value}
+        wrap="off"
+        spellCheck={false}
+        autoCapitalize="off"
+        autoComplete="off"
+        placeholder={placeholder}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateCompletions(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+        onScroll={handleScroll}
+        onBlur={closeCompletions}
+        onClick={closeCompletions}
+        className={cn(
+          SHARED_CLASSES,
+          'resize-none bg-transparent text-transparent caret-foreground outline-none placeholder:text-muted-foreground',
+          'selection:bg-primary/20 selection:text-transparent'
+        )}
+      />
+
+      {completions.length > 0 && (
+        <ul
+          role="listbox"
+          className="absolute z-10 max-h-48 min-w-[220px] overflow-auto rounded-md border bg-popover py-1 text-sm shadow-md"
+          style={{
+            top: `calc(${anchor.line + 1} * 1.25rem + 0.75rem - ${scroll.top}px)`,
+            left: `calc(${anchor.column}ch + 0.75rem - ${scroll.left}px)`,
+          }}
+        >
+          {completions.map((completion, index) => (
+            <li
+              key={`${completion.kind}-${completion.label}`}
+              role="option"
+              aria-selected={index === selected}
+              className={cn(
+                'flex cursor-pointer items-center justify-between gap-4 px-2 py-0.5 font-mono',
+                index === selected && 'bg-accent text-accent-foreground'
+              )}
+              onMouseDown={(e) => {
+                e.preventDefault();
+                accept(completion);
+              }}
+            >
+              <span>{completion.label}</span>
+              <span className="text-xs text-muted-foreground">{completion.detail ?? KIND_LABELS[completion.kind]}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
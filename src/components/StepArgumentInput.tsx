@@ -0,0 +1,69 @@
+import { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { StepArgumentValue, StepParameterType } from '@/models/catalog.model';
+import { formatArgumentValue, parseArgumentValue } from '@/lib/step-parameters';
+
+interface StepArgumentInputProps {
+  id?: string;
+  type: StepParameterType;
+  allowedValues?: StepArgumentValue[];
+  value: StepArgumentValue | undefined;
+  placeholder?: string;
+  onChange: (value: StepArgumentValue) => void;
+}
+
+const INPUT_TYPES: Partial<Record<StepParameterType, string>> = {
+  integer: 'number',
+  decimal: 'number',
+  date: 'date',
+};
+
+// The typed text is kept locally so partial input such as "1." is not
+// reformatted while the user is still typing.
+export function StepArgumentInput({ id, type, allowedValues, value, placeholder, onChange }: StepArgumentInputProps) {
+  const [text, setText] = useState(formatArgumentValue(value));
+
+  useEffect(() => {
+    if (parseArgumentValue(text, type) !== (value ?? null)) {
+      setText(formatArgumentValue(value));
+    }
+  }, [value, type]);
+
+  const options = type === 'boolean' ? [true, false] : (allowedValues ?? []);
+  if (options.length > 0) {
+    return (
+      <Select
+        value={value === undefined || value === null ? 'null' : formatArgumentValue(value)}
+        onValueChange={(selected) => onChange(selected === 'null' ? null : parseArgumentValue(selected, type))}
+      >
+        <SelectTrigger id={id} className="h-8 font-mono text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="null">{placeholder || 'Not set'}</SelectItem>
+          {options.map(option => (
+            <SelectItem key={formatArgumentValue(option)} value={formatArgumentValue(option)}>
+              {formatArgumentValue(option)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  return (
+    <Input
+      id={id}
+      type={INPUT_TYPES[type] ?? 'text'}
+      step={type === 'decimal' ? 'any' : undefined}
+      value={text}
+      placeholder={placeholder}
+      onChange={(e) => {
+        setText(e.target.value);
+        onChange(parseArgumentValue(e.target.value, type));
+      }}
+      className="h-8 font-mono text-xs"
+    />
+  );
+}
@@ -0,0 +1,188 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ArrowDown, ArrowUp, Trash } from '@phosphor-icons/react';
+import { ValidatedInput } from './ValidatedInput';
+import { CatalogStep, StepGroup } from '@/lib/types';
+import { ValidationResult } from '@/validators/common.validator';
+import { validateStepGroupName, validateStepGroupSteps } from '@/validators/stepgroup.validator';
+import { toast } from 'sonner';
+
+interface StepGroupDialogProps {
+  group: StepGroup | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  catalogSteps: CatalogStep[];
+  existingGroups: StepGroup[];
+  linkedTestCaseCount: number;
+  onSave: (group: StepGroup) => void;
+}
+
+export function StepGroupDialog({
+  group,
+  open,
+  onOpenChange,
+  catalogSteps,
+  existingGroups,
+  linkedTestCaseCount,
+  onSave,
+}: StepGroupDialogProps) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [catalogStepIds, setCatalogStepIds] = useState<string[]>([]);
+  const [nameValidation, setNameValidation] = useState<ValidationResult>();
+
+  useEffect(() => {
+    if (open) {
+      setName(group?.name ?? '');
+      setDescription(group?.description ?? '');
+      setCatalogStepIds(group ? [...group.catalogStepIds] : []);
+      setNameValidation(undefined);
+    }
+  }, [group, open]);
+
+  const getCatalogStep = (id: string) => catalogSteps.find(step => step.id === id);
+  const availableSteps = catalogSteps.filter(step => !catalogStepIds.includes(step.id));
+  const stepsValidation = validateStepGroupSteps(catalogStepIds);
+
+  const move = (index: number, offset: number) => {
+    setCatalogStepIds(current => {
+      const next = [...current];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validation = validateStepGroupName(name, existingGroups, group?.id);
+    setNameValidation(validation);
+    if (!validation.isValid || !stepsValidation.isValid) {
+      toast.error('Please fix validation errors before saving');
+      return;
+    }
+
+    const now = new Date();
+    onSave({
+      id: group?.id ?? `group-${Date.now()}`,
+      name: name.trim(),
+      description: description.trim(),
+      catalogStepIds,
+      createdAt: group?.createdAt ?? now,
+      updatedAt: now,
+      version: group?.version,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{group ? 'Edit Step Group' : 'Create Step Group'}</DialogTitle>
+          <DialogDescription>
+            An ordered list of catalog steps that test cases insert as one unit.
+            {linkedTestCaseCount > 0 &&
+              ` Saving updates the ${linkedTestCaseCount} test case(s) that link this group.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <ValidatedInput
+            id="group-name"
+            label="Group Name"
+            value={name}
+            onChange={(value) => {
+              setName(value);
+              if (nameValidation) setNameValidation(validateStepGroupName(value, existingGroups, group?.id));
+            }}
+            onBlur={() => setNameValidation(validateStepGroupName(name, existingGroups, group?.id))}
+            validation={nameValidation}
+            placeholder="Login and setup"
+            required
+          />
+
+          <div className="space-y-2">
+            <Label htmlFor="group-description">Description</Label>
+            <Textarea
+              id="group-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What the steps prepare for the test case"
+              rows={2}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Steps</Label>
+            <Select value="" onValueChange={(id) => setCatalogStepIds(current => [...current, id])}>
+              <SelectTrigger disabled={availableSteps.length === 0}>
+                <SelectValue placeholder="Add a catalog step..." />
+              </SelectTrigger>
+              <SelectContent>
+                {availableSteps.map(step => (
+                  <SelectItem key={step.id} value={step.id}>{step.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {catalogStepIds.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No steps yet</p>
+            ) : (
+              <ol className="space-y-1">
+                {catalogStepIds.map((id, index) => (
+                  <li key={id} className="flex items-center gap-2 rounded-md border px-3 py-1.5 text-sm">
+                    <span className="w-6 text-xs font-medium text-muted-foreground">{index + 1}</span>
+                    <span className="flex-1 truncate">
+                      {getCatalogStep(id)?.name ?? <Badge variant="destructive">Deleted step</Badge>}
+                    </span>
+                    <Button type="button" size="sm" variant="ghost" onClick={() => move(index, -1)} disabled={index === 0}>
+                      <ArrowUp size={12} />
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => move(index, 1)}
+                      disabled={index === catalogStepIds.length - 1}
+                    >
+                      <ArrowDown size={12} />
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setCatalogStepIds(current => current.filter(stepId => stepId !== id))}
+                    >
+                      <Trash size={12} />
+                    </Button>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!name.trim() || !stepsValidation.isValid}>
+              {group ? 'Save Group' : 'Create Group'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
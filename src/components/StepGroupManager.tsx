@@ -0,0 +1,206 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Plus, PencilSimple, Trash, Stack, Target } from '@phosphor-icons/react';
+import { CatalogStep, StepGroup, TestStepMembership } from '@/lib/types';
+import { applyStepGroupChange, detachStepGroup, findStepGroupUsages } from '@/lib/step-groups';
+import { stepGroupRepository } from '@/repositories/stepgroup.repository';
+import { membershipRepository, testCaseRepository } from '@/repositories/testcase.repository';
+import { useRepositoryItems } from '@/repositories/base.repository';
+import { StepGroupDialog } from './StepGroupDialog';
+import { toast } from 'sonner';
+
+interface StepGroupManagerProps {
+  catalogSteps: CatalogStep[];
+  memberships: TestStepMembership[];
+  // Called after groups or the memberships linked to them were written.
+  onChange: () => void;
+}
+
+export function StepGroupManager({ catalogSteps, memberships, onChange }: StepGroupManagerProps) {
+  const { items: groups, refresh } = useRepositoryItems(stepGroupRepository);
+  const { items: testCases } = useRepositoryItems(testCaseRepository);
+  const [editingGroup, setEditingGroup] = useState<StepGroup | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [impactGroup, setImpactGroup] = useState<StepGroup | null>(null);
+
+  const sortedGroups = [...groups].sort((a, b) => a.name.localeCompare(b.name));
+  const getStepName = (id: string) => catalogSteps.find(step => step.id === id)?.name ?? 'Deleted step';
+  const getTestCaseName = (id: string) => testCases.find(tc => tc.id === id)?.name;
+  const linkedCount = (groupId: string) =>
+    findStepGroupUsages(memberships, groupId).filter(usage => usage.linkedSteps > 0).length;
+
+  const handleSave = async (group: StepGroup) => {
+    try {
+      const isNew = !(await stepGroupRepository.exists(group.id));
+      if (isNew) {
+        await stepGroupRepository.create(group);
+      } else {
+        await stepGroupRepository.update(group);
+      }
+
+      const changed = applyStepGroupChange(memberships, group);
+      if (changed.testCaseIds.length > 0) {
+        await membershipRepository.replaceForTestCases(changed.testCaseIds, changed.memberships);
+      }
+
+      refresh();
+      onChange();
+      toast.success(isNew ? 'Step group created' : 'Step group updated', {
+        description: changed.testCaseIds.length > 0 ? `Updated ${changed.testCaseIds.length} linked test case(s)` : undefined,
+      });
+      setIsDialogOpen(false);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save step group');
+    }
+  };
+
+  const handleDelete = async (group: StepGroup) => {
+    try {
+      const usages = findStepGroupUsages(memberships, group.id);
+      if (usages.length > 0) {
+        await membershipRepository.replaceForTestCases(
+          usages.map(usage => usage.testCaseId),
+          detachStepGroup(memberships, group.id, true)
+        );
+      }
+      await stepGroupRepository.delete(group.id);
+
+      refresh();
+      onChange();
+      toast.success(`Deleted ${group.name}`, {
+        description: usages.length > 0 ? `${usages.length} test case(s) keep their copies of its steps` : undefined,
+      });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete step group');
+    }
+  };
+
+  const impact = impactGroup ? findStepGroupUsages(memberships, impactGroup.id) : [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-xl font-semibold">Step Groups</h3>
+          <p className="text-sm text-muted-foreground">
+            Shared sequences of catalog steps, such as login and setup, inserted into test cases as one unit
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => { setEditingGroup(null); setIsDialogOpen(true); }}
+          className="gap-2"
+        >
+          <Plus size={16} />
+          New Group
+        </Button>
+      </div>
+
+      {sortedGroups.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No step groups yet</p>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+          {sortedGroups.map(group => {
+            const usages = findStepGroupUsages(memberships, group.id);
+            return (
+              <Card key={group.id}>
+                <CardHeader className="pb-3">
+                  <div className="flex items-start justify-between">
+                    <CardTitle className="flex items-center gap-2 text-lg">
+                      <Stack size={18} />
+                      {group.name}
+                    </CardTitle>
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => { setEditingGroup(group); setIsDialogOpen(true); }}
+                      >
+                        <PencilSimple size={14} />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(group)}>
+                        <Trash size={14} />
+                      </Button>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {group.description && <p className="text-sm text-muted-foreground">{group.description}</p>}
+                  <ol className="space-y-1 text-xs">
+                    {group.catalogStepIds.map((id, index) => (
+                      <li key={id} className="flex items-center gap-2">
+                        <span className="w-4 h-4 bg-muted rounded-full flex items-center justify-center font-medium">
+                          {index + 1}
+                        </span>
+                        <span className="truncate">{getStepName(id)}</span>
+                      </li>
+                    ))}
+                  </ol>
+                  <div className="flex items-center justify-between border-t pt-2">
+                    <Badge variant="secondary">
+                      Used by {usages.length} test case{usages.length === 1 ? '' : 's'}
+                    </Badge>
+                    <Button variant="outline" size="sm" onClick={() => setImpactGroup(group)} className="gap-2">
+                      <Target size={12} />
+                      Impact
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <StepGroupDialog
+        group={editingGroup}
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        catalogSteps={catalogSteps}
+        existingGroups={groups}
+        linkedTestCaseCount={editingGroup ? linkedCount(editingGroup.id) : 0}
+        onSave={handleSave}
+      />
+
+      <Dialog open={impactGroup !== null} onOpenChange={(open) => !open && setImpactGroup(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Impact of {impactGroup?.name}</DialogTitle>
+            <DialogDescription>
+              Linked test cases change whenever the group is edited. Expanded copies were detached when inserted and stay as they are.
+            </DialogDescription>
+          </DialogHeader>
+          {impact.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No test case uses this group</p>
+          ) : (
+            <ul className="max-h-80 space-y-2 overflow-y-auto text-sm">
+              {impact.map(usage => (
+                <li key={usage.testCaseId} className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <span className="font-mono text-xs">{usage.testCaseId}</span>
+                    {getTestCaseName(usage.testCaseId) && (
+                      <span className="ml-2 truncate text-muted-foreground">{getTestCaseName(usage.testCaseId)}</span>
+                    )}
+                  </div>
+                  <div className="flex shrink-0 gap-1">
+                    {usage.linkedSteps > 0 && <Badge>{usage.linkedSteps} linked</Badge>}
+                    {usage.expandedSteps > 0 && <Badge variant="outline">{usage.expandedSteps} expanded</Badge>}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash } from '@phosphor-icons/react';
+import { StepOutput, StepParameterType } from '@/models/catalog.model';
+import { STEP_PARAMETER_TYPE_LABELS } from '@/lib/step-parameters';
+import { validateStepOutput } from '@/validators/catalog.validator';
+
+interface StepOutputsEditorProps {
+  outputs: StepOutput[];
+  onChange: (outputs: StepOutput[]) => void;
+}
+
+export function StepOutputsEditor({ outputs, onChange }: StepOutputsEditorProps) {
+  const update = (index: number, output: StepOutput) => {
+    onChange(outputs.map((current, i) => (i === index ? output : current)));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Outputs</Label>
+        <Button type="button" variant="outline" size="sm" onClick={() => onChange([...outputs, { name: '', type: 'string' }])}>
+          <Plus size={14} />
+          Add Output
+        </Button>
+      </div>
+
+      {outputs.length === 0 ? (
+        <p className="text-sm text-muted-foreground">This step produces no values for later steps.</p>
+      ) : (
+        <div className="space-y-2">
+          {outputs.map((output, index) => {
+            const validation = output.name.trim() ? validateStepOutput(output) : undefined;
+            return (
+              <div key={index} className="space-y-1">
+                <div className="grid grid-cols-[1fr_110px_32px] items-start gap-2">
+                  <Input
+                    value={output.name}
+                    onChange={(e) => update(index, { ...output, name: e.target.value })}
+                    placeholder="orderId"
+                    className="h-8 font-mono text-xs"
+                  />
+                  <Select
+                    value={output.type}
+                    onValueChange={(type) => update(index, { ...output, type: type as StepParameterType })}
+                  >
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(STEP_PARAMETER_TYPE_LABELS) as StepParameterType[]).map(type => (
+                        <SelectItem key={type} value={type}>{STEP_PARAMETER_TYPE_LABELS[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onChange(outputs.filter((_, i) => i !== index))}
+                  >
+                    <Trash size={12} />
+                  </Button>
+                </div>
+                {validation && !validation.isValid && (
+                  <p className="text-xs text-destructive">{validation.error}</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
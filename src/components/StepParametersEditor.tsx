@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash, X } from '@phosphor-icons/react';
+import { StepParameter, StepParameterType } from '@/models/catalog.model';
+import {
+  checkArgumentType,
+  formatArgumentValue,
+  isMissingArgument,
+  parseArgumentValue,
+  STEP_PARAMETER_TYPE_LABELS,
+} from '@/lib/step-parameters';
+import { validateStepParameter } from '@/validators/catalog.validator';
+import { StepArgumentInput } from './StepArgumentInput';
+
+interface StepParametersEditorProps {
+  parameters: StepParameter[];
+  onChange: (parameters: StepParameter[]) => void;
+}
+
+function AllowedValuesInput({ parameter, onChange }: { parameter: StepParameter; onChange: (parameter: StepParameter) => void }) {
+  const [text, setText] = useState('');
+  const allowed = parameter.allowedValues ?? [];
+
+  const add = () => {
+    const value = parseArgumentValue(text, parameter.type);
+    if (isMissingArgument(value) || checkArgumentType(value, parameter.type) || allowed.includes(value)) return;
+    onChange({ ...parameter, allowedValues: [...allowed, value] });
+    setText('');
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex gap-1">
+        <Input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && (e.preventDefault(), add())}
+          placeholder="Any value"
+          className="h-8 font-mono text-xs"
+        />
+        <Button type="button" variant="outline" size="sm" onClick={add} disabled={!text.trim()}>
+          <Plus size={12} />
+        </Button>
+      </div>
+      {allowed.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {allowed.map(value => (
+            <Badge key={formatArgumentValue(value)} variant="secondary" className="gap-1">
+              <span className="font-mono text-xs">{formatArgumentValue(value)}</span>
+              <button
+                type="button"
+                onClick={() => onChange({ ...parameter, allowedValues: allowed.filter(v => v !== value) })}
+                className="hover:bg-destructive/20 rounded-sm p-0.5"
+              >
+                <X size={10} />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function StepParametersEditor({ parameters, onChange }: StepParametersEditorProps) {
+  const update = (index: number, parameter: StepParameter) => {
+    onChange(parameters.map((current, i) => (i === index ? parameter : current)));
+  };
+
+  const addParameter = () => {
+    onChange([...parameters, { name: '', type: 'string', required: false }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Parameters</Label>
+        <Button type="button" variant="outline" size="sm" onClick={addParameter}>
+          <Plus size={14} />
+          Add Parameter
+        </Button>
+      </div>
+
+      {parameters.length === 0 ? (
+        <p className="text-sm text-muted-foreground">This step's method takes no arguments.</p>
+      ) : (
+        <div className="space-y-2">
+          <div className="grid grid-cols-[1fr_110px_70px_1fr_1fr_32px] gap-2 text-xs text-muted-foreground">
+            <span>Name</span>
+            <span>Type</span>
+            <span>Required</span>
+            <span>Default</span>
+            <span>Allowed values</span>
+            <span />
+          </div>
+          {parameters.map((parameter, index) => {
+            const validation = parameter.name.trim() ? validateStepParameter(parameter) : undefined;
+            return (
+              <div key={index} className="space-y-1">
+                <div className="grid grid-cols-[1fr_110px_70px_1fr_1fr_32px] items-start gap-2">
+                  <Input
+                    value={parameter.name}
+                    onChange={(e) => update(index, { ...parameter, name: e.target.value })}
+                    placeholder="orderId"
+                    className="h-8 font-mono text-xs"
+                  />
+                  <Select
+                    value={parameter.type}
+                    onValueChange={(type) =>
+                      update(index, { ...parameter, type: type as StepParameterType, defaultValue: undefined, allowedValues: undefined })
+                    }
+                  >
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(STEP_PARAMETER_TYPE_LABELS) as StepParameterType[]).map(type => (
+                        <SelectItem key={type} value={type}>{STEP_PARAMETER_TYPE_LABELS[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div className="flex h-8 items-center justify-center">
+                    <Checkbox
+                      checked={parameter.required}
+                      onCheckedChange={(checked) => update(index, { ...parameter, required: checked === true })}
+                    />
+                  </div>
+                  <StepArgumentInput
+                    type={parameter.type}
+                    allowedValues={parameter.allowedValues}
+                    value={parameter.defaultValue}
+                    placeholder="No default"
+                    onChange={(defaultValue) => update(index, { ...parameter, defaultValue })}
+                  />
+                  {parameter.type === 'boolean' ? (
+                    <span className="text-xs text-muted-foreground leading-8">true / false</span>
+                  ) : (
+                    <AllowedValuesInput parameter={parameter} onChange={(changed) => update(index, changed)} />
+                  )}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onChange(parameters.filter((_, i) => i !== index))}
+                  >
+                    <Trash size={12} />
+                  </Button>
+                </div>
+                {validation && !validation.isValid && (
+                  <p className="text-xs text-destructive">{validation.error}</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
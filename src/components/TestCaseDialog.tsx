@@ -1,5 +1,4 @@
 import { useEffect, useState } from 'react';
-import { useKV } from '@github/spark/hooks';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
@@ -12,31 +11,57 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { ValidatedInput } from './ValidatedInput';
+import { ConflictMergeDialog, MergeField } from './ConflictMergeDialog';
+import { ClassificationEditor } from './ClassificationEditor';
 import { TestCase } from '@/lib/types';
+import { UpdateResult, VersionConflict } from '@/models/common.model';
 import { validateTCID, validateTestCaseName, TCIDValidationResult, ValidationResult } from '@/lib/validation';
+import { validateClassification } from '@/validators/classification.validator';
+import { Classification } from '@/models/classification.model';
+import { formatCustomFieldList, normalizeClassification } from '@/lib/classification';
+import { testCaseRepository } from '@/repositories/testcase.repository';
+import { customFieldRepository } from '@/repositories/customfield.repository';
+import { useRepositoryItemsWhenOpen } from '@/repositories/base.repository';
 import { toast } from 'sonner';
 
 interface TestCaseDialogProps {
   testCase: TestCase | null;
+  // Folder for new test cases, normally the one selected in the tree.
+  defaultFolderId?: string;
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onSave: (testCase: TestCase) => void;
+  onSave: (testCase: TestCase) => Promise<UpdateResult<TestCase>> | void;
 }
 
+const MERGE_FIELDS: MergeField<TestCase>[] = [
+  { key: 'name', label: 'Test Case Name' },
+  { key: 'description', label: 'Description' },
+  { key: 'tags', label: 'Tags', format: (value) => ((value as string[] | undefined) ?? []).join(', ') },
+  { key: 'priority', label: 'Priority' },
+  { key: 'owner', label: 'Owner' },
+  { key: 'customFields', label: 'Custom Fields', format: (value) => formatCustomFieldList(value as TestCase['customFields']) },
+];
+
 export function TestCaseDialog({
   testCase,
+  defaultFolderId,
   open,
   onOpenChange,
   onSave,
 }: TestCaseDialogProps) {
-  const [allTestCases] = useKV<TestCase[]>("test-cases", []);
+  const { items: allTestCases } = useRepositoryItemsWhenOpen(testCaseRepository, open);
+  const { items: customFields } = useRepositoryItemsWhenOpen(customFieldRepository, open);
   
   const [formData, setFormData] = useState({
     tcid: '',
     name: '',
     description: '',
+    classification: {} as Classification,
   });
 
+  const [baseVersion, setBaseVersion] = useState<number | undefined>();
+  const [conflict, setConflict] = useState<VersionConflict<TestCase> | null>(null);
+
   const [validations, setValidations] = useState<{
     tcid?: TCIDValidationResult;
     name?: ValidationResult;
@@ -47,18 +72,26 @@ export function TestCaseDialog({
     name: false,
   });
 
+  const loadTestCase = (source: TestCase) => {
+    setFormData({
+      tcid: source.id,
+      name: source.name,
+      description: source.description,
+      classification: normalizeClassification(source),
+    });
+    setBaseVersion(source.version);
+  };
+
   useEffect(() => {
+    setConflict(null);
     if (testCase) {
-      setFormData({
-        tcid: testCase.id,
-        name: testCase.name,
-        description: testCase.description,
-      });
+      loadTestCase(testCase);
     } else {
       setFormData({
         tcid: '',
         name: '',
         description: '',
+        classification: {},
       });
     }
     setTouched({ tcid: false, name: false });
@@ -67,11 +100,11 @@ export function TestCaseDialog({
 
   const validateField = (field: 'tcid' | 'name', value: string) => {
     if (field === 'tcid') {
-      const result = validateTCID(value, allTestCases || [], testCase?.id);
+      const result = validateTCID(value, allTestCases, testCase?.id);
       setValidations(prev => ({ ...prev, tcid: result }));
       return result;
     } else if (field === 'name') {
-      const result = validateTestCaseName(value, allTestCases || [], testCase?.id);
+      const result = validateTestCaseName(value, allTestCases, testCase?.id);
       setValidations(prev => ({ ...prev, name: result }));
       return result;
     }
@@ -92,14 +125,16 @@ export function TestCaseDialog({
     validateField(field, formData[field]);
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     setTouched({ tcid: true, name: true });
     const tcidValidation = validateField('tcid', formData.tcid);
     const nameValidation = validateField('name', formData.name);
+    const classification = normalizeClassification(formData.classification);
+    const classificationValidation = validateClassification(classification, customFields, 'test-case');
 
-    if (!tcidValidation?.isValid || !nameValidation?.isValid) {
+    if (!tcidValidation?.isValid || !nameValidation?.isValid || !classificationValidation.isValid) {
       toast.error('Please fix validation errors before saving', {
         description: 'Check the form for error messages and suggestions',
       });
@@ -111,26 +146,54 @@ export function TestCaseDialog({
       id: formData.tcid.trim(),
       name: formData.name.trim(),
       description: formData.description.trim(),
+      folderId: testCase ? testCase.folderId : defaultFolderId,
+      ...classification,
       createdAt: testCase?.createdAt || now,
       updatedAt: now,
+      version: baseVersion,
     };
 
-    onSave(testCaseData);
+    await saveTestCase(testCaseData);
+  };
+
+  const saveTestCase = async (testCaseData: TestCase) => {
+    const result = await onSave(testCaseData);
+
+    if (result && !result.success) {
+      if (result.conflict) {
+        setConflict(result.conflict);
+      }
+      return;
+    }
+
     toast.success(
       testCase ? 'Test case updated successfully' : 'Test case created successfully',
       { description: `TCID: ${testCaseData.id}` }
     );
   };
 
+  const handleResolveConflict = async (merged: TestCase) => {
+    setConflict(null);
+    loadTestCase(merged);
+    await saveTestCase(merged);
+  };
+
+  const handleDiscardChanges = (current: TestCase) => {
+    setConflict(null);
+    loadTestCase(current);
+    toast.info('Loaded the saved version of this test case');
+  };
+
   const isFormValid = 
     formData.tcid.trim() &&
     formData.name.trim() &&
     (!validations.tcid || validations.tcid.isValid) &&
-    (!validations.name || validations.name.isValid);
+    (!validations.name || validations.name.isValid) &&
+    validateClassification(formData.classification, customFields, 'test-case').isValid;
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-lg">
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>
             {testCase ? 'Edit Test Case' : 'Create New Test Case'}
@@ -177,6 +240,13 @@ export function TestCaseDialog({
             />
           </div>
 
+          <ClassificationEditor
+            value={formData.classification}
+            onChange={(classification) => setFormData(prev => ({ ...prev, classification }))}
+            definitions={customFields}
+            target="test-case"
+          />
+
           <DialogFooter>
             <Button
               type="button"
@@ -191,6 +261,14 @@ export function TestCaseDialog({
           </DialogFooter>
         </form>
       </DialogContent>
+
+      <ConflictMergeDialog
+        conflict={conflict}
+        fields={MERGE_FIELDS}
+        onResolve={handleResolveConflict}
+        onDiscard={handleDiscardChanges}
+        onCancel={() => setConflict(null)}
+      />
     </Dialog>
   );
 }
\ No newline at end of file
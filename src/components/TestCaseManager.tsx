@@ -1,33 +1,144 @@
-import { useState } from 'react';
-import { useKV } from '@github/spark/hooks';
+import { useEffect, useMemo, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Plus, PencilSimple, Trash, TestTube, ArrowRight } from '@phosphor-icons/react';
-import { TestCase, TestStepMembership, CatalogStep, TestCaseWithSteps } from '@/lib/types';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, PencilSimple, Trash, TestTube, ArrowRight, MagnifyingGlass, FolderSimple } from '@phosphor-icons/react';
+import { TestCase, TestStepMembership, TestCaseWithSteps, TestFolder } from '@/lib/types';
+import { FilterOptions, SortOptions, UpdateResult } from '@/models/common.model';
+import { membershipRepository, testCaseRepository } from '@/repositories/testcase.repository';
+import { catalogRepository } from '@/repositories/catalog.repository';
+import { stepGroupRepository } from '@/repositories/stepgroup.repository';
+import { testFolderRepository } from '@/repositories/folder.repository';
+import { customFieldRepository } from '@/repositories/customfield.repository';
+import { usePagedRepository, useRepositoryItems } from '@/repositories/base.repository';
+import { integrityService } from '@/lib/integrity-service';
+import {
+  buildFolderTree,
+  countTestCasesByFolder,
+  formatFolderPath,
+  getDescendantFolderIds,
+} from '@/lib/test-folders';
+import { PRIORITIES, PRIORITY_LABELS } from '@/lib/classification';
+import { validateTestFolder } from '@/validators/folder.validator';
 import { TestCaseDialog } from './TestCaseDialog';
 import { TestCaseStepsDialog } from './TestCaseStepsDialog';
+import { ClassificationSummary } from './ClassificationSummary';
+import { StepGroupManager } from './StepGroupManager';
+import { TestSuiteManager } from './TestSuiteManager';
+import { TestFolderDialog } from './TestFolderDialog';
+import { FolderSelection, TestFolderTree, TEST_CASE_DRAG_TYPE } from './TestFolderTree';
+import { PageControls } from './PageControls';
+import { toast } from 'sonner';
+
+const PAGE_SIZE = 24;
+
+const SORT_PRESETS: Record<string, { label: string; sort: SortOptions[] }> = {
+  'name-asc': { label: 'Name (A–Z)', sort: [{ field: 'name', direction: 'asc' }] },
+  'name-desc': { label: 'Name (Z–A)', sort: [{ field: 'name', direction: 'desc' }] },
+  'id-asc': { label: 'Test case ID', sort: [{ field: 'id', direction: 'asc' }] },
+  recent: {
+    label: 'Recently updated',
+    sort: [
+      { field: 'updatedAt', direction: 'desc' },
+      { field: 'name', direction: 'asc' },
+    ],
+  },
+};
+
+const SEARCH_FIELDS: Record<string, string> = {
+  all: 'All fields',
+  id: 'Test case ID',
+  name: 'Name',
+  description: 'Description',
+  tags: 'Tags',
+  owner: 'Owner',
+};
 
 export function TestCaseManager() {
-  const [testCases, setTestCases] = useKV<TestCase[]>("test-cases", []);
-  const [memberships, setMemberships] = useKV<TestStepMembership[]>("test-memberships", []);
-  const [catalogSteps] = useKV<CatalogStep[]>("catalog-steps", []);
+  const { items: memberships, refresh: refreshMemberships } = useRepositoryItems(membershipRepository);
+  const { items: catalogSteps } = useRepositoryItems(catalogRepository);
+  const { items: stepGroups, refresh: refreshStepGroups } = useRepositoryItems(stepGroupRepository);
+  const { items: folders, refresh: refreshFolders } = useRepositoryItems(testFolderRepository);
+  const { items: customFields } = useRepositoryItems(customFieldRepository);
   
   const [selectedTestCase, setSelectedTestCase] = useState<TestCase | null>(null);
   const [isTestCaseDialogOpen, setIsTestCaseDialogOpen] = useState(false);
   const [isStepsDialogOpen, setIsStepsDialogOpen] = useState(false);
   const [editingTestCaseId, setEditingTestCaseId] = useState<string | null>(null);
+  const [page, setPage] = useState(1);
+  const [sortKey, setSortKey] = useState('name-asc');
+  const [searchField, setSearchField] = useState('all');
+  const [searchInput, setSearchInput] = useState('');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedFolder, setSelectedFolder] = useState<FolderSelection>('all');
+  const [priorityFilter, setPriorityFilter] = useState('all');
+  const [allTestCases, setAllTestCases] = useState<TestCase[]>([]);
+  const [editingFolder, setEditingFolder] = useState<TestFolder | null>(null);
+  const [newFolderParentId, setNewFolderParentId] = useState<string>();
+  const [isFolderDialogOpen, setIsFolderDialogOpen] = useState(false);
+
+  // A folder shows its own test cases and those of all its subfolders.
+  const folderFilters: FilterOptions[] =
+    selectedFolder === 'all'
+      ? []
+      : [{
+          field: 'folderId',
+          values: selectedFolder === 'unfiled' ? [null] : getDescendantFolderIds(folders, selectedFolder),
+        }];
+  const filters: FilterOptions[] = [
+    ...folderFilters,
+    ...(priorityFilter === 'all' ? [] : [{ field: 'priority', values: [priorityFilter] }]),
+  ];
+
+  const { result, loading, error, refresh } = usePagedRepository(testCaseRepository, {
+    page,
+    pageSize: PAGE_SIZE,
+    sort: SORT_PRESETS[sortKey].sort,
+    search: searchTerm
+      ? { query: searchTerm, fields: searchField === 'all' ? undefined : [searchField] }
+      : undefined,
+    filters: filters.length > 0 ? filters : undefined,
+  });
+  const testCases = result.items;
+
+  // Folder counts and suites need every test case, not just the current page.
+  useEffect(() => {
+    testCaseRepository.findAll().then(setAllTestCases).catch(() => setAllTestCases([]));
+  }, [result]);
+
+  const folderCounts = countTestCasesByFolder(allTestCases);
+  const newTestCaseFolderId = selectedFolder === 'all' || selectedFolder === 'unfiled' ? undefined : selectedFolder;
+  const folderTree = buildFolderTree(folders, folderCounts);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearchTerm(searchInput.trim());
+      setPage(1);
+    }, 250);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
 
-  const getTestCaseWithSteps = (testCaseId: string): TestCaseWithSteps | null => {
-    const testCase = testCases?.find(tc => tc.id === testCaseId);
-    if (!testCase) return null;
+  useEffect(() => {
+    if (!loading && page > 1 && testCases.length === 0) {
+      setPage(current => current - 1);
+    }
+  }, [loading, page, testCases.length]);
 
-    const testCaseMemberships = (memberships || [])
+  useEffect(() => {
+    if (error) toast.error(error);
+  }, [error]);
+
+  const getTestCaseWithSteps = (testCase: TestCase): TestCaseWithSteps => {
+    const testCaseId = testCase.id;
+
+    const testCaseMemberships = memberships
       .filter(m => m.testCaseId === testCaseId)
       .sort((a, b) => a.processOrder - b.processOrder);
 
     const steps = testCaseMemberships.map(membership => {
-      const catalogStep = catalogSteps?.find(cs => cs.id === membership.catalogStepId);
+      const catalogStep = catalogSteps.find(cs => cs.id === membership.catalogStepId);
       return {
         membership,
         catalogStep: catalogStep!,
@@ -47,22 +158,120 @@ export function TestCaseManager() {
     setIsTestCaseDialogOpen(true);
   };
 
-  const handleDeleteTestCase = (testCaseId: string) => {
-    setTestCases(current => (current || []).filter(tc => tc.id !== testCaseId));
-    setMemberships(current => (current || []).filter(m => m.testCaseId !== testCaseId));
+  const handleDeleteTestCase = async (testCaseId: string) => {
+    const result = await integrityService.deleteTestCase(testCaseId);
+
+    if (!result.success) {
+      toast.error(result.error);
+      return;
+    }
+
+    refreshMemberships();
+    refresh();
   };
 
-  const handleSaveTestCase = (testCase: TestCase) => {
-    setTestCases(current => {
-      const currentCases = current || [];
-      const existing = currentCases.find(tc => tc.id === testCase.id);
-      if (existing) {
-        return currentCases.map(tc => tc.id === testCase.id ? testCase : tc);
+  const handleSaveTestCase = async (testCase: TestCase): Promise<UpdateResult<TestCase>> => {
+    try {
+      if (await testCaseRepository.exists(testCase.id)) {
+        const result = await testCaseRepository.tryUpdate(testCase);
+        if (!result.success) {
+          if (!result.conflict) toast.error(result.error);
+          return result;
+        }
       } else {
-        return [...currentCases, testCase];
+        await testCaseRepository.create(testCase);
       }
-    });
-    setIsTestCaseDialogOpen(false);
+      setIsTestCaseDialogOpen(false);
+      refresh();
+      return { success: true, data: testCase };
+    } catch (err) {
+      const error = err instanceof Error ? err.message : 'Failed to save test case';
+      toast.error(error);
+      return { success: false, error };
+    }
+  };
+
+  const handleSelectFolder = (selection: FolderSelection) => {
+    setSelectedFolder(selection);
+    setPage(1);
+  };
+
+  const handleCreateFolder = (parentId?: string) => {
+    setEditingFolder(null);
+    setNewFolderParentId(parentId);
+    setIsFolderDialogOpen(true);
+  };
+
+  const handleEditFolder = (folder: TestFolder) => {
+    setEditingFolder(folder);
+    setIsFolderDialogOpen(true);
+  };
+
+  const handleSaveFolder = async (folder: TestFolder) => {
+    try {
+      const isNew = !(await testFolderRepository.exists(folder.id));
+      if (isNew) {
+        await testFolderRepository.create(folder);
+      } else {
+        await testFolderRepository.update(folder);
+      }
+      refreshFolders();
+      toast.success(isNew ? 'Folder created' : 'Folder updated');
+      setIsFolderDialogOpen(false);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save folder');
+    }
+  };
+
+  // Subfolders and test cases of a deleted folder move up to its parent.
+  const handleDeleteFolder = async (folder: TestFolder) => {
+    try {
+      const contained = await testCaseRepository.findByFolder(folder.id);
+      if (contained.length > 0) {
+        await testCaseRepository.moveToFolder(contained.map(tc => tc.id), folder.parentId);
+      }
+      const subfolders = folders.filter(f => f.parentId === folder.id);
+      if (subfolders.length > 0) {
+        await testFolderRepository.updateMany(subfolders.map(({ id }) => ({ id, parentId: folder.parentId })));
+      }
+      await testFolderRepository.delete(folder.id);
+      refreshFolders();
+      if (selectedFolder === folder.id) handleSelectFolder(folder.parentId ?? 'all');
+      refresh();
+      toast.success(`Deleted ${folder.name}`, {
+        description: contained.length > 0
+          ? `${contained.length} test case(s) moved to ${formatFolderPath(folders, folder.parentId)}`
+          : undefined,
+      });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete folder');
+    }
+  };
+
+  const handleMoveFolder = (folderId: string, parentId?: string) => {
+    const folder = folders.find(f => f.id === folderId);
+    if (!folder || folder.parentId === parentId) return;
+
+    const validation = validateTestFolder({ name: folder.name, parentId }, folders, folder.id);
+    if (!validation.isValid) {
+      toast.error(validation.error);
+      return;
+    }
+
+    handleSaveFolder({ ...folder, parentId, updatedAt: new Date() });
+  };
+
+  const handleMoveTestCase = async (testCaseId: string, folderId?: string) => {
+    const testCase = allTestCases.find(tc => tc.id === testCaseId);
+    if (!testCase || testCase.folderId === folderId) return;
+
+    const result = await testCaseRepository.tryUpdate({ ...testCase, folderId, updatedAt: new Date() });
+    if (!result.success) {
+      toast.error(result.error ?? 'Failed to move test case');
+      return;
+    }
+    refresh();
+    toast.success(`Moved ${testCase.name}`, { description: formatFolderPath(folders, folderId) });
   };
 
   const handleManageSteps = (testCaseId: string) => {
@@ -70,15 +279,27 @@ export function TestCaseManager() {
     setIsStepsDialogOpen(true);
   };
 
-  const handleUpdateMemberships = (newMemberships: TestStepMembership[]) => {
-    setMemberships(current => {
-      const currentMemberships = current || [];
-      const otherMemberships = currentMemberships.filter(m => m.testCaseId !== editingTestCaseId);
-      return [...otherMemberships, ...newMemberships];
-    });
+  const handleUpdateMemberships = async (newMemberships: TestStepMembership[]) => {
+    if (!editingTestCaseId) return;
+    try {
+      await membershipRepository.replaceForTestCases([editingTestCaseId], newMemberships);
+      refreshMemberships();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save test steps');
+    }
   };
 
-  if (!testCases || testCases.length === 0) {
+  const handleStepGroupsChange = () => {
+    refreshStepGroups();
+    refreshMemberships();
+  };
+
+  const editingMemberships = useMemo(
+    () => memberships.filter(m => m.testCaseId === editingTestCaseId),
+    [memberships, editingTestCaseId]
+  );
+
+  if (!loading && result.total === 0 && !searchTerm && priorityFilter === 'all' && selectedFolder === 'all' && folders.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center py-12">
         <div className="text-center max-w-md">
@@ -95,6 +316,7 @@ export function TestCaseManager() {
         
         <TestCaseDialog
           testCase={selectedTestCase}
+          defaultFolderId={newTestCaseFolderId}
           open={isTestCaseDialogOpen}
           onOpenChange={setIsTestCaseDialogOpen}
           onSave={handleSaveTestCase}
@@ -118,93 +340,207 @@ export function TestCaseManager() {
         </Button>
       </div>
 
-      <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
-        {testCases.map(testCase => {
-          const testCaseWithSteps = getTestCaseWithSteps(testCase.id);
-          const stepCount = testCaseWithSteps?.steps.length || 0;
-
-          return (
-            <Card key={testCase.id} className="hover:shadow-md transition-shadow">
-              <CardHeader className="pb-3">
-                <div className="flex items-start justify-between">
-                  <CardTitle className="text-lg">{testCase.name}</CardTitle>
-                  <div className="flex gap-1">
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleEditTestCase(testCase)}
-                    >
-                      <PencilSimple size={14} />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleDeleteTestCase(testCase.id)}
-                    >
-                      <Trash size={14} />
-                    </Button>
-                  </div>
-                </div>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <p className="text-sm text-muted-foreground">{testCase.description}</p>
+      <div className="grid gap-6 lg:grid-cols-[260px_1fr]">
+        <aside className="lg:border-r lg:pr-4">
+          <TestFolderTree
+            nodes={folderTree}
+            totalCount={allTestCases.length}
+            unfiledCount={folderCounts.get(null) ?? 0}
+            selected={selectedFolder}
+            onSelect={handleSelectFolder}
+            onCreate={handleCreateFolder}
+            onEdit={handleEditFolder}
+            onDelete={handleDeleteFolder}
+            onMoveFolder={handleMoveFolder}
+            onMoveTestCase={handleMoveTestCase}
+          />
+        </aside>
+
+        <div className="min-w-0 space-y-6">
+          <div className="flex flex-col gap-2 sm:flex-row">
+            <div className="relative flex-1">
+              <MagnifyingGlass size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                placeholder="Search test cases..."
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+            <Select value={searchField} onValueChange={(value) => { setSearchField(value); setPage(1); }}>
+              <SelectTrigger className="sm:w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SEARCH_FIELDS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={priorityFilter} onValueChange={(value) => { setPriorityFilter(value); setPage(1); }}>
+              <SelectTrigger className="sm:w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All priorities</SelectItem>
+                {PRIORITIES.map(priority => (
+                  <SelectItem key={priority} value={priority}>{PRIORITY_LABELS[priority]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={sortKey} onValueChange={(value) => { setSortKey(value); setPage(1); }}>
+              <SelectTrigger className="sm:w-52">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SORT_PRESETS).map(([value, preset]) => (
+                  <SelectItem key={value} value={value}>{preset.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {!loading && testCases.length === 0 && (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              {searchTerm
+                ? `No test cases match "${searchTerm}"`
+                : priorityFilter !== 'all'
+                  ? 'No test cases with this priority in this folder'
+                  : 'No test cases in this folder'}
+            </p>
+          )}
+
+          <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+            {testCases.map(testCase => {
+              const testCaseWithSteps = getTestCaseWithSteps(testCase);
+              const stepCount = testCaseWithSteps.steps.length;
+
+              return (
+                <Card
+                  key={testCase.id}
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.setData(TEST_CASE_DRAG_TYPE, testCase.id);
+                    e.dataTransfer.effectAllowed = 'move';
+                  }}
+                  className="hover:shadow-md transition-shadow cursor-grab"
+                >
+                  <CardHeader className="pb-3">
+                    <div className="flex items-start justify-between">
+                      <CardTitle className="text-lg">{testCase.name}</CardTitle>
+                      <div className="flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleEditTestCase(testCase)}
+                        >
+                          <PencilSimple size={14} />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDeleteTestCase(testCase.id)}
+                        >
+                          <Trash size={14} />
+                        </Button>
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <p className="text-sm text-muted-foreground">{testCase.description}</p>
+
+                    <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <FolderSimple size={12} />
+                      <span className="truncate">{formatFolderPath(folders, testCase.folderId)}</span>
+                    </div>
+
+                    <ClassificationSummary value={testCase} definitions={customFields} target="test-case" />
                 
-                <div className="flex items-center justify-between">
-                  <Badge variant="secondary" className="gap-1">
-                    <TestTube size={12} />
-                    {stepCount} {stepCount === 1 ? 'Step' : 'Steps'}
-                  </Badge>
+                    <div className="flex items-center justify-between">
+                      <Badge variant="secondary" className="gap-1">
+                        <TestTube size={12} />
+                        {stepCount} {stepCount === 1 ? 'Step' : 'Steps'}
+                      </Badge>
                   
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => handleManageSteps(testCase.id)}
-                    className="gap-2"
-                  >
-                    <span>Manage Steps</span>
-                    <ArrowRight size={12} />
-                  </Button>
-                </div>
-
-                {stepCount > 0 && testCaseWithSteps && (
-                  <div className="pt-2 border-t">
-                    <p className="text-xs font-medium text-muted-foreground mb-2">Execution Order:</p>
-                    <div className="space-y-1">
-                      {testCaseWithSteps.steps.slice(0, 3).map((step, index) => (
-                        <div key={step.membership.id} className="flex items-center gap-2 text-xs">
-                          <span className="w-4 h-4 bg-muted rounded-full flex items-center justify-center text-xs font-medium">
-                            {step.membership.processOrder}
-                          </span>
-                          <span className="truncate">{step.catalogStep.name}</span>
-                        </div>
-                      ))}
-                      {stepCount > 3 && (
-                        <div className="text-xs text-muted-foreground">
-                          +{stepCount - 3} more steps...
-                        </div>
-                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleManageSteps(testCase.id)}
+                        className="gap-2"
+                      >
+                        <span>Manage Steps</span>
+                        <ArrowRight size={12} />
+                      </Button>
                     </div>
-                  </div>
-                )}
-              </CardContent>
-            </Card>
-          );
-        })}
+
+                    {stepCount > 0 && (
+                      <div className="pt-2 border-t">
+                        <p className="text-xs font-medium text-muted-foreground mb-2">Execution Order:</p>
+                        <div className="space-y-1">
+                          {testCaseWithSteps.steps.slice(0, 3).map((step, index) => (
+                            <div key={step.membership.id} className="flex items-center gap-2 text-xs">
+                              <span className="w-4 h-4 bg-muted rounded-full flex items-center justify-center text-xs font-medium">
+                                {step.membership.processOrder}
+                              </span>
+                              <span className="truncate">{step.catalogStep.name}</span>
+                            </div>
+                          ))}
+                          {stepCount > 3 && (
+                            <div className="text-xs text-muted-foreground">
+                              +{stepCount - 3} more steps...
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+
+          {result.total > 0 && (
+            <PageControls result={result} loading={loading} onPageChange={setPage} />
+          )}
+        </div>
+      </div>
+
+      <div className="border-t pt-6">
+        <StepGroupManager
+          catalogSteps={catalogSteps}
+          memberships={memberships}
+          onChange={handleStepGroupsChange}
+        />
+      </div>
+
+      <div className="border-t pt-6">
+        <TestSuiteManager testCases={allTestCases} folders={folders} />
       </div>
 
       <TestCaseDialog
         testCase={selectedTestCase}
+        defaultFolderId={newTestCaseFolderId}
         open={isTestCaseDialogOpen}
         onOpenChange={setIsTestCaseDialogOpen}
         onSave={handleSaveTestCase}
       />
 
+      <TestFolderDialog
+        folder={editingFolder}
+        defaultParentId={newFolderParentId}
+        open={isFolderDialogOpen}
+        onOpenChange={setIsFolderDialogOpen}
+        existingFolders={folders}
+        onSave={handleSaveFolder}
+      />
+
       <TestCaseStepsDialog
         testCaseId={editingTestCaseId}
         open={isStepsDialogOpen}
         onOpenChange={setIsStepsDialogOpen}
-        catalogSteps={catalogSteps || []}
-        currentMemberships={(memberships || []).filter(m => m.testCaseId === editingTestCaseId)}
+        catalogSteps={catalogSteps}
+        stepGroups={stepGroups}
+        currentMemberships={editingMemberships}
         onSave={handleUpdateMemberships}
       />
     </div>
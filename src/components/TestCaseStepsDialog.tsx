@@ -3,6 +3,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import {
   Dialog,
   DialogContent,
@@ -18,15 +19,34 @@ import {
   Code, 
   Database, 
   DotsSixVertical,
-  MagnifyingGlass 
+  MagnifyingGlass,
+  ArrowRight,
+  FlowArrow,
+  LinkBreak,
+  LinkSimple,
+  Stack
 } from '@phosphor-icons/react';
-import { CatalogStep, TestStepMembership } from '@/lib/types';
+import { CatalogStep, StepGroup, TestStepMembership } from '@/lib/types';
+import { StepArgumentValue } from '@/models/catalog.model';
+import { StepGroupInsertMode } from '@/models/stepgroup.model';
+import {
+  formatStepReference,
+  isMissingArgument,
+  parseStepReference,
+  STEP_PARAMETER_TYPE_LABELS,
+} from '@/lib/step-parameters';
+import { buildDataFlow } from '@/lib/data-flow';
+import { detachStepGroup, insertStepGroup, renumberMemberships, STEP_GROUP_INSERT_MODE_LABELS } from '@/lib/step-groups';
+import { validateDataFlow, validateMembershipArguments } from '@/validators/testcase.validator';
+import { validateStepGroupInsertion } from '@/validators/stepgroup.validator';
+import { StepArgumentInput } from './StepArgumentInput';
 
 interface TestCaseStepsDialogProps {
   testCaseId: string | null;
   open: boolean;
   onOpenChange: (open: boolean) => void;
   catalogSteps: CatalogStep[];
+  stepGroups: StepGroup[];
   currentMemberships: TestStepMembership[];
   onSave: (memberships: TestStepMembership[]) => void;
 }
@@ -36,16 +56,20 @@ export function TestCaseStepsDialog({
   open,
   onOpenChange,
   catalogSteps,
+  stepGroups,
   currentMemberships,
   onSave,
 }: TestCaseStepsDialogProps) {
   const [memberships, setMemberships] = useState<TestStepMembership[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
+  const [groupId, setGroupId] = useState('');
+  const [groupMode, setGroupMode] = useState<StepGroupInsertMode>('link');
 
   useEffect(() => {
     if (open) {
       setMemberships([...currentMemberships]);
       setSearchTerm('');
+      setGroupId('');
     }
   }, [open, currentMemberships]);
 
@@ -81,8 +105,8 @@ export function TestCaseStepsDialog({
 
   const handleRemoveStep = (membershipId: string) => {
     setMemberships(prev => {
-      const filtered = prev.filter(m => m.id !== membershipId);
-      return reorderMemberships(filtered);
+      const filtered = [...prev].sort((a, b) => a.processOrder - b.processOrder).filter(m => m.id !== membershipId);
+      return renumberMemberships(filtered);
     });
   };
 
@@ -94,7 +118,7 @@ export function TestCaseStepsDialog({
       if (index <= 0) return prev;
       
       [sorted[index - 1], sorted[index]] = [sorted[index], sorted[index - 1]];
-      return reorderMemberships(sorted);
+      return renumberMemberships(sorted);
     });
   };
 
@@ -106,33 +130,91 @@ export function TestCaseStepsDialog({
       if (index >= sorted.length - 1) return prev;
       
       [sorted[index], sorted[index + 1]] = [sorted[index + 1], sorted[index]];
-      return reorderMemberships(sorted);
+      return renumberMemberships(sorted);
     });
   };
 
-  const reorderMemberships = (memberships: TestStepMembership[]): TestStepMembership[] => {
-    return memberships.map((membership, index) => ({
-      ...membership,
-      processOrder: index + 1,
-    }));
+  const selectedGroup = stepGroups.find(group => group.id === groupId);
+  const groupValidation = selectedGroup && validateStepGroupInsertion(selectedGroup, memberships, catalogSteps);
+  const getGroupName = (id: string) => stepGroups.find(group => group.id === id)?.name ?? 'Deleted group';
+
+  const handleInsertGroup = () => {
+    if (!testCaseId || !selectedGroup || !groupValidation?.isValid) return;
+    setMemberships(prev => insertStepGroup(prev, selectedGroup, testCaseId, groupMode));
+    setGroupId('');
   };
 
-  const handleSave = () => {
-    onSave(reorderMemberships(memberships));
-    onOpenChange(false);
+  const handleUnlinkGroup = (stepGroupId: string) => {
+    setMemberships(prev => detachStepGroup(prev, stepGroupId));
+  };
+
+  const handleRemoveGroup = (stepGroupId: string) => {
+    setMemberships(prev =>
+      renumberMemberships(
+        [...prev]
+          .sort((a, b) => a.processOrder - b.processOrder)
+          .filter(m => !(m.stepGroupId === stepGroupId && m.groupLinked))
+      )
+    );
   };
 
   const getCatalogStep = (catalogStepId: string) => {
     return catalogSteps.find(step => step.id === catalogStepId);
   };
 
+  const handleArgumentChange = (membershipId: string, name: string, value: StepArgumentValue) => {
+    setMemberships(prev =>
+      prev.map(membership => {
+        if (membership.id !== membershipId) return membership;
+        const { [name]: _previous, ...rest } = membership.arguments ?? {};
+        return { ...membership, arguments: isMissingArgument(value) ? rest : { ...rest, [name]: value } };
+      })
+    );
+  };
+
+  const flowSteps = sortedMemberships.map(membership => ({
+    membership,
+    catalogStep: getCatalogStep(membership.catalogStepId),
+  }));
+  const dataFlow = buildDataFlow(flowSteps);
+  const dataFlowErrors = validateDataFlow(flowSteps);
+
+  const argumentErrors = new Map(
+    memberships.flatMap(membership => {
+      const validation = validateMembershipArguments(
+        getCatalogStep(membership.catalogStepId)?.parameters ?? [],
+        membership.arguments
+      );
+      const errors = [validation.error, dataFlowErrors.get(membership.id)?.error].filter(Boolean);
+      return errors.length === 0 ? [] : [[membership.id, errors.join('; ')] as const];
+    })
+  );
+
+  // Outputs of the steps that run before the given process order.
+  const getAvailableOutputs = (processOrder: number) =>
+    flowSteps
+      .filter(({ membership }) => membership.processOrder < processOrder)
+      .flatMap(({ membership, catalogStep }) =>
+        (catalogStep?.outputs ?? []).map(output => ({
+          reference: formatStepReference({ processOrder: membership.processOrder, outputName: output.name }),
+          stepName: catalogStep!.name,
+          output,
+        }))
+      );
+
+  const handleSave = () => {
+    onSave(renumberMemberships(sortedMemberships));
+    onOpenChange(false);
+  };
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-4xl max-h-[80vh] overflow-hidden flex flex-col">
         <DialogHeader>
           <DialogTitle>Manage Test Steps</DialogTitle>
           <DialogDescription>
-            Add steps from the catalog and arrange their execution order for this test case.
+            Add steps from the catalog, arrange their execution order and fill in their arguments for this test case.
+            An argument can also be bound to an output of an earlier step.
           </DialogDescription>
         </DialogHeader>
 
@@ -150,6 +232,48 @@ export function TestCaseStepsDialog({
                   className="pl-9"
                 />
               </div>
+
+              {stepGroups.length > 0 && (
+                <div className="mt-3 space-y-1">
+                  <div className="flex gap-2">
+                    <Select value={groupId} onValueChange={setGroupId}>
+                      <SelectTrigger className="h-8 flex-1 text-xs">
+                        <SelectValue placeholder="Insert a step group..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {stepGroups.map(group => (
+                          <SelectItem key={group.id} value={group.id}>
+                            {group.name} ({group.catalogStepIds.length} steps)
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select value={groupMode} onValueChange={(mode) => setGroupMode(mode as StepGroupInsertMode)}>
+                      <SelectTrigger className="h-8 w-36 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(STEP_GROUP_INSERT_MODE_LABELS) as StepGroupInsertMode[]).map(mode => (
+                          <SelectItem key={mode} value={mode}>{STEP_GROUP_INSERT_MODE_LABELS[mode]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={handleInsertGroup}
+                      disabled={!groupValidation?.isValid}
+                      className="gap-1"
+                    >
+                      <Stack size={12} />
+                      Insert
+                    </Button>
+                  </div>
+                  {groupValidation && !groupValidation.isValid && (
+                    <p className="text-xs text-destructive">{groupValidation.error}</p>
+                  )}
+                </div>
+              )}
             </div>
             
             <div className="flex-1 overflow-y-auto space-y-2 pr-2">
@@ -227,6 +351,7 @@ export function TestCaseStepsDialog({
                 sortedMemberships.map((membership, index) => {
                   const step = getCatalogStep(membership.catalogStepId);
                   if (!step) return null;
+                  const linked = membership.stepGroupId !== undefined && membership.groupLinked === true;
 
                   return (
                     <Card key={membership.id} className="relative">
@@ -242,6 +367,125 @@ export function TestCaseStepsDialog({
                           <div className="flex-1 min-w-0">
                             <h4 className="font-medium">{step.name}</h4>
                             <p className="text-sm text-muted-foreground">{step.description}</p>
+
+                            {membership.stepGroupId && (
+                              <div className="mt-1 flex flex-wrap items-center gap-1">
+                                <Badge variant={linked ? 'default' : 'outline'} className="gap-1 text-xs">
+                                  <Stack size={10} />
+                                  {getGroupName(membership.stepGroupId)}
+                                  {linked ? ' · linked' : ' · from group'}
+                                </Badge>
+                                {linked && (
+                                  <>
+                                    <Button
+                                      size="sm"
+                                      variant="ghost"
+                                      className="h-6 px-2 text-xs"
+                                      onClick={() => handleUnlinkGroup(membership.stepGroupId!)}
+                                    >
+                                      <LinkBreak size={12} />
+                                      Unlink
+                                    </Button>
+                                    <Button
+                                      size="sm"
+                                      variant="ghost"
+                                      className="h-6 px-2 text-xs"
+                                      onClick={() => handleRemoveGroup(membership.stepGroupId!)}
+                                    >
+                                      <Trash size={12} />
+                                      Remove group
+                                    </Button>
+                                  </>
+                                )}
+                              </div>
+                            )}
+
+                            {(step.outputs ?? []).length > 0 && (
+                              <div className="mt-2 flex flex-wrap items-center gap-1">
+                                <span className="text-xs text-muted-foreground">Outputs:</span>
+                                {step.outputs!.map(output => (
+                                  <Badge key={output.name} variant="outline" className="font-mono text-xs">
+                                    {formatStepReference({ processOrder: membership.processOrder, outputName: output.name })}
+                                  </Badge>
+                                ))}
+                              </div>
+                            )}
+
+                            {(step.parameters ?? []).length > 0 && (
+                              <div className="mt-3 space-y-2">
+                                {step.parameters!.map(parameter => {
+                                  const value = membership.arguments?.[parameter.name];
+                                  const reference = parseStepReference(value);
+                                  const availableOutputs = getAvailableOutputs(membership.processOrder);
+
+                                  return (
+                                    <div key={parameter.name} className="grid grid-cols-[120px_1fr_auto] items-center gap-2">
+                                      <label
+                                        htmlFor={`arg-${membership.id}-${parameter.name}`}
+                                        className="truncate font-mono text-xs"
+                                        title={STEP_PARAMETER_TYPE_LABELS[parameter.type]}
+                                      >
+                                        {parameter.name}
+                                        {parameter.required && <span className="text-destructive">*</span>}
+                                      </label>
+                                      {reference ? (
+                                        <Badge variant="secondary" className="justify-start gap-1 font-mono text-xs">
+                                          <LinkSimple size={12} />
+                                          {formatStepReference(reference)}
+                                        </Badge>
+                                      ) : (
+                                        <StepArgumentInput
+                                          id={`arg-${membership.id}-${parameter.name}`}
+                                          type={parameter.type}
+                                          allowedValues={parameter.allowedValues}
+                                          value={value}
+                                          placeholder={
+                                            isMissingArgument(parameter.defaultValue)
+                                              ? STEP_PARAMETER_TYPE_LABELS[parameter.type]
+                                              : `Default: ${parameter.defaultValue}`
+                                          }
+                                          onChange={(changed) => handleArgumentChange(membership.id, parameter.name, changed)}
+                                        />
+                                      )}
+                                      {reference ? (
+                                        <Button
+                                          size="sm"
+                                          variant="ghost"
+                                          title="Unbind"
+                                          onClick={() => handleArgumentChange(membership.id, parameter.name, null)}
+                                        >
+                                          <LinkBreak size={12} />
+                                        </Button>
+                                      ) : (
+                                        <Select
+                                          value=""
+                                          onValueChange={(selected) => handleArgumentChange(membership.id, parameter.name, selected)}
+                                          disabled={availableOutputs.length === 0}
+                                        >
+                                          <SelectTrigger className="h-8 w-auto px-2" title="Bind to an earlier step's output">
+                                            <LinkSimple size={12} />
+                                          </SelectTrigger>
+                                          <SelectContent>
+                                            {availableOutputs.map(({ reference, stepName, output }) => (
+                                              <SelectItem key={reference} value={reference}>
+                                                <span className="font-mono text-xs">{reference}</span>
+                                                <span className="ml-2 text-xs text-muted-foreground">
+                                                  {stepName} · {STEP_PARAMETER_TYPE_LABELS[output.type]}
+                                                </span>
+                                              </SelectItem>
+                                            ))}
+                                          </SelectContent>
+                                        </Select>
+                                      )}
+                                    </div>
+                                  );
+                                })}
+                              </div>
+                            )}
+
+                            {argumentErrors.has(membership.id) && (
+                              <p className="mt-2 text-xs text-destructive">{argumentErrors.get(membership.id)}</p>
+                            )}
                           </div>
                           
                           <div className="flex flex-col gap-1">
@@ -249,7 +493,7 @@ export function TestCaseStepsDialog({
                               size="sm"
                               variant="ghost"
                               onClick={() => handleMoveUp(membership.id)}
-                              disabled={index === 0}
+                              disabled={index === 0 || linked}
                             >
                               <ArrowUp size={12} />
                             </Button>
@@ -257,7 +501,7 @@ export function TestCaseStepsDialog({
                               size="sm"
                               variant="ghost"
                               onClick={() => handleMoveDown(membership.id)}
-                              disabled={index === sortedMemberships.length - 1}
+                              disabled={index === sortedMemberships.length - 1 || linked}
                             >
                               <ArrowDown size={12} />
                             </Button>
@@ -265,6 +509,7 @@ export function TestCaseStepsDialog({
                               size="sm"
                               variant="ghost"
                               onClick={() => handleRemoveStep(membership.id)}
+                              disabled={linked}
                             >
                               <Trash size={12} />
                             </Button>
@@ -275,6 +520,31 @@ export function TestCaseStepsDialog({
                   );
                 })
               )}
+
+              {dataFlow.length > 0 && (
+                <div className="rounded-md border p-3">
+                  <h4 className="mb-2 flex items-center gap-2 text-sm font-semibold">
+                    <FlowArrow size={16} />
+                    Data Flow
+                  </h4>
+                  <ul className="space-y-1 text-xs">
+                    {dataFlow.map(edge => (
+                      <li key={`${edge.membershipId}-${edge.parameterName}`}>
+                        <div className="flex flex-wrap items-center gap-1">
+                          <span className="font-mono">{formatStepReference(edge.source)}</span>
+                          {edge.sourceStepName && <span className="text-muted-foreground">({edge.sourceStepName})</span>}
+                          <ArrowRight size={12} className="text-muted-foreground" />
+                          <span className="font-mono">
+                            step{edge.processOrder}.{edge.parameterName}
+                          </span>
+                          {edge.stepName && <span className="text-muted-foreground">({edge.stepName})</span>}
+                        </div>
+                        {edge.issue && <p className="text-destructive">{edge.issue}</p>}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -283,7 +553,7 @@ export function TestCaseStepsDialog({
           <Button variant="outline" onClick={() => onOpenChange(false)}>
             Cancel
           </Button>
-          <Button onClick={handleSave}>
+          <Button onClick={handleSave} disabled={argumentErrors.size > 0}>
             Save Steps ({sortedMemberships.length})
           </Button>
         </div>
@@ -0,0 +1,140 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ValidatedInput } from './ValidatedInput';
+import { TestFolder } from '@/lib/types';
+import { formatFolderPath, getDescendantFolderIds } from '@/lib/test-folders';
+import { ValidationResult } from '@/validators/common.validator';
+import { validateTestFolder, validateTestFolderName } from '@/validators/folder.validator';
+import { toast } from 'sonner';
+
+const ROOT = 'root';
+
+interface TestFolderDialogProps {
+  folder: TestFolder | null;
+  defaultParentId?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  existingFolders: TestFolder[];
+  onSave: (folder: TestFolder) => void;
+}
+
+export function TestFolderDialog({
+  folder,
+  defaultParentId,
+  open,
+  onOpenChange,
+  existingFolders,
+  onSave,
+}: TestFolderDialogProps) {
+  const [name, setName] = useState('');
+  const [parentId, setParentId] = useState(ROOT);
+  const [nameValidation, setNameValidation] = useState<ValidationResult>();
+
+  useEffect(() => {
+    if (open) {
+      setName(folder?.name ?? '');
+      setParentId((folder ? folder.parentId : defaultParentId) ?? ROOT);
+      setNameValidation(undefined);
+    }
+  }, [folder, defaultParentId, open]);
+
+  const selectedParentId = parentId === ROOT ? undefined : parentId;
+  const excludedIds = folder ? getDescendantFolderIds(existingFolders, folder.id) : [];
+  const parentOptions = existingFolders
+    .filter(candidate => !excludedIds.includes(candidate.id))
+    .map(candidate => ({ id: candidate.id, path: formatFolderPath(existingFolders, candidate.id) }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  const checkName = (value: string, parent = selectedParentId) =>
+    setNameValidation(validateTestFolderName(value, existingFolders, parent, folder?.id));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validation = validateTestFolder({ name, parentId: selectedParentId }, existingFolders, folder?.id);
+    setNameValidation(validation);
+    if (!validation.isValid) {
+      toast.error('Please fix validation errors before saving');
+      return;
+    }
+
+    const now = new Date();
+    onSave({
+      id: folder?.id ?? `folder-${Date.now()}`,
+      name: name.trim(),
+      parentId: selectedParentId,
+      createdAt: folder?.createdAt ?? now,
+      updatedAt: now,
+      version: folder?.version,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{folder ? 'Edit Folder' : 'Create Folder'}</DialogTitle>
+          <DialogDescription>
+            Folders organize test cases. A test case belongs to at most one folder.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <ValidatedInput
+            id="folder-name"
+            label="Folder Name"
+            value={name}
+            onChange={(value) => {
+              setName(value);
+              if (nameValidation) checkName(value);
+            }}
+            onBlur={() => checkName(name)}
+            validation={nameValidation}
+            placeholder="Checkout"
+            required
+          />
+
+          <div className="space-y-2">
+            <Label>Parent Folder</Label>
+            <Select
+              value={parentId}
+              onValueChange={(value) => {
+                setParentId(value);
+                if (nameValidation) checkName(name, value === ROOT ? undefined : value);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ROOT}>No parent (top level)</SelectItem>
+                {parentOptions.map(option => (
+                  <SelectItem key={option.id} value={option.id}>{option.path}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!name.trim()}>
+              {folder ? 'Save Folder' : 'Create Folder'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,209 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import {
+  CaretDown,
+  CaretRight,
+  Folder,
+  FolderOpen,
+  FolderPlus,
+  PencilSimple,
+  Trash,
+  Tray,
+  TestTube,
+} from '@phosphor-icons/react';
+import { TestFolder } from '@/lib/types';
+import { TestFolderNode } from '@/models/folder.model';
+import { UNFILED_FOLDER_LABEL } from '@/lib/test-folders';
+
+// Drag payload types. Folders can be dropped on folders or the root, test
+// cases on folders or "Unfiled".
+export const FOLDER_DRAG_TYPE = 'application/x-test-folder';
+export const TEST_CASE_DRAG_TYPE = 'application/x-test-case';
+
+export type FolderSelection = 'all' | 'unfiled' | string;
+
+interface TestFolderTreeProps {
+  nodes: TestFolderNode[];
+  totalCount: number;
+  unfiledCount: number;
+  selected: FolderSelection;
+  onSelect: (selection: FolderSelection) => void;
+  onCreate: (parentId?: string) => void;
+  onEdit: (folder: TestFolder) => void;
+  onDelete: (folder: TestFolder) => void;
+  onMoveFolder: (folderId: string, parentId?: string) => void;
+  onMoveTestCase: (testCaseId: string, folderId?: string) => void;
+}
+
+export function TestFolderTree({
+  nodes,
+  totalCount,
+  unfiledCount,
+  selected,
+  onSelect,
+  onCreate,
+  onEdit,
+  onDelete,
+  onMoveFolder,
+  onMoveTestCase,
+}: TestFolderTreeProps) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const toggle = (id: string) => {
+    setCollapsed(current => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  // `accepts` lists the drag types the target takes; the key identifies the
+  // highlighted row.
+  const dropHandlers = (key: string, targetFolderId: string | undefined, accepts: string[]) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!accepts.some(type => e.dataTransfer.types.includes(type))) return;
+      e.preventDefault();
+      e.stopPropagation();
+      e.dataTransfer.dropEffect = 'move';
+      setDropTarget(key);
+    },
+    onDragLeave: () => setDropTarget(current => (current === key ? null : current)),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      setDropTarget(null);
+      const draggedFolderId = e.dataTransfer.getData(FOLDER_DRAG_TYPE);
+      const testCaseId = e.dataTransfer.getData(TEST_CASE_DRAG_TYPE);
+      if (draggedFolderId && accepts.includes(FOLDER_DRAG_TYPE)) {
+        onMoveFolder(draggedFolderId, targetFolderId);
+      } else if (testCaseId && accepts.includes(TEST_CASE_DRAG_TYPE)) {
+        onMoveTestCase(testCaseId, targetFolderId);
+      }
+    },
+  });
+
+  const rowClass = (key: string, isSelected: boolean) =>
+    cn(
+      'group flex items-center gap-1 rounded-md px-2 py-1.5 text-sm cursor-pointer',
+      isSelected ? 'bg-secondary font-medium' : 'hover:bg-muted',
+      dropTarget === key && 'ring-2 ring-primary'
+    );
+
+  const renderNode = (node: TestFolderNode) => {
+    const { folder } = node;
+    const isCollapsed = collapsed.has(folder.id);
+    const isSelected = selected === folder.id;
+
+    return (
+      <li key={folder.id}>
+        <div
+          draggable
+          onDragStart={(e) => {
+            e.stopPropagation();
+            e.dataTransfer.setData(FOLDER_DRAG_TYPE, folder.id);
+            e.dataTransfer.effectAllowed = 'move';
+          }}
+          onClick={() => onSelect(folder.id)}
+          className={rowClass(folder.id, isSelected)}
+          style={{ paddingLeft: `${node.depth * 16 + 8}px` }}
+          {...dropHandlers(folder.id, folder.id, [FOLDER_DRAG_TYPE, TEST_CASE_DRAG_TYPE])}
+        >
+          <button
+            type="button"
+            className={cn('text-muted-foreground', node.children.length === 0 && 'invisible')}
+            onClick={(e) => { e.stopPropagation(); toggle(folder.id); }}
+            aria-label={isCollapsed ? 'Expand folder' : 'Collapse folder'}
+          >
+            {isCollapsed ? <CaretRight size={12} /> : <CaretDown size={12} />}
+          </button>
+          {isSelected ? <FolderOpen size={16} /> : <Folder size={16} />}
+          <span className="flex-1 truncate">{folder.name}</span>
+          <span className="hidden gap-0.5 group-hover:flex">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              title="New subfolder"
+              onClick={(e) => { e.stopPropagation(); onCreate(folder.id); }}
+            >
+              <FolderPlus size={12} />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              title="Edit folder"
+              onClick={(e) => { e.stopPropagation(); onEdit(folder); }}
+            >
+              <PencilSimple size={12} />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              title="Delete folder"
+              onClick={(e) => { e.stopPropagation(); onDelete(folder); }}
+            >
+              <Trash size={12} />
+            </Button>
+          </span>
+          <Badge variant="outline" className="ml-1 px-1.5 text-xs" title={`${node.directCount} directly in this folder`}>
+            {node.totalCount}
+          </Badge>
+        </div>
+        {!isCollapsed && node.children.length > 0 && (
+          <ul>{node.children.map(renderNode)}</ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold">Folders</h3>
+        <Button variant="ghost" size="sm" className="gap-1" onClick={() => onCreate()}>
+          <FolderPlus size={14} />
+          New
+        </Button>
+      </div>
+
+      <ul className="space-y-0.5">
+        <li>
+          <div
+            onClick={() => onSelect('all')}
+            className={rowClass('all', selected === 'all')}
+            {...dropHandlers('all', undefined, [FOLDER_DRAG_TYPE])}
+          >
+            <TestTube size={16} />
+            <span className="flex-1 truncate">All test cases</span>
+            <Badge variant="outline" className="px-1.5 text-xs">{totalCount}</Badge>
+          </div>
+        </li>
+        <li>
+          <div
+            onClick={() => onSelect('unfiled')}
+            className={rowClass('unfiled', selected === 'unfiled')}
+            {...dropHandlers('unfiled', undefined, [TEST_CASE_DRAG_TYPE])}
+          >
+            <Tray size={16} />
+            <span className="flex-1 truncate">{UNFILED_FOLDER_LABEL}</span>
+            <Badge variant="outline" className="px-1.5 text-xs">{unfiledCount}</Badge>
+          </div>
+        </li>
+        {nodes.map(renderNode)}
+      </ul>
+
+      {nodes.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No folders yet</p>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Drag test cases onto a folder to move them. Drop a folder on "All test cases" to move it to the top level.
+        </p>
+      )}
+    </div>
+  );
+}
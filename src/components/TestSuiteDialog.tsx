@@ -0,0 +1,194 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ArrowDown, ArrowUp, Trash } from '@phosphor-icons/react';
+import { ValidatedInput } from './ValidatedInput';
+import { TestCase, TestFolder, TestSuite } from '@/lib/types';
+import { formatFolderPath } from '@/lib/test-folders';
+import { moveSuiteEntry } from '@/lib/test-suites';
+import { ValidationResult } from '@/validators/common.validator';
+import { validateSuiteTestCases, validateTestSuiteName } from '@/validators/suite.validator';
+import { toast } from 'sonner';
+
+interface TestSuiteDialogProps {
+  suite: TestSuite | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  testCases: TestCase[];
+  folders: TestFolder[];
+  existingSuites: TestSuite[];
+  onSave: (suite: TestSuite) => void;
+}
+
+export function TestSuiteDialog({
+  suite,
+  open,
+  onOpenChange,
+  testCases,
+  folders,
+  existingSuites,
+  onSave,
+}: TestSuiteDialogProps) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [testCaseIds, setTestCaseIds] = useState<string[]>([]);
+  const [nameValidation, setNameValidation] = useState<ValidationResult>();
+
+  useEffect(() => {
+    if (open) {
+      setName(suite?.name ?? '');
+      setDescription(suite?.description ?? '');
+      setTestCaseIds(suite ? [...suite.testCaseIds] : []);
+      setNameValidation(undefined);
+    }
+  }, [suite, open]);
+
+  const getTestCase = (id: string) => testCases.find(tc => tc.id === id);
+  const availableTestCases = testCases
+    .filter(tc => !testCaseIds.includes(tc.id))
+    .map(tc => ({ testCase: tc, path: formatFolderPath(folders, tc.folderId) }))
+    .sort((a, b) => a.path.localeCompare(b.path) || a.testCase.name.localeCompare(b.testCase.name));
+  const testCasesValidation = validateSuiteTestCases(testCaseIds, testCases);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validation = validateTestSuiteName(name, existingSuites, suite?.id);
+    setNameValidation(validation);
+    if (!validation.isValid || !testCasesValidation.isValid) {
+      toast.error('Please fix validation errors before saving', {
+        description: testCasesValidation.error,
+      });
+      return;
+    }
+
+    const now = new Date();
+    onSave({
+      id: suite?.id ?? `suite-${Date.now()}`,
+      name: name.trim(),
+      description: description.trim(),
+      testCaseIds,
+      createdAt: suite?.createdAt ?? now,
+      updatedAt: now,
+      version: suite?.version,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{suite ? 'Edit Test Suite' : 'Create Test Suite'}</DialogTitle>
+          <DialogDescription>
+            An ordered selection of test cases from any folder. Test cases stay where they are.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <ValidatedInput
+            id="suite-name"
+            label="Suite Name"
+            value={name}
+            onChange={(value) => {
+              setName(value);
+              if (nameValidation) setNameValidation(validateTestSuiteName(value, existingSuites, suite?.id));
+            }}
+            onBlur={() => setNameValidation(validateTestSuiteName(name, existingSuites, suite?.id))}
+            validation={nameValidation}
+            placeholder="Smoke tests"
+            required
+          />
+
+          <div className="space-y-2">
+            <Label htmlFor="suite-description">Description</Label>
+            <Textarea
+              id="suite-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="When the suite is run and what it covers"
+              rows={2}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Test Cases</Label>
+            <Select value="" onValueChange={(id) => setTestCaseIds(current => [...current, id])}>
+              <SelectTrigger disabled={availableTestCases.length === 0}>
+                <SelectValue placeholder="Add a test case..." />
+              </SelectTrigger>
+              <SelectContent>
+                {availableTestCases.map(({ testCase, path }) => (
+                  <SelectItem key={testCase.id} value={testCase.id}>
+                    {path} / {testCase.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {testCaseIds.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No test cases yet</p>
+            ) : (
+              <ol className="space-y-1">
+                {testCaseIds.map((id, index) => (
+                  <li key={id} className="flex items-center gap-2 rounded-md border px-3 py-1.5 text-sm">
+                    <span className="w-6 text-xs font-medium text-muted-foreground">{index + 1}</span>
+                    <span className="font-mono text-xs">{id}</span>
+                    <span className="flex-1 truncate">
+                      {getTestCase(id)?.name ?? <Badge variant="destructive">Deleted test case</Badge>}
+                    </span>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setTestCaseIds(current => moveSuiteEntry(current, index, -1))}
+                      disabled={index === 0}
+                    >
+                      <ArrowUp size={12} />
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setTestCaseIds(current => moveSuiteEntry(current, index, 1))}
+                      disabled={index === testCaseIds.length - 1}
+                    >
+                      <ArrowDown size={12} />
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setTestCaseIds(current => current.filter(testCaseId => testCaseId !== id))}
+                    >
+                      <Trash size={12} />
+                    </Button>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!name.trim() || !testCasesValidation.isValid}>
+              {suite ? 'Save Suite' : 'Create Suite'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,152 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Plus, PencilSimple, Trash, ListNumbers, Warning } from '@phosphor-icons/react';
+import { TestCase, TestFolder, TestSuite } from '@/lib/types';
+import { formatFolderPath } from '@/lib/test-folders';
+import { resolveSuite } from '@/lib/test-suites';
+import { testSuiteRepository } from '@/repositories/suite.repository';
+import { useRepositoryItems } from '@/repositories/base.repository';
+import { TestSuiteDialog } from './TestSuiteDialog';
+import { toast } from 'sonner';
+
+interface TestSuiteManagerProps {
+  testCases: TestCase[];
+  folders: TestFolder[];
+}
+
+export function TestSuiteManager({ testCases, folders }: TestSuiteManagerProps) {
+  const { items: suites, refresh } = useRepositoryItems(testSuiteRepository);
+  const [editingSuite, setEditingSuite] = useState<TestSuite | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  // Deleting a test case also removes it from suites.
+  useEffect(() => {
+    refresh();
+  }, [testCases, refresh]);
+
+  const sortedSuites = [...suites].sort((a, b) => a.name.localeCompare(b.name));
+
+  const handleSave = async (suite: TestSuite) => {
+    try {
+      const isNew = !(await testSuiteRepository.exists(suite.id));
+      if (isNew) {
+        await testSuiteRepository.create(suite);
+      } else {
+        await testSuiteRepository.update(suite);
+      }
+      refresh();
+      toast.success(isNew ? 'Test suite created' : 'Test suite updated');
+      setIsDialogOpen(false);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save test suite');
+    }
+  };
+
+  const handleDelete = async (suite: TestSuite) => {
+    try {
+      await testSuiteRepository.delete(suite.id);
+      refresh();
+      toast.success(`Deleted ${suite.name}`, { description: 'Its test cases are not affected' });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete test suite');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-xl font-semibold">Test Suites</h3>
+          <p className="text-sm text-muted-foreground">
+            Ordered selections of test cases, possibly from different folders, run together
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => { setEditingSuite(null); setIsDialogOpen(true); }}
+          className="gap-2"
+          disabled={testCases.length === 0}
+        >
+          <Plus size={16} />
+          New Suite
+        </Button>
+      </div>
+
+      {sortedSuites.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No test suites yet</p>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+          {sortedSuites.map(suite => {
+            const resolved = resolveSuite(suite, testCases);
+            return (
+              <Card key={suite.id}>
+                <CardHeader className="pb-3">
+                  <div className="flex items-start justify-between">
+                    <CardTitle className="flex items-center gap-2 text-lg">
+                      <ListNumbers size={18} />
+                      {suite.name}
+                    </CardTitle>
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => { setEditingSuite(suite); setIsDialogOpen(true); }}
+                      >
+                        <PencilSimple size={14} />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(suite)}>
+                        <Trash size={14} />
+                      </Button>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {suite.description && <p className="text-sm text-muted-foreground">{suite.description}</p>}
+                  <ol className="space-y-1 text-xs">
+                    {resolved.testCases.slice(0, 5).map((testCase, index) => (
+                      <li key={testCase.id} className="flex items-center gap-2">
+                        <span className="w-4 h-4 bg-muted rounded-full flex items-center justify-center font-medium">
+                          {index + 1}
+                        </span>
+                        <span className="truncate">{testCase.name}</span>
+                        <span className="ml-auto shrink-0 text-muted-foreground">
+                          {formatFolderPath(folders, testCase.folderId)}
+                        </span>
+                      </li>
+                    ))}
+                    {resolved.testCases.length > 5 && (
+                      <li className="text-muted-foreground">+{resolved.testCases.length - 5} more test cases...</li>
+                    )}
+                  </ol>
+                  <div className="flex items-center justify-between border-t pt-2">
+                    <Badge variant="secondary">
+                      {resolved.testCases.length} test case{resolved.testCases.length === 1 ? '' : 's'}
+                    </Badge>
+                    {resolved.missingIds.length > 0 && (
+                      <Badge variant="destructive" className="gap-1" title={resolved.missingIds.join(', ')}>
+                        <Warning size={12} />
+                        {resolved.missingIds.length} deleted
+                      </Badge>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <TestSuiteDialog
+        suite={editingSuite}
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        testCases={testCases}
+        folders={folders}
+        existingSuites={suites}
+        onSave={handleSave}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Warning } from '@phosphor-icons/react';
+
+interface TypedConfirmDialogProps {
+  open: boolean;
+  title: string;
+  description: string;
+  confirmationText: string;
+  actionLabel?: string;
+  onConfirm: (confirmation: string) => void;
+  onCancel: () => void;
+}
+
+export function TypedConfirmDialog({
+  open,
+  title,
+  description,
+  confirmationText,
+  actionLabel = 'Run',
+  onConfirm,
+  onCancel,
+}: TypedConfirmDialogProps) {
+  const [typed, setTyped] = useState('');
+
+  useEffect(() => {
+    setTyped('');
+  }, [open]);
+
+  const matches = typed === confirmationText;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-destructive">
+            <Warning size={20} weight="fill" />
+            {title}
+          </DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="typed-confirmation">
+            Type <span className="font-mono font-semibold">{confirmationText}</span> to continue
+          </Label>
+          <Input
+            id="typed-confirmation"
+            autoFocus
+            autoComplete="off"
+            value={typed}
+            onChange={(e) => setTyped(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && matches && onConfirm(typed)}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={() => onConfirm(typed)} disabled={!matches}>
+            {actionLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
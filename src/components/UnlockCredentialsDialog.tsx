@@ -0,0 +1,84 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { LockKey } from '@phosphor-icons/react';
+import { DatabaseConnection } from '@/lib/db-types';
+import { credentialVault } from '@/lib/credential-vault';
+
+interface UnlockCredentialsDialogProps {
+  connection: DatabaseConnection | null;
+  onUnlocked: (connection: DatabaseConnection) => void;
+  onCancel: () => void;
+}
+
+export function UnlockCredentialsDialog({ connection, onUnlocked, onCancel }: UnlockCredentialsDialogProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [unlocking, setUnlocking] = useState(false);
+
+  useEffect(() => {
+    setPassphrase('');
+    setError(null);
+  }, [connection]);
+
+  if (!connection) return null;
+
+  const handleUnlock = async () => {
+    setUnlocking(true);
+    try {
+      await credentialVault.unlock(passphrase, connection.encryptedPassword);
+      onUnlocked(connection);
+    } catch (unlockError) {
+      setError(unlockError instanceof Error ? unlockError.message : 'Could not unlock credentials');
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <LockKey size={20} />
+            Unlock Saved Credentials
+          </DialogTitle>
+          <DialogDescription>
+            The password for {connection.name} is encrypted. Enter your passphrase to use it for this session.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="unlock-passphrase">Passphrase</Label>
+          <Input
+            id="unlock-passphrase"
+            type="password"
+            autoFocus
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleUnlock()}
+          />
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={handleUnlock} disabled={!passphrase || unlocking}>
+            {unlocking ? 'Unlocking...' : 'Unlock'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
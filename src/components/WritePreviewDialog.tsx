@@ -0,0 +1,68 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { DriverResult } from '@/lib/db-types';
+import { ClassifiedStatement } from '@/lib/statement-classifier';
+import { Warning } from '@phosphor-icons/react';
+
+interface WritePreviewDialogProps {
+  preview: DriverResult | null;
+  statements: ClassifiedStatement[];
+  onCommit: () => void;
+  onRollback: () => void;
+}
+
+// Row counts line up with the statements when the database reports one
+// count per statement; otherwise only the total is shown.
+export function WritePreviewDialog({ preview, statements, onCommit, onRollback }: WritePreviewDialogProps) {
+  const counts = preview?.rowsAffected ?? [];
+  const perStatement = counts.length === statements.length && statements.length > 1;
+  const total = counts.length > 0 ? counts.reduce((sum, count) => sum + count, 0) : (preview?.rowCount ?? 0);
+
+  return (
+    <Dialog open={preview !== null} onOpenChange={(isOpen) => !isOpen && onRollback()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Warning size={20} weight="fill" className="text-amber-500" />
+            Commit Changes?
+          </DialogTitle>
+          <DialogDescription>
+            The statement ran inside a transaction. Nothing is saved until you commit; rolling back discards every change.
+          </DialogDescription>
+        </DialogHeader>
+
+        {perStatement ? (
+          <ul className="max-h-64 space-y-2 overflow-auto text-sm">
+            {statements.map((statement, index) => (
+              <li key={index} className="flex items-center justify-between gap-4">
+                <code className="truncate text-xs text-muted-foreground">{statement.text}</code>
+                <Badge variant={statement.kind === 'read' ? 'secondary' : 'outline'} className="shrink-0">
+                  {counts[index]} row(s)
+                </Badge>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm">
+            <span className="font-semibold">{total}</span> row(s) affected.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onRollback}>
+            Roll Back
+          </Button>
+          <Button onClick={onCommit}>Commit</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
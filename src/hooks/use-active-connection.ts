@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from 'react';
+import { dbService } from '@/lib/db-service';
+import { DatabaseConnection } from '@/lib/db-types';
+
+export function useActiveConnection(): DatabaseConnection | null {
+  return useSyncExternalStore(
+    listener => dbService.subscribe(listener),
+    () => dbService.getActiveConnection()
+  );
+}
@@ -0,0 +1,45 @@
+import { useEffect, useMemo, useState } from 'react';
+import { SQL_SERVER_SCHEMA } from '@/lib/db-schema';
+import { dbService } from '@/lib/db-service';
+import { buildCompletionSchema, CompletionSchema, referencedTables } from '@/lib/sql-editor';
+import { TableSchemaInfo, tableSchemaService } from '@/lib/table-schema-service';
+import { useActiveConnection } from './use-active-connection';
+
+const INTROSPECTION_DELAY = 500;
+
+// Completion starts from the declared schema and is refined with what the
+// connected database reports for the declared tables and the tables the
+// query mentions. Introspection is debounced while the user types.
+export function useCompletionSchema(query: string): CompletionSchema {
+  const connection = useActiveConnection();
+  const [introspected, setIntrospected] = useState<TableSchemaInfo[]>([]);
+
+  const tableNames = useMemo(
+    () => [...new Set([...Object.keys(SQL_SERVER_SCHEMA), ...referencedTables(query).values()])].sort().join(','),
+    [query]
+  );
+
+  useEffect(() => {
+    if (!connection || !dbService.isConnected()) {
+      setIntrospected([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const results = await Promise.all(
+        tableNames.split(',').map(name => tableSchemaService.introspectTable(name).catch(() => null))
+      );
+      if (!cancelled) {
+        setIntrospected(results.filter((info): info is TableSchemaInfo => info !== null));
+      }
+    }, INTROSPECTION_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [connection, tableNames]);
+
+  return useMemo(() => buildCompletionSchema(SQL_SERVER_SCHEMA, introspected), [introspected]);
+}
@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from 'react';
+import { connectionMonitor, ConnectionHealth } from '@/lib/connection-health';
+
+export function useConnectionHealth(): ConnectionHealth {
+  return useSyncExternalStore(
+    listener => connectionMonitor.subscribe(listener),
+    () => connectionMonitor.getHealth()
+  );
+}
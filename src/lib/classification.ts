@@ -0,0 +1,189 @@
+import {
+  Classification,
+  ClassificationFilters,
+  CustomFieldDefinition,
+  CustomFieldTarget,
+  CustomFieldType,
+  CustomFieldValue,
+  Priority,
+} from '@/models/classification.model';
+
+export const PRIORITIES: Priority[] = ['critical', 'high', 'medium', 'low'];
+
+export const PRIORITY_LABELS: Record<Priority, string> = {
+  critical: 'Critical',
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low',
+};
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  enum: 'Choice',
+  date: 'Date',
+};
+
+export const CUSTOM_FIELD_TARGET_LABELS: Record<CustomFieldTarget, string> = {
+  'catalog-step': 'Catalog steps',
+  'test-case': 'Test cases',
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isPriority(value: unknown): value is Priority {
+  return PRIORITIES.includes(value as Priority);
+}
+
+// Splits comma-separated tags, dropping blanks and repeats that differ only
+// in case.
+export function parseTags(text: string): string[] {
+  const tags: string[] = [];
+  for (const tag of text.split(',').map(t => t.trim()).filter(Boolean)) {
+    if (!tags.some(existing => existing.toLowerCase() === tag.toLowerCase())) {
+      tags.push(tag);
+    }
+  }
+  return tags;
+}
+
+export function getCustomFieldsFor(
+  definitions: CustomFieldDefinition[],
+  target: CustomFieldTarget
+): CustomFieldDefinition[] {
+  return definitions
+    .filter(definition => definition.appliesTo.includes(target))
+    .sort((a, b) => a.label.localeCompare(b.label));
+}
+
+export function isMissingCustomFieldValue(value: CustomFieldValue | undefined): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+// A blank field clears the value. A number that does not parse stays a
+// string, which checkCustomFieldValue rejects.
+export function parseCustomFieldValue(text: string, type: CustomFieldType): CustomFieldValue {
+  const trimmed = text.trim();
+  if (trimmed === '') return null;
+  if (type === 'number') {
+    return Number.isNaN(Number(trimmed)) ? trimmed : Number(trimmed);
+  }
+  return type === 'text' ? text : trimmed;
+}
+
+export function formatCustomFieldValue(value: CustomFieldValue | undefined): string {
+  return value === undefined || value === null ? '' : String(value);
+}
+
+// Returns null when the value is acceptable for the field.
+export function checkCustomFieldValue(
+  definition: CustomFieldDefinition,
+  value: CustomFieldValue | undefined
+): string | null {
+  if (isMissingCustomFieldValue(value)) {
+    return definition.required ? 'is required' : null;
+  }
+
+  switch (definition.type) {
+    case 'text':
+      if (typeof value !== 'string') return 'expected text';
+      return value.length > 500 ? 'must be 500 characters or less' : null;
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? null : 'expected a number';
+    case 'enum':
+      return (definition.options ?? []).includes(String(value))
+        ? null
+        : `must be one of ${(definition.options ?? []).join(', ')}`;
+    case 'date':
+      return typeof value === 'string' && DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value))
+        ? null
+        : 'expected a date (YYYY-MM-DD)';
+  }
+}
+
+// Checks every field defined for the target, so required fields missing from
+// `values` are reported too, as are keys no definition covers.
+export function checkCustomFieldValues(
+  values: Record<string, CustomFieldValue>,
+  definitions: CustomFieldDefinition[],
+  target: CustomFieldTarget
+): string[] {
+  const fields = getCustomFieldsFor(definitions, target);
+  const known = new Set(fields.map(field => field.key));
+  return [
+    ...fields.flatMap(field => {
+      const error = checkCustomFieldValue(field, values[field.key]);
+      return error ? [`${field.label} ${error}`] : [];
+    }),
+    ...Object.keys(values)
+      .filter(key => !known.has(key))
+      .map(key => `${key} is not a custom field of ${CUSTOM_FIELD_TARGET_LABELS[target].toLowerCase()}`),
+  ];
+}
+
+// `key=value` pairs separated by semicolons, the form custom fields take in
+// CSV files.
+export function formatCustomFieldList(values: Record<string, CustomFieldValue> = {}): string {
+  return Object.entries(values)
+    .filter(([, value]) => !isMissingCustomFieldValue(value))
+    .map(([key, value]) => `${key}=${formatCustomFieldValue(value)}`)
+    .join('; ');
+}
+
+// Values are typed by the matching definition; keys without one stay text
+// so validation can report them.
+export function parseCustomFieldList(
+  text: string,
+  definitions: CustomFieldDefinition[] = []
+): Record<string, CustomFieldValue> {
+  const values: Record<string, CustomFieldValue> = {};
+  for (const pair of text.split(';').map(p => p.trim()).filter(Boolean)) {
+    const separator = pair.indexOf('=');
+    const key = (separator === -1 ? pair : pair.slice(0, separator)).trim();
+    const raw = separator === -1 ? '' : pair.slice(separator + 1);
+    const definition = definitions.find(d => d.key === key);
+    values[key] = parseCustomFieldValue(raw, definition?.type ?? 'text');
+  }
+  return values;
+}
+
+// Copies the classification of an entity, trimming the owner and dropping
+// custom fields left empty, as it is saved.
+export function normalizeClassification(value: Classification): Classification {
+  const owner = value.owner?.trim();
+  return {
+    tags: [...(value.tags ?? [])],
+    priority: value.priority,
+    owner: owner || undefined,
+    customFields: Object.fromEntries(
+      Object.entries(value.customFields ?? {}).filter(([, fieldValue]) => !isMissingCustomFieldValue(fieldValue))
+    ),
+  };
+}
+
+// Used when a field is deleted or no longer applies, so stored values do not
+// fail validation as unknown keys. Unaffected items are returned as they are.
+export function removeCustomFieldValues<T extends Classification>(items: T[], key: string): T[] {
+  return items.map(item => {
+    if (!item.customFields || !(key in item.customFields)) return item;
+    const customFields = { ...item.customFields };
+    delete customFields[key];
+    return { ...item, customFields };
+  });
+}
+
+export function matchesClassification(item: Classification, filters: ClassificationFilters): boolean {
+  if (filters.tag) {
+    const tag = filters.tag.toLowerCase();
+    if (!(item.tags ?? []).some(t => t.toLowerCase() === tag)) return false;
+  }
+
+  if (filters.priority && item.priority !== filters.priority) return false;
+
+  if (filters.owner && (item.owner ?? '').toLowerCase() !== filters.owner.toLowerCase()) return false;
+
+  return Object.entries(filters.customFields ?? {}).every(
+    ([key, expected]) =>
+      !expected || formatCustomFieldValue(item.customFields?.[key]).toLowerCase() === expected.toLowerCase()
+  );
+}
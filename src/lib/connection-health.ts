@@ -0,0 +1,293 @@
+import { DatabaseConnection, DatabaseDriver, SqlDialect } from './db-types';
+import { createDriver, dbService } from './db-service';
+
+export interface ConnectionPermissions {
+  canRead?: boolean;
+  canWrite?: boolean;
+  canAlterSchema?: boolean;
+}
+
+export interface ConnectionProbeResult {
+  success: boolean;
+  latencyMs: number;
+  serverVersion?: string;
+  permissions?: ConnectionPermissions;
+  error?: string;
+  checkedAt: Date;
+}
+
+export type ConnectionHealthStatus = 'connected' | 'degraded' | 'reconnecting' | 'disconnected';
+
+export const CONNECTION_HEALTH_LABELS: Record<ConnectionHealthStatus, string> = {
+  connected: 'Healthy',
+  degraded: 'Degraded',
+  reconnecting: 'Reconnecting',
+  disconnected: 'Disconnected',
+};
+
+export interface ConnectionHealth {
+  connectionId: string | null;
+  status: ConnectionHealthStatus;
+  latencyMs?: number;
+  lastCheckedAt?: Date;
+  lastConnected?: Date;
+  reconnectAttempt: number;
+  nextRetryAt?: Date;
+  error?: string;
+}
+
+export interface ReconnectPolicy {
+  initialDelayMs: number;
+  maxDelayMs: number;
+  multiplier: number;
+  maxAttempts: number;
+  jitter: number;
+}
+
+export interface ConnectionMonitorOptions {
+  heartbeatIntervalMs: number;
+  degradedLatencyMs: number;
+  reconnect: ReconnectPolicy;
+}
+
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  initialDelayMs: 1000,
+  maxDelayMs: 60000,
+  multiplier: 2,
+  maxAttempts: 8,
+  jitter: 0.2,
+};
+
+export const DEFAULT_MONITOR_OPTIONS: ConnectionMonitorOptions = {
+  heartbeatIntervalMs: 30000,
+  degradedLatencyMs: 1000,
+  reconnect: DEFAULT_RECONNECT_POLICY,
+};
+
+// Permissions are best effort: a NULL column means the database could not
+// tell, which is reported as unknown rather than denied.
+const PROBE_QUERIES: Record<SqlDialect, string> = {
+  sqlserver: `
+    SELECT
+      @@VERSION AS ServerVersion,
+      HAS_PERMS_BY_NAME(DB_NAME(), 'DATABASE', 'SELECT') AS CanRead,
+      HAS_PERMS_BY_NAME(DB_NAME(), 'DATABASE', 'INSERT') AS CanWrite,
+      HAS_PERMS_BY_NAME(DB_NAME(), 'DATABASE', 'ALTER') AS CanAlterSchema
+  `,
+  postgresql: `
+    SELECT
+      version() AS ServerVersion,
+      COALESCE(has_table_privilege(to_regclass('"CatalogSteps"'), 'SELECT'), has_schema_privilege(current_schema(), 'USAGE')) AS CanRead,
+      has_table_privilege(to_regclass('"CatalogSteps"'), 'INSERT') AS CanWrite,
+      has_schema_privilege(current_schema(), 'CREATE') AS CanAlterSchema
+  `,
+  mysql: `
+    SELECT
+      VERSION() AS ServerVersion,
+      EXISTS (SELECT 1 FROM INFORMATION_SCHEMA.USER_PRIVILEGES WHERE PRIVILEGE_TYPE = 'SELECT')
+        OR EXISTS (SELECT 1 FROM INFORMATION_SCHEMA.SCHEMA_PRIVILEGES WHERE TABLE_SCHEMA = DATABASE() AND PRIVILEGE_TYPE = 'SELECT') AS CanRead,
+      EXISTS (SELECT 1 FROM INFORMATION_SCHEMA.USER_PRIVILEGES WHERE PRIVILEGE_TYPE = 'INSERT')
+        OR EXISTS (SELECT 1 FROM INFORMATION_SCHEMA.SCHEMA_PRIVILEGES WHERE TABLE_SCHEMA = DATABASE() AND PRIVILEGE_TYPE = 'INSERT') AS CanWrite,
+      EXISTS (SELECT 1 FROM INFORMATION_SCHEMA.USER_PRIVILEGES WHERE PRIVILEGE_TYPE = 'ALTER')
+        OR EXISTS (SELECT 1 FROM INFORMATION_SCHEMA.SCHEMA_PRIVILEGES WHERE TABLE_SCHEMA = DATABASE() AND PRIVILEGE_TYPE = 'ALTER') AS CanAlterSchema
+  `,
+  sqlite: `SELECT sqlite_version() AS ServerVersion, 1 AS CanRead, 1 AS CanWrite, 1 AS CanAlterSchema`,
+};
+
+const HEARTBEAT_QUERY = 'SELECT 1 AS Ok';
+
+function toPermission(value: unknown): boolean | undefined {
+  if (value === null || value === undefined) return undefined;
+  return value === true || value === 1 || value === '1' || value === 't';
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, message: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+export function getBackoffDelay(attempt: number, policy: ReconnectPolicy, random: () => number = Math.random): number {
+  const base = Math.min(policy.initialDelayMs * Math.pow(policy.multiplier, attempt), policy.maxDelayMs);
+  const spread = base * policy.jitter;
+  return Math.round(base - spread + random() * spread * 2);
+}
+
+// Probes run on their own driver so testing a connection never disturbs the
+// one that is currently active.
+export async function testConnection(
+  connection: DatabaseConnection,
+  driver: DatabaseDriver = createDriver(connection)
+): Promise<ConnectionProbeResult> {
+  const startTime = performance.now();
+  const timeoutMs = connection.connectionTimeout || 15000;
+
+  try {
+    const result = await withTimeout(
+      (async () => {
+        await driver.connect(connection);
+        return driver.execute<Array<Record<string, unknown>>>({ query: PROBE_QUERIES[driver.dialect], parameters: {} });
+      })(),
+      timeoutMs,
+      `Connection timed out after ${timeoutMs}ms`
+    );
+    const row = result.data[0] ?? {};
+
+    return {
+      success: true,
+      latencyMs: Math.round(performance.now() - startTime),
+      serverVersion: String(row.ServerVersion ?? '').split('\n')[0].trim() || undefined,
+      permissions: {
+        canRead: toPermission(row.CanRead),
+        canWrite: toPermission(row.CanWrite),
+        canAlterSchema: toPermission(row.CanAlterSchema),
+      },
+      checkedAt: new Date(),
+    };
+  } catch (error) {
+    return {
+      success: false,
+      latencyMs: Math.round(performance.now() - startTime),
+      error: error instanceof Error ? error.message : 'Connection test failed',
+      checkedAt: new Date(),
+    };
+  } finally {
+    await driver.disconnect().catch(() => undefined);
+  }
+}
+
+type HealthListener = (health: ConnectionHealth) => void;
+
+const IDLE_HEALTH: ConnectionHealth = { connectionId: null, status: 'disconnected', reconnectAttempt: 0 };
+
+export class ConnectionMonitor {
+  private health: ConnectionHealth = IDLE_HEALTH;
+  private listeners = new Set<HealthListener>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private connection: DatabaseConnection | null = null;
+  private readonly options: ConnectionMonitorOptions;
+
+  constructor(options: Partial<ConnectionMonitorOptions> = {}) {
+    this.options = { ...DEFAULT_MONITOR_OPTIONS, ...options };
+  }
+
+  start(connection: DatabaseConnection): void {
+    this.stop();
+    this.connection = connection;
+    this.update({
+      connectionId: connection.id,
+      status: 'connected',
+      lastConnected: connection.lastConnected ? new Date(connection.lastConnected) : undefined,
+      reconnectAttempt: 0,
+    });
+    this.schedule(0, () => this.heartbeat());
+  }
+
+  stop(): void {
+    this.clearTimer();
+    this.connection = null;
+    this.update(IDLE_HEALTH);
+  }
+
+  getHealth(): ConnectionHealth {
+    return this.health;
+  }
+
+  subscribe(listener: HealthListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Runs a heartbeat immediately and restarts the reconnect sequence if the
+  // monitor had given up.
+  async checkNow(): Promise<ConnectionHealth> {
+    if (!this.connection) return this.health;
+    this.clearTimer();
+    if (this.health.status === 'disconnected') {
+      this.update({ ...this.health, reconnectAttempt: 0 });
+      return this.reconnect();
+    }
+    return this.heartbeat();
+  }
+
+  private async heartbeat(): Promise<ConnectionHealth> {
+    const connectionId = this.connection?.id;
+    const timeoutMs = this.connection?.connectionTimeout || 15000;
+    const startTime = performance.now();
+
+    const result = await withTimeout(
+      dbService.executeQuery({ query: HEARTBEAT_QUERY, parameters: {} }),
+      timeoutMs,
+      `Heartbeat timed out after ${timeoutMs}ms`
+    ).catch(error => ({ success: false, error: error instanceof Error ? error.message : String(error) }));
+
+    if (!this.connection || this.connection.id !== connectionId) {
+      return this.health;
+    }
+
+    const now = new Date();
+    if (!result.success) {
+      this.update({ ...this.health, status: 'reconnecting', lastCheckedAt: now, error: result.error });
+      this.scheduleReconnect();
+      return this.health;
+    }
+
+    const latencyMs = Math.round(performance.now() - startTime);
+    this.update({
+      connectionId: this.connection.id,
+      status: latencyMs > this.options.degradedLatencyMs ? 'degraded' : 'connected',
+      latencyMs,
+      lastCheckedAt: now,
+      lastConnected: now,
+      reconnectAttempt: 0,
+    });
+    this.schedule(this.options.heartbeatIntervalMs, () => this.heartbeat());
+    return this.health;
+  }
+
+  private async reconnect(): Promise<ConnectionHealth> {
+    if (!this.connection) return this.health;
+    await dbService.reconnect().catch(() => undefined);
+    return this.heartbeat();
+  }
+
+  private scheduleReconnect(): void {
+    const policy = this.options.reconnect;
+    const attempt = this.health.reconnectAttempt;
+
+    if (attempt >= policy.maxAttempts) {
+      this.update({ ...this.health, status: 'disconnected', nextRetryAt: undefined });
+      return;
+    }
+
+    const delay = getBackoffDelay(attempt, policy);
+    this.update({ ...this.health, reconnectAttempt: attempt + 1, nextRetryAt: new Date(Date.now() + delay) });
+    this.schedule(delay, () => this.reconnect());
+  }
+
+  private schedule(delayMs: number, task: () => Promise<unknown>): void {
+    this.clearTimer();
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      task();
+    }, delayMs);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private update(health: ConnectionHealth): void {
+    this.health = health;
+    this.listeners.forEach(listener => listener(health));
+  }
+}
+
+export const connectionMonitor = new ConnectionMonitor();
@@ -0,0 +1,266 @@
+import { DatabaseConnection, SqlDialect } from './db-types';
+import { DEFAULT_DIALECT_PORTS } from './sql-dialect';
+
+export interface ParsedConnectionString {
+  connection: Partial<DatabaseConnection>;
+  password?: string;
+  ignoredKeys: string[];
+}
+
+type ConnectionKey = 'server' | 'port' | 'database' | 'username' | 'password' | 'encrypt' | 'trustServerCertificate' | 'connectionTimeout' | 'requestTimeout';
+
+// Keys are matched case-insensitively with whitespace removed, so
+// "User ID", "UserId" and "user id" are the same key.
+const KEY_ALIASES: Record<string, ConnectionKey> = {
+  server: 'server',
+  datasource: 'server',
+  address: 'server',
+  addr: 'server',
+  networkaddress: 'server',
+  host: 'server',
+  port: 'port',
+  database: 'database',
+  initialcatalog: 'database',
+  userid: 'username',
+  uid: 'username',
+  user: 'username',
+  username: 'username',
+  password: 'password',
+  pwd: 'password',
+  encrypt: 'encrypt',
+  trustservercertificate: 'trustServerCertificate',
+  connecttimeout: 'connectionTimeout',
+  connectiontimeout: 'connectionTimeout',
+  timeout: 'connectionTimeout',
+  requesttimeout: 'requestTimeout',
+  commandtimeout: 'requestTimeout',
+};
+
+const URI_DIALECTS: Record<string, SqlDialect> = {
+  'mssql:': 'sqlserver',
+  'sqlserver:': 'sqlserver',
+  'postgres:': 'postgresql',
+  'postgresql:': 'postgresql',
+  'mysql:': 'mysql',
+};
+
+const LOCAL_SERVERS = new Set(['.', '(local)', '(localdb)']);
+
+function parseBoolean(key: string, value: string): boolean {
+  const normalized = value.trim().toLowerCase();
+  if (['true', 'yes', 'mandatory', 'strict', '1'].includes(normalized)) return true;
+  if (['false', 'no', 'optional', '0'].includes(normalized)) return false;
+  throw new Error(`${key} must be true or false, got "${value}"`);
+}
+
+function parseSeconds(key: string, value: string): number {
+  const seconds = Number(value.trim());
+  if (!Number.isFinite(seconds) || seconds < 0) {
+    throw new Error(`${key} must be a number of seconds, got "${value}"`);
+  }
+  return Math.round(seconds * 1000);
+}
+
+function parsePort(value: string): number {
+  const port = Number(value.trim());
+  if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+    throw new Error(`Port must be between 1 and 65535, got "${value}"`);
+  }
+  return port;
+}
+
+// Accepts "host", "host,port", "tcp:host,port" and "host\instance".
+function parseServer(value: string): Pick<DatabaseConnection, 'server'> & { port?: number } {
+  const [host, port] = value.trim().replace(/^tcp:/i, '').split(',');
+  const server = LOCAL_SERVERS.has(host.trim().toLowerCase()) ? 'localhost' : host.trim();
+  return port === undefined ? { server } : { server, port: parsePort(port) };
+}
+
+// Splits "key=value;key=value" honouring ADO.NET quoting: values wrapped in
+// single or double quotes may contain semicolons, and a doubled quote inside
+// them stands for one quote character. "==" in a key is a literal "=".
+function splitPairs(value: string): Array<[string, string]> {
+  const pairs: Array<[string, string]> = [];
+  let index = 0;
+
+  while (index < value.length) {
+    let keyEnd = index;
+    while (keyEnd < value.length && (value[keyEnd] !== '=' || value[keyEnd + 1] === '=')) {
+      if (value[keyEnd] === ';') break;
+      keyEnd += value[keyEnd] === '=' ? 2 : 1;
+    }
+
+    const key = value.slice(index, keyEnd).replace(/==/g, '=').trim();
+    if (value[keyEnd] !== '=') {
+      if (key) throw new Error(`Missing "=" after "${key}"`);
+      index = keyEnd + 1;
+      continue;
+    }
+
+    let cursor = keyEnd + 1;
+    while (value[cursor] === ' ') cursor++;
+
+    let text: string;
+    const quote = value[cursor];
+    if (quote === '"' || quote === "'") {
+      text = '';
+      cursor++;
+      while (true) {
+        if (cursor >= value.length) throw new Error(`Unterminated quoted value for "${key}"`);
+        if (value[cursor] === quote) {
+          if (value[cursor + 1] === quote) {
+            text += quote;
+            cursor += 2;
+            continue;
+          }
+          cursor++;
+          break;
+        }
+        text += value[cursor++];
+      }
+      while (value[cursor] === ' ') cursor++;
+      if (cursor < value.length && value[cursor] !== ';') {
+        throw new Error(`Unexpected text after the quoted value for "${key}"`);
+      }
+    } else {
+      const end = value.indexOf(';', cursor);
+      text = value.slice(cursor, end === -1 ? value.length : end).trim();
+      cursor = end === -1 ? value.length : end;
+    }
+
+    pairs.push([key, text]);
+    index = cursor + 1;
+  }
+
+  return pairs;
+}
+
+function parseKeyValueString(value: string): ParsedConnectionString {
+  const connection: Partial<DatabaseConnection> = {};
+  const ignoredKeys: string[] = [];
+  let password: string | undefined;
+
+  for (const [key, text] of splitPairs(value)) {
+    const field = KEY_ALIASES[key.replace(/\s+/g, '').toLowerCase()];
+    switch (field) {
+      case 'server': {
+        const { server, port } = parseServer(text);
+        connection.server = server;
+        if (port !== undefined) connection.port = port;
+        break;
+      }
+      case 'port':
+        connection.port = parsePort(text);
+        break;
+      case 'database':
+        connection.database = text;
+        break;
+      case 'username':
+        connection.username = text;
+        break;
+      case 'password':
+        password = text;
+        break;
+      case 'encrypt':
+        connection.encrypt = parseBoolean(key, text);
+        break;
+      case 'trustServerCertificate':
+        connection.trustServerCertificate = parseBoolean(key, text);
+        break;
+      case 'connectionTimeout':
+        connection.connectionTimeout = parseSeconds(key, text);
+        break;
+      case 'requestTimeout':
+        connection.requestTimeout = parseSeconds(key, text);
+        break;
+      default:
+        ignoredKeys.push(key);
+    }
+  }
+
+  return { connection, password, ignoredKeys };
+}
+
+function parseUri(value: string): ParsedConnectionString {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error('The connection URI is not valid');
+  }
+
+  const dialect = URI_DIALECTS[url.protocol];
+  const connection: Partial<DatabaseConnection> = {
+    driver: 'mssql-proxy',
+    dialect,
+    server: decodeURIComponent(url.hostname),
+    port: url.port ? parsePort(url.port) : DEFAULT_DIALECT_PORTS[dialect],
+  };
+  const database = decodeURIComponent(url.pathname.replace(/^\//, ''));
+  if (database) connection.database = database;
+  if (url.username) connection.username = decodeURIComponent(url.username);
+
+  const ignoredKeys: string[] = [];
+  url.searchParams.forEach((text, key) => {
+    const field = KEY_ALIASES[key.toLowerCase()];
+    if (field === 'encrypt' || field === 'trustServerCertificate') {
+      connection[field] = parseBoolean(key, text);
+    } else if (key.toLowerCase() === 'ssl' || key.toLowerCase() === 'sslmode') {
+      connection.encrypt = !['false', 'disable', '0'].includes(text.toLowerCase());
+    } else if (field === 'connectionTimeout' || field === 'requestTimeout') {
+      connection[field] = parseSeconds(key, text);
+    } else {
+      ignoredKeys.push(key);
+    }
+  });
+
+  return { connection, password: url.password ? decodeURIComponent(url.password) : undefined, ignoredKeys };
+}
+
+export function parseConnectionString(value: string): ParsedConnectionString {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    throw new Error('Connection string is empty');
+  }
+
+  const scheme = trimmed.match(/^([a-z]+:)\/\//i)?.[1].toLowerCase();
+  if (scheme) {
+    if (!URI_DIALECTS[scheme]) {
+      throw new Error(`Unsupported connection URI scheme "${scheme}"`);
+    }
+    return parseUri(trimmed);
+  }
+
+  return parseKeyValueString(trimmed);
+}
+
+function quoteValue(value: string): string {
+  if (!/[;'"]|^\s|\s$/.test(value)) return value;
+  if (!value.includes('"')) return `"${value}"`;
+  if (!value.includes("'")) return `'${value}'`;
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+// Emits the ADO.NET form understood by mssql and SqlClient. The password is
+// only written when one is passed in explicitly.
+export function formatConnectionString(connection: Partial<DatabaseConnection>, password?: string): string {
+  const dialect = connection.dialect ?? 'sqlserver';
+  const server = connection.server || 'localhost';
+  const port = connection.port || DEFAULT_DIALECT_PORTS[dialect];
+
+  const pairs: Array<[string, string | undefined]> = [
+    ['Server', port ? `${server},${port}` : server],
+    ['Database', connection.database],
+    ['User Id', connection.username],
+    ['Password', password],
+    ['Encrypt', connection.encrypt === undefined ? undefined : String(connection.encrypt)],
+    ['TrustServerCertificate', connection.trustServerCertificate === undefined ? undefined : String(connection.trustServerCertificate)],
+    ['Connect Timeout', connection.connectionTimeout ? String(Math.round(connection.connectionTimeout / 1000)) : undefined],
+    ['Request Timeout', connection.requestTimeout ? String(Math.round(connection.requestTimeout / 1000)) : undefined],
+  ];
+
+  return pairs
+    .filter((pair): pair is [string, string] => pair[1] !== undefined && pair[1] !== '')
+    .map(([key, value]) => `${key}=${quoteValue(value)}`)
+    .join(';');
+}
@@ -0,0 +1,91 @@
+import { EncryptedSecret } from './db-types';
+
+export const PBKDF2_ITERATIONS = 310000;
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), c => c.charCodeAt(0));
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+// Each secret gets its own salt and IV, so the same password encrypted twice
+// never produces the same ciphertext.
+export async function encryptSecret(plaintext: string, passphrase: string): Promise<EncryptedSecret> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+
+  return {
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+    iv: toBase64(iv),
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+  };
+}
+
+// AES-GCM authenticates the ciphertext, so a wrong passphrase fails to
+// decrypt instead of returning garbage.
+export async function decryptSecret(secret: EncryptedSecret, passphrase: string): Promise<string> {
+  const key = await deriveKey(passphrase, fromBase64(secret.salt), secret.iterations);
+  try {
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(secret.iv) }, key, fromBase64(secret.ciphertext));
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    throw new Error('The passphrase is incorrect');
+  }
+}
+
+// Holds the passphrase in memory for the session only. It is never written to
+// KV, so stored connections stay encrypted until the user unlocks them again.
+export class CredentialVault {
+  private passphrase: string | null = null;
+
+  isUnlocked(): boolean {
+    return this.passphrase !== null;
+  }
+
+  async unlock(passphrase: string, verifyWith?: EncryptedSecret): Promise<void> {
+    if (!passphrase) {
+      throw new Error('Enter a passphrase');
+    }
+    if (verifyWith) {
+      await decryptSecret(verifyWith, passphrase);
+    }
+    this.passphrase = passphrase;
+  }
+
+  lock(): void {
+    this.passphrase = null;
+  }
+
+  async encrypt(plaintext: string): Promise<EncryptedSecret> {
+    return encryptSecret(plaintext, this.requirePassphrase());
+  }
+
+  async decrypt(secret: EncryptedSecret): Promise<string> {
+    return decryptSecret(secret, this.requirePassphrase());
+  }
+
+  private requirePassphrase(): string {
+    if (this.passphrase === null) {
+      throw new Error('Unlock saved credentials with your passphrase first');
+    }
+    return this.passphrase;
+  }
+}
+
+export const credentialVault = new CredentialVault();
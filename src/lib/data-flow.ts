@@ -0,0 +1,78 @@
+import { CatalogStep, StepArgumentValue } from '@/models/catalog.model';
+import { TestStepMembership } from '@/models/testcase.model';
+import { formatStepReference, parseStepReference, STEP_PARAMETER_TYPE_LABELS, StepReference } from './step-parameters';
+
+export interface DataFlowStep {
+  membership: Pick<TestStepMembership, 'id' | 'processOrder' | 'arguments'>;
+  catalogStep?: Pick<CatalogStep, 'name' | 'parameters' | 'outputs'>;
+}
+
+// One argument bound to an earlier step's output. `issue` is set when the
+// binding cannot be satisfied when the test case runs.
+export interface DataFlowEdge {
+  membershipId: string;
+  processOrder: number;
+  stepName?: string;
+  parameterName: string;
+  source: StepReference;
+  sourceStepName?: string;
+  issue?: string;
+}
+
+export function buildDataFlow(steps: DataFlowStep[]): DataFlowEdge[] {
+  const byOrder = new Map(steps.map(step => [step.membership.processOrder, step]));
+
+  return [...steps]
+    .sort((a, b) => a.membership.processOrder - b.membership.processOrder)
+    .flatMap(({ membership, catalogStep }) =>
+      Object.entries(membership.arguments ?? {}).flatMap(([parameterName, value]) => {
+        const source = parseStepReference(value);
+        if (!source) return [];
+
+        const producer = byOrder.get(source.processOrder);
+        const edge: DataFlowEdge = {
+          membershipId: membership.id,
+          processOrder: membership.processOrder,
+          stepName: catalogStep?.name,
+          parameterName,
+          source,
+          sourceStepName: producer?.catalogStep?.name,
+        };
+
+        if (!producer) {
+          edge.issue = `step ${source.processOrder} does not exist`;
+        } else if (source.processOrder >= membership.processOrder) {
+          edge.issue = `step ${source.processOrder} does not run before step ${membership.processOrder}`;
+        } else {
+          const output = producer.catalogStep?.outputs?.find(o => o.name === source.outputName);
+          const parameter = catalogStep?.parameters?.find(p => p.name === parameterName);
+          if (!output) {
+            edge.issue = `step ${source.processOrder} has no output named ${source.outputName}`;
+          } else if (parameter && parameter.type !== output.type) {
+            edge.issue = `${formatStepReference(source)} is ${STEP_PARAMETER_TYPE_LABELS[output.type]} but ` +
+              `${parameterName} expects ${STEP_PARAMETER_TYPE_LABELS[parameter.type]}`;
+          }
+        }
+        return [edge];
+      })
+    );
+}
+
+// Rewrites references after steps are renumbered, using a map from old to new
+// process order. Bindings to steps missing from the map were removed with
+// their step and are dropped rather than left pointing at whichever step
+// now has that number.
+export function remapStepReferences(
+  args: Record<string, StepArgumentValue>,
+  orders: Map<number, number>
+): Record<string, StepArgumentValue> {
+  return Object.fromEntries(
+    Object.entries(args).flatMap(([name, value]) => {
+      const reference = parseStepReference(value);
+      if (!reference) return [[name, value]];
+
+      const processOrder = orders.get(reference.processOrder);
+      return processOrder === undefined ? [] : [[name, formatStepReference({ ...reference, processOrder })]];
+    })
+  );
+}
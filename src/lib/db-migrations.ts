@@ -0,0 +1,363 @@
+import { SqlDialect } from './db-types';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string[];
+  down: string[];
+  dialects?: Partial<Record<SqlDialect, { up?: string[]; down?: string[] }>>;
+}
+
+// Only SQL Server names column defaults; elsewhere the column is dropped directly.
+const DROP_VERSION_COLUMNS = {
+  down: ['ALTER TABLE CatalogSteps DROP COLUMN Version', 'ALTER TABLE TestCases DROP COLUMN Version'],
+};
+
+// Tables as they stood at version 7. `{key}` and `{ref}` stand for the type
+// of the id column and of the columns that hold another table's id.
+const ID_TABLES: Array<{ name: string; columns: string[]; indexes: string[] }> = [
+  {
+    name: 'CatalogSteps',
+    columns: [
+      'Id {key}',
+      'Name NVARCHAR(255) NOT NULL',
+      'Description NVARCHAR(MAX)',
+      'JavaClass NVARCHAR(500) NOT NULL',
+      'JavaMethod NVARCHAR(255) NOT NULL',
+      'SqlTables NVARCHAR(MAX)',
+      'Parameters NVARCHAR(MAX)',
+      'Outputs NVARCHAR(MAX)',
+      'Tags NVARCHAR(MAX)',
+      'Priority NVARCHAR(20)',
+      'Owner NVARCHAR(100)',
+      'CustomFields NVARCHAR(MAX)',
+      'CreatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE()',
+      'UpdatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE()',
+      'Version INT NOT NULL CONSTRAINT DF_CatalogSteps_Version DEFAULT 1',
+    ],
+    indexes: [
+      'CREATE INDEX IX_CatalogSteps_Name ON CatalogSteps(Name)',
+      'CREATE INDEX IX_CatalogSteps_JavaClass ON CatalogSteps(JavaClass)',
+    ],
+  },
+  {
+    name: 'TestFolders',
+    columns: [
+      'Id {key}',
+      'Name NVARCHAR(255) NOT NULL',
+      'ParentId {ref}',
+      'CreatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE()',
+      'UpdatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE()',
+      'Version INT NOT NULL CONSTRAINT DF_TestFolders_Version DEFAULT 1',
+    ],
+    indexes: ['CREATE INDEX IX_TestFolders_ParentId ON TestFolders(ParentId)'],
+  },
+  {
+    name: 'TestCases',
+    columns: [
+      'Id {key}',
+      'Name NVARCHAR(255) NOT NULL',
+      'Description NVARCHAR(MAX)',
+      'FolderId {ref}',
+      'Tags NVARCHAR(MAX)',
+      'Priority NVARCHAR(20)',
+      'Owner NVARCHAR(100)',
+      'CustomFields NVARCHAR(MAX)',
+      'CreatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE()',
+      'UpdatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE()',
+      'Version INT NOT NULL CONSTRAINT DF_TestCases_Version DEFAULT 1',
+    ],
+    indexes: ['CREATE INDEX IX_TestCases_Name ON TestCases(Name)'],
+  },
+  {
+    name: 'StepGroups',
+    columns: [
+      'Id {key}',
+      'Name NVARCHAR(255) NOT NULL',
+      'Description NVARCHAR(MAX)',
+      'CatalogStepIds NVARCHAR(MAX)',
+      'CreatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE()',
+      'UpdatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE()',
+      'Version INT NOT NULL CONSTRAINT DF_StepGroups_Version DEFAULT 1',
+    ],
+    indexes: ['CREATE INDEX IX_StepGroups_Name ON StepGroups(Name)'],
+  },
+  {
+    name: 'TestSuites',
+    columns: [
+      'Id {key}',
+      'Name NVARCHAR(255) NOT NULL',
+      'Description NVARCHAR(MAX)',
+      'TestCaseIds NVARCHAR(MAX)',
+      'CreatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE()',
+      'UpdatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE()',
+      'Version INT NOT NULL CONSTRAINT DF_TestSuites_Version DEFAULT 1',
+    ],
+    indexes: ['CREATE INDEX IX_TestSuites_Name ON TestSuites(Name)'],
+  },
+  {
+    name: 'CustomFields',
+    columns: [
+      'Id {key}',
+      'FieldKey NVARCHAR(50) NOT NULL',
+      'Label NVARCHAR(100) NOT NULL',
+      'FieldType NVARCHAR(20) NOT NULL',
+      'AppliesTo NVARCHAR(MAX) NOT NULL',
+      'Required BIT NOT NULL',
+      'Options NVARCHAR(MAX)',
+      'CreatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE()',
+      'UpdatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE()',
+      'Version INT NOT NULL CONSTRAINT DF_CustomFields_Version DEFAULT 1',
+    ],
+    indexes: ['CREATE INDEX IX_CustomFields_FieldKey ON CustomFields(FieldKey)'],
+  },
+  {
+    name: 'TestStepMemberships',
+    columns: [
+      'Id {key}',
+      'TestCaseId {ref} NOT NULL',
+      'CatalogStepId {ref} NOT NULL',
+      'ProcessOrder INT NOT NULL',
+      'Arguments NVARCHAR(MAX)',
+      'StepGroupId {ref}',
+      'GroupLinked BIT',
+      'CreatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE()',
+      `CONSTRAINT FK_Memberships_TestCases FOREIGN KEY (TestCaseId)
+        REFERENCES TestCases(Id) ON DELETE CASCADE`,
+      `CONSTRAINT FK_Memberships_CatalogSteps FOREIGN KEY (CatalogStepId)
+        REFERENCES CatalogSteps(Id) ON DELETE CASCADE`,
+      'CONSTRAINT UQ_TestCase_ProcessOrder UNIQUE (TestCaseId, ProcessOrder)',
+    ],
+    indexes: [
+      'CREATE INDEX IX_Memberships_TestCaseId ON TestStepMemberships(TestCaseId)',
+      'CREATE INDEX IX_Memberships_CatalogStepId ON TestStepMemberships(CatalogStepId)',
+    ],
+  },
+];
+
+// A column type cannot change under a primary key, foreign key or index, so
+// every table is copied into an unconstrained staging table, dropped, created
+// again with the new id types and refilled. Nothing is renamed, which keeps
+// the statements the same in every dialect.
+function rebuildIdTables(types: { key: string; ref: string }): string[] {
+  const tables = ID_TABLES.map(table => {
+    const columns = table.columns.map(column => column.replace('{key}', types.key).replace('{ref}', types.ref));
+    const staged = columns
+      .filter(column => !column.startsWith('CONSTRAINT '))
+      .map(column => column.split(' ').slice(0, 2));
+    return { ...table, columns, staged, names: staged.map(([name]) => name).join(', ') };
+  });
+  const created = (name: string, columns: string[]) => `CREATE TABLE ${name} (\n    ${columns.join(',\n    ')}\n)`;
+
+  return [
+    ...tables.flatMap(table => [
+      created(`IdStaging_${table.name}`, table.staged.map(column => column.join(' '))),
+      `INSERT INTO IdStaging_${table.name} (${table.names}) SELECT ${table.names} FROM ${table.name}`,
+    ]),
+    ...[...tables].reverse().map(table => `DROP TABLE ${table.name}`),
+    ...tables.flatMap(table => [
+      created(table.name, table.columns),
+      ...table.indexes,
+      `INSERT INTO ${table.name} (${table.names}) SELECT ${table.names} FROM IdStaging_${table.name}`,
+      `DROP TABLE IdStaging_${table.name}`,
+    ]),
+  ];
+}
+
+// Applied migrations must never be edited. Add a new entry instead.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'Create catalog, test case and membership tables',
+    up: [
+      `CREATE TABLE CatalogSteps (
+    Id UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID(),
+    Name NVARCHAR(255) NOT NULL,
+    Description NVARCHAR(MAX),
+    JavaClass NVARCHAR(500) NOT NULL,
+    JavaMethod NVARCHAR(255) NOT NULL,
+    SqlTables NVARCHAR(MAX),
+    CreatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+    UpdatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE()
+)`,
+      'CREATE INDEX IX_CatalogSteps_Name ON CatalogSteps(Name)',
+      'CREATE INDEX IX_CatalogSteps_JavaClass ON CatalogSteps(JavaClass)',
+      `CREATE TABLE TestCases (
+    Id UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID(),
+    Name NVARCHAR(255) NOT NULL,
+    Description NVARCHAR(MAX),
+    CreatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+    UpdatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE()
+)`,
+      'CREATE INDEX IX_TestCases_Name ON TestCases(Name)',
+      `CREATE TABLE TestStepMemberships (
+    Id UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID(),
+    TestCaseId UNIQUEIDENTIFIER NOT NULL,
+    CatalogStepId UNIQUEIDENTIFIER NOT NULL,
+    ProcessOrder INT NOT NULL,
+    CreatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+    CONSTRAINT FK_Memberships_TestCases FOREIGN KEY (TestCaseId)
+        REFERENCES TestCases(Id) ON DELETE CASCADE,
+    CONSTRAINT FK_Memberships_CatalogSteps FOREIGN KEY (CatalogStepId)
+        REFERENCES CatalogSteps(Id) ON DELETE CASCADE,
+    CONSTRAINT UQ_TestCase_ProcessOrder UNIQUE (TestCaseId, ProcessOrder)
+)`,
+      'CREATE INDEX IX_Memberships_TestCaseId ON TestStepMemberships(TestCaseId)',
+      'CREATE INDEX IX_Memberships_CatalogStepId ON TestStepMemberships(CatalogStepId)',
+    ],
+    down: ['DROP TABLE TestStepMemberships', 'DROP TABLE TestCases', 'DROP TABLE CatalogSteps'],
+  },
+  {
+    version: 2,
+    name: 'Add row versions for optimistic concurrency',
+    up: [
+      'ALTER TABLE CatalogSteps ADD Version INT NOT NULL CONSTRAINT DF_CatalogSteps_Version DEFAULT 1',
+      'ALTER TABLE TestCases ADD Version INT NOT NULL CONSTRAINT DF_TestCases_Version DEFAULT 1',
+    ],
+    down: [
+      'ALTER TABLE CatalogSteps DROP CONSTRAINT DF_CatalogSteps_Version',
+      'ALTER TABLE CatalogSteps DROP COLUMN Version',
+      'ALTER TABLE TestCases DROP CONSTRAINT DF_TestCases_Version',
+      'ALTER TABLE TestCases DROP COLUMN Version',
+    ],
+    dialects: {
+      postgresql: DROP_VERSION_COLUMNS,
+      mysql: DROP_VERSION_COLUMNS,
+      sqlite: DROP_VERSION_COLUMNS,
+    },
+  },
+  {
+    version: 3,
+    name: 'Add catalog step parameters and membership arguments',
+    up: [
+      'ALTER TABLE CatalogSteps ADD Parameters NVARCHAR(MAX)',
+      'ALTER TABLE TestStepMemberships ADD Arguments NVARCHAR(MAX)',
+    ],
+    down: [
+      'ALTER TABLE TestStepMemberships DROP COLUMN Arguments',
+      'ALTER TABLE CatalogSteps DROP COLUMN Parameters',
+    ],
+  },
+  {
+    version: 4,
+    name: 'Add catalog step outputs',
+    up: ['ALTER TABLE CatalogSteps ADD Outputs NVARCHAR(MAX)'],
+    down: ['ALTER TABLE CatalogSteps DROP COLUMN Outputs'],
+  },
+  {
+    version: 5,
+    name: 'Add step groups',
+    up: [
+      `CREATE TABLE StepGroups (
+    Id UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID(),
+    Name NVARCHAR(255) NOT NULL,
+    Description NVARCHAR(MAX),
+    CatalogStepIds NVARCHAR(MAX),
+    CreatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+    UpdatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+    Version INT NOT NULL CONSTRAINT DF_StepGroups_Version DEFAULT 1
+)`,
+      'CREATE INDEX IX_StepGroups_Name ON StepGroups(Name)',
+      'ALTER TABLE TestStepMemberships ADD StepGroupId UNIQUEIDENTIFIER',
+      'ALTER TABLE TestStepMemberships ADD GroupLinked BIT',
+    ],
+    down: [
+      'ALTER TABLE TestStepMemberships DROP COLUMN GroupLinked',
+      'ALTER TABLE TestStepMemberships DROP COLUMN StepGroupId',
+      'DROP TABLE StepGroups',
+    ],
+  },
+  {
+    version: 6,
+    name: 'Add test folders and suites',
+    up: [
+      `CREATE TABLE TestFolders (
+    Id UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID(),
+    Name NVARCHAR(255) NOT NULL,
+    ParentId UNIQUEIDENTIFIER,
+    CreatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+    UpdatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+    Version INT NOT NULL CONSTRAINT DF_TestFolders_Version DEFAULT 1
+)`,
+      'CREATE INDEX IX_TestFolders_ParentId ON TestFolders(ParentId)',
+      `CREATE TABLE TestSuites (
+    Id UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID(),
+    Name NVARCHAR(255) NOT NULL,
+    Description NVARCHAR(MAX),
+    TestCaseIds NVARCHAR(MAX),
+    CreatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+    UpdatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+    Version INT NOT NULL CONSTRAINT DF_TestSuites_Version DEFAULT 1
+)`,
+      'CREATE INDEX IX_TestSuites_Name ON TestSuites(Name)',
+      'ALTER TABLE TestCases ADD FolderId UNIQUEIDENTIFIER',
+    ],
+    down: [
+      'ALTER TABLE TestCases DROP COLUMN FolderId',
+      'DROP TABLE TestSuites',
+      'DROP TABLE TestFolders',
+    ],
+  },
+  {
+    version: 7,
+    name: 'Add tags, priorities, owners and custom fields',
+    up: [
+      `CREATE TABLE CustomFields (
+    Id UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID(),
+    FieldKey NVARCHAR(50) NOT NULL,
+    Label NVARCHAR(100) NOT NULL,
+    FieldType NVARCHAR(20) NOT NULL,
+    AppliesTo NVARCHAR(MAX) NOT NULL,
+    Required BIT NOT NULL,
+    Options NVARCHAR(MAX),
+    CreatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+    UpdatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+    Version INT NOT NULL CONSTRAINT DF_CustomFields_Version DEFAULT 1
+)`,
+      'CREATE INDEX IX_CustomFields_FieldKey ON CustomFields(FieldKey)',
+      'ALTER TABLE CatalogSteps ADD Tags NVARCHAR(MAX)',
+      'ALTER TABLE CatalogSteps ADD Priority NVARCHAR(20)',
+      'ALTER TABLE CatalogSteps ADD Owner NVARCHAR(100)',
+      'ALTER TABLE CatalogSteps ADD CustomFields NVARCHAR(MAX)',
+      'ALTER TABLE TestCases ADD Tags NVARCHAR(MAX)',
+      'ALTER TABLE TestCases ADD Priority NVARCHAR(20)',
+      'ALTER TABLE TestCases ADD Owner NVARCHAR(100)',
+      'ALTER TABLE TestCases ADD CustomFields NVARCHAR(MAX)',
+    ],
+    down: [
+      'ALTER TABLE TestCases DROP COLUMN CustomFields',
+      'ALTER TABLE TestCases DROP COLUMN Owner',
+      'ALTER TABLE TestCases DROP COLUMN Priority',
+      'ALTER TABLE TestCases DROP COLUMN Tags',
+      'ALTER TABLE CatalogSteps DROP COLUMN CustomFields',
+      'ALTER TABLE CatalogSteps DROP COLUMN Owner',
+      'ALTER TABLE CatalogSteps DROP COLUMN Priority',
+      'ALTER TABLE CatalogSteps DROP COLUMN Tags',
+      'DROP TABLE CustomFields',
+    ],
+  },
+  {
+    // Ids such as step-<timestamp> and TC-001 are not GUIDs, so SQL Server
+    // and PostgreSQL rejected them in UNIQUEIDENTIFIER and UUID columns.
+    // Rolling back only succeeds while every id is still a GUID.
+    version: 8,
+    name: 'Store ids as strings',
+    up: rebuildIdTables({ key: 'NVARCHAR(255) PRIMARY KEY', ref: 'NVARCHAR(255)' }),
+    down: rebuildIdTables({ key: 'UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID()', ref: 'UNIQUEIDENTIFIER' }),
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = Math.max(...MIGRATIONS.map(m => m.version));
+
+export function getMigrationStatements(
+  migration: Migration,
+  direction: 'up' | 'down',
+  dialect: SqlDialect
+): string[] {
+  return migration.dialects?.[dialect]?.[direction] ?? migration[direction];
+}
+
+export function generateSchemaVersionStamp(): string {
+  const rows = MIGRATIONS.map(m => `(${m.version}, '${m.name.replace(/'/g, "''")}')`).join(',\n    ');
+  return `INSERT INTO SchemaVersions (Version, Name) VALUES\n    ${rows};`;
+}
@@ -1,4 +1,6 @@
-import { TableSchema } from './db-types';
+import { SqlDialect, TableSchema } from './db-types';
+import { generateSchemaVersionStamp } from './db-migrations';
+import { translateQuery } from './sql-dialect';
 
 export const SQL_SERVER_SCHEMA: Record<string, TableSchema> = {
   CatalogSteps: {
@@ -6,7 +8,7 @@ export const SQL_SERVER_SCHEMA: Record<string, TableSchema> = {
     columns: [
       {
         name: 'Id',
-        type: 'UNIQUEIDENTIFIER',
+        type: 'NVARCHAR(255)',
         nullable: false,
         isPrimaryKey: true,
         isForeignKey: false,
@@ -46,6 +48,95 @@ export const SQL_SERVER_SCHEMA: Record<string, TableSchema> = {
         isPrimaryKey: false,
         isForeignKey: false,
       },
+      {
+        name: 'Parameters',
+        type: 'NVARCHAR(MAX)',
+        nullable: true,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
+      {
+        name: 'Outputs',
+        type: 'NVARCHAR(MAX)',
+        nullable: true,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
+      {
+        name: 'Tags',
+        type: 'NVARCHAR(MAX)',
+        nullable: true,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
+      {
+        name: 'Priority',
+        type: 'NVARCHAR(20)',
+        nullable: true,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
+      {
+        name: 'Owner',
+        type: 'NVARCHAR(100)',
+        nullable: true,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
+      {
+        name: 'CustomFields',
+        type: 'NVARCHAR(MAX)',
+        nullable: true,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
+      {
+        name: 'CreatedAt',
+        type: 'DATETIME2',
+        nullable: false,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
+      {
+        name: 'UpdatedAt',
+        type: 'DATETIME2',
+        nullable: false,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
+      {
+        name: 'Version',
+        type: 'INT',
+        nullable: false,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
+    ],
+  },
+  TestFolders: {
+    tableName: 'TestFolders',
+    columns: [
+      {
+        name: 'Id',
+        type: 'NVARCHAR(255)',
+        nullable: false,
+        isPrimaryKey: true,
+        isForeignKey: false,
+      },
+      {
+        name: 'Name',
+        type: 'NVARCHAR(255)',
+        nullable: false,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
+      {
+        name: 'ParentId',
+        type: 'NVARCHAR(255)',
+        nullable: true,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
       {
         name: 'CreatedAt',
         type: 'DATETIME2',
@@ -60,6 +151,13 @@ export const SQL_SERVER_SCHEMA: Record<string, TableSchema> = {
         isPrimaryKey: false,
         isForeignKey: false,
       },
+      {
+        name: 'Version',
+        type: 'INT',
+        nullable: false,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
     ],
   },
   TestCases: {
@@ -67,7 +165,89 @@ export const SQL_SERVER_SCHEMA: Record<string, TableSchema> = {
     columns: [
       {
         name: 'Id',
-        type: 'UNIQUEIDENTIFIER',
+        type: 'NVARCHAR(255)',
+        nullable: false,
+        isPrimaryKey: true,
+        isForeignKey: false,
+      },
+      {
+        name: 'Name',
+        type: 'NVARCHAR(255)',
+        nullable: false,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
+      {
+        name: 'Description',
+        type: 'NVARCHAR(MAX)',
+        nullable: true,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
+      {
+        name: 'FolderId',
+        type: 'NVARCHAR(255)',
+        nullable: true,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
+      {
+        name: 'Tags',
+        type: 'NVARCHAR(MAX)',
+        nullable: true,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
+      {
+        name: 'Priority',
+        type: 'NVARCHAR(20)',
+        nullable: true,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
+      {
+        name: 'Owner',
+        type: 'NVARCHAR(100)',
+        nullable: true,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
+      {
+        name: 'CustomFields',
+        type: 'NVARCHAR(MAX)',
+        nullable: true,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
+      {
+        name: 'CreatedAt',
+        type: 'DATETIME2',
+        nullable: false,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
+      {
+        name: 'UpdatedAt',
+        type: 'DATETIME2',
+        nullable: false,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
+      {
+        name: 'Version',
+        type: 'INT',
+        nullable: false,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
+    ],
+  },
+  StepGroups: {
+    tableName: 'StepGroups',
+    columns: [
+      {
+        name: 'Id',
+        type: 'NVARCHAR(255)',
         nullable: false,
         isPrimaryKey: true,
         isForeignKey: false,
@@ -86,6 +266,13 @@ export const SQL_SERVER_SCHEMA: Record<string, TableSchema> = {
         isPrimaryKey: false,
         isForeignKey: false,
       },
+      {
+        name: 'CatalogStepIds',
+        type: 'NVARCHAR(MAX)',
+        nullable: true,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
       {
         name: 'CreatedAt',
         type: 'DATETIME2',
@@ -100,6 +287,142 @@ export const SQL_SERVER_SCHEMA: Record<string, TableSchema> = {
         isPrimaryKey: false,
         isForeignKey: false,
       },
+      {
+        name: 'Version',
+        type: 'INT',
+        nullable: false,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
+    ],
+  },
+  TestSuites: {
+    tableName: 'TestSuites',
+    columns: [
+      {
+        name: 'Id',
+        type: 'NVARCHAR(255)',
+        nullable: false,
+        isPrimaryKey: true,
+        isForeignKey: false,
+      },
+      {
+        name: 'Name',
+        type: 'NVARCHAR(255)',
+        nullable: false,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
+      {
+        name: 'Description',
+        type: 'NVARCHAR(MAX)',
+        nullable: true,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
+      {
+        name: 'TestCaseIds',
+        type: 'NVARCHAR(MAX)',
+        nullable: true,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
+      {
+        name: 'CreatedAt',
+        type: 'DATETIME2',
+        nullable: false,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
+      {
+        name: 'UpdatedAt',
+        type: 'DATETIME2',
+        nullable: false,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
+      {
+        name: 'Version',
+        type: 'INT',
+        nullable: false,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
+    ],
+  },
+  CustomFields: {
+    tableName: 'CustomFields',
+    columns: [
+      {
+        name: 'Id',
+        type: 'NVARCHAR(255)',
+        nullable: false,
+        isPrimaryKey: true,
+        isForeignKey: false,
+      },
+      {
+        name: 'FieldKey',
+        type: 'NVARCHAR(50)',
+        nullable: false,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
+      {
+        name: 'Label',
+        type: 'NVARCHAR(100)',
+        nullable: false,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
+      {
+        name: 'FieldType',
+        type: 'NVARCHAR(20)',
+        nullable: false,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
+      {
+        name: 'AppliesTo',
+        type: 'NVARCHAR(MAX)',
+        nullable: false,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
+      {
+        name: 'Required',
+        type: 'BIT',
+        nullable: false,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
+      {
+        name: 'Options',
+        type: 'NVARCHAR(MAX)',
+        nullable: true,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
+      {
+        name: 'CreatedAt',
+        type: 'DATETIME2',
+        nullable: false,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
+      {
+        name: 'UpdatedAt',
+        type: 'DATETIME2',
+        nullable: false,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
+      {
+        name: 'Version',
+        type: 'INT',
+        nullable: false,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
     ],
   },
   TestStepMemberships: {
@@ -107,14 +430,14 @@ export const SQL_SERVER_SCHEMA: Record<string, TableSchema> = {
     columns: [
       {
         name: 'Id',
-        type: 'UNIQUEIDENTIFIER',
+        type: 'NVARCHAR(255)',
         nullable: false,
         isPrimaryKey: true,
         isForeignKey: false,
       },
       {
         name: 'TestCaseId',
-        type: 'UNIQUEIDENTIFIER',
+        type: 'NVARCHAR(255)',
         nullable: false,
         isPrimaryKey: false,
         isForeignKey: true,
@@ -125,7 +448,7 @@ export const SQL_SERVER_SCHEMA: Record<string, TableSchema> = {
       },
       {
         name: 'CatalogStepId',
-        type: 'UNIQUEIDENTIFIER',
+        type: 'NVARCHAR(255)',
         nullable: false,
         isPrimaryKey: false,
         isForeignKey: true,
@@ -141,6 +464,27 @@ export const SQL_SERVER_SCHEMA: Record<string, TableSchema> = {
         isPrimaryKey: false,
         isForeignKey: false,
       },
+      {
+        name: 'Arguments',
+        type: 'NVARCHAR(MAX)',
+        nullable: true,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
+      {
+        name: 'StepGroupId',
+        type: 'NVARCHAR(255)',
+        nullable: true,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
+      {
+        name: 'GroupLinked',
+        type: 'BIT',
+        nullable: true,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
       {
         name: 'CreatedAt',
         type: 'DATETIME2',
@@ -150,39 +494,131 @@ export const SQL_SERVER_SCHEMA: Record<string, TableSchema> = {
       },
     ],
   },
+  SchemaVersions: {
+    tableName: 'SchemaVersions',
+    columns: [
+      {
+        name: 'Version',
+        type: 'INT',
+        nullable: false,
+        isPrimaryKey: true,
+        isForeignKey: false,
+      },
+      {
+        name: 'Name',
+        type: 'NVARCHAR(255)',
+        nullable: false,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
+      {
+        name: 'AppliedAt',
+        type: 'DATETIME2',
+        nullable: false,
+        isPrimaryKey: false,
+        isForeignKey: false,
+      },
+    ],
+  },
 };
 
 export const CREATE_TABLE_STATEMENTS = {
   CatalogSteps: `
 CREATE TABLE CatalogSteps (
-    Id UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID(),
+    Id NVARCHAR(255) PRIMARY KEY,
     Name NVARCHAR(255) NOT NULL,
     Description NVARCHAR(MAX),
     JavaClass NVARCHAR(500) NOT NULL,
     JavaMethod NVARCHAR(255) NOT NULL,
     SqlTables NVARCHAR(MAX),
+    Parameters NVARCHAR(MAX),
+    Outputs NVARCHAR(MAX),
+    Tags NVARCHAR(MAX),
+    Priority NVARCHAR(20),
+    Owner NVARCHAR(100),
+    CustomFields NVARCHAR(MAX),
     CreatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
-    UpdatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE()
+    UpdatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+    Version INT NOT NULL CONSTRAINT DF_CatalogSteps_Version DEFAULT 1
 );
 CREATE INDEX IX_CatalogSteps_Name ON CatalogSteps(Name);
 CREATE INDEX IX_CatalogSteps_JavaClass ON CatalogSteps(JavaClass);
+  `,
+  TestFolders: `
+CREATE TABLE TestFolders (
+    Id NVARCHAR(255) PRIMARY KEY,
+    Name NVARCHAR(255) NOT NULL,
+    ParentId NVARCHAR(255),
+    CreatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+    UpdatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+    Version INT NOT NULL CONSTRAINT DF_TestFolders_Version DEFAULT 1
+);
+CREATE INDEX IX_TestFolders_ParentId ON TestFolders(ParentId);
   `,
   TestCases: `
 CREATE TABLE TestCases (
-    Id UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID(),
+    Id NVARCHAR(255) PRIMARY KEY,
     Name NVARCHAR(255) NOT NULL,
     Description NVARCHAR(MAX),
+    FolderId NVARCHAR(255),
+    Tags NVARCHAR(MAX),
+    Priority NVARCHAR(20),
+    Owner NVARCHAR(100),
+    CustomFields NVARCHAR(MAX),
     CreatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
-    UpdatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE()
+    UpdatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+    Version INT NOT NULL CONSTRAINT DF_TestCases_Version DEFAULT 1
 );
 CREATE INDEX IX_TestCases_Name ON TestCases(Name);
+  `,
+  StepGroups: `
+CREATE TABLE StepGroups (
+    Id NVARCHAR(255) PRIMARY KEY,
+    Name NVARCHAR(255) NOT NULL,
+    Description NVARCHAR(MAX),
+    CatalogStepIds NVARCHAR(MAX),
+    CreatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+    UpdatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+    Version INT NOT NULL CONSTRAINT DF_StepGroups_Version DEFAULT 1
+);
+CREATE INDEX IX_StepGroups_Name ON StepGroups(Name);
+  `,
+  TestSuites: `
+CREATE TABLE TestSuites (
+    Id NVARCHAR(255) PRIMARY KEY,
+    Name NVARCHAR(255) NOT NULL,
+    Description NVARCHAR(MAX),
+    TestCaseIds NVARCHAR(MAX),
+    CreatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+    UpdatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+    Version INT NOT NULL CONSTRAINT DF_TestSuites_Version DEFAULT 1
+);
+CREATE INDEX IX_TestSuites_Name ON TestSuites(Name);
+  `,
+  CustomFields: `
+CREATE TABLE CustomFields (
+    Id NVARCHAR(255) PRIMARY KEY,
+    FieldKey NVARCHAR(50) NOT NULL,
+    Label NVARCHAR(100) NOT NULL,
+    FieldType NVARCHAR(20) NOT NULL,
+    AppliesTo NVARCHAR(MAX) NOT NULL,
+    Required BIT NOT NULL,
+    Options NVARCHAR(MAX),
+    CreatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+    UpdatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+    Version INT NOT NULL CONSTRAINT DF_CustomFields_Version DEFAULT 1
+);
+CREATE INDEX IX_CustomFields_FieldKey ON CustomFields(FieldKey);
   `,
   TestStepMemberships: `
 CREATE TABLE TestStepMemberships (
-    Id UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID(),
-    TestCaseId UNIQUEIDENTIFIER NOT NULL,
-    CatalogStepId UNIQUEIDENTIFIER NOT NULL,
+    Id NVARCHAR(255) PRIMARY KEY,
+    TestCaseId NVARCHAR(255) NOT NULL,
+    CatalogStepId NVARCHAR(255) NOT NULL,
     ProcessOrder INT NOT NULL,
+    Arguments NVARCHAR(MAX),
+    StepGroupId NVARCHAR(255),
+    GroupLinked BIT,
     CreatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
     CONSTRAINT FK_Memberships_TestCases FOREIGN KEY (TestCaseId) 
         REFERENCES TestCases(Id) ON DELETE CASCADE,
@@ -193,8 +629,18 @@ CREATE TABLE TestStepMemberships (
 CREATE INDEX IX_Memberships_TestCaseId ON TestStepMemberships(TestCaseId);
 CREATE INDEX IX_Memberships_CatalogStepId ON TestStepMemberships(CatalogStepId);
   `,
+  SchemaVersions: `
+CREATE TABLE SchemaVersions (
+    Version INT NOT NULL PRIMARY KEY,
+    Name NVARCHAR(255) NOT NULL,
+    AppliedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE()
+);
+  `,
 };
 
-export function generateCreateTablesScript(): string {
-  return Object.values(CREATE_TABLE_STATEMENTS).join('\n\n');
+// A database created from this script is already at the latest migration,
+// so the script stamps SchemaVersions accordingly.
+export function generateCreateTablesScript(dialect: SqlDialect = 'sqlserver'): string {
+  const script = [...Object.values(CREATE_TABLE_STATEMENTS), generateSchemaVersionStamp()].join('\n\n');
+  return translateQuery(script, dialect);
 }
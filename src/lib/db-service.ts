@@ -1,15 +1,101 @@
-import { CatalogStep, TestCase, TestStepMembership } from './types';
-import { DatabaseConnection, QueryResult, PreparedStatement, TransactionResult } from './db-types';
+import { CatalogStep, CustomFieldDefinition, StepGroup, TestCase, TestFolder, TestStepMembership, TestSuite } from './types';
+import { PageOptions } from '@/models/common.model';
+import {
+  DatabaseConnection,
+  DatabaseDriver,
+  DriverResult,
+  ExecuteOptions,
+  ParameterDescriptor,
+  QueryResult,
+  PreparedStatement,
+  PagedStatements,
+  StatementResult,
+  TransactionContext,
+  TransactionOptions,
+  TransactionResult,
+  TransactionStatement,
+} from './db-types';
+import { EmbeddedSqlDriver } from './embedded-sql-driver';
+import { MssqlProxyDriver } from './mssql-proxy-driver';
+import { assertWritable } from './environment-guard';
+import { assertValidParameters, SqlTypes } from './sql-parameters';
+import { parseQueryPlan, QueryPlan } from './query-plan';
+import sqlWasmUrl from 'sql.js/dist/sql-wasm-browser.wasm?url';
+
+export function createDriver(connection: DatabaseConnection): DatabaseDriver {
+  switch (connection.driver) {
+    case 'embedded':
+      return new EmbeddedSqlDriver({ wasmUrl: sqlWasmUrl });
+    case 'mssql-proxy':
+    default:
+      return new MssqlProxyDriver(connection.proxyUrl);
+  }
+}
+
+const SAVEPOINT_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]{0,31}$/;
+
+function assertSavepointName(name: string): string {
+  if (!SAVEPOINT_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid savepoint name "${name}": use letters, digits and underscores (max 32)`);
+  }
+  return name;
+}
+
+function throwIfAborted(signal: AbortSignal): void {
+  if (signal.aborted) {
+    throw new Error('Aborted');
+  }
+}
+
+function abortable<T>(signal: AbortSignal, work: () => Promise<T>): Promise<T> {
+  if (signal.aborted) {
+    return Promise.reject(new Error('Aborted'));
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new Error('Aborted'));
+    signal.addEventListener('abort', onAbort, { once: true });
+    work()
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
 
 class DatabaseService {
   private activeConnection: DatabaseConnection | null = null;
+  private driver: DatabaseDriver | null = null;
+  private driverReady: Promise<void> | null = null;
+  private transactionLock: Promise<void> = Promise.resolve();
+  private listeners = new Set<() => void>();
 
-  async executeQuery<T>(statement: PreparedStatement): Promise<QueryResult<T>> {
+  // Stops waiting once the connection's requestTimeout passes or the
+  // caller aborts. The driver is asked to cancel the statement through the
+  // signal it receives. The timeout starts once any open transaction has
+  // finished, and a query aborted while it waited never reaches the driver.
+  async executeQuery<T>(statement: PreparedStatement, options: ExecuteOptions = {}): Promise<QueryResult<T>> {
     const startTime = performance.now();
-    
+    const timeout = options.timeout ?? this.activeConnection?.requestTimeout ?? 0;
+    const controller = new AbortController();
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const cancel = () => controller.abort();
+    if (options.signal?.aborted) cancel();
+    options.signal?.addEventListener('abort', cancel);
+
     try {
-      const sanitizedParams = this.sanitizeParameters(statement.parameters);
-      const result = await this.simulateQuery<T>(statement.query, sanitizedParams);
+      const result = await abortable(controller.signal, async () => {
+        await this.transactionLock;
+        throwIfAborted(controller.signal);
+        if (timeout > 0) {
+          timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, timeout);
+        }
+        const driver = await this.getDriver();
+        throwIfAborted(controller.signal);
+        return driver.execute<T>(this.prepare(statement), { signal: controller.signal });
+      });
       
       const executionTime = performance.now() - startTime;
       
@@ -17,45 +103,253 @@ class DatabaseService {
         success: true,
         data: result.data,
         rowCount: result.rowCount,
+        resultSets: result.resultSets,
         executionTime,
       };
     } catch (error) {
       const executionTime = performance.now() - startTime;
+      if (controller.signal.aborted) {
+        return timedOut
+          ? { success: false, error: `Query timed out after ${timeout}ms`, errorCode: 'timeout', executionTime }
+          : { success: false, error: 'Query was cancelled', errorCode: 'cancelled', executionTime };
+      }
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
         executionTime,
       };
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', cancel);
     }
   }
 
-  async executeTransaction(statements: PreparedStatement[]): Promise<TransactionResult> {
+  // Drivers return the estimated plan in the dialect's native format, which
+  // is parsed into one operator tree per statement.
+  async explainQuery(statement: PreparedStatement): Promise<QueryResult<QueryPlan>> {
+    const startTime = performance.now();
+
     try {
-      let totalAffected = 0;
-      
-      for (const statement of statements) {
-        const result = await this.executeQuery(statement);
-        if (!result.success) {
-          throw new Error(result.error);
+      await this.transactionLock;
+      const driver = await this.getDriver();
+      if (!driver.explain) {
+        throw new Error(`The ${driver.type} driver cannot explain queries`);
+      }
+      const plan = parseQueryPlan(driver.dialect, await driver.explain(this.prepare(statement)));
+
+      return { success: true, data: plan, executionTime: performance.now() - startTime };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        executionTime: performance.now() - startTime,
+      };
+    }
+  }
+
+  // The write runs inside a transaction that is only committed when
+  // `confirm` accepts its affected row counts; otherwise it is rolled back.
+  // Every other query waits while the preview is open, so it is rolled back
+  // once the connection's requestTimeout passes without an answer; `confirm`
+  // receives a signal that aborts then or when the caller aborts.
+  // The execution time excludes the time spent waiting for the answer.
+  async executeWithPreview<T>(
+    statement: PreparedStatement,
+    confirm: (preview: DriverResult<T>, signal: AbortSignal) => Promise<boolean>,
+    options: ExecuteOptions = {}
+  ): Promise<QueryResult<T>> {
+    const startTime = performance.now();
+    const timeout = options.timeout ?? this.activeConnection?.requestTimeout ?? 0;
+    const controller = new AbortController();
+    let executionTime: number | undefined;
+    let declined = false;
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const cancel = () => controller.abort();
+    if (options.signal?.aborted) cancel();
+    options.signal?.addEventListener('abort', cancel);
+
+    try {
+      const result = await this.runInTransaction(async tx => {
+        throwIfAborted(controller.signal);
+        const result = await tx.execute<T>(statement);
+        executionTime = performance.now() - startTime;
+        if (timeout > 0) {
+          timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, timeout);
         }
-        totalAffected += result.rowCount || 0;
+        if (!(await abortable(controller.signal, () => confirm(result, controller.signal)))) {
+          declined = true;
+          throw new Error('Changes were rolled back without committing');
+        }
+        return result;
+      });
+
+      return {
+        success: true,
+        data: result.data,
+        rowCount: result.rowCount,
+        resultSets: result.resultSets,
+        executionTime: executionTime!,
+      };
+    } catch (error) {
+      const elapsed = executionTime ?? performance.now() - startTime;
+      if (controller.signal.aborted) {
+        return timedOut
+          ? { success: false, error: `Changes were rolled back after ${timeout}ms without a decision`, errorCode: 'timeout', executionTime: elapsed }
+          : { success: false, error: 'Changes were rolled back without committing', errorCode: 'cancelled', executionTime: elapsed };
       }
-      
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        errorCode: declined ? 'cancelled' : undefined,
+        executionTime: elapsed,
+      };
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', cancel);
+    }
+  }
+
+  // Queries outside the transaction wait for it to finish, so statements
+  // inside `work` must go through `tx.execute`, not `executeQuery`.
+  async runInTransaction<R>(
+    work: (tx: TransactionContext) => Promise<R>,
+    options: TransactionOptions = {}
+  ): Promise<R> {
+    const previousLock = this.transactionLock;
+    let releaseLock!: () => void;
+    this.transactionLock = new Promise(resolve => (releaseLock = resolve));
+
+    try {
+      await previousLock;
+      const driver = await this.getDriver();
+      await driver.beginTransaction(options);
+
+      try {
+        const result = await work({
+          execute: statement => driver.execute(this.prepare(statement)),
+          savepoint: name => driver.createSavepoint(assertSavepointName(name)),
+          rollbackTo: name => driver.rollbackToSavepoint(assertSavepointName(name)),
+        });
+        await driver.commitTransaction();
+        return result;
+      } catch (error) {
+        await driver.rollbackTransaction().catch(() => undefined);
+        throw error;
+      }
+    } finally {
+      releaseLock();
+    }
+  }
+
+  async executeTransaction(
+    statements: TransactionStatement[],
+    options: TransactionOptions = {}
+  ): Promise<TransactionResult> {
+    const results: StatementResult[] = statements.map((statement, index) => ({
+      index,
+      status: 'skipped',
+      rowCount: 0,
+      savepoint: statement.savepoint,
+    }));
+
+    try {
+      const affectedRows = await this.runInTransaction(async tx => {
+        let totalAffected = 0;
+
+        for (let index = 0; index < statements.length; index++) {
+          const statement = statements[index];
+          if (statement.savepoint) {
+            await tx.savepoint(statement.savepoint);
+          }
+
+          try {
+            const { rowCount } = await tx.execute(statement);
+            results[index] = { ...results[index], status: 'committed', rowCount };
+            totalAffected += rowCount;
+          } catch (error) {
+            const message = error instanceof Error ? error.message : 'Statement failed';
+
+            if (statement.savepoint && statement.continueOnError) {
+              await tx.rollbackTo(statement.savepoint);
+              results[index] = { ...results[index], status: 'rolled-back', error: message };
+              continue;
+            }
+
+            results[index] = { ...results[index], status: 'failed', error: message };
+            throw new Error(`Statement ${index + 1} failed: ${message}`);
+          }
+        }
+
+        return totalAffected;
+      }, options);
+
       return {
         success: true,
-        affectedRows: totalAffected,
+        affectedRows,
+        statements: results,
+        isolationLevel: options.isolationLevel,
       };
     } catch (error) {
       return {
         success: false,
         affectedRows: 0,
         error: error instanceof Error ? error.message : 'Transaction failed',
+        statements: results.map(result =>
+          result.status === 'committed' ? { ...result, status: 'rolled-back' } : result
+        ),
+        isolationLevel: options.isolationLevel,
       };
     }
   }
 
   setActiveConnection(connection: DatabaseConnection | null): void {
     this.activeConnection = connection;
+    this.setDriver(connection ? createDriver(connection) : null);
+    this.listeners.forEach(listener => listener());
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  setDriver(driver: DatabaseDriver | null): void {
+    const previous = this.driver;
+    if (previous && previous !== driver) {
+      previous.disconnect().catch(() => undefined);
+    }
+    this.driver = driver;
+    this.driverReady = null;
+  }
+
+  getDriver(): Promise<DatabaseDriver> {
+    const driver = this.driver;
+    if (!driver) {
+      return Promise.reject(new Error('No active database connection'));
+    }
+
+    if (!this.driverReady) {
+      this.driverReady = driver.connect(this.activeConnection).catch(error => {
+        this.driverReady = null;
+        throw error;
+      });
+    }
+
+    return this.driverReady.then(() => driver);
+  }
+
+  // Drops a failed or stale connection attempt and connects the current
+  // driver again, keeping any state the driver holds.
+  async reconnect(): Promise<void> {
+    this.driverReady = null;
+    await this.getDriver();
   }
 
   getActiveConnection(): DatabaseConnection | null {
@@ -66,27 +360,13 @@ class DatabaseService {
     return this.activeConnection !== null && this.activeConnection.isActive;
   }
 
-  private sanitizeParameters(params: Record<string, any>): Record<string, any> {
-    const sanitized: Record<string, any> = {};
-    
-    for (const [key, value] of Object.entries(params)) {
-      if (typeof value === 'string') {
-        sanitized[key] = value.replace(/[';]/g, '');
-      } else {
-        sanitized[key] = value;
-      }
-    }
-    
-    return sanitized;
-  }
-
-  private async simulateQuery<T>(query: string, params: Record<string, any>): Promise<{ data: T; rowCount: number }> {
-    await new Promise(resolve => setTimeout(resolve, 10));
-    
-    return {
-      data: {} as T,
-      rowCount: 1,
-    };
+  // Every statement passes through here, including those inside
+  // transactions, so read-only connections and parameter types are enforced
+  // in one place. Values are bound as they are, never rewritten.
+  private prepare(statement: PreparedStatement): PreparedStatement {
+    assertWritable(this.activeConnection, statement.query);
+    assertValidParameters(statement);
+    return statement;
   }
 
   buildPreparedStatement(query: string, params: Record<string, any>): PreparedStatement {
@@ -99,10 +379,208 @@ class DatabaseService {
 
 export const dbService = new DatabaseService();
 
+// Sort, search and filter fields are mapped through a column whitelist because
+// identifiers cannot be bound as parameters. Id is always the final sort key
+// so OFFSET/FETCH pages are stable.
+function buildPageStatements(
+  table: string,
+  columns: Record<string, string>,
+  defaultSearchFields: string[],
+  options: PageOptions
+): PagedStatements {
+  const columnFor = (field: string) => {
+    const column = columns[field];
+    if (!column) {
+      throw new Error(`Unknown field ${field} for ${table}`);
+    }
+    return column;
+  };
+
+  const term = options.search?.query.trim();
+  const searchFields = options.search?.fields?.length ? options.search.fields : defaultSearchFields;
+  const conditions = term
+    ? [`(${searchFields.map(field => `${columnFor(field)} LIKE @searchTerm`).join(' OR ')})`]
+    : [];
+  const parameters: Record<string, any> = term ? { searchTerm: `%${term}%` } : {};
+  const types: Record<string, ParameterDescriptor> = { ...PAGE_TYPES };
+
+  (options.filters || []).forEach((filter, index) => {
+    const column = columnFor(filter.field);
+    const values = filter.values.filter((value): value is string => value !== null);
+    const names = values.map((_, valueIndex) => `filter${index}_${valueIndex}`);
+    names.forEach((name, valueIndex) => {
+      parameters[name] = values[valueIndex];
+      types[name] = SqlTypes.NVarChar();
+    });
+
+    const matches = [
+      ...(names.length > 0 ? [`${column} IN (${names.map(name => `@${name}`).join(', ')})`] : []),
+      ...(values.length < filter.values.length ? [`${column} IS NULL`] : []),
+    ];
+    conditions.push(matches.length > 0 ? `(${matches.join(' OR ')})` : '1 = 0');
+  });
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const orderBy = (options.sort || []).map(
+    sort => `${columnFor(sort.field)} ${sort.direction === 'desc' ? 'DESC' : 'ASC'}`
+  );
+  if (!(options.sort || []).some(sort => sort.field === 'id')) {
+    orderBy.push('Id ASC');
+  }
+
+  return {
+    count: {
+      query: `
+      SELECT COUNT(*) AS Total
+      FROM ${table}
+      ${where}
+    `,
+      parameters,
+      types,
+    },
+    page: (offset, fetch) => ({
+      query: `
+      SELECT ${Object.values(columns).join(', ')}
+      FROM ${table}
+      ${where}
+      ORDER BY ${orderBy.join(', ')}
+      OFFSET @offset ROWS FETCH NEXT @fetch ROWS ONLY
+    `,
+      parameters: { ...parameters, offset, fetch },
+      types,
+    }),
+  };
+}
+
+// The app generates readable ids such as step-<timestamp>, so id columns are
+// NVARCHAR(255) since schema version 8.
+const ID_TYPE = SqlTypes.NVarChar(255);
+
+const PAGE_TYPES: Record<string, ParameterDescriptor> = {
+  searchTerm: SqlTypes.NVarChar(),
+  offset: SqlTypes.Int(),
+  fetch: SqlTypes.Int(),
+};
+
+const CATALOG_STEP_TYPES: Record<string, ParameterDescriptor> = {
+  id: ID_TYPE,
+  name: SqlTypes.NVarChar(255),
+  description: SqlTypes.NVarChar(),
+  javaClass: SqlTypes.NVarChar(500),
+  javaMethod: SqlTypes.NVarChar(255),
+  sqlTables: SqlTypes.NVarChar(),
+  parameters: SqlTypes.NVarChar(),
+  outputs: SqlTypes.NVarChar(),
+  tags: SqlTypes.NVarChar(),
+  priority: SqlTypes.NVarChar(20),
+  owner: SqlTypes.NVarChar(100),
+  customFields: SqlTypes.NVarChar(),
+  searchTerm: SqlTypes.NVarChar(),
+  version: SqlTypes.Int(),
+};
+
+const TEST_CASE_TYPES: Record<string, ParameterDescriptor> = {
+  id: ID_TYPE,
+  name: SqlTypes.NVarChar(255),
+  description: SqlTypes.NVarChar(),
+  folderId: ID_TYPE,
+  tags: SqlTypes.NVarChar(),
+  priority: SqlTypes.NVarChar(20),
+  owner: SqlTypes.NVarChar(100),
+  customFields: SqlTypes.NVarChar(),
+  version: SqlTypes.Int(),
+};
+
+const MEMBERSHIP_TYPES: Record<string, ParameterDescriptor> = {
+  id: ID_TYPE,
+  testCaseId: ID_TYPE,
+  catalogStepId: ID_TYPE,
+  processOrder: SqlTypes.Int(),
+  arguments: SqlTypes.NVarChar(),
+  stepGroupId: ID_TYPE,
+  groupLinked: SqlTypes.Bit(),
+};
+
+const STEP_GROUP_TYPES: Record<string, ParameterDescriptor> = {
+  id: ID_TYPE,
+  name: SqlTypes.NVarChar(255),
+  description: SqlTypes.NVarChar(),
+  catalogStepIds: SqlTypes.NVarChar(),
+  version: SqlTypes.Int(),
+};
+
+const TEST_FOLDER_TYPES: Record<string, ParameterDescriptor> = {
+  id: ID_TYPE,
+  name: SqlTypes.NVarChar(255),
+  parentId: ID_TYPE,
+  version: SqlTypes.Int(),
+};
+
+const TEST_SUITE_TYPES: Record<string, ParameterDescriptor> = {
+  id: ID_TYPE,
+  name: SqlTypes.NVarChar(255),
+  description: SqlTypes.NVarChar(),
+  testCaseIds: SqlTypes.NVarChar(),
+  version: SqlTypes.Int(),
+};
+
+const CUSTOM_FIELD_TYPES: Record<string, ParameterDescriptor> = {
+  id: ID_TYPE,
+  key: SqlTypes.NVarChar(50),
+  label: SqlTypes.NVarChar(100),
+  type: SqlTypes.NVarChar(20),
+  appliesTo: SqlTypes.NVarChar(),
+  required: SqlTypes.Bit(),
+  options: SqlTypes.NVarChar(),
+  version: SqlTypes.Int(),
+};
+
+const CATALOG_STEP_COLUMNS: Record<string, string> = {
+  id: 'Id',
+  name: 'Name',
+  description: 'Description',
+  javaClass: 'JavaClass',
+  javaMethod: 'JavaMethod',
+  sqlTables: 'SqlTables',
+  parameters: 'Parameters',
+  outputs: 'Outputs',
+  tags: 'Tags',
+  priority: 'Priority',
+  owner: 'Owner',
+  customFields: 'CustomFields',
+  createdAt: 'CreatedAt',
+  updatedAt: 'UpdatedAt',
+  version: 'Version',
+};
+
+const TEST_CASE_COLUMNS: Record<string, string> = {
+  id: 'Id',
+  name: 'Name',
+  description: 'Description',
+  folderId: 'FolderId',
+  tags: 'Tags',
+  priority: 'Priority',
+  owner: 'Owner',
+  customFields: 'CustomFields',
+  createdAt: 'CreatedAt',
+  updatedAt: 'UpdatedAt',
+  version: 'Version',
+};
+
+// Tags and custom fields are JSON columns shared by catalog steps and test
+// cases.
+const classificationParameters = (item: Pick<CatalogStep | TestCase, 'tags' | 'priority' | 'owner' | 'customFields'>) => ({
+  tags: JSON.stringify(item.tags ?? []),
+  priority: item.priority ?? null,
+  owner: item.owner || null,
+  customFields: JSON.stringify(item.customFields ?? {}),
+});
+
 export const CatalogStepQueries = {
   getAll: (): PreparedStatement => ({
     query: `
-      SELECT Id, Name, Description, JavaClass, JavaMethod, SqlTables, CreatedAt, UpdatedAt
+      SELECT Id, Name, Description, JavaClass, JavaMethod, SqlTables, Parameters, Outputs, Tags, Priority, Owner, CustomFields,
+             CreatedAt, UpdatedAt, Version
       FROM CatalogSteps
       ORDER BY Name ASC
     `,
@@ -111,17 +589,21 @@ export const CatalogStepQueries = {
 
   getById: (id: string): PreparedStatement => ({
     query: `
-      SELECT Id, Name, Description, JavaClass, JavaMethod, SqlTables, CreatedAt, UpdatedAt
+      SELECT Id, Name, Description, JavaClass, JavaMethod, SqlTables, Parameters, Outputs, Tags, Priority, Owner, CustomFields,
+             CreatedAt, UpdatedAt, Version
       FROM CatalogSteps
       WHERE Id = @id
     `,
     parameters: { id },
+    types: CATALOG_STEP_TYPES,
   }),
 
   insert: (step: Omit<CatalogStep, 'createdAt' | 'updatedAt'>): PreparedStatement => ({
     query: `
-      INSERT INTO CatalogSteps (Id, Name, Description, JavaClass, JavaMethod, SqlTables, CreatedAt, UpdatedAt)
-      VALUES (@id, @name, @description, @javaClass, @javaMethod, @sqlTables, GETUTCDATE(), GETUTCDATE())
+      INSERT INTO CatalogSteps (Id, Name, Description, JavaClass, JavaMethod, SqlTables, Parameters, Outputs,
+                                Tags, Priority, Owner, CustomFields, CreatedAt, UpdatedAt)
+      VALUES (@id, @name, @description, @javaClass, @javaMethod, @sqlTables, @parameters, @outputs,
+              @tags, @priority, @owner, @customFields, GETUTCDATE(), GETUTCDATE())
     `,
     parameters: {
       id: step.id,
@@ -130,7 +612,11 @@ export const CatalogStepQueries = {
       javaClass: step.javaClass,
       javaMethod: step.javaMethod,
       sqlTables: JSON.stringify(step.sqlTables),
+      parameters: JSON.stringify(step.parameters ?? []),
+      outputs: JSON.stringify(step.outputs ?? []),
+      ...classificationParameters(step),
     },
+    types: CATALOG_STEP_TYPES,
   }),
 
   update: (step: CatalogStep): PreparedStatement => ({
@@ -141,8 +627,16 @@ export const CatalogStepQueries = {
           JavaClass = @javaClass,
           JavaMethod = @javaMethod,
           SqlTables = @sqlTables,
-          UpdatedAt = GETUTCDATE()
+          Parameters = @parameters,
+          Outputs = @outputs,
+          Tags = @tags,
+          Priority = @priority,
+          Owner = @owner,
+          CustomFields = @customFields,
+          UpdatedAt = GETUTCDATE(),
+          Version = Version + 1
       WHERE Id = @id
+        AND (@version IS NULL OR Version = @version)
     `,
     parameters: {
       id: step.id,
@@ -151,7 +645,12 @@ export const CatalogStepQueries = {
       javaClass: step.javaClass,
       javaMethod: step.javaMethod,
       sqlTables: JSON.stringify(step.sqlTables),
+      parameters: JSON.stringify(step.parameters ?? []),
+      outputs: JSON.stringify(step.outputs ?? []),
+      ...classificationParameters(step),
+      version: step.version ?? null,
     },
+    types: CATALOG_STEP_TYPES,
   }),
 
   delete: (id: string): PreparedStatement => ({
@@ -159,11 +658,20 @@ export const CatalogStepQueries = {
       DELETE FROM CatalogSteps WHERE Id = @id
     `,
     parameters: { id },
+    types: CATALOG_STEP_TYPES,
+  }),
+
+  deleteAll: (): PreparedStatement => ({
+    query: `
+      DELETE FROM CatalogSteps
+    `,
+    parameters: {},
   }),
 
   search: (searchTerm: string): PreparedStatement => ({
     query: `
-      SELECT Id, Name, Description, JavaClass, JavaMethod, SqlTables, CreatedAt, UpdatedAt
+      SELECT Id, Name, Description, JavaClass, JavaMethod, SqlTables, Parameters, Outputs, Tags, Priority, Owner, CustomFields,
+             CreatedAt, UpdatedAt, Version
       FROM CatalogSteps
       WHERE Name LIKE @searchTerm
          OR Description LIKE @searchTerm
@@ -171,13 +679,22 @@ export const CatalogStepQueries = {
       ORDER BY Name ASC
     `,
     parameters: { searchTerm: `%${searchTerm}%` },
+    types: CATALOG_STEP_TYPES,
   }),
+
+  getPage: (options: PageOptions): PagedStatements =>
+    buildPageStatements(
+      'CatalogSteps',
+      CATALOG_STEP_COLUMNS,
+      ['name', 'description', 'javaClass', 'javaMethod', 'tags', 'owner'],
+      options
+    ),
 };
 
 export const TestCaseQueries = {
   getAll: (): PreparedStatement => ({
     query: `
-      SELECT Id, Name, Description, CreatedAt, UpdatedAt
+      SELECT Id, Name, Description, FolderId, Tags, Priority, Owner, CustomFields, CreatedAt, UpdatedAt, Version
       FROM TestCases
       ORDER BY Name ASC
     `,
@@ -186,23 +703,27 @@ export const TestCaseQueries = {
 
   getById: (id: string): PreparedStatement => ({
     query: `
-      SELECT Id, Name, Description, CreatedAt, UpdatedAt
+      SELECT Id, Name, Description, FolderId, Tags, Priority, Owner, CustomFields, CreatedAt, UpdatedAt, Version
       FROM TestCases
       WHERE Id = @id
     `,
     parameters: { id },
+    types: TEST_CASE_TYPES,
   }),
 
   insert: (testCase: Omit<TestCase, 'createdAt' | 'updatedAt'>): PreparedStatement => ({
     query: `
-      INSERT INTO TestCases (Id, Name, Description, CreatedAt, UpdatedAt)
-      VALUES (@id, @name, @description, GETUTCDATE(), GETUTCDATE())
+      INSERT INTO TestCases (Id, Name, Description, FolderId, Tags, Priority, Owner, CustomFields, CreatedAt, UpdatedAt)
+      VALUES (@id, @name, @description, @folderId, @tags, @priority, @owner, @customFields, GETUTCDATE(), GETUTCDATE())
     `,
     parameters: {
       id: testCase.id,
       name: testCase.name,
       description: testCase.description,
+      folderId: testCase.folderId ?? null,
+      ...classificationParameters(testCase),
     },
+    types: TEST_CASE_TYPES,
   }),
 
   update: (testCase: TestCase): PreparedStatement => ({
@@ -210,14 +731,25 @@ export const TestCaseQueries = {
       UPDATE TestCases
       SET Name = @name,
           Description = @description,
-          UpdatedAt = GETUTCDATE()
+          FolderId = @folderId,
+          Tags = @tags,
+          Priority = @priority,
+          Owner = @owner,
+          CustomFields = @customFields,
+          UpdatedAt = GETUTCDATE(),
+          Version = Version + 1
       WHERE Id = @id
+        AND (@version IS NULL OR Version = @version)
     `,
     parameters: {
       id: testCase.id,
       name: testCase.name,
       description: testCase.description,
+      folderId: testCase.folderId ?? null,
+      ...classificationParameters(testCase),
+      version: testCase.version ?? null,
     },
+    types: TEST_CASE_TYPES,
   }),
 
   delete: (id: string): PreparedStatement => ({
@@ -225,8 +757,19 @@ export const TestCaseQueries = {
       DELETE FROM TestCases WHERE Id = @id
     `,
     parameters: { id },
+    types: TEST_CASE_TYPES,
+  }),
+
+  deleteAll: (): PreparedStatement => ({
+    query: `
+      DELETE FROM TestCases
+    `,
+    parameters: {},
   }),
 
+  getPage: (options: PageOptions): PagedStatements =>
+    buildPageStatements('TestCases', TEST_CASE_COLUMNS, ['id', 'name', 'description', 'tags', 'owner'], options),
+
   getWithSteps: (id: string): PreparedStatement => ({
     query: `
       SELECT 
@@ -237,6 +780,9 @@ export const TestCaseQueries = {
         tc.UpdatedAt AS TestCaseUpdatedAt,
         m.Id AS MembershipId,
         m.ProcessOrder,
+        m.Arguments,
+        m.StepGroupId,
+        m.GroupLinked,
         m.CreatedAt AS MembershipCreatedAt,
         cs.Id AS StepId,
         cs.Name AS StepName,
@@ -244,6 +790,8 @@ export const TestCaseQueries = {
         cs.JavaClass,
         cs.JavaMethod,
         cs.SqlTables,
+        cs.Parameters,
+        cs.Outputs,
         cs.CreatedAt AS StepCreatedAt,
         cs.UpdatedAt AS StepUpdatedAt
       FROM TestCases tc
@@ -253,52 +801,88 @@ export const TestCaseQueries = {
       ORDER BY m.ProcessOrder ASC
     `,
     parameters: { id },
+    types: TEST_CASE_TYPES,
   }),
 };
 
 export const MembershipQueries = {
   getAll: (): PreparedStatement => ({
     query: `
-      SELECT Id, TestCaseId, CatalogStepId, ProcessOrder, CreatedAt
+      SELECT Id, TestCaseId, CatalogStepId, ProcessOrder, Arguments, StepGroupId, GroupLinked, CreatedAt
       FROM TestStepMemberships
       ORDER BY TestCaseId, ProcessOrder ASC
     `,
     parameters: {},
   }),
 
+  getById: (id: string): PreparedStatement => ({
+    query: `
+      SELECT Id, TestCaseId, CatalogStepId, ProcessOrder, Arguments, StepGroupId, GroupLinked, CreatedAt
+      FROM TestStepMemberships
+      WHERE Id = @id
+    `,
+    parameters: { id },
+    types: MEMBERSHIP_TYPES,
+  }),
+
   getByTestCase: (testCaseId: string): PreparedStatement => ({
     query: `
-      SELECT Id, TestCaseId, CatalogStepId, ProcessOrder, CreatedAt
+      SELECT Id, TestCaseId, CatalogStepId, ProcessOrder, Arguments, StepGroupId, GroupLinked, CreatedAt
       FROM TestStepMemberships
       WHERE TestCaseId = @testCaseId
       ORDER BY ProcessOrder ASC
     `,
     parameters: { testCaseId },
+    types: MEMBERSHIP_TYPES,
+  }),
+
+  getByCatalogStep: (catalogStepId: string): PreparedStatement => ({
+    query: `
+      SELECT Id, TestCaseId, CatalogStepId, ProcessOrder, Arguments, StepGroupId, GroupLinked, CreatedAt
+      FROM TestStepMemberships
+      WHERE CatalogStepId = @catalogStepId
+      ORDER BY TestCaseId, ProcessOrder ASC
+    `,
+    parameters: { catalogStepId },
+    types: MEMBERSHIP_TYPES,
   }),
 
   insert: (membership: Omit<TestStepMembership, 'createdAt'>): PreparedStatement => ({
     query: `
-      INSERT INTO TestStepMemberships (Id, TestCaseId, CatalogStepId, ProcessOrder, CreatedAt)
-      VALUES (@id, @testCaseId, @catalogStepId, @processOrder, GETUTCDATE())
+      INSERT INTO TestStepMemberships (Id, TestCaseId, CatalogStepId, ProcessOrder, Arguments, StepGroupId, GroupLinked, CreatedAt)
+      VALUES (@id, @testCaseId, @catalogStepId, @processOrder, @arguments, @stepGroupId, @groupLinked, GETUTCDATE())
     `,
     parameters: {
       id: membership.id,
       testCaseId: membership.testCaseId,
       catalogStepId: membership.catalogStepId,
       processOrder: membership.processOrder,
+      arguments: JSON.stringify(membership.arguments ?? {}),
+      stepGroupId: membership.stepGroupId ?? null,
+      groupLinked: membership.groupLinked ?? false,
     },
+    types: MEMBERSHIP_TYPES,
   }),
 
   update: (membership: TestStepMembership): PreparedStatement => ({
     query: `
       UPDATE TestStepMemberships
-      SET ProcessOrder = @processOrder
+      SET CatalogStepId = @catalogStepId,
+          ProcessOrder = @processOrder,
+          Arguments = @arguments,
+          StepGroupId = @stepGroupId,
+          GroupLinked = @groupLinked
       WHERE Id = @id
     `,
     parameters: {
       id: membership.id,
+      catalogStepId: membership.catalogStepId,
       processOrder: membership.processOrder,
+      arguments: JSON.stringify(membership.arguments ?? {}),
+      stepGroupId: membership.stepGroupId ?? null,
+      groupLinked: membership.groupLinked ?? false,
     },
+    types: MEMBERSHIP_TYPES,
   }),
 
   delete: (id: string): PreparedStatement => ({
@@ -306,6 +890,18 @@ export const MembershipQueries = {
       DELETE FROM TestStepMemberships WHERE Id = @id
     `,
     parameters: { id },
+    types: MEMBERSHIP_TYPES,
+  }),
+
+  getByStepGroup: (stepGroupId: string): PreparedStatement => ({
+    query: `
+      SELECT Id, TestCaseId, CatalogStepId, ProcessOrder, Arguments, StepGroupId, GroupLinked, CreatedAt
+      FROM TestStepMemberships
+      WHERE StepGroupId = @stepGroupId
+      ORDER BY TestCaseId, ProcessOrder ASC
+    `,
+    parameters: { stepGroupId },
+    types: MEMBERSHIP_TYPES,
   }),
 
   deleteByTestCase: (testCaseId: string): PreparedStatement => ({
@@ -313,19 +909,333 @@ export const MembershipQueries = {
       DELETE FROM TestStepMemberships WHERE TestCaseId = @testCaseId
     `,
     parameters: { testCaseId },
+    types: MEMBERSHIP_TYPES,
+  }),
+
+  deleteByCatalogStep: (catalogStepId: string): PreparedStatement => ({
+    query: `
+      DELETE FROM TestStepMemberships WHERE CatalogStepId = @catalogStepId
+    `,
+    parameters: { catalogStepId },
+    types: MEMBERSHIP_TYPES,
   }),
 
+  deleteAll: (): PreparedStatement => ({
+    query: `
+      DELETE FROM TestStepMemberships
+    `,
+    parameters: {},
+  }),
+
+  // Rows are parked on negative orders first so swaps never collide with
+  // UQ_TestCase_ProcessOrder. Run through executeTransaction.
   bulkUpdateOrder: (memberships: Array<{ id: string; processOrder: number }>): PreparedStatement[] => {
-    return memberships.map(m => ({
+    const updateOrder = (id: string, processOrder: number): PreparedStatement => ({
       query: `
         UPDATE TestStepMemberships
         SET ProcessOrder = @processOrder
         WHERE Id = @id
       `,
       parameters: {
-        id: m.id,
-        processOrder: m.processOrder,
+        id,
+        processOrder,
       },
-    }));
+      types: MEMBERSHIP_TYPES,
+    });
+
+    return [
+      ...memberships.map(m => updateOrder(m.id, -m.processOrder)),
+      ...memberships.map(m => updateOrder(m.id, m.processOrder)),
+    ];
   },
 };
+
+export const StepGroupQueries = {
+  getAll: (): PreparedStatement => ({
+    query: `
+      SELECT Id, Name, Description, CatalogStepIds, CreatedAt, UpdatedAt, Version
+      FROM StepGroups
+      ORDER BY Name ASC
+    `,
+    parameters: {},
+  }),
+
+  getById: (id: string): PreparedStatement => ({
+    query: `
+      SELECT Id, Name, Description, CatalogStepIds, CreatedAt, UpdatedAt, Version
+      FROM StepGroups
+      WHERE Id = @id
+    `,
+    parameters: { id },
+    types: STEP_GROUP_TYPES,
+  }),
+
+  insert: (group: Omit<StepGroup, 'createdAt' | 'updatedAt'>): PreparedStatement => ({
+    query: `
+      INSERT INTO StepGroups (Id, Name, Description, CatalogStepIds, CreatedAt, UpdatedAt)
+      VALUES (@id, @name, @description, @catalogStepIds, GETUTCDATE(), GETUTCDATE())
+    `,
+    parameters: {
+      id: group.id,
+      name: group.name,
+      description: group.description,
+      catalogStepIds: JSON.stringify(group.catalogStepIds),
+    },
+    types: STEP_GROUP_TYPES,
+  }),
+
+  update: (group: StepGroup): PreparedStatement => ({
+    query: `
+      UPDATE StepGroups
+      SET Name = @name,
+          Description = @description,
+          CatalogStepIds = @catalogStepIds,
+          UpdatedAt = GETUTCDATE(),
+          Version = Version + 1
+      WHERE Id = @id
+        AND (@version IS NULL OR Version = @version)
+    `,
+    parameters: {
+      id: group.id,
+      name: group.name,
+      description: group.description,
+      catalogStepIds: JSON.stringify(group.catalogStepIds),
+      version: group.version ?? null,
+    },
+    types: STEP_GROUP_TYPES,
+  }),
+
+  delete: (id: string): PreparedStatement => ({
+    query: `
+      DELETE FROM StepGroups WHERE Id = @id
+    `,
+    parameters: { id },
+    types: STEP_GROUP_TYPES,
+  }),
+
+  deleteAll: (): PreparedStatement => ({
+    query: `
+      DELETE FROM StepGroups
+    `,
+    parameters: {},
+  }),
+};
+
+export const TestFolderQueries = {
+  getAll: (): PreparedStatement => ({
+    query: `
+      SELECT Id, Name, ParentId, CreatedAt, UpdatedAt, Version
+      FROM TestFolders
+      ORDER BY Name ASC
+    `,
+    parameters: {},
+  }),
+
+  getById: (id: string): PreparedStatement => ({
+    query: `
+      SELECT Id, Name, ParentId, CreatedAt, UpdatedAt, Version
+      FROM TestFolders
+      WHERE Id = @id
+    `,
+    parameters: { id },
+    types: TEST_FOLDER_TYPES,
+  }),
+
+  insert: (folder: Omit<TestFolder, 'createdAt' | 'updatedAt'>): PreparedStatement => ({
+    query: `
+      INSERT INTO TestFolders (Id, Name, ParentId, CreatedAt, UpdatedAt)
+      VALUES (@id, @name, @parentId, GETUTCDATE(), GETUTCDATE())
+    `,
+    parameters: {
+      id: folder.id,
+      name: folder.name,
+      parentId: folder.parentId ?? null,
+    },
+    types: TEST_FOLDER_TYPES,
+  }),
+
+  update: (folder: TestFolder): PreparedStatement => ({
+    query: `
+      UPDATE TestFolders
+      SET Name = @name,
+          ParentId = @parentId,
+          UpdatedAt = GETUTCDATE(),
+          Version = Version + 1
+      WHERE Id = @id
+        AND (@version IS NULL OR Version = @version)
+    `,
+    parameters: {
+      id: folder.id,
+      name: folder.name,
+      parentId: folder.parentId ?? null,
+      version: folder.version ?? null,
+    },
+    types: TEST_FOLDER_TYPES,
+  }),
+
+  delete: (id: string): PreparedStatement => ({
+    query: `
+      DELETE FROM TestFolders WHERE Id = @id
+    `,
+    parameters: { id },
+    types: TEST_FOLDER_TYPES,
+  }),
+
+  deleteAll: (): PreparedStatement => ({
+    query: `
+      DELETE FROM TestFolders
+    `,
+    parameters: {},
+  }),
+};
+
+export const TestSuiteQueries = {
+  getAll: (): PreparedStatement => ({
+    query: `
+      SELECT Id, Name, Description, TestCaseIds, CreatedAt, UpdatedAt, Version
+      FROM TestSuites
+      ORDER BY Name ASC
+    `,
+    parameters: {},
+  }),
+
+  getById: (id: string): PreparedStatement => ({
+    query: `
+      SELECT Id, Name, Description, TestCaseIds, CreatedAt, UpdatedAt, Version
+      FROM TestSuites
+      WHERE Id = @id
+    `,
+    parameters: { id },
+    types: TEST_SUITE_TYPES,
+  }),
+
+  insert: (suite: Omit<TestSuite, 'createdAt' | 'updatedAt'>): PreparedStatement => ({
+    query: `
+      INSERT INTO TestSuites (Id, Name, Description, TestCaseIds, CreatedAt, UpdatedAt)
+      VALUES (@id, @name, @description, @testCaseIds, GETUTCDATE(), GETUTCDATE())
+    `,
+    parameters: {
+      id: suite.id,
+      name: suite.name,
+      description: suite.description,
+      testCaseIds: JSON.stringify(suite.testCaseIds),
+    },
+    types: TEST_SUITE_TYPES,
+  }),
+
+  update: (suite: TestSuite): PreparedStatement => ({
+    query: `
+      UPDATE TestSuites
+      SET Name = @name,
+          Description = @description,
+          TestCaseIds = @testCaseIds,
+          UpdatedAt = GETUTCDATE(),
+          Version = Version + 1
+      WHERE Id = @id
+        AND (@version IS NULL OR Version = @version)
+    `,
+    parameters: {
+      id: suite.id,
+      name: suite.name,
+      description: suite.description,
+      testCaseIds: JSON.stringify(suite.testCaseIds),
+      version: suite.version ?? null,
+    },
+    types: TEST_SUITE_TYPES,
+  }),
+
+  delete: (id: string): PreparedStatement => ({
+    query: `
+      DELETE FROM TestSuites WHERE Id = @id
+    `,
+    parameters: { id },
+    types: TEST_SUITE_TYPES,
+  }),
+
+  deleteAll: (): PreparedStatement => ({
+    query: `
+      DELETE FROM TestSuites
+    `,
+    parameters: {},
+  }),
+};
+
+export const CustomFieldQueries = {
+  getAll: (): PreparedStatement => ({
+    query: `
+      SELECT Id, FieldKey, Label, FieldType, AppliesTo, Required, Options, CreatedAt, UpdatedAt, Version
+      FROM CustomFields
+      ORDER BY Label ASC
+    `,
+    parameters: {},
+  }),
+
+  getById: (id: string): PreparedStatement => ({
+    query: `
+      SELECT Id, FieldKey, Label, FieldType, AppliesTo, Required, Options, CreatedAt, UpdatedAt, Version
+      FROM CustomFields
+      WHERE Id = @id
+    `,
+    parameters: { id },
+    types: CUSTOM_FIELD_TYPES,
+  }),
+
+  insert: (field: Omit<CustomFieldDefinition, 'createdAt' | 'updatedAt'>): PreparedStatement => ({
+    query: `
+      INSERT INTO CustomFields (Id, FieldKey, Label, FieldType, AppliesTo, Required, Options, CreatedAt, UpdatedAt)
+      VALUES (@id, @key, @label, @type, @appliesTo, @required, @options, GETUTCDATE(), GETUTCDATE())
+    `,
+    parameters: {
+      id: field.id,
+      key: field.key,
+      label: field.label,
+      type: field.type,
+      appliesTo: JSON.stringify(field.appliesTo),
+      required: field.required,
+      options: JSON.stringify(field.options ?? []),
+    },
+    types: CUSTOM_FIELD_TYPES,
+  }),
+
+  update: (field: CustomFieldDefinition): PreparedStatement => ({
+    query: `
+      UPDATE CustomFields
+      SET FieldKey = @key,
+          Label = @label,
+          FieldType = @type,
+          AppliesTo = @appliesTo,
+          Required = @required,
+          Options = @options,
+          UpdatedAt = GETUTCDATE(),
+          Version = Version + 1
+      WHERE Id = @id
+        AND (@version IS NULL OR Version = @version)
+    `,
+    parameters: {
+      id: field.id,
+      key: field.key,
+      label: field.label,
+      type: field.type,
+      appliesTo: JSON.stringify(field.appliesTo),
+      required: field.required,
+      options: JSON.stringify(field.options ?? []),
+      version: field.version ?? null,
+    },
+    types: CUSTOM_FIELD_TYPES,
+  }),
+
+  delete: (id: string): PreparedStatement => ({
+    query: `
+      DELETE FROM CustomFields WHERE Id = @id
+    `,
+    parameters: { id },
+    types: CUSTOM_FIELD_TYPES,
+  }),
+
+  deleteAll: (): PreparedStatement => ({
+    query: `
+      DELETE FROM CustomFields
+    `,
+    parameters: {},
+  }),
+};
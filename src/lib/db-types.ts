@@ -1,3 +1,23 @@
+export type DatabaseDriverType = 'mssql-proxy' | 'embedded';
+
+export type RepositoryStorage = 'sql' | 'indexeddb' | 'kv';
+
+export type SqlDialect = 'sqlserver' | 'postgresql' | 'mysql' | 'sqlite';
+
+// Where the proxy gets the password: its default MSSQL_PASSWORD variable, a
+// password encrypted with the user's passphrase, or a named variable on the
+// proxy host.
+export type CredentialSource = 'proxy-default' | 'encrypted' | 'environment';
+
+export type ConnectionEnvironment = 'development' | 'qa' | 'staging' | 'production';
+
+export interface EncryptedSecret {
+  ciphertext: string;
+  iv: string;
+  salt: string;
+  iterations: number;
+}
+
 export interface DatabaseConnection {
   id: string;
   name: string;
@@ -5,32 +25,139 @@ export interface DatabaseConnection {
   port: number;
   database: string;
   username: string;
+  credentialSource?: CredentialSource;
+  encryptedPassword?: EncryptedSecret;
+  passwordEnvVar?: string;
   encrypt: boolean;
   trustServerCertificate: boolean;
   connectionTimeout: number;
   requestTimeout: number;
+  driver?: DatabaseDriverType;
+  dialect?: SqlDialect;
+  proxyUrl?: string;
+  repositoryStorage?: RepositoryStorage;
+  environment?: ConnectionEnvironment;
+  readOnly?: boolean;
   isActive: boolean;
   createdAt: Date;
   lastConnected?: Date;
 }
 
+// `type` is the declared database type when the driver reports one.
+export interface ResultColumn {
+  name: string;
+  type?: string;
+}
+
+export interface ResultSet {
+  columns: ResultColumn[];
+  rows: Record<string, any>[];
+}
+
+// Set when a query did not fail in the database but was stopped: by the
+// connection's requestTimeout, by the caller's AbortSignal, or by declining
+// to commit a previewed write.
+export type QueryErrorCode = 'timeout' | 'cancelled';
+
 export interface QueryResult<T = any> {
   success: boolean;
   data?: T;
   rowCount?: number;
+  resultSets?: ResultSet[];
   error?: string;
+  errorCode?: QueryErrorCode;
   executionTime: number;
 }
 
+// `timeout` overrides the active connection's requestTimeout; 0 disables it.
+export interface ExecuteOptions {
+  signal?: AbortSignal;
+  timeout?: number;
+}
+
+export type SqlParameterType = 'NVarChar' | 'Int' | 'UniqueIdentifier' | 'DateTime2' | 'Bit' | 'Decimal';
+
+export interface ParameterDescriptor {
+  type: SqlParameterType;
+  length?: number | 'max';
+  precision?: number;
+  scale?: number;
+  nullable?: boolean;
+}
+
 export interface PreparedStatement {
   query: string;
   parameters: Record<string, any>;
+  types?: Record<string, ParameterDescriptor>;
+}
+
+export interface PagedStatements {
+  count: PreparedStatement;
+  page: (offset: number, fetch: number) => PreparedStatement;
+}
+
+export interface DriverResult<T = any> {
+  data: T;
+  rowCount: number;
+  resultSets?: ResultSet[];
+  // Rows returned or affected by each statement of the batch, in order.
+  rowsAffected?: number[];
+}
+
+export type IsolationLevel =
+  | 'READ UNCOMMITTED'
+  | 'READ COMMITTED'
+  | 'REPEATABLE READ'
+  | 'SNAPSHOT'
+  | 'SERIALIZABLE';
+
+export interface TransactionOptions {
+  isolationLevel?: IsolationLevel;
+}
+
+export interface DatabaseDriver {
+  readonly type: DatabaseDriverType;
+  readonly dialect: SqlDialect;
+  connect(connection: DatabaseConnection | null): Promise<void>;
+  disconnect(): Promise<void>;
+  execute<T = any>(statement: PreparedStatement, options?: ExecuteOptions): Promise<DriverResult<T>>;
+  // Returns the estimated plan in the dialect's native format without
+  // running the statement.
+  explain?(statement: PreparedStatement): Promise<string>;
+  beginTransaction(options: TransactionOptions): Promise<void>;
+  commitTransaction(): Promise<void>;
+  rollbackTransaction(): Promise<void>;
+  createSavepoint(name: string): Promise<void>;
+  rollbackToSavepoint(name: string): Promise<void>;
+}
+
+export interface TransactionContext {
+  execute<T = any>(statement: PreparedStatement): Promise<DriverResult<T>>;
+  savepoint(name: string): Promise<void>;
+  rollbackTo(name: string): Promise<void>;
+}
+
+export interface TransactionStatement extends PreparedStatement {
+  savepoint?: string;
+  continueOnError?: boolean;
+}
+
+export type StatementStatus = 'committed' | 'failed' | 'rolled-back' | 'skipped';
+
+export interface StatementResult {
+  index: number;
+  status: StatementStatus;
+  rowCount: number;
+  savepoint?: string;
+  error?: string;
 }
 
 export interface TransactionResult {
   success: boolean;
   affectedRows: number;
   error?: string;
+  statements: StatementResult[];
+  isolationLevel?: IsolationLevel;
 }
 
 export interface TableSchema {
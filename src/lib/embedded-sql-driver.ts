@@ -0,0 +1,182 @@
+import initSqlJs, { Database, SqlValue } from 'sql.js';
+import {
+  DatabaseConnection,
+  DatabaseDriver,
+  DriverResult,
+  ExecuteOptions,
+  PreparedStatement,
+  ResultSet,
+  TransactionOptions,
+} from './db-types';
+import { generateCreateTablesScript } from './db-schema';
+import { toSqliteDialect } from './sql-dialect';
+
+export interface EmbeddedSqlDriverOptions {
+  wasmUrl?: string;
+  bootstrapSchema?: boolean;
+}
+
+const DML_PATTERN = /^\s*(INSERT|UPDATE|DELETE|REPLACE)\b/i;
+
+function toSqlValue(value: any): SqlValue {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'number' || typeof value === 'string' || value instanceof Uint8Array) {
+    return value;
+  }
+  return JSON.stringify(value);
+}
+
+function toSqlParams(parameters: Record<string, any>): Record<string, SqlValue> {
+  const params: Record<string, SqlValue> = {};
+  for (const [key, value] of Object.entries(parameters)) {
+    params[`@${key}`] = toSqlValue(value);
+  }
+  return params;
+}
+
+export class EmbeddedSqlDriver implements DatabaseDriver {
+  readonly type = 'embedded' as const;
+  readonly dialect = 'sqlite' as const;
+  private db: Database | null = null;
+
+  constructor(private readonly options: EmbeddedSqlDriverOptions = {}) {}
+
+  // Read-only connections set query_only, so SQLite itself rejects any
+  // statement the classifier let through as a read.
+  async connect(connection: DatabaseConnection | null): Promise<void> {
+    if (this.db) {
+      this.db.run(`PRAGMA query_only = ${connection?.readOnly ? 'ON' : 'OFF'}`);
+      return;
+    }
+
+    const wasmUrl = this.options.wasmUrl;
+    const SQL = await initSqlJs(wasmUrl ? { locateFile: () => wasmUrl } : undefined);
+    const db = new SQL.Database();
+
+    db.create_function('GETUTCDATE', () => new Date().toISOString());
+    db.create_function('GETDATE', () => new Date().toISOString());
+    db.create_function('NEWID', () => crypto.randomUUID());
+    db.run('PRAGMA foreign_keys = ON');
+
+    if (this.options.bootstrapSchema !== false) {
+      db.exec(generateCreateTablesScript('sqlite'));
+    }
+    db.run(`PRAGMA query_only = ${connection?.readOnly ? 'ON' : 'OFF'}`);
+
+    this.db = db;
+  }
+
+  async disconnect(): Promise<void> {
+    this.db?.close();
+    this.db = null;
+  }
+
+  // sql.js runs each statement synchronously, so an abort takes effect
+  // before the batch starts and between its statements.
+  async execute<T = any>(statement: PreparedStatement, options: ExecuteOptions = {}): Promise<DriverResult<T>> {
+    if (!this.db) {
+      throw new Error('Embedded database is not connected');
+    }
+
+    const params = toSqlParams(statement.parameters);
+
+    let rows: Record<string, any>[] | null = null;
+    let affected = 0;
+    const resultSets: ResultSet[] = [];
+    const rowsAffected: number[] = [];
+
+    for (const stmt of this.db.iterateStatements(toSqliteDialect(statement.query))) {
+      try {
+        if (options.signal?.aborted) {
+          throw new Error('Aborted');
+        }
+        stmt.bind(params);
+        const columns = stmt.getColumnNames();
+
+        if (columns.length > 0) {
+          rows = [];
+          while (stmt.step()) {
+            rows.push(stmt.getAsObject());
+          }
+          resultSets.push({ columns: columns.map(name => ({ name })), rows });
+          rowsAffected.push(rows.length);
+        } else {
+          stmt.step();
+          const modified = DML_PATTERN.test(stmt.getSQL()) ? this.db.getRowsModified() : 0;
+          affected += modified;
+          rowsAffected.push(modified);
+        }
+      } finally {
+        stmt.free();
+      }
+    }
+
+    return {
+      data: (rows ?? []) as T,
+      rowCount: rows ? rows.length : affected,
+      resultSets,
+      rowsAffected,
+    };
+  }
+
+  // Each statement of the batch is prepared, never stepped, and explained on
+  // its own, so nothing in the batch runs.
+  async explain(statement: PreparedStatement): Promise<string> {
+    if (!this.db) {
+      throw new Error('Embedded database is not connected');
+    }
+
+    const params = toSqlParams(statement.parameters);
+    const plans: Array<{ statement: string; rows: Record<string, any>[] }> = [];
+
+    for (const stmt of this.db.iterateStatements(toSqliteDialect(statement.query))) {
+      const sql = stmt.getSQL();
+      stmt.free();
+
+      const explain = this.db.prepare(`EXPLAIN QUERY PLAN ${sql}`);
+      try {
+        explain.bind(params);
+        const rows: Record<string, any>[] = [];
+        while (explain.step()) {
+          rows.push(explain.getAsObject());
+        }
+        plans.push({ statement: sql.trim(), rows });
+      } finally {
+        explain.free();
+      }
+    }
+
+    return JSON.stringify(plans);
+  }
+
+  // SQLite transactions are always serializable, so the requested isolation
+  // level is accepted but has no further effect.
+  async beginTransaction(_options: TransactionOptions): Promise<void> {
+    this.run('BEGIN TRANSACTION');
+  }
+
+  async commitTransaction(): Promise<void> {
+    this.run('COMMIT');
+  }
+
+  async rollbackTransaction(): Promise<void> {
+    this.run('ROLLBACK');
+  }
+
+  async createSavepoint(name: string): Promise<void> {
+    this.run(`SAVEPOINT ${name}`);
+  }
+
+  async rollbackToSavepoint(name: string): Promise<void> {
+    this.run(`ROLLBACK TO SAVEPOINT ${name}`);
+  }
+
+  private run(sql: string): void {
+    if (!this.db) {
+      throw new Error('Embedded database is not connected');
+    }
+    this.db.run(sql);
+  }
+}
@@ -0,0 +1,84 @@
+import { ConnectionEnvironment, DatabaseConnection } from './db-types';
+import { classifyQuery } from './statement-classifier';
+
+export const ENVIRONMENT_LABELS: Record<ConnectionEnvironment, string> = {
+  development: 'Development',
+  qa: 'QA',
+  staging: 'Staging',
+  production: 'Production',
+};
+
+export const ENVIRONMENT_STYLES: Record<ConnectionEnvironment, { banner: string; badge: string }> = {
+  development: { banner: 'bg-green-600 text-white', badge: 'border-green-600 text-green-700' },
+  qa: { banner: 'bg-blue-600 text-white', badge: 'border-blue-600 text-blue-700' },
+  staging: { banner: 'bg-amber-500 text-black', badge: 'border-amber-500 text-amber-700' },
+  production: { banner: 'bg-red-600 text-white', badge: 'border-red-600 text-red-700' },
+};
+
+export const PROTECTED_ENVIRONMENTS: ConnectionEnvironment[] = ['staging', 'production'];
+
+const DESTRUCTIVE_KEYWORDS = /\b(DELETE|UPDATE|MERGE|DROP|TRUNCATE|ALTER)\b/i;
+
+// Keywords inside string literals, quoted identifiers and comments do not
+// count, so `SELECT 'DROP TABLE'` is not destructive.
+function stripLiterals(query: string): string {
+  return query
+    .replace(/--[^\n]*/g, ' ')
+    .replace(/\/\*[\s\S]*?\*\//g, ' ')
+    .replace(/'(?:[^']|'')*'/g, "''")
+    .replace(/"(?:[^"]|"")*"|\[[^\]]*\]/g, 'x');
+}
+
+export function isWriteStatement(query: string): boolean {
+  const { hasWrites, hasDdl } = classifyQuery(query);
+  return hasWrites || hasDdl;
+}
+
+export function isDestructiveStatement(query: string): boolean {
+  return DESTRUCTIVE_KEYWORDS.test(stripLiterals(query));
+}
+
+export function isProtectedEnvironment(connection: DatabaseConnection | null): boolean {
+  return Boolean(connection?.environment && PROTECTED_ENVIRONMENTS.includes(connection.environment));
+}
+
+export interface StatementGuard {
+  allowed: boolean;
+  requiresConfirmation: boolean;
+  confirmationText?: string;
+  reason?: string;
+}
+
+// Destructive statements on protected environments need the connection name
+// typed back before they run.
+export function guardStatement(connection: DatabaseConnection | null, query: string): StatementGuard {
+  if (connection?.readOnly && isWriteStatement(query)) {
+    return {
+      allowed: false,
+      requiresConfirmation: false,
+      reason: `${connection.name} is read-only: write statements are not allowed`,
+    };
+  }
+
+  if (isProtectedEnvironment(connection) && isDestructiveStatement(query)) {
+    return {
+      allowed: true,
+      requiresConfirmation: true,
+      confirmationText: connection!.name,
+      reason: `This statement modifies data on ${ENVIRONMENT_LABELS[connection!.environment!]}`,
+    };
+  }
+
+  return { allowed: true, requiresConfirmation: false };
+}
+
+export function isConfirmed(guard: StatementGuard, confirmation?: string): boolean {
+  return !guard.requiresConfirmation || confirmation === guard.confirmationText;
+}
+
+export function assertWritable(connection: DatabaseConnection | null, query: string): void {
+  const guard = guardStatement(connection, query);
+  if (!guard.allowed) {
+    throw new Error(guard.reason);
+  }
+}
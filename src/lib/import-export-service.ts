@@ -1,6 +1,19 @@
 import Papa from 'papaparse';
-import { CatalogStep, TestCase, TestStepMembership } from './types';
-import { ColumnMapping, ImportPreview, ImportResult } from './import-export-types';
+import { CatalogStep, CustomFieldDefinition, TestCase, TestFolder, TestStepMembership, TestSuite } from './types';
+import { ColumnMapping, ImportExportTable, ImportPreview, ImportResult } from './import-export-types';
+import { Classification, CustomFieldTarget } from '@/models/classification.model';
+import {
+  checkCustomFieldValues,
+  formatCustomFieldList,
+  isPriority,
+  parseCustomFieldList,
+  parseTags,
+} from './classification';
+
+type ImportExportEntity = CatalogStep | TestCase | TestStepMembership | TestFolder | TestSuite;
+
+const splitList = (value: string | undefined): string[] =>
+  value ? value.split(',').map(s => s.trim()).filter(Boolean) : [];
 
 export class ImportExportService {
   parseCSV(file: File): Promise<ImportPreview> {
@@ -38,6 +51,9 @@ export class ImportExportService {
       catalogSteps: CatalogStep[];
       testCases: TestCase[];
       memberships: TestStepMembership[];
+      folders: TestFolder[];
+      suites: TestSuite[];
+      customFields?: CustomFieldDefinition[];
     }
   ): Promise<ImportResult> {
     return new Promise((resolve) => {
@@ -60,7 +76,7 @@ export class ImportExportService {
                 const transformedRow = this.transformRow(row, tableMappings);
                 
                 if (this.validateRow(transformedRow, table as any)) {
-                  const entity = this.createEntity(transformedRow, table as any);
+                  const entity = this.createEntity(transformedRow, table as any, existingData.customFields ?? []);
                   
                   switch (table) {
                     case 'catalog-steps':
@@ -72,6 +88,12 @@ export class ImportExportService {
                     case 'test-memberships':
                       existingData.memberships.push(entity as TestStepMembership);
                       break;
+                    case 'test-folders':
+                      existingData.folders.push(entity as TestFolder);
+                      break;
+                    case 'test-suites':
+                      existingData.suites.push(entity as TestSuite);
+                      break;
                   }
                   
                   imported++;
@@ -126,7 +148,7 @@ export class ImportExportService {
     return transformed;
   }
 
-  private validateRow(row: Record<string, any>, table: 'catalog-steps' | 'test-cases' | 'test-memberships'): boolean {
+  private validateRow(row: Record<string, any>, table: ImportExportTable): boolean {
     switch (table) {
       case 'catalog-steps':
         return !!(row.id && row.name && row.description && row.javaClass && row.javaMethod);
@@ -134,15 +156,46 @@ export class ImportExportService {
         return !!(row.id && row.name && row.description);
       case 'test-memberships':
         return !!(row.id && row.testCaseId && row.catalogStepId && row.processOrder);
+      case 'test-folders':
+        return !!(row.id && row.name);
+      case 'test-suites':
+        return !!(row.id && row.name && splitList(row.testCaseIds).length > 0);
       default:
         return false;
     }
   }
 
+  // Rows with an unknown priority or invalid custom field values are rejected
+  // rather than imported without them.
+  private parseClassification(
+    row: Record<string, any>,
+    definitions: CustomFieldDefinition[],
+    target: CustomFieldTarget
+  ): Classification {
+    const priority = row.priority ? String(row.priority).trim().toLowerCase() : undefined;
+    if (priority && !isPriority(priority)) {
+      throw new Error(`Unknown priority "${row.priority}"`);
+    }
+
+    const customFields = parseCustomFieldList(row.customFields ?? '', definitions);
+    const errors = checkCustomFieldValues(customFields, definitions, target);
+    if (errors.length > 0) {
+      throw new Error(errors.join('; '));
+    }
+
+    return {
+      tags: parseTags(row.tags ?? ''),
+      priority: isPriority(priority) ? priority : undefined,
+      owner: row.owner ? String(row.owner).trim() : undefined,
+      customFields,
+    };
+  }
+
   private createEntity(
     row: Record<string, any>,
-    table: 'catalog-steps' | 'test-cases' | 'test-memberships'
-  ): CatalogStep | TestCase | TestStepMembership {
+    table: ImportExportTable,
+    customFields: CustomFieldDefinition[] = []
+  ): ImportExportEntity {
     const now = new Date();
     
     switch (table) {
@@ -153,7 +206,8 @@ export class ImportExportService {
           description: row.description,
           javaClass: row.javaClass,
           javaMethod: row.javaMethod,
-          sqlTables: row.sqlTables ? row.sqlTables.split(',').map((s: string) => s.trim()) : [],
+          sqlTables: splitList(row.sqlTables),
+          ...this.parseClassification(row, customFields, 'catalog-step'),
           createdAt: now,
           updatedAt: now,
         } as CatalogStep;
@@ -163,6 +217,8 @@ export class ImportExportService {
           id: row.id,
           name: row.name,
           description: row.description,
+          folderId: row.folderId || undefined,
+          ...this.parseClassification(row, customFields, 'test-case'),
           createdAt: now,
           updatedAt: now,
         } as TestCase;
@@ -175,12 +231,84 @@ export class ImportExportService {
           processOrder: parseInt(row.processOrder, 10),
           createdAt: now,
         } as TestStepMembership;
+
+      case 'test-folders':
+        return {
+          id: row.id,
+          name: row.name,
+          parentId: row.parentId || undefined,
+          createdAt: now,
+          updatedAt: now,
+        } as TestFolder;
+
+      case 'test-suites':
+        return {
+          id: row.id,
+          name: row.name,
+          description: row.description ?? '',
+          testCaseIds: splitList(row.testCaseIds),
+          createdAt: now,
+          updatedAt: now,
+        } as TestSuite;
       
       default:
         throw new Error('Unknown table type');
     }
   }
 
+  // Flattens entities into the columns of TABLE_FIELD_DEFINITIONS, so an
+  // exported file can be imported again as it is.
+  toExportRows(table: ImportExportTable, items: ImportExportEntity[]): Record<string, any>[] {
+    switch (table) {
+      case 'catalog-steps':
+        return (items as CatalogStep[]).map(step => ({
+          id: step.id,
+          name: step.name,
+          description: step.description,
+          javaClass: step.javaClass,
+          javaMethod: step.javaMethod,
+          sqlTables: step.sqlTables.join(', '),
+          tags: (step.tags ?? []).join(', '),
+          priority: step.priority ?? '',
+          owner: step.owner ?? '',
+          customFields: formatCustomFieldList(step.customFields),
+        }));
+      case 'test-cases':
+        return (items as TestCase[]).map(tc => ({
+          id: tc.id,
+          name: tc.name,
+          description: tc.description,
+          folderId: tc.folderId ?? '',
+          tags: (tc.tags ?? []).join(', '),
+          priority: tc.priority ?? '',
+          owner: tc.owner ?? '',
+          customFields: formatCustomFieldList(tc.customFields),
+        }));
+      case 'test-memberships':
+        return (items as TestStepMembership[]).map(m => ({
+          id: m.id,
+          testCaseId: m.testCaseId,
+          catalogStepId: m.catalogStepId,
+          processOrder: m.processOrder,
+        }));
+      case 'test-folders':
+        return (items as TestFolder[]).map(folder => ({
+          id: folder.id,
+          name: folder.name,
+          parentId: folder.parentId ?? '',
+        }));
+      case 'test-suites':
+        return (items as TestSuite[]).map(suite => ({
+          id: suite.id,
+          name: suite.name,
+          description: suite.description,
+          testCaseIds: suite.testCaseIds.join(', '),
+        }));
+      default:
+        return [];
+    }
+  }
+
   exportToCSV(data: Record<string, any>[], filename: string): void {
     const csv = Papa.unparse(data);
     this.downloadFile(csv, filename, 'text/csv');
@@ -203,13 +331,13 @@ export class ImportExportService {
     URL.revokeObjectURL(url);
   }
 
-  generateTemplate(table: 'catalog-steps' | 'test-cases' | 'test-memberships'): void {
+  generateTemplate(table: ImportExportTable): void {
     let headers: string[] = [];
     let sampleRow: Record<string, string> = {};
     
     switch (table) {
       case 'catalog-steps':
-        headers = ['id', 'name', 'description', 'javaClass', 'javaMethod', 'sqlTables'];
+        headers = ['id', 'name', 'description', 'javaClass', 'javaMethod', 'sqlTables', 'tags', 'priority', 'owner', 'customFields'];
         sampleRow = {
           id: 'step-001',
           name: 'Sample Step',
@@ -217,15 +345,24 @@ export class ImportExportService {
           javaClass: 'com.example.TestClass',
           javaMethod: 'testMethod',
           sqlTables: 'table1, table2',
+          tags: 'login, smoke',
+          priority: 'high',
+          owner: 'qa-team',
+          customFields: '',
         };
         break;
       
       case 'test-cases':
-        headers = ['id', 'name', 'description'];
+        headers = ['id', 'name', 'description', 'folderId', 'tags', 'priority', 'owner', 'customFields'];
         sampleRow = {
           id: 'test-001',
           name: 'Sample Test Case',
           description: 'This is a sample test case',
+          folderId: 'folder-001',
+          tags: 'regression',
+          priority: 'medium',
+          owner: 'qa-team',
+          customFields: '',
         };
         break;
       
@@ -238,6 +375,25 @@ export class ImportExportService {
           processOrder: '1',
         };
         break;
+
+      case 'test-folders':
+        headers = ['id', 'name', 'parentId'];
+        sampleRow = {
+          id: 'folder-002',
+          name: 'Checkout',
+          parentId: 'folder-001',
+        };
+        break;
+
+      case 'test-suites':
+        headers = ['id', 'name', 'description', 'testCaseIds'];
+        sampleRow = {
+          id: 'suite-001',
+          name: 'Smoke Suite',
+          description: 'Quick checks run on every build',
+          testCaseIds: 'test-001, test-002',
+        };
+        break;
     }
     
     const csv = Papa.unparse([sampleRow], { columns: headers });
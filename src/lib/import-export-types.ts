@@ -1,7 +1,9 @@
+export type ImportExportTable = 'catalog-steps' | 'test-cases' | 'test-memberships' | 'test-folders' | 'test-suites';
+
 export interface ColumnMapping {
   sourceColumn: string;
   targetField: string;
-  targetTable: 'catalog-steps' | 'test-cases' | 'test-memberships';
+  targetTable: ImportExportTable;
 }
 
 export interface ImportPreview {
@@ -19,7 +21,7 @@ export interface ImportResult {
 
 export interface ExportOptions {
   format: 'csv' | 'json';
-  tables: ('catalog-steps' | 'test-cases' | 'test-memberships')[];
+  tables: ImportExportTable[];
 }
 
 export const TABLE_FIELD_DEFINITIONS = {
@@ -30,11 +32,20 @@ export const TABLE_FIELD_DEFINITIONS = {
     { field: 'javaClass', label: 'Java Class', required: true, description: 'Java class reference' },
     { field: 'javaMethod', label: 'Java Method', required: true, description: 'Java method name' },
     { field: 'sqlTables', label: 'SQL Tables', required: false, description: 'Comma-separated table names' },
+    { field: 'tags', label: 'Tags', required: false, description: 'Comma-separated tags' },
+    { field: 'priority', label: 'Priority', required: false, description: 'critical, high, medium or low' },
+    { field: 'owner', label: 'Owner', required: false, description: 'Person or team responsible for the step' },
+    { field: 'customFields', label: 'Custom Fields', required: false, description: 'key=value pairs separated by semicolons' },
   ],
   'test-cases': [
     { field: 'id', label: 'ID', required: true, description: 'Unique identifier' },
     { field: 'name', label: 'Name', required: true, description: 'Test case name' },
     { field: 'description', label: 'Description', required: true, description: 'Test case description' },
+    { field: 'folderId', label: 'Folder ID', required: false, description: 'Reference to test folder' },
+    { field: 'tags', label: 'Tags', required: false, description: 'Comma-separated tags' },
+    { field: 'priority', label: 'Priority', required: false, description: 'critical, high, medium or low' },
+    { field: 'owner', label: 'Owner', required: false, description: 'Person or team responsible for the test case' },
+    { field: 'customFields', label: 'Custom Fields', required: false, description: 'key=value pairs separated by semicolons' },
   ],
   'test-memberships': [
     { field: 'id', label: 'ID', required: true, description: 'Unique identifier' },
@@ -42,4 +53,15 @@ export const TABLE_FIELD_DEFINITIONS = {
     { field: 'catalogStepId', label: 'Catalog Step ID', required: true, description: 'Reference to catalog step' },
     { field: 'processOrder', label: 'Process Order', required: true, description: 'Execution order (number)' },
   ],
+  'test-folders': [
+    { field: 'id', label: 'ID', required: true, description: 'Unique identifier' },
+    { field: 'name', label: 'Name', required: true, description: 'Folder name' },
+    { field: 'parentId', label: 'Parent ID', required: false, description: 'Reference to parent folder' },
+  ],
+  'test-suites': [
+    { field: 'id', label: 'ID', required: true, description: 'Unique identifier' },
+    { field: 'name', label: 'Name', required: true, description: 'Suite name' },
+    { field: 'description', label: 'Description', required: false, description: 'Suite description' },
+    { field: 'testCaseIds', label: 'Test Case IDs', required: true, description: 'Comma-separated test case IDs in run order' },
+  ],
 } as const;
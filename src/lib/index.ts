@@ -1,10 +1,35 @@
 export * from './types';
 export * from './utils';
+export * from './pagination';
 export * from './validation';
 export * from './db-types';
 export * from './db-schema';
+export * from './sql-dialect';
+export * from './sql-parameters';
+export * from './query-parameters';
+export * from './query-library';
+export * from './sql-editor';
+export * from './query-plan';
+export * from './db-migrations';
+export * from './migration-runner';
 export * from './db-service';
+export * from './embedded-sql-driver';
+export * from './mssql-proxy-driver';
 export * from './history-types';
 export * from './import-export-types';
 export * from './import-export-service';
 export * from './table-schema-service';
+export * from './result-grid';
+export * from './schema-drift-service';
+export * from './connection-health';
+export * from './connection-string';
+export * from './credential-vault';
+export * from './environment-guard';
+export * from './statement-classifier';
+export * from './step-parameters';
+export * from './data-flow';
+export * from './step-groups';
+export * from './test-folders';
+export * from './test-suites';
+export * from './classification';
+export * from './integrity-service';
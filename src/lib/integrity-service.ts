@@ -0,0 +1,365 @@
+import { CatalogStep } from '@/models/catalog.model';
+import { TestCase, TestStepMembership } from '@/models/testcase.model';
+import { TestSuite } from '@/models/suite.model';
+import { StepGroup } from '@/models/stepgroup.model';
+import { Result } from '@/models/common.model';
+import {
+  CatalogStepDeletePolicy,
+  DeleteOutcome,
+  IntegrityIssue,
+  IntegrityReport,
+  MembershipIssue,
+  RepairPlan,
+} from '@/models/integrity.model';
+import { CatalogRepository } from '@/repositories/catalog.repository';
+import { MembershipRepository, TestCaseRepository } from '@/repositories/testcase.repository';
+import { TestSuiteRepository } from '@/repositories/suite.repository';
+import { StepGroupRepository } from '@/repositories/stepgroup.repository';
+import { getStorageAdapter, runInStorageTransaction, type StorageAdapter } from '@/repositories/storage.adapter';
+
+export const PLACEHOLDER_STEP_ID = 'step-placeholder';
+
+export interface IntegrityData {
+  catalogSteps: CatalogStep[];
+  testCases: TestCase[];
+  memberships: TestStepMembership[];
+  suites: TestSuite[];
+  stepGroups: StepGroup[];
+}
+
+export function createPlaceholderStep(): CatalogStep {
+  const now = new Date();
+  return {
+    id: PLACEHOLDER_STEP_ID,
+    name: 'Deleted Step',
+    description: 'Stands in for catalog steps that were deleted while test cases still used them.',
+    javaClass: 'Placeholder',
+    javaMethod: 'deletedStep',
+    sqlTables: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export function scanIntegrity(data: IntegrityData): IntegrityIssue[] {
+  const testCaseIds = new Set(data.testCases.map(tc => tc.id));
+  const catalogStepIds = new Set(data.catalogSteps.map(step => step.id));
+  const seenOrders = new Map<string, string>();
+  const issues: IntegrityIssue[] = [];
+
+  for (const membership of data.memberships) {
+    const { id, testCaseId, catalogStepId, processOrder } = membership;
+
+    if (!testCaseIds.has(testCaseId)) {
+      issues.push({
+        type: 'missing-test-case',
+        membershipId: id,
+        testCaseId,
+        catalogStepId,
+        message: `Membership ${id} belongs to test case ${testCaseId}, which no longer exists`,
+      });
+    }
+
+    if (!catalogStepIds.has(catalogStepId)) {
+      issues.push({
+        type: 'missing-catalog-step',
+        membershipId: id,
+        testCaseId,
+        catalogStepId,
+        message: `Membership ${id} in ${testCaseId} points to catalog step ${catalogStepId}, which no longer exists`,
+      });
+    }
+
+    const orderKey = `${testCaseId}:${processOrder}`;
+    const firstMembershipId = seenOrders.get(orderKey);
+    if (firstMembershipId) {
+      issues.push({
+        type: 'duplicate-process-order',
+        membershipId: id,
+        testCaseId,
+        catalogStepId,
+        message: `Membership ${id} repeats process order ${processOrder} of ${firstMembershipId} in ${testCaseId}`,
+      });
+    } else {
+      seenOrders.set(orderKey, id);
+    }
+  }
+
+  for (const suite of data.suites) {
+    for (const testCaseId of suite.testCaseIds.filter(id => !testCaseIds.has(id))) {
+      issues.push({
+        type: 'suite-missing-test-case',
+        suiteId: suite.id,
+        testCaseId,
+        message: `Suite ${suite.name} lists test case ${testCaseId}, which no longer exists`,
+      });
+    }
+  }
+
+  for (const group of data.stepGroups) {
+    for (const catalogStepId of group.catalogStepIds.filter(id => !catalogStepIds.has(id))) {
+      issues.push({
+        type: 'group-missing-catalog-step',
+        stepGroupId: group.id,
+        catalogStepId,
+        message: `Step group ${group.name} lists catalog step ${catalogStepId}, which no longer exists`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+// Suites that list any of `testCaseIds`, without them.
+export function removeFromSuites(suites: TestSuite[], testCaseIds: Set<string>): TestSuite[] {
+  return suites
+    .filter(suite => suite.testCaseIds.some(id => testCaseIds.has(id)))
+    .map(suite => ({ ...suite, testCaseIds: suite.testCaseIds.filter(id => !testCaseIds.has(id)) }));
+}
+
+// Step groups that list any of `catalogStepIds`, without them.
+export function removeFromStepGroups(groups: StepGroup[], catalogStepIds: Set<string>): StepGroup[] {
+  return groups
+    .filter(group => group.catalogStepIds.some(id => catalogStepIds.has(id)))
+    .map(group => ({ ...group, catalogStepIds: group.catalogStepIds.filter(id => !catalogStepIds.has(id)) }));
+}
+
+export function planRepair(data: IntegrityData, policy: CatalogStepDeletePolicy): RepairPlan {
+  const allIssues = scanIntegrity(data);
+  const issues = allIssues.filter((issue): issue is MembershipIssue => 'membershipId' in issue);
+  const deleteIds = new Set(
+    issues
+      .filter(
+        issue =>
+          issue.type === 'missing-test-case' ||
+          (issue.type === 'missing-catalog-step' && policy !== 'placeholder')
+      )
+      .map(issue => issue.membershipId)
+  );
+  const repointIds = new Set(
+    issues
+      .filter(issue => issue.type === 'missing-catalog-step' && !deleteIds.has(issue.membershipId))
+      .map(issue => issue.membershipId)
+  );
+
+  const updates = new Map<string, TestStepMembership>();
+  for (const membership of data.memberships) {
+    if (repointIds.has(membership.id)) {
+      updates.set(membership.id, { ...membership, catalogStepId: PLACEHOLDER_STEP_ID });
+    }
+  }
+
+  const reorderedCases = new Set(
+    issues.filter(issue => issue.type === 'duplicate-process-order').map(issue => issue.testCaseId)
+  );
+  for (const testCaseId of reorderedCases) {
+    data.memberships
+      .filter(m => m.testCaseId === testCaseId && !deleteIds.has(m.id))
+      .sort(
+        (a, b) =>
+          a.processOrder - b.processOrder ||
+          new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime() ||
+          a.id.localeCompare(b.id)
+      )
+      .forEach((membership, index) => {
+        if (membership.processOrder !== index + 1) {
+          updates.set(membership.id, { ...(updates.get(membership.id) ?? membership), processOrder: index + 1 });
+        }
+      });
+  }
+
+  const needsPlaceholder =
+    repointIds.size > 0 && !data.catalogSteps.some(step => step.id === PLACEHOLDER_STEP_ID);
+
+  return {
+    deleteMembershipIds: [...deleteIds],
+    updateMemberships: [...updates.values()],
+    createCatalogSteps: needsPlaceholder ? [createPlaceholderStep()] : [],
+    updateSuites: removeFromSuites(
+      data.suites,
+      new Set(allIssues.flatMap(issue => (issue.type === 'suite-missing-test-case' ? [issue.testCaseId] : [])))
+    ),
+    updateStepGroups: removeFromStepGroups(
+      data.stepGroups,
+      new Set(allIssues.flatMap(issue => (issue.type === 'group-missing-catalog-step' ? [issue.catalogStepId] : [])))
+    ),
+  };
+}
+
+interface IntegrityRepositories {
+  catalogSteps: CatalogRepository;
+  testCases: TestCaseRepository;
+  memberships: MembershipRepository;
+  suites: TestSuiteRepository;
+  stepGroups: StepGroupRepository;
+}
+
+function createRepositories(adapter?: StorageAdapter): IntegrityRepositories {
+  return {
+    catalogSteps: new CatalogRepository(adapter),
+    testCases: new TestCaseRepository(adapter),
+    memberships: new MembershipRepository(adapter),
+    suites: new TestSuiteRepository(adapter),
+    stepGroups: new StepGroupRepository(adapter),
+  };
+}
+
+export class IntegrityService {
+  private readonly catalogSteps: CatalogRepository;
+  private readonly testCases: TestCaseRepository;
+  private readonly memberships: MembershipRepository;
+  private readonly suites: TestSuiteRepository;
+  private readonly stepGroups: StepGroupRepository;
+
+  constructor(private readonly adapter?: StorageAdapter) {
+    this.catalogSteps = new CatalogRepository(adapter);
+    this.testCases = new TestCaseRepository(adapter);
+    this.memberships = new MembershipRepository(adapter);
+    this.suites = new TestSuiteRepository(adapter);
+    this.stepGroups = new StepGroupRepository(adapter);
+  }
+
+  async check(): Promise<IntegrityReport> {
+    const data = await this.load();
+    return {
+      issues: scanIntegrity(data),
+      checkedAt: new Date(),
+      totals: {
+        catalogSteps: data.catalogSteps.length,
+        testCases: data.testCases.length,
+        memberships: data.memberships.length,
+      },
+    };
+  }
+
+  async repair(policy: CatalogStepDeletePolicy): Promise<Result<RepairPlan>> {
+    try {
+      const data = await this.load();
+      const plan = planRepair(data, policy);
+      const originals = new Map(data.memberships.map(m => [m.id, m]));
+
+      for (const step of plan.createCatalogSteps) {
+        await this.catalogSteps.create(step);
+      }
+
+      for (const id of plan.deleteMembershipIds) {
+        await this.memberships.delete(id);
+      }
+
+      // Repoint first with the original order so the bulk reorder below can
+      // move rows without tripping UQ_TestCase_ProcessOrder.
+      for (const membership of plan.updateMemberships) {
+        const original = originals.get(membership.id)!;
+        if (membership.catalogStepId !== original.catalogStepId) {
+          await this.memberships.update({ ...membership, processOrder: original.processOrder });
+        }
+      }
+
+      const reorders = plan.updateMemberships
+        .filter(m => m.processOrder !== originals.get(m.id)!.processOrder)
+        .map(({ id, processOrder }) => ({ id, processOrder }));
+      if (reorders.length > 0) {
+        await this.memberships.bulkUpdateOrders(reorders);
+      }
+
+      if (plan.updateSuites.length > 0) {
+        await this.suites.updateMany(plan.updateSuites.map(({ id, testCaseIds }) => ({ id, testCaseIds })));
+      }
+
+      if (plan.updateStepGroups.length > 0) {
+        await this.stepGroups.updateMany(
+          plan.updateStepGroups.map(({ id, catalogStepIds }) => ({ id, catalogStepIds }))
+        );
+      }
+
+      return { success: true, data: plan };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Repair failed' };
+    }
+  }
+
+  async deleteCatalogStep(stepId: string, policy: CatalogStepDeletePolicy): Promise<Result<DeleteOutcome>> {
+    try {
+      return await this.cascade(async ({ catalogSteps, memberships, stepGroups }) => {
+        const step = await catalogSteps.findById(stepId);
+        if (!step) {
+          return { success: false, error: `Catalog step ${stepId} not found` };
+        }
+
+        const effectivePolicy = stepId === PLACEHOLDER_STEP_ID && policy === 'placeholder' ? 'restrict' : policy;
+        const usages = await memberships.findByCatalogStep(stepId);
+        let removedMemberships = 0;
+        let reassignedMemberships = 0;
+
+        if (usages.length > 0) {
+          if (effectivePolicy === 'restrict') {
+            const testCaseCount = new Set(usages.map(m => m.testCaseId)).size;
+            return {
+              success: false,
+              error: `"${step.name}" is used by ${testCaseCount} test case(s). Remove it from those test cases first or change the delete policy.`,
+            };
+          }
+
+          if (effectivePolicy === 'cascade') {
+            removedMemberships = await memberships.deleteByCatalogStep(stepId);
+          } else {
+            if (!(await catalogSteps.exists(PLACEHOLDER_STEP_ID))) {
+              await catalogSteps.create(createPlaceholderStep());
+            }
+            for (const membership of usages) {
+              await memberships.update({ ...membership, catalogStepId: PLACEHOLDER_STEP_ID });
+            }
+            reassignedMemberships = usages.length;
+          }
+        }
+
+        const listedIn = removeFromStepGroups(await stepGroups.findByCatalogStep(stepId), new Set([stepId]));
+        if (listedIn.length > 0) {
+          await stepGroups.updateMany(listedIn.map(({ id, catalogStepIds }) => ({ id, catalogStepIds })));
+        }
+        await catalogSteps.delete(stepId);
+        return { success: true, data: { deletedId: stepId, removedMemberships, reassignedMemberships } };
+      });
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Delete failed' };
+    }
+  }
+
+  async deleteTestCase(testCaseId: string): Promise<Result<DeleteOutcome>> {
+    try {
+      return await this.cascade(async ({ testCases, memberships, suites }) => {
+        if (!(await testCases.exists(testCaseId))) {
+          return { success: false, error: `Test case ${testCaseId} not found` };
+        }
+
+        const removedMemberships = await memberships.deleteByTestCase(testCaseId);
+        const listedIn = removeFromSuites(await suites.findByTestCase(testCaseId), new Set([testCaseId]));
+        if (listedIn.length > 0) {
+          await suites.updateMany(listedIn.map(({ id, testCaseIds }) => ({ id, testCaseIds })));
+        }
+        await testCases.delete(testCaseId);
+        return { success: true, data: { deletedId: testCaseId, removedMemberships, reassignedMemberships: 0 } };
+      });
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Delete failed' };
+    }
+  }
+
+  // Each cascade runs in one transaction when the SQL adapter is active.
+  private async cascade<R>(work: (repositories: IntegrityRepositories) => Promise<R>): Promise<R> {
+    return runInStorageTransaction(this.adapter ?? getStorageAdapter(), adapter => work(createRepositories(adapter)));
+  }
+
+  private async load(): Promise<IntegrityData> {
+    const [catalogSteps, testCases, memberships, suites, stepGroups] = await Promise.all([
+      this.catalogSteps.findAll(),
+      this.testCases.findAll(),
+      this.memberships.findAll(),
+      this.suites.findAll(),
+      this.stepGroups.findAll(),
+    ]);
+    return { catalogSteps, testCases, memberships, suites, stepGroups };
+  }
+}
+
+export const integrityService = new IntegrityService();
@@ -0,0 +1,185 @@
+import { dbService } from './db-service';
+import { PreparedStatement, SqlDialect, TransactionContext } from './db-types';
+import { MIGRATIONS, Migration, getMigrationStatements } from './db-migrations';
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  appliedAt: Date;
+}
+
+export interface MigrationStatus {
+  currentVersion: number;
+  applied: AppliedMigration[];
+  pending: Migration[];
+}
+
+export interface MigrationRunResult {
+  success: boolean;
+  versions: number[];
+  currentVersion: number;
+  error?: string;
+}
+
+const VERSION_TABLE_COLUMNS = `(
+        Version INT NOT NULL PRIMARY KEY,
+        Name NVARCHAR(255) NOT NULL,
+        AppliedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE()
+    )`;
+
+function createVersionTable(dialect: SqlDialect): string {
+  return dialect === 'sqlserver'
+    ? `IF OBJECT_ID(N'SchemaVersions', N'U') IS NULL CREATE TABLE SchemaVersions ${VERSION_TABLE_COLUMNS}`
+    : `CREATE TABLE IF NOT EXISTS SchemaVersions ${VERSION_TABLE_COLUMNS}`;
+}
+
+function tableExists(dialect: SqlDialect): string {
+  return dialect === 'sqlite'
+    ? `SELECT COUNT(*) AS Total FROM sqlite_master WHERE type = 'table' AND name = @tableName`
+    : `SELECT COUNT(*) AS Total FROM INFORMATION_SCHEMA.TABLES WHERE TABLE_NAME = @tableName`;
+}
+
+const recordVersion = (migration: Migration): PreparedStatement => ({
+  query: `INSERT INTO SchemaVersions (Version, Name, AppliedAt) VALUES (@version, @name, GETUTCDATE())`,
+  parameters: { version: migration.version, name: migration.name },
+});
+
+const removeVersion = (migration: Migration): PreparedStatement => ({
+  query: `DELETE FROM SchemaVersions WHERE Version = @version`,
+  parameters: { version: migration.version },
+});
+
+export class MigrationRunner {
+  constructor(private readonly migrations: Migration[] = MIGRATIONS) {}
+
+  async getStatus(): Promise<MigrationStatus> {
+    const applied = await dbService.runInTransaction(async tx => {
+      await this.ensureVersionTable(tx);
+      return this.readApplied(tx);
+    });
+    return this.toStatus(applied);
+  }
+
+  // Pending migrations run in one transaction: either all of them are
+  // applied and recorded in SchemaVersions, or none are.
+  async migrate(targetVersion?: number): Promise<MigrationRunResult> {
+    const versions: number[] = [];
+
+    try {
+      const applied = await dbService.runInTransaction(async tx => {
+        const dialect = await this.ensureVersionTable(tx);
+        const status = this.toStatus(await this.readApplied(tx));
+        const pending = status.pending.filter(m => targetVersion === undefined || m.version <= targetVersion);
+
+        for (const migration of pending) {
+          await this.runStatements(tx, getMigrationStatements(migration, 'up', dialect), migration);
+          await tx.execute(recordVersion(migration));
+          versions.push(migration.version);
+        }
+
+        return this.readApplied(tx);
+      });
+
+      return { success: true, versions, currentVersion: this.toStatus(applied).currentVersion };
+    } catch (error) {
+      return this.failure(error, 'Migration failed');
+    }
+  }
+
+  async rollback(targetVersion: number): Promise<MigrationRunResult> {
+    const versions: number[] = [];
+
+    try {
+      const applied = await dbService.runInTransaction(async tx => {
+        const dialect = await this.ensureVersionTable(tx);
+        const appliedVersions = new Set((await this.readApplied(tx)).map(m => m.version));
+        const toRevert = this.migrations
+          .filter(m => m.version > targetVersion && appliedVersions.has(m.version))
+          .sort((a, b) => b.version - a.version);
+
+        for (const migration of toRevert) {
+          await this.runStatements(tx, getMigrationStatements(migration, 'down', dialect), migration);
+          await tx.execute(removeVersion(migration));
+          versions.push(migration.version);
+        }
+
+        return this.readApplied(tx);
+      });
+
+      return { success: true, versions, currentVersion: this.toStatus(applied).currentVersion };
+    } catch (error) {
+      return this.failure(error, 'Rollback failed');
+    }
+  }
+
+  private async runStatements(tx: TransactionContext, statements: string[], migration: Migration): Promise<void> {
+    for (const query of statements) {
+      try {
+        await tx.execute({ query, parameters: {} });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Statement failed';
+        throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${message}`);
+      }
+    }
+  }
+
+  // Databases created before migrations existed have the original tables but
+  // no SchemaVersions rows. They are baselined at version 1.
+  private async ensureVersionTable(tx: TransactionContext): Promise<SqlDialect> {
+    const { dialect } = await dbService.getDriver();
+    await tx.execute({ query: createVersionTable(dialect), parameters: {} });
+
+    const existing = await tx.execute<Array<{ Total: number }>>({
+      query: 'SELECT COUNT(*) AS Total FROM SchemaVersions',
+      parameters: {},
+    });
+    if (Number(existing.data[0]?.Total ?? 0) > 0) {
+      return dialect;
+    }
+
+    const legacyTables = await tx.execute<Array<{ Total: number }>>({
+      query: tableExists(dialect),
+      parameters: { tableName: 'CatalogSteps' },
+    });
+    const baseline = this.migrations.find(m => m.version === 1);
+    if (baseline && Number(legacyTables.data[0]?.Total ?? 0) > 0) {
+      await tx.execute(recordVersion(baseline));
+    }
+
+    return dialect;
+  }
+
+  private async readApplied(tx: TransactionContext): Promise<AppliedMigration[]> {
+    const result = await tx.execute<Array<{ Version: number; Name: string; AppliedAt: string }>>({
+      query: 'SELECT Version, Name, AppliedAt FROM SchemaVersions ORDER BY Version ASC',
+      parameters: {},
+    });
+    return result.data.map(row => ({
+      version: Number(row.Version),
+      name: row.Name,
+      appliedAt: new Date(row.AppliedAt),
+    }));
+  }
+
+  private toStatus(applied: AppliedMigration[]): MigrationStatus {
+    const appliedVersions = new Set(applied.map(m => m.version));
+    return {
+      currentVersion: applied.reduce((max, m) => Math.max(max, m.version), 0),
+      applied,
+      pending: this.migrations
+        .filter(m => !appliedVersions.has(m.version))
+        .sort((a, b) => a.version - b.version),
+    };
+  }
+
+  private failure(error: unknown, fallback: string): MigrationRunResult {
+    return {
+      success: false,
+      versions: [],
+      currentVersion: -1,
+      error: error instanceof Error ? error.message : fallback,
+    };
+  }
+}
+
+export const migrationRunner = new MigrationRunner();
@@ -0,0 +1,127 @@
+import {
+  DatabaseConnection,
+  DatabaseDriver,
+  DriverResult,
+  ExecuteOptions,
+  PreparedStatement,
+  ResultSet,
+  SqlDialect,
+  TransactionOptions,
+} from './db-types';
+import { renderStatement } from './sql-dialect';
+import { credentialVault } from './credential-vault';
+
+export const DEFAULT_PROXY_URL = 'http://localhost:5055';
+
+interface ProxyResponse<T> {
+  data?: T;
+  rowCount?: number;
+  resultSets?: ResultSet[];
+  rowsAffected?: number[];
+  plan?: string;
+  error?: string;
+}
+
+export class MssqlProxyDriver implements DatabaseDriver {
+  readonly type = 'mssql-proxy' as const;
+  private connection: DatabaseConnection | null = null;
+  private password: string | undefined;
+
+  constructor(private readonly proxyUrl: string = DEFAULT_PROXY_URL) {}
+
+  get dialect(): SqlDialect {
+    return this.connection?.dialect ?? 'sqlserver';
+  }
+
+  async connect(connection: DatabaseConnection | null): Promise<void> {
+    if (!connection) {
+      throw new Error('SQL Server proxy requires a connection configuration');
+    }
+    if (connection.dialect === 'sqlite') {
+      throw new Error('SQLite databases run in the embedded driver, not through the proxy');
+    }
+    this.password =
+      connection.credentialSource === 'encrypted' && connection.encryptedPassword
+        ? await credentialVault.decrypt(connection.encryptedPassword)
+        : undefined;
+    this.connection = connection;
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.connection) {
+      await this.post('/disconnect', {}).catch(() => undefined);
+    }
+    this.connection = null;
+    this.password = undefined;
+  }
+
+  // Aborting the request makes the proxy cancel the running statement.
+  async execute<T = any>(statement: PreparedStatement, options: ExecuteOptions = {}): Promise<DriverResult<T>> {
+    const response = await this.post<T>('/query', this.render(statement), options.signal);
+
+    return {
+      data: (response.data ?? []) as T,
+      rowCount: response.rowCount ?? 0,
+      resultSets: response.resultSets,
+      rowsAffected: response.rowsAffected,
+    };
+  }
+
+  async explain(statement: PreparedStatement): Promise<string> {
+    const response = await this.post('/explain', this.render(statement));
+    return response.plan ?? '';
+  }
+
+  async beginTransaction(options: TransactionOptions): Promise<void> {
+    await this.post('/transaction/begin', { isolationLevel: options.isolationLevel });
+  }
+
+  async commitTransaction(): Promise<void> {
+    await this.post('/transaction/commit', {});
+  }
+
+  async rollbackTransaction(): Promise<void> {
+    await this.post('/transaction/rollback', {});
+  }
+
+  async createSavepoint(name: string): Promise<void> {
+    await this.post('/transaction/savepoint', { name });
+  }
+
+  async rollbackToSavepoint(name: string): Promise<void> {
+    await this.post('/transaction/rollback', { savepoint: name });
+  }
+
+  private render(statement: PreparedStatement): Record<string, any> {
+    const rendered = renderStatement(statement, this.dialect);
+    return {
+      query: rendered.query,
+      parameters: rendered.parameters,
+      types: rendered.types,
+      values: rendered.values,
+    };
+  }
+
+  private async post<T>(path: string, body: Record<string, any>, signal?: AbortSignal): Promise<ProxyResponse<T>> {
+    if (!this.connection) {
+      throw new Error('SQL Server proxy is not connected');
+    }
+    const { id, name, isActive, createdAt, lastConnected, encryptedPassword, passwordEnvVar, ...config } = this.connection;
+    const credentials =
+      config.credentialSource === 'environment' ? { passwordEnvVar } : { password: this.password };
+
+    const response = await fetch(`${this.proxyUrl.replace(/\/$/, '')}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ connectionId: id, connection: { ...config, ...credentials }, ...body }),
+      signal,
+    });
+
+    const payload = (await response.json().catch(() => ({}))) as ProxyResponse<T>;
+    if (!response.ok || payload.error) {
+      throw new Error(payload.error || `Proxy request failed with status ${response.status}`);
+    }
+
+    return payload;
+  }
+}
@@ -0,0 +1,76 @@
+import { FilterOptions, PageOptions, PaginatedResult, SortOptions } from '@/models/common.model';
+
+function compareValues(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === undefined || a === null) return 1;
+  if (b === undefined || b === null) return -1;
+  if (a instanceof Date || b instanceof Date) {
+    return new Date(a as Date).getTime() - new Date(b as Date).getTime();
+  }
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  return String(a).localeCompare(String(b));
+}
+
+export function sortItems<T>(items: T[], sort: SortOptions[] = []): T[] {
+  if (sort.length === 0) return items;
+
+  return [...items].sort((a, b) => {
+    for (const { field, direction } of sort) {
+      const result = compareValues((a as Record<string, unknown>)[field], (b as Record<string, unknown>)[field]);
+      if (result !== 0) {
+        return direction === 'desc' ? -result : result;
+      }
+    }
+    return 0;
+  });
+}
+
+export function matchesSearch<T>(item: T, query: string, fields?: string[]): boolean {
+  const term = query.trim().toLowerCase();
+  if (!term) return true;
+
+  const record = item as Record<string, unknown>;
+  const searchFields = fields && fields.length > 0 ? fields : Object.keys(record);
+
+  return searchFields.some(field => {
+    const value = record[field];
+    if (Array.isArray(value)) {
+      return value.some(entry => String(entry).toLowerCase().includes(term));
+    }
+    return typeof value === 'string' && value.toLowerCase().includes(term);
+  });
+}
+
+export function matchesFilters<T>(item: T, filters: FilterOptions[] = []): boolean {
+  const record = item as Record<string, unknown>;
+  return filters.every(({ field, values }) => values.includes((record[field] as string | undefined) ?? null));
+}
+
+export function getPageBounds(options: PageOptions, total: number): { offset: number; fetch: number } {
+  const offset = (Math.max(options.page, 1) - 1) * options.pageSize;
+  return { offset, fetch: Math.max(0, Math.min(options.pageSize, total - offset)) };
+}
+
+export function paginate<T>(items: T[], options: PageOptions): PaginatedResult<T> {
+  const { search, filters } = options;
+  let matches = items.filter(
+    item => matchesFilters(item, filters) && (!search || matchesSearch(item, search.query, search.fields))
+  );
+  matches = sortItems(matches, options.sort);
+
+  if (search?.limit !== undefined) {
+    matches = matches.slice(0, search.limit);
+  }
+
+  const { offset, fetch } = getPageBounds(options, matches.length);
+
+  return {
+    items: matches.slice(offset, offset + fetch),
+    total: matches.length,
+    page: options.page,
+    pageSize: options.pageSize,
+    hasMore: offset + fetch < matches.length,
+  };
+}
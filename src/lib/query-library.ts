@@ -0,0 +1,189 @@
+import { CatalogStepQueries, MembershipQueries, TestCaseQueries } from './db-service';
+import { ParameterInput, PARAMETER_KIND_LABELS } from './query-parameters';
+
+export interface SavedQuery {
+  id: string;
+  name: string;
+  folder: string;
+  description: string;
+  query: string;
+  parameters: Record<string, ParameterInput>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface QueryExecution {
+  id: string;
+  query: string;
+  parameters: Record<string, ParameterInput>;
+  connectionId?: string;
+  connectionName?: string;
+  executedAt: Date;
+  executionTime: number;
+  rowCount?: number;
+  success: boolean;
+  error?: string;
+}
+
+export interface QueryLibraryFile {
+  version: 1;
+  exportedAt: string;
+  queries: Array<Omit<SavedQuery, 'id' | 'createdAt' | 'updatedAt'>>;
+}
+
+export interface QueryLibraryImport {
+  queries: SavedQuery[];
+  added: number;
+  replaced: number;
+  errors: string[];
+}
+
+export const QUERY_HISTORY_LIMIT = 200;
+export const DEFAULT_FOLDER = 'Unfiled';
+
+export function createSavedQuery(
+  input: Pick<SavedQuery, 'name' | 'query'> & Partial<Pick<SavedQuery, 'folder' | 'description' | 'parameters'>>
+): SavedQuery {
+  const now = new Date();
+  return {
+    id: crypto.randomUUID(),
+    name: input.name.trim(),
+    folder: input.folder?.trim() || DEFAULT_FOLDER,
+    description: input.description?.trim() ?? '',
+    query: input.query,
+    parameters: input.parameters ?? {},
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// Seeds an empty library with the queries the Query tab used to hard-code.
+export function defaultSavedQueries(): SavedQuery[] {
+  const folder = 'Examples';
+  return [
+    createSavedQuery({ folder, name: 'Get All Catalog Steps', query: CatalogStepQueries.getAll().query }),
+    createSavedQuery({ folder, name: 'Get All Test Cases', query: TestCaseQueries.getAll().query }),
+    createSavedQuery({
+      folder,
+      name: 'Get Test Case With Steps',
+      query: TestCaseQueries.getWithSteps('').query,
+      parameters: { id: { kind: 'testCase', value: '' } },
+    }),
+    createSavedQuery({
+      folder,
+      name: 'Get Memberships by Test Case',
+      query: MembershipQueries.getByTestCase('').query,
+    }),
+  ];
+}
+
+export function groupByFolder(queries: SavedQuery[]): Array<{ folder: string; queries: SavedQuery[] }> {
+  const folders = new Map<string, SavedQuery[]>();
+  for (const query of queries) {
+    folders.set(query.folder, [...(folders.get(query.folder) ?? []), query]);
+  }
+  return [...folders.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([folder, entries]) => ({ folder, queries: [...entries].sort((a, b) => a.name.localeCompare(b.name)) }));
+}
+
+// A query saved under an existing folder and name replaces that entry but
+// keeps its id and creation date.
+export function upsertSavedQuery(queries: SavedQuery[], saved: SavedQuery): { queries: SavedQuery[]; replaced: boolean } {
+  const existing = queries.find(q => q.folder === saved.folder && q.name === saved.name);
+  if (!existing) {
+    return { queries: [...queries, saved], replaced: false };
+  }
+  const updated = { ...saved, id: existing.id, createdAt: existing.createdAt };
+  return { queries: queries.map(q => (q.id === existing.id ? updated : q)), replaced: true };
+}
+
+// Newest first, capped so the stored history does not grow without bound.
+export function recordExecution(
+  history: QueryExecution[],
+  execution: Omit<QueryExecution, 'id' | 'executedAt'>,
+  limit = QUERY_HISTORY_LIMIT
+): QueryExecution[] {
+  const entry: QueryExecution = { ...execution, id: crypto.randomUUID(), executedAt: new Date() };
+  return [entry, ...history].slice(0, limit);
+}
+
+export function exportQueryLibrary(queries: SavedQuery[]): QueryLibraryFile {
+  return {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    queries: queries.map(({ name, folder, description, query, parameters }) => ({
+      name,
+      folder,
+      description,
+      query,
+      parameters,
+    })),
+  };
+}
+
+function parseParameters(value: unknown, label: string, errors: string[]): Record<string, ParameterInput> {
+  if (value === undefined) return {};
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    errors.push(`${label}: parameters must be an object`);
+    return {};
+  }
+
+  const parameters: Record<string, ParameterInput> = {};
+  for (const [name, input] of Object.entries(value as Record<string, any>)) {
+    if (!Object.keys(PARAMETER_KIND_LABELS).includes(input?.kind)) {
+      errors.push(`${label}: parameter @${name} has an unknown type`);
+      continue;
+    }
+    parameters[name] = { kind: input.kind, value: typeof input.value === 'string' ? input.value : '' };
+  }
+  return parameters;
+}
+
+// Imported queries replace saved ones with the same folder and name, so a
+// shared library can be re-imported after it changes. Invalid entries are
+// skipped and reported.
+export function importQueryLibrary(existing: SavedQuery[], json: string): QueryLibraryImport {
+  let file: any;
+  try {
+    file = JSON.parse(json);
+  } catch {
+    return { queries: existing, added: 0, replaced: 0, errors: ['The file is not valid JSON'] };
+  }
+
+  const entries = Array.isArray(file) ? file : file?.queries;
+  if (!Array.isArray(entries)) {
+    return { queries: existing, added: 0, replaced: 0, errors: ['The file has no "queries" list'] };
+  }
+
+  let queries = existing;
+  const errors: string[] = [];
+  let added = 0;
+  let replaced = 0;
+
+  entries.forEach((entry: any, index: number) => {
+    const label = typeof entry?.name === 'string' && entry.name.trim() ? entry.name.trim() : `Query ${index + 1}`;
+    if (typeof entry?.name !== 'string' || !entry.name.trim() || typeof entry.query !== 'string' || !entry.query.trim()) {
+      errors.push(`${label}: a name and a query are required`);
+      return;
+    }
+
+    const imported = createSavedQuery({
+      name: entry.name,
+      folder: typeof entry.folder === 'string' ? entry.folder : undefined,
+      description: typeof entry.description === 'string' ? entry.description : undefined,
+      query: entry.query,
+      parameters: parseParameters(entry.parameters, label, errors),
+    });
+
+    const result = upsertSavedQuery(queries, imported);
+    queries = result.queries;
+    if (result.replaced) {
+      replaced++;
+    } else {
+      added++;
+    }
+  });
+
+  return { queries, added, replaced, errors };
+}
@@ -0,0 +1,132 @@
+import { ParameterDescriptor, PreparedStatement, SqlParameterType } from './db-types';
+import { SqlTypes } from './sql-parameters';
+
+// Lookups pick an existing test case or catalog step and bind its id.
+export type ParameterLookup = 'testCase' | 'catalogStep';
+
+export type ParameterInputKind = SqlParameterType | ParameterLookup;
+
+export interface ParameterInput {
+  kind: ParameterInputKind;
+  value: string;
+}
+
+export const PARAMETER_KIND_LABELS: Record<ParameterInputKind, string> = {
+  NVarChar: 'Text (NVARCHAR)',
+  Int: 'Whole number (INT)',
+  Decimal: 'Decimal (DECIMAL)',
+  Bit: 'Boolean (BIT)',
+  DateTime2: 'Date and time (DATETIME2)',
+  UniqueIdentifier: 'GUID (UNIQUEIDENTIFIER)',
+  testCase: 'Test case ID',
+  catalogStep: 'Catalog step ID',
+};
+
+// Comments and string literals are blanked out so `'@home'` and
+// `-- @todo` are not mistaken for parameters.
+function stripCommentsAndLiterals(query: string): string {
+  return query
+    .replace(/--[^\n]*/g, ' ')
+    .replace(/\/\*[\s\S]*?\*\//g, ' ')
+    .replace(/'(?:[^']|'')*'/g, "''");
+}
+
+// SQL Server compares parameter names case-insensitively.
+function parameterKey(name: string): string {
+  return name.toLowerCase();
+}
+
+// Returns the `@name` parameters a query expects, in order of first use.
+// System functions (@@ROWCOUNT) and variables the batch DECLAREs itself are
+// not parameters.
+export function detectParameters(query: string): string[] {
+  const code = stripCommentsAndLiterals(query);
+
+  const declared = new Set<string>();
+  for (const [, clause] of code.matchAll(/\bDECLARE\b([^;]*)/gi)) {
+    for (const [, name] of clause.matchAll(/@(\w+)\s+(?:AS\s+)?[A-Za-z]/gi)) {
+      declared.add(parameterKey(name));
+    }
+  }
+
+  const seen = new Set<string>();
+  const names: string[] = [];
+  for (const [, name] of code.matchAll(/(?<![@\w])@([A-Za-z_]\w*)/g)) {
+    const key = parameterKey(name);
+    if (!declared.has(key) && !seen.has(key)) {
+      seen.add(key);
+      names.push(name);
+    }
+  }
+  return names;
+}
+
+// The input entered for `name`, even if the query now spells it in a
+// different case. An exact match wins over a case-insensitive one.
+export function findParameterInput(inputs: Record<string, ParameterInput>, name: string): ParameterInput | undefined {
+  if (name in inputs) return inputs[name];
+  const key = parameterKey(name);
+  return Object.entries(inputs).find(([other]) => parameterKey(other) === key)?.[1];
+}
+
+export function guessParameterKind(name: string): ParameterInputKind {
+  if (/testcase.*id$/i.test(name)) return 'testCase';
+  if (/step.*id$/i.test(name)) return 'catalogStep';
+  if (/^(is|has)[A-Z_]|enabled$|active$/i.test(name)) return 'Bit';
+  if (/(order|count|version|offset|fetch|top|limit|index)$/i.test(name)) return 'Int';
+  if (/(amount|price|rate|total)$/i.test(name)) return 'Decimal';
+  if (/(date|time|[a-z]At|_at)$/.test(name)) return 'DateTime2';
+  return 'NVarChar';
+}
+
+export function descriptorForKind(kind: ParameterInputKind): ParameterDescriptor {
+  switch (kind) {
+    // App ids are readable strings such as step-<timestamp>, not GUIDs.
+    case 'testCase':
+    case 'catalogStep':
+      return SqlTypes.NVarChar(255);
+    case 'Decimal':
+      return SqlTypes.Decimal(18, 4);
+    case 'NVarChar':
+      return SqlTypes.NVarChar();
+    default:
+      return SqlTypes[kind]();
+  }
+}
+
+// Converts form text to the JS value the driver binds. An empty field is
+// NULL except for text, where it is an empty string. Text that does not
+// convert is passed through so validation can name the problem.
+export function parseParameterValue(text: string, kind: ParameterInputKind): any {
+  if (kind === 'NVarChar') return text;
+
+  const trimmed = text.trim();
+  if (trimmed === '') return null;
+
+  switch (kind) {
+    case 'Int':
+    case 'Decimal':
+      return Number.isNaN(Number(trimmed)) ? trimmed : Number(trimmed);
+    case 'Bit':
+      if (/^(true|1)$/i.test(trimmed)) return true;
+      if (/^(false|0)$/i.test(trimmed)) return false;
+      return trimmed;
+    default:
+      return trimmed;
+  }
+}
+
+// Every detected name is bound. Parameters the form has no input for yet are
+// bound as an empty field of their guessed type.
+export function bindParameters(query: string, inputs: Record<string, ParameterInput>): PreparedStatement {
+  const parameters: Record<string, any> = {};
+  const types: Record<string, ParameterDescriptor> = {};
+
+  for (const name of detectParameters(query)) {
+    const input = findParameterInput(inputs, name) ?? { kind: guessParameterKind(name), value: '' };
+    parameters[name] = parseParameterValue(input.value, input.kind);
+    types[name] = descriptorForKind(input.kind);
+  }
+
+  return { query, parameters, types };
+}
@@ -0,0 +1,227 @@
+import { SqlDialect } from './db-types';
+
+export interface PlanNode {
+  operation: string;
+  detail?: string;
+  estimatedRows?: number;
+  // The operator's own estimated cost, excluding its inputs.
+  cost?: number;
+  subtreeCost?: number;
+  // Own cost as a share of the statement's total, as SSMS shows it.
+  costPercent?: number;
+  children: PlanNode[];
+}
+
+export interface StatementPlan {
+  statement?: string;
+  totalCost?: number;
+  operators: PlanNode[];
+}
+
+export interface QueryPlan {
+  dialect: SqlDialect;
+  statements: StatementPlan[];
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+function ownCost(subtreeCost: number | undefined, children: PlanNode[]): number | undefined {
+  if (subtreeCost === undefined) return undefined;
+  const inputs = children.reduce((sum, child) => sum + (child.subtreeCost ?? 0), 0);
+  return Math.max(0, subtreeCost - inputs);
+}
+
+function withPercentages(plan: StatementPlan): StatementPlan {
+  const total = plan.totalCost;
+  const visit = (node: PlanNode): PlanNode => ({
+    ...node,
+    costPercent: total && node.cost !== undefined ? (node.cost / total) * 100 : undefined,
+    children: node.children.map(visit),
+  });
+  return { ...plan, operators: plan.operators.map(visit) };
+}
+
+// SQL Server: SHOWPLAN_XML
+
+function closestRelOp(element: Element | null): Element | null {
+  let current = element;
+  while (current && current.localName !== 'RelOp') {
+    current = current.parentElement;
+  }
+  return current;
+}
+
+// Elements that belong to `relOp` itself rather than to a nested operator.
+function ownDescendants(relOp: Element, localName: string): Element[] {
+  return Array.from(relOp.getElementsByTagNameNS('*', localName)).filter(
+    element => closestRelOp(element.parentElement) === relOp
+  );
+}
+
+function stripBrackets(name: string | null): string {
+  return (name ?? '').replace(/^\[|\]$/g, '');
+}
+
+function relOpNode(relOp: Element): PlanNode {
+  const children = ownDescendants(relOp, 'RelOp').map(relOpNode);
+  const subtreeCost = toNumber(relOp.getAttribute('EstimatedTotalSubtreeCost'));
+  const physical = relOp.getAttribute('PhysicalOp') ?? 'Operator';
+  const logical = relOp.getAttribute('LogicalOp');
+  const object = ownDescendants(relOp, 'Object')[0];
+  const objectName = object
+    ? [object.getAttribute('Table'), object.getAttribute('Index')].filter(Boolean).map(stripBrackets).join('.')
+    : '';
+
+  return {
+    operation: physical,
+    detail: [logical && logical !== physical ? logical : '', objectName].filter(Boolean).join(' · ') || undefined,
+    estimatedRows: toNumber(relOp.getAttribute('EstimateRows')),
+    subtreeCost,
+    cost: ownCost(subtreeCost, children),
+    children,
+  };
+}
+
+function parseShowplanXml(xml: string): StatementPlan[] {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The execution plan is not valid SHOWPLAN XML');
+  }
+
+  return Array.from(doc.getElementsByTagNameNS('*', 'StmtSimple')).map(statement => {
+    const top = statement.getElementsByTagNameNS('*', 'RelOp')[0];
+    const operators = top ? [relOpNode(top)] : [];
+    return {
+      statement: statement.getAttribute('StatementText')?.trim() || undefined,
+      totalCost: toNumber(statement.getAttribute('StatementSubTreeCost')) ?? operators[0]?.subtreeCost,
+      operators,
+    };
+  });
+}
+
+// PostgreSQL: EXPLAIN (FORMAT JSON)
+
+function postgresNode(plan: Record<string, any>): PlanNode {
+  const children = ((plan.Plans ?? []) as Record<string, any>[]).map(postgresNode);
+  const subtreeCost = toNumber(plan['Total Cost']);
+  const relation = plan['Relation Name'] ? `${plan['Relation Name']}${plan.Alias && plan.Alias !== plan['Relation Name'] ? ` ${plan.Alias}` : ''}` : '';
+
+  return {
+    operation: plan['Node Type'] ?? 'Operator',
+    detail: [relation, plan['Index Name']].filter(Boolean).join(' · ') || undefined,
+    estimatedRows: toNumber(plan['Plan Rows']),
+    subtreeCost,
+    cost: ownCost(subtreeCost, children),
+    children,
+  };
+}
+
+function parsePostgresPlan(json: string): StatementPlan[] {
+  const entries = JSON.parse(json) as Array<{ Plan: Record<string, any> }>;
+  return entries.map(entry => {
+    const root = postgresNode(entry.Plan);
+    return { totalCost: root.subtreeCost, operators: [root] };
+  });
+}
+
+// MySQL: EXPLAIN FORMAT=JSON
+
+const MYSQL_ACCESS_TYPES: Record<string, string> = {
+  ALL: 'Full Table Scan',
+  index: 'Full Index Scan',
+  range: 'Index Range Scan',
+  ref: 'Index Lookup',
+  eq_ref: 'Unique Index Lookup',
+  const: 'Constant Lookup',
+  system: 'Constant Lookup',
+};
+
+const MYSQL_OPERATIONS = new Set([
+  'table',
+  'nested_loop',
+  'ordering_operation',
+  'grouping_operation',
+  'duplicates_removal',
+  'union_result',
+  'query_specifications',
+  'query_block',
+  'materialized_from_subquery',
+  'attached_subqueries',
+]);
+
+function humanize(key: string): string {
+  return key.replace(/_/g, ' ').replace(/\b\w/g, letter => letter.toUpperCase());
+}
+
+function mysqlChildren(value: Record<string, any>): PlanNode[] {
+  return Object.entries(value).flatMap(([key, child]) => {
+    if (!MYSQL_OPERATIONS.has(key) || !child || typeof child !== 'object') return [];
+    if (Array.isArray(child)) {
+      return child.flatMap(item => (item && typeof item === 'object' ? mysqlChildren(item) : []));
+    }
+    return [mysqlNode(key, child)];
+  });
+}
+
+function mysqlNode(key: string, value: Record<string, any>): PlanNode {
+  const children = mysqlChildren(value);
+  const costInfo = value.cost_info ?? {};
+
+  if (key === 'table') {
+    const readCost = toNumber(costInfo.read_cost);
+    const evalCost = toNumber(costInfo.eval_cost);
+    return {
+      operation: MYSQL_ACCESS_TYPES[value.access_type] ?? humanize(value.access_type ?? 'table'),
+      detail: [value.table_name, value.key].filter(Boolean).join(' · ') || undefined,
+      estimatedRows: toNumber(value.rows_produced_per_join ?? value.rows_examined_per_scan),
+      cost: readCost === undefined && evalCost === undefined ? undefined : (readCost ?? 0) + (evalCost ?? 0),
+      subtreeCost: toNumber(costInfo.prefix_cost),
+      children,
+    };
+  }
+
+  return {
+    operation: humanize(key),
+    cost: toNumber(costInfo.sort_cost),
+    subtreeCost: toNumber(costInfo.query_cost),
+    children,
+  };
+}
+
+function parseMysqlPlan(json: string): StatementPlan[] {
+  const plan = JSON.parse(json) as { query_block: Record<string, any> };
+  const root = mysqlNode('query_block', plan.query_block);
+  return [{ totalCost: root.subtreeCost, operators: [root] }];
+}
+
+// SQLite: EXPLAIN QUERY PLAN
+
+interface SqlitePlanRow {
+  id: number;
+  parent: number;
+  detail: string;
+}
+
+// SQLite reports no costs, only the shape of the plan.
+function parseSqlitePlan(json: string): StatementPlan[] {
+  const statements = JSON.parse(json) as Array<{ statement: string; rows: SqlitePlanRow[] }>;
+  return statements.map(({ statement, rows }) => {
+    const build = (parent: number): PlanNode[] =>
+      rows.filter(row => row.parent === parent).map(row => ({ operation: row.detail, children: build(row.id) }));
+    return { statement, operators: build(0) };
+  });
+}
+
+export function parseQueryPlan(dialect: SqlDialect, raw: string): QueryPlan {
+  const parsers: Record<SqlDialect, (raw: string) => StatementPlan[]> = {
+    sqlserver: parseShowplanXml,
+    postgresql: parsePostgresPlan,
+    mysql: parseMysqlPlan,
+    sqlite: parseSqlitePlan,
+  };
+  return { dialect, statements: parsers[dialect](raw).map(withPercentages) };
+}
@@ -0,0 +1,144 @@
+import { PaginatedResult, SortOptions } from '@/models/common.model';
+import { QueryResult, ResultColumn, ResultSet } from './db-types';
+import { paginate } from './pagination';
+
+export type ColumnKind = 'number' | 'text' | 'date' | 'boolean' | 'binary';
+
+export interface GridColumn extends ResultColumn {
+  kind: ColumnKind;
+}
+
+export interface ResultGridView {
+  page: number;
+  pageSize: number;
+  sort?: SortOptions;
+  filter?: string;
+}
+
+const NUMBER_TYPES = /^(tinyint|smallint|int|integer|bigint|decimal|numeric|money|smallmoney|float|real|double)/i;
+const DATE_TYPES = /^(date|datetime|datetime2|smalldatetime|datetimeoffset|time|timestamp)/i;
+const BOOLEAN_TYPES = /^(bit|bool|boolean)$/i;
+const BINARY_TYPES = /^(binary|varbinary|image|blob|bytea)/i;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+function kindOfType(type: string): ColumnKind {
+  if (NUMBER_TYPES.test(type)) return 'number';
+  if (DATE_TYPES.test(type)) return 'date';
+  if (BOOLEAN_TYPES.test(type)) return 'boolean';
+  if (BINARY_TYPES.test(type)) return 'binary';
+  return 'text';
+}
+
+// Buffers arrive from the proxy serialized as { type: 'Buffer', data: [...] }.
+function binaryBytes(value: unknown): number[] | null {
+  if (value instanceof Uint8Array) return Array.from(value);
+  if (value && typeof value === 'object' && (value as any).type === 'Buffer' && Array.isArray((value as any).data)) {
+    return (value as any).data;
+  }
+  return null;
+}
+
+function kindOfValue(value: unknown): ColumnKind {
+  if (typeof value === 'number' || typeof value === 'bigint') return 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  if (value instanceof Date) return 'date';
+  if (binaryBytes(value)) return 'binary';
+  if (typeof value === 'string' && ISO_DATE.test(value)) return 'date';
+  return 'text';
+}
+
+// SQLite, PostgreSQL and MySQL results carry no declared types, so those
+// columns are typed from their first non-null value.
+export function describeColumns(resultSet: ResultSet): GridColumn[] {
+  return resultSet.columns.map(column => {
+    if (column.type) {
+      return { ...column, kind: kindOfType(column.type) };
+    }
+    const sample = resultSet.rows.find(row => row[column.name] !== null && row[column.name] !== undefined);
+    return { ...column, kind: sample ? kindOfValue(sample[column.name]) : 'text' };
+  });
+}
+
+// Drivers that predate result sets only return `data`; it is treated as a
+// single result set with the columns of its first row.
+export function resultSetsOf(result: QueryResult): ResultSet[] {
+  if (result.resultSets) return result.resultSets;
+  if (!Array.isArray(result.data) || result.data.length === 0) return [];
+  return [{ columns: Object.keys(result.data[0]).map(name => ({ name })), rows: result.data }];
+}
+
+export function formatCell(value: unknown, kind: ColumnKind): string {
+  if (value === null || value === undefined) return 'NULL';
+
+  const bytes = kind === 'binary' ? binaryBytes(value) : null;
+  if (bytes) {
+    return `0x${bytes.map(byte => byte.toString(16).padStart(2, '0')).join('').toUpperCase()}`;
+  }
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function sortValue(value: unknown, kind: ColumnKind): number | string | null {
+  if (value === null || value === undefined) return null;
+  switch (kind) {
+    case 'number':
+    case 'boolean':
+      return Number(value);
+    case 'date':
+      return new Date(value as string).getTime();
+    default:
+      return formatCell(value, kind);
+  }
+}
+
+export function sortRows(rows: Record<string, any>[], columns: GridColumn[], sort?: SortOptions): Record<string, any>[] {
+  const column = sort && columns.find(c => c.name === sort.field);
+  if (!sort || !column) return rows;
+
+  const keyed = rows.map(row => ({ row, key: sortValue(row[column.name], column.kind) }));
+  keyed.sort((a, b) => {
+    if (a.key === b.key) return 0;
+    if (a.key === null) return 1;
+    if (b.key === null) return -1;
+    const result = typeof a.key === 'number' && typeof b.key === 'number'
+      ? a.key - b.key
+      : String(a.key).localeCompare(String(b.key));
+    return sort.direction === 'desc' ? -result : result;
+  });
+  return keyed.map(entry => entry.row);
+}
+
+// Matches the text shown in the grid, so numbers, dates and NULL can be
+// filtered the same way as strings.
+export function filterRows(rows: Record<string, any>[], columns: GridColumn[], filter?: string): Record<string, any>[] {
+  const term = filter?.trim().toLowerCase();
+  if (!term) return rows;
+  return rows.filter(row =>
+    columns.some(column => formatCell(row[column.name], column.kind).toLowerCase().includes(term))
+  );
+}
+
+export function viewResultSet(
+  resultSet: ResultSet,
+  columns: GridColumn[],
+  view: ResultGridView
+): PaginatedResult<Record<string, any>> {
+  const rows = sortRows(filterRows(resultSet.rows, columns, view.filter), columns, view.sort);
+  return paginate(rows, { page: view.page, pageSize: view.pageSize });
+}
+
+// Rows keep the column order of the result; binary values are exported as
+// hex and dates as ISO strings so CSV and JSON agree.
+export function toExportRows(rows: Record<string, any>[], columns: GridColumn[]): Record<string, any>[] {
+  return rows.map(row =>
+    Object.fromEntries(
+      columns.map(column => {
+        const value = row[column.name];
+        if (value === null || value === undefined) return [column.name, null];
+        if (column.kind === 'binary' || value instanceof Date) return [column.name, formatCell(value, column.kind)];
+        return [column.name, value];
+      })
+    )
+  );
+}
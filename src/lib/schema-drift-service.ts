@@ -0,0 +1,308 @@
+import { ColumnDefinition, SqlDialect, TableSchema } from './db-types';
+import { CREATE_TABLE_STATEMENTS, SQL_SERVER_SCHEMA } from './db-schema';
+import { dbService } from './db-service';
+import { translateQuery } from './sql-dialect';
+import { TableColumn, TableIndex, TableSchemaInfo, tableSchemaService } from './table-schema-service';
+
+export type SchemaDriftType =
+  | 'missing-table'
+  | 'missing-column'
+  | 'unexpected-column'
+  | 'type-mismatch'
+  | 'nullability-mismatch'
+  | 'missing-index'
+  | 'index-mismatch'
+  | 'unexpected-index';
+
+export interface SchemaDrift {
+  type: SchemaDriftType;
+  tableName: string;
+  objectName?: string;
+  expected?: string;
+  actual?: string;
+  message: string;
+  statement: string;
+}
+
+export interface SchemaDriftReport {
+  dialect: SqlDialect;
+  drifts: SchemaDrift[];
+  tablesChecked: string[];
+  checkedAt: Date;
+  alterScript: string;
+}
+
+export interface DeclaredIndex {
+  indexName: string;
+  tableName: string;
+  columns: string[];
+}
+
+export interface ColumnType {
+  dataType: string;
+  maxLength?: number;
+}
+
+const INDEX_PATTERN = /CREATE\s+(?:UNIQUE\s+)?(?:NONCLUSTERED\s+)?INDEX\s+(\w+)\s+ON\s+(\w+)\s*\(([^)]+)\)/gi;
+
+export function getDeclaredIndexes(): DeclaredIndex[] {
+  const script = Object.values(CREATE_TABLE_STATEMENTS).join('\n');
+  return Array.from(script.matchAll(INDEX_PATTERN), match => ({
+    indexName: match[1],
+    tableName: match[2],
+    columns: match[3].split(',').map(column => column.trim().replace(/\s+(ASC|DESC)$/i, '')),
+  }));
+}
+
+export function parseColumnType(type: string): ColumnType {
+  const match = type.trim().match(/^(\w+)\s*(?:\(\s*(\w+)\s*\))?$/);
+  if (!match) {
+    return { dataType: type.trim().toLowerCase() };
+  }
+  const length = match[2];
+  return {
+    dataType: match[1].toLowerCase(),
+    maxLength: length === undefined ? undefined : /^max$/i.test(length) ? -1 : Number(length),
+  };
+}
+
+// Only character types carry a length worth comparing; INFORMATION_SCHEMA
+// reports NULL for everything else.
+const LENGTH_TYPES = new Set(['char', 'nchar', 'varchar', 'nvarchar', 'binary', 'varbinary']);
+
+// PostgreSQL reports the SQL standard spelling of its type names.
+const DATA_TYPE_ALIASES: Record<string, string> = {
+  'character varying': 'varchar',
+  character: 'char',
+  integer: 'int',
+  'timestamp without time zone': 'timestamp',
+};
+
+function normalizeDataType(dataType: string): string {
+  const lower = dataType.toLowerCase();
+  return DATA_TYPE_ALIASES[lower] ?? lower;
+}
+
+function actualType(column: TableColumn): ColumnType {
+  return { dataType: normalizeDataType(column.dataType), maxLength: column.maxLength };
+}
+
+function formatType({ dataType, maxLength }: ColumnType): string {
+  if (!LENGTH_TYPES.has(dataType) || maxLength === undefined || maxLength === null) {
+    return dataType;
+  }
+  return `${dataType}(${maxLength === -1 ? 'MAX' : maxLength})`;
+}
+
+function sameType(expected: ColumnType, actual: ColumnType): boolean {
+  if (expected.dataType !== actual.dataType) return false;
+  if (!LENGTH_TYPES.has(expected.dataType)) return true;
+  return (expected.maxLength ?? null) === (actual.maxLength ?? null);
+}
+
+// Missing columns are added with the definition from CREATE_TABLE_STATEMENTS
+// so NOT NULL columns keep their defaults and can be added to populated tables.
+function declaredColumnDefinition(tableName: string, column: ColumnDefinition): string {
+  const statement = (CREATE_TABLE_STATEMENTS as Record<string, string>)[tableName] ?? '';
+  const line = statement.split('\n').find(l => new RegExp(`^\\s*${column.name}\\s+`).test(l));
+  if (line) {
+    return line.trim().replace(/,$/, '');
+  }
+  return `${column.name} ${column.type} ${column.nullable ? 'NULL' : 'NOT NULL'}`;
+}
+
+function alterColumn(tableName: string, column: ColumnDefinition, dialect: SqlDialect): string {
+  const nullability = column.nullable ? 'NULL' : 'NOT NULL';
+  switch (dialect) {
+    case 'postgresql':
+      return translateQuery(
+        `ALTER TABLE ${tableName} ALTER COLUMN ${column.name} TYPE ${column.type}, ` +
+          `ALTER COLUMN ${column.name} ${column.nullable ? 'DROP' : 'SET'} NOT NULL;`,
+        dialect
+      );
+    case 'mysql':
+      return translateQuery(`ALTER TABLE ${tableName} MODIFY COLUMN ${column.name} ${column.type} ${nullability};`, dialect);
+    case 'sqlite':
+      return `-- SQLite cannot alter columns in place: rebuild ${tableName} to change ${column.name} to ${column.type} ${nullability}`;
+    default:
+      return `ALTER TABLE ${tableName} ALTER COLUMN ${column.name} ${column.type} ${nullability};`;
+  }
+}
+
+function dropIndex(indexName: string, tableName: string, dialect: SqlDialect): string {
+  const statement =
+    dialect === 'postgresql' || dialect === 'sqlite'
+      ? `DROP INDEX ${indexName};`
+      : `DROP INDEX ${indexName} ON ${tableName};`;
+  return translateQuery(statement, dialect);
+}
+
+function createIndex(index: DeclaredIndex, dialect: SqlDialect): string {
+  return translateQuery(`CREATE INDEX ${index.indexName} ON ${index.tableName}(${index.columns.join(', ')});`, dialect);
+}
+
+export function detectTableDrift(
+  declared: TableSchema,
+  actual: TableSchemaInfo,
+  declaredIndexes: DeclaredIndex[],
+  actualIndexes: TableIndex[],
+  dialect: SqlDialect = 'sqlserver'
+): SchemaDrift[] {
+  const tableName = declared.tableName;
+  const sql = (statement: string) => translateQuery(statement, dialect);
+
+  if (actual.columns.length === 0) {
+    return [
+      {
+        type: 'missing-table',
+        tableName,
+        message: `Table ${tableName} does not exist`,
+        statement: sql(((CREATE_TABLE_STATEMENTS as Record<string, string>)[tableName] ?? '').trim()),
+      },
+    ];
+  }
+
+  const drifts: SchemaDrift[] = [];
+  const actualColumns = new Map(actual.columns.map(c => [c.columnName.toLowerCase(), c]));
+
+  for (const column of declared.columns) {
+    const existing = actualColumns.get(column.name.toLowerCase());
+    if (!existing) {
+      drifts.push({
+        type: 'missing-column',
+        tableName,
+        objectName: column.name,
+        expected: column.type,
+        message: `Column ${tableName}.${column.name} is missing`,
+        statement: sql(`ALTER TABLE ${tableName} ADD ${declaredColumnDefinition(tableName, column)};`),
+      });
+      continue;
+    }
+
+    const expectedType = parseColumnType(sql(column.type));
+    if (!sameType(expectedType, actualType(existing))) {
+      drifts.push({
+        type: 'type-mismatch',
+        tableName,
+        objectName: column.name,
+        expected: formatType(expectedType),
+        actual: formatType(actualType(existing)),
+        message: `Column ${tableName}.${column.name} has the wrong type`,
+        statement: alterColumn(tableName, column, dialect),
+      });
+    }
+
+    if (existing.isNullable !== column.nullable) {
+      drifts.push({
+        type: 'nullability-mismatch',
+        tableName,
+        objectName: column.name,
+        expected: column.nullable ? 'NULL' : 'NOT NULL',
+        actual: existing.isNullable ? 'NULL' : 'NOT NULL',
+        message: `Column ${tableName}.${column.name} has the wrong nullability`,
+        statement: alterColumn(tableName, column, dialect),
+      });
+    }
+  }
+
+  const declaredNames = new Set(declared.columns.map(c => c.name.toLowerCase()));
+  for (const column of actual.columns) {
+    if (!declaredNames.has(column.columnName.toLowerCase())) {
+      drifts.push({
+        type: 'unexpected-column',
+        tableName,
+        objectName: column.columnName,
+        actual: formatType(actualType(column)),
+        message: `Column ${tableName}.${column.columnName} is not declared in the schema`,
+        statement: `-- Review before dropping data: ${sql(`ALTER TABLE ${tableName} DROP COLUMN ${column.columnName};`)}`,
+      });
+    }
+  }
+
+  const existingIndexes = new Map(actualIndexes.map(i => [i.indexName.toLowerCase(), i]));
+  const tableIndexes = declaredIndexes.filter(i => i.tableName === tableName);
+
+  for (const index of tableIndexes) {
+    const existing = existingIndexes.get(index.indexName.toLowerCase());
+    if (!existing) {
+      drifts.push({
+        type: 'missing-index',
+        tableName,
+        objectName: index.indexName,
+        expected: index.columns.join(', '),
+        message: `Index ${index.indexName} is missing`,
+        statement: createIndex(index, dialect),
+      });
+      continue;
+    }
+
+    const sameColumns =
+      existing.columns.map(c => c.toLowerCase()).join(',') === index.columns.map(c => c.toLowerCase()).join(',');
+    if (!sameColumns) {
+      drifts.push({
+        type: 'index-mismatch',
+        tableName,
+        objectName: index.indexName,
+        expected: index.columns.join(', '),
+        actual: existing.columns.join(', '),
+        message: `Index ${index.indexName} covers the wrong columns`,
+        statement: `${dropIndex(index.indexName, tableName, dialect)}\n${createIndex(index, dialect)}`,
+      });
+    }
+  }
+
+  const declaredIndexNames = new Set(tableIndexes.map(i => i.indexName.toLowerCase()));
+  for (const index of actualIndexes) {
+    if (!declaredIndexNames.has(index.indexName.toLowerCase())) {
+      drifts.push({
+        type: 'unexpected-index',
+        tableName,
+        objectName: index.indexName,
+        actual: index.columns.join(', '),
+        message: `Index ${index.indexName} is not declared in the schema`,
+        statement: `-- Not declared: ${dropIndex(index.indexName, tableName, dialect)}`,
+      });
+    }
+  }
+
+  return drifts;
+}
+
+export function generateAlterScript(drifts: SchemaDrift[]): string {
+  const statements = Array.from(new Set(drifts.map(d => d.statement).filter(Boolean)));
+  return statements.join('\n');
+}
+
+export class SchemaDriftService {
+  async check(tableNames: string[] = Object.keys(SQL_SERVER_SCHEMA)): Promise<SchemaDriftReport> {
+    const { dialect } = await dbService.getDriver();
+    const declaredIndexes = getDeclaredIndexes();
+    const drifts: SchemaDrift[] = [];
+
+    for (const tableName of tableNames) {
+      const declared = SQL_SERVER_SCHEMA[tableName];
+      if (!declared) {
+        throw new Error(`Table ${tableName} is not declared in the schema`);
+      }
+
+      tableSchemaService.clearCache(tableName);
+      const actual = await tableSchemaService.introspectTable(tableName);
+      if (actual.source === 'fallback') {
+        throw new Error(`Could not introspect ${tableName} on the connected database`);
+      }
+
+      const actualIndexes = actual.columns.length > 0 ? await tableSchemaService.introspectIndexes(tableName) : [];
+      drifts.push(...detectTableDrift(declared, actual, declaredIndexes, actualIndexes, dialect));
+    }
+
+    return {
+      dialect,
+      drifts,
+      tablesChecked: tableNames,
+      checkedAt: new Date(),
+      alterScript: generateAlterScript(drifts),
+    };
+  }
+}
+
+export const schemaDriftService = new SchemaDriftService();
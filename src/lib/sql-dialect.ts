@@ -0,0 +1,171 @@
+import { DatabaseConnection, PreparedStatement, SqlDialect } from './db-types';
+
+export const SQL_DIALECT_LABELS: Record<SqlDialect, string> = {
+  sqlserver: 'SQL Server',
+  postgresql: 'PostgreSQL',
+  mysql: 'MySQL',
+  sqlite: 'SQLite',
+};
+
+export const DEFAULT_DIALECT_PORTS: Record<SqlDialect, number> = {
+  sqlserver: 1433,
+  postgresql: 5432,
+  mysql: 3306,
+  sqlite: 0,
+};
+
+export function getConnectionDialect(connection: DatabaseConnection): SqlDialect {
+  return connection.driver === 'embedded' ? 'sqlite' : connection.dialect ?? 'sqlserver';
+}
+
+export interface RenderedStatement extends PreparedStatement {
+  values: any[];
+}
+
+type Rewrite = [RegExp, string];
+
+interface DialectRules {
+  rewrites: Rewrite[];
+  useLimit: boolean;
+  quoteMixedCase: boolean;
+  placeholders: 'named' | 'numbered' | 'positional';
+}
+
+// Queries and DDL are written in T-SQL. Every other dialect is produced by
+// rewriting that source, so there is only one set of statements to maintain.
+// SQLite keeps GETUTCDATE() and NEWID() because the embedded engine registers
+// them as functions.
+const DIALECT_RULES: Record<SqlDialect, DialectRules> = {
+  sqlserver: {
+    rewrites: [],
+    useLimit: false,
+    quoteMixedCase: false,
+    placeholders: 'named',
+  },
+  sqlite: {
+    rewrites: [
+      [/N?VARCHAR\s*\(\s*MAX\s*\)/gi, 'TEXT'],
+      [/DEFAULT\s+(\w+\(\))/gi, 'DEFAULT ($1)'],
+    ],
+    useLimit: true,
+    quoteMixedCase: false,
+    placeholders: 'named',
+  },
+  postgresql: {
+    rewrites: [
+      [/N?VARCHAR\s*\(\s*MAX\s*\)/gi, 'TEXT'],
+      [/\bNVARCHAR\s*\(/gi, 'VARCHAR('],
+      [/\bUNIQUEIDENTIFIER\b/gi, 'UUID'],
+      [/\bDATETIME2\b/gi, 'TIMESTAMP'],
+      [/\bBIT\b/gi, 'BOOLEAN'],
+      [/\bGETUTCDATE\(\)/gi, "(NOW() AT TIME ZONE 'UTC')"],
+      [/\bGETDATE\(\)/gi, 'NOW()'],
+      [/\bNEWID\(\)/gi, 'gen_random_uuid()'],
+    ],
+    useLimit: true,
+    quoteMixedCase: true,
+    placeholders: 'numbered',
+  },
+  mysql: {
+    rewrites: [
+      [/N?VARCHAR\s*\(\s*MAX\s*\)/gi, 'LONGTEXT'],
+      [/\bNVARCHAR\s*\(/gi, 'VARCHAR('],
+      [/\bUNIQUEIDENTIFIER\b/gi, 'CHAR(36)'],
+      [/\bDATETIME2\b/gi, 'DATETIME(6)'],
+      [/\bBIT\b/gi, 'TINYINT(1)'],
+      [/\bGETUTCDATE\(\)/gi, 'UTC_TIMESTAMP(6)'],
+      [/\bGETDATE\(\)/gi, 'NOW(6)'],
+      [/\bNEWID\(\)/gi, 'UUID()'],
+      [/DEFAULT\s+(\w+\(\d*\))/gi, 'DEFAULT ($1)'],
+      [/CONSTRAINT\s+\w+\s+(?=DEFAULT\b)/gi, ''],
+    ],
+    useLimit: true,
+    quoteMixedCase: false,
+    placeholders: 'positional',
+  },
+};
+
+const STRING_LITERAL = /('(?:[^']|'')*')/;
+
+// Applies `transform` to the parts of the query outside string literals.
+function mapCode(query: string, transform: (code: string) => string): string {
+  return query
+    .split(STRING_LITERAL)
+    .map((part, index) => (index % 2 === 1 ? part : transform(part)))
+    .join('');
+}
+
+function rewriteLimits(query: string): string {
+  let translated = query.replace(
+    /OFFSET\s+(@\w+|\d+)\s+ROWS?\s+FETCH\s+(?:NEXT|FIRST)\s+(@\w+|\d+)\s+ROWS?\s+ONLY/gi,
+    'LIMIT $2 OFFSET $1'
+  );
+
+  const topMatch = translated.match(/SELECT\s+TOP\s*\(?\s*(@\w+|\d+)\s*\)?/i);
+  if (topMatch) {
+    translated = translated.replace(topMatch[0], 'SELECT');
+    translated = `${translated.trimEnd().replace(/;$/, '')}\nLIMIT ${topMatch[1]}`;
+  }
+
+  return translated;
+}
+
+// PostgreSQL folds unquoted identifiers to lower case. Tables, columns and
+// result aliases here are PascalCase or camelCase, so mixed-case words are
+// quoted to keep DDL, queries and result rows consistent.
+function quoteMixedCaseIdentifiers(code: string): string {
+  return code.replace(/(?<![@\w"[])([A-Za-z_]\w*)(?![\w"\]])/g, word =>
+    /[a-z]/.test(word) && /[A-Z]/.test(word) ? `"${word}"` : word
+  );
+}
+
+export function translateQuery(query: string, dialect: SqlDialect): string {
+  const rules = DIALECT_RULES[dialect];
+  let translated = mapCode(query, code =>
+    rules.rewrites.reduce((current, [pattern, replacement]) => current.replace(pattern, replacement), code)
+  );
+
+  if (rules.useLimit) {
+    translated = rewriteLimits(translated);
+  }
+  if (rules.quoteMixedCase) {
+    translated = mapCode(translated, quoteMixedCaseIdentifiers);
+  }
+
+  return translated;
+}
+
+export function renderStatement(statement: PreparedStatement, dialect: SqlDialect): RenderedStatement {
+  const rules = DIALECT_RULES[dialect];
+  const query = translateQuery(statement.query, dialect);
+
+  if (rules.placeholders === 'named') {
+    return { query, parameters: statement.parameters, types: statement.types, values: [] };
+  }
+
+  const values: any[] = [];
+  const positions = new Map<string, number>();
+
+  const rendered = mapCode(query, code =>
+    code.replace(/@(\w+)/g, (match, name: string) => {
+      if (!(name in statement.parameters)) {
+        return match;
+      }
+      if (rules.placeholders === 'positional') {
+        values.push(statement.parameters[name]);
+        return '?';
+      }
+      if (!positions.has(name)) {
+        values.push(statement.parameters[name]);
+        positions.set(name, values.length);
+      }
+      return `$${positions.get(name)}`;
+    })
+  );
+
+  return { query: rendered, parameters: statement.parameters, types: statement.types, values };
+}
+
+export function toSqliteDialect(query: string): string {
+  return translateQuery(query, 'sqlite');
+}
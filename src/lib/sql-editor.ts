@@ -0,0 +1,276 @@
+import { TableSchema } from './db-types';
+import { TableSchemaInfo } from './table-schema-service';
+import { detectParameters } from './query-parameters';
+
+export type SqlTokenType =
+  | 'keyword'
+  | 'identifier'
+  | 'parameter'
+  | 'string'
+  | 'number'
+  | 'comment'
+  | 'operator'
+  | 'punctuation'
+  | 'whitespace';
+
+export interface SqlToken {
+  type: SqlTokenType;
+  text: string;
+}
+
+export type CompletionKind = 'table' | 'column' | 'parameter' | 'keyword';
+
+export interface Completion {
+  label: string;
+  kind: CompletionKind;
+  detail?: string;
+}
+
+export interface CompletionColumn {
+  name: string;
+  type: string;
+}
+
+export type CompletionSchema = Record<string, CompletionColumn[]>;
+
+export const SQL_KEYWORDS = [
+  'ADD', 'ALL', 'ALTER', 'AND', 'AS', 'ASC', 'BEGIN', 'BETWEEN', 'BY', 'CASE', 'COLUMN', 'COMMIT', 'CONSTRAINT',
+  'CREATE', 'CROSS', 'DECLARE', 'DEFAULT', 'DELETE', 'DESC', 'DISTINCT', 'DROP', 'ELSE', 'END', 'EXEC', 'EXISTS',
+  'FETCH', 'FIRST', 'FOREIGN', 'FROM', 'FULL', 'GROUP', 'HAVING', 'IF', 'IN', 'INDEX', 'INNER', 'INSERT', 'INTO',
+  'IS', 'JOIN', 'KEY', 'LEFT', 'LIKE', 'MERGE', 'NEXT', 'NOT', 'NULL', 'OFFSET', 'ON', 'ONLY', 'OR', 'ORDER',
+  'OUTER', 'OVER', 'PARTITION', 'PRIMARY', 'REFERENCES', 'RIGHT', 'ROLLBACK', 'ROW', 'ROWS', 'SELECT', 'SET',
+  'TABLE', 'THEN', 'TOP', 'TRANSACTION', 'TRUNCATE', 'UNION', 'UNIQUE', 'UPDATE', 'VALUES', 'WHEN', 'WHERE', 'WITH',
+];
+
+// Built-in functions are highlighted as keywords but, like user functions,
+// take their argument list without a space.
+export const SQL_FUNCTIONS = [
+  'AVG', 'CAST', 'COALESCE', 'CONVERT', 'COUNT', 'DATEADD', 'DATEDIFF', 'GETDATE', 'GETUTCDATE', 'ISNULL', 'LEN',
+  'LOWER', 'MAX', 'MIN', 'NEWID', 'ROW_NUMBER', 'SUM', 'UPPER',
+];
+
+const KEYWORD_SET = new Set([...SQL_KEYWORDS, ...SQL_FUNCTIONS]);
+const FUNCTION_SET = new Set(SQL_FUNCTIONS);
+
+const TOKEN_PATTERNS: Array<[SqlTokenType, RegExp]> = [
+  ['whitespace', /^\s+/],
+  ['comment', /^(--[^\n]*|\/\*[\s\S]*?(\*\/|$))/],
+  ['string', /^N?'(?:[^']|'')*('|$)/i],
+  ['parameter', /^@@?\w+/],
+  ['identifier', /^(\[[^\]]*(\]|$)|"[^"]*("|$))/],
+  ['number', /^\d+(\.\d+)?/],
+  ['identifier', /^[A-Za-z_#][\w#$]*/],
+  ['operator', /^(<>|<=|>=|!=|[=<>+\-*/%])/],
+];
+
+// Every character of the query ends up in exactly one token, so joining
+// the tokens gives back the original text.
+export function tokenizeSql(query: string): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  let rest = query;
+
+  while (rest.length > 0) {
+    let matched: SqlToken | null = null;
+    for (const [type, pattern] of TOKEN_PATTERNS) {
+      const match = rest.match(pattern);
+      if (match) {
+        const text = match[0];
+        matched = { type: type === 'identifier' && KEYWORD_SET.has(text.toUpperCase()) ? 'keyword' : type, text };
+        break;
+      }
+    }
+    matched ??= { type: 'punctuation', text: rest[0] };
+    tokens.push(matched);
+    rest = rest.slice(matched.text.length);
+  }
+
+  return tokens;
+}
+
+const CLAUSES: string[][] = [
+  ['SELECT'], ['FROM'], ['WHERE'], ['GROUP', 'BY'], ['HAVING'], ['ORDER', 'BY'], ['UNION', 'ALL'], ['UNION'],
+  ['INSERT', 'INTO'], ['VALUES'], ['UPDATE'], ['SET'], ['DELETE'], ['OFFSET'], ['DECLARE'],
+  ['LEFT', 'OUTER', 'JOIN'], ['RIGHT', 'OUTER', 'JOIN'], ['FULL', 'OUTER', 'JOIN'],
+  ['INNER', 'JOIN'], ['LEFT', 'JOIN'], ['RIGHT', 'JOIN'], ['FULL', 'JOIN'], ['CROSS', 'JOIN'], ['JOIN'],
+];
+
+// Clauses whose comma-separated items go one per line.
+const LIST_CLAUSES = new Set(['SELECT', 'SET', 'GROUP BY', 'ORDER BY']);
+
+function clauseAt(tokens: SqlToken[], index: number): string[] | null {
+  for (const clause of CLAUSES) {
+    if (clause.every((word, offset) => tokens[index + offset]?.type === 'keyword' && tokens[index + offset].text.toUpperCase() === word)) {
+      return clause;
+    }
+  }
+  return null;
+}
+
+// Puts each clause on its own line, list items and AND/OR conditions on
+// indented lines, and upper-cases keywords. Literals, comments and
+// identifiers are kept as written.
+export function formatSql(query: string): string {
+  const tokens = tokenizeSql(query).filter(token => token.type !== 'whitespace');
+  const lines: string[] = [];
+  let line = '';
+  let depth = 0;
+  let clause = '';
+  let previous: SqlToken | null = null;
+
+  const newLine = (indent: number) => {
+    if (line.trim()) lines.push(line.trimEnd());
+    line = '  '.repeat(indent);
+    previous = null;
+  };
+
+  const append = (text: string, token: SqlToken) => {
+    const noSpace =
+      previous === null ||
+      /^[,;.)]$/.test(text) ||
+      previous.text === '(' ||
+      previous.text === '.' ||
+      (text === '(' && (previous.type === 'identifier' || FUNCTION_SET.has(previous.text.toUpperCase())) && clause !== 'INSERT INTO');
+    line += (noSpace ? '' : ' ') + text;
+    previous = token;
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const matchedClause = depth === 0 ? clauseAt(tokens, i) : null;
+
+    if (matchedClause) {
+      newLine(0);
+      clause = matchedClause.join(' ');
+      append(clause, token);
+      i += matchedClause.length - 1;
+      if (LIST_CLAUSES.has(clause)) newLine(1);
+      continue;
+    }
+
+    const upper = token.text.toUpperCase();
+    if (token.type === 'keyword' && depth === 0 && (upper === 'AND' || upper === 'OR') && clause !== 'SELECT') {
+      // BETWEEN x AND y stays on one line.
+      const between = tokens.slice(Math.max(0, i - 3), i).some(t => t.type === 'keyword' && t.text.toUpperCase() === 'BETWEEN');
+      if (!between) newLine(1);
+    }
+
+    if (token.text === '(') depth++;
+    if (token.text === ')') depth = Math.max(0, depth - 1);
+
+    append(token.type === 'keyword' ? upper : token.text, token);
+
+    if (token.text === ',' && depth === 0 && LIST_CLAUSES.has(clause)) {
+      newLine(1);
+    } else if (token.text === ';') {
+      newLine(0);
+      lines.push('');
+      clause = '';
+    } else if (token.type === 'comment' && token.text.startsWith('--')) {
+      newLine(clause ? 1 : 0);
+    }
+  }
+
+  newLine(0);
+  while (lines.length > 0 && lines[lines.length - 1] === '') lines.pop();
+  return lines.join('\n');
+}
+
+// Declared columns are replaced by the introspected ones for tables the
+// connected database could describe.
+export function buildCompletionSchema(
+  declared: Record<string, TableSchema>,
+  introspected: TableSchemaInfo[] = []
+): CompletionSchema {
+  const schema: CompletionSchema = {};
+  for (const [tableName, table] of Object.entries(declared)) {
+    schema[tableName] = table.columns.map(column => ({ name: column.name, type: column.type }));
+  }
+  for (const info of introspected) {
+    if (info.source === 'database' && info.columns.length > 0) {
+      schema[info.tableName] = info.columns.map(column => ({ name: column.columnName, type: column.dataType }));
+    }
+  }
+  return schema;
+}
+
+const TABLE_REFERENCE = /\b(?:FROM|JOIN|INTO|UPDATE)\s+(?:\[?dbo\]?\.)?\[?([A-Za-z_]\w*)\]?(?:\s+(?:AS\s+)?(?!(?:WHERE|ON|SET|INNER|LEFT|RIGHT|FULL|CROSS|JOIN|ORDER|GROUP|VALUES|WITH|OUTER)\b)([A-Za-z_]\w*))?/gi;
+
+// Maps table names and their aliases, lower-cased, to the table name as written.
+export function referencedTables(query: string): Map<string, string> {
+  const tables = new Map<string, string>();
+  for (const [, table, alias] of query.matchAll(TABLE_REFERENCE)) {
+    tables.set(table.toLowerCase(), table);
+    if (alias) tables.set(alias.toLowerCase(), table);
+  }
+  return tables;
+}
+
+function findTable(schema: CompletionSchema, name: string): string | undefined {
+  return Object.keys(schema).find(table => table.toLowerCase() === name.toLowerCase());
+}
+
+// The partial word before the cursor, including an `alias.` qualifier or a
+// leading `@`.
+export function wordBeforeCursor(query: string, cursor: number): string {
+  return query.slice(0, cursor).match(/[@\w.]*$/)![0];
+}
+
+export function getCompletions(query: string, cursor: number, schema: CompletionSchema, limit = 50): Completion[] {
+  const word = wordBeforeCursor(query, cursor);
+  const before = query.slice(0, cursor - word.length);
+  const matches = (label: string, prefix: string) => label.toLowerCase().startsWith(prefix.toLowerCase()) && label !== prefix;
+
+  if (word.startsWith('@')) {
+    const prefix = word.slice(1);
+    const others = query.slice(0, cursor - word.length) + query.slice(cursor);
+    return detectParameters(others)
+      .filter(name => matches(name, prefix))
+      .map(name => ({ label: `@${name}`, kind: 'parameter' as const }));
+  }
+
+  const tables = referencedTables(query);
+  const dot = word.lastIndexOf('.');
+  if (dot >= 0) {
+    const qualifier = word.slice(0, dot).split('.').pop()!;
+    const table = findTable(schema, tables.get(qualifier.toLowerCase()) ?? qualifier);
+    const prefix = word.slice(dot + 1);
+    return (table ? schema[table] : [])
+      .filter(column => prefix === '' || matches(column.name, prefix))
+      .map(column => ({ label: column.name, kind: 'column' as const, detail: column.type }))
+      .slice(0, limit);
+  }
+
+  const tableCompletions = Object.keys(schema)
+    .filter(table => matches(table, word))
+    .map(table => ({ label: table, kind: 'table' as const }));
+
+  if (/\b(FROM|JOIN|INTO|UPDATE|TABLE)\s+$/i.test(before)) {
+    return tableCompletions.slice(0, limit);
+  }
+
+  if (word === '') return [];
+
+  const inQuery = [...new Set(tables.values())]
+    .map(table => findTable(schema, table))
+    .filter((table): table is string => Boolean(table));
+  const seen = new Set<string>();
+  const columnCompletions = (inQuery.length > 0 ? inQuery : Object.keys(schema))
+    .flatMap(table => schema[table].map(column => ({ label: column.name, kind: 'column' as const, detail: `${table} · ${column.type}` })))
+    .filter(completion => matches(completion.label, word) && !seen.has(completion.label) && seen.add(completion.label));
+
+  const keywordCompletions = [...SQL_KEYWORDS, ...SQL_FUNCTIONS]
+    .filter(keyword => matches(keyword, word.toUpperCase()))
+    .map(keyword => ({ label: keyword, kind: 'keyword' as const }));
+
+  return [...columnCompletions, ...tableCompletions, ...keywordCompletions].slice(0, limit);
+}
+
+// Replaces the partial word before the cursor, or the part after its last
+// dot, with `completion`.
+export function applyCompletion(query: string, cursor: number, completion: Completion): { text: string; cursor: number } {
+  const word = wordBeforeCursor(query, cursor);
+  const dot = word.lastIndexOf('.');
+  const start = cursor - (dot >= 0 ? word.length - dot - 1 : word.length);
+  const text = query.slice(0, start) + completion.label + query.slice(cursor);
+  return { text, cursor: start + completion.label.length };
+}
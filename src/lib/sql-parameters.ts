@@ -0,0 +1,97 @@
+import { ParameterDescriptor, PreparedStatement } from './db-types';
+
+export const SqlTypes = {
+  NVarChar: (length: number | 'max' = 'max'): ParameterDescriptor => ({ type: 'NVarChar', length }),
+  Int: (): ParameterDescriptor => ({ type: 'Int' }),
+  UniqueIdentifier: (): ParameterDescriptor => ({ type: 'UniqueIdentifier' }),
+  DateTime2: (): ParameterDescriptor => ({ type: 'DateTime2' }),
+  Bit: (): ParameterDescriptor => ({ type: 'Bit' }),
+  Decimal: (precision = 18, scale = 0): ParameterDescriptor => ({ type: 'Decimal', precision, scale }),
+};
+
+export function notNull(descriptor: ParameterDescriptor): ParameterDescriptor {
+  return { ...descriptor, nullable: false };
+}
+
+const INT_MIN = -2147483648;
+const INT_MAX = 2147483647;
+const GUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function formatDescriptor(descriptor: ParameterDescriptor): string {
+  switch (descriptor.type) {
+    case 'NVarChar':
+      return `NVARCHAR(${descriptor.length === undefined || descriptor.length === 'max' ? 'MAX' : descriptor.length})`;
+    case 'Decimal':
+      return `DECIMAL(${descriptor.precision ?? 18}, ${descriptor.scale ?? 0})`;
+    default:
+      return descriptor.type.toUpperCase();
+  }
+}
+
+function decimalDigits(value: number): { integer: number; fraction: number } {
+  const text = Math.abs(value).toLocaleString('en-US', { useGrouping: false, maximumFractionDigits: 20 });
+  const [integer, fraction = ''] = text.split('.');
+  return { integer: integer === '0' ? 0 : integer.length, fraction: fraction.length };
+}
+
+// Returns why `value` cannot be bound as `descriptor`, or null when it can.
+export function checkParameter(value: any, descriptor: ParameterDescriptor): string | null {
+  if (value === null || value === undefined) {
+    return descriptor.nullable === false ? 'is required' : null;
+  }
+
+  const type = formatDescriptor(descriptor);
+  switch (descriptor.type) {
+    case 'NVarChar':
+      if (typeof value !== 'string') return `expected a string for ${type}`;
+      if (typeof descriptor.length === 'number' && value.length > descriptor.length) {
+        return `is ${value.length} characters, longer than ${type}`;
+      }
+      return null;
+
+    case 'Int':
+      if (!Number.isInteger(value)) return `expected a whole number for ${type}`;
+      if (value < INT_MIN || value > INT_MAX) return `is outside the ${type} range`;
+      return null;
+
+    case 'UniqueIdentifier':
+      return typeof value === 'string' && GUID_PATTERN.test(value) ? null : `expected a GUID for ${type}`;
+
+    case 'DateTime2': {
+      const date = value instanceof Date ? value : typeof value === 'string' ? new Date(value) : null;
+      return date && !Number.isNaN(date.getTime()) ? null : `expected a date for ${type}`;
+    }
+
+    case 'Bit':
+      return typeof value === 'boolean' || value === 0 || value === 1 ? null : `expected true, false, 0 or 1 for ${type}`;
+
+    case 'Decimal': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return `expected a number for ${type}`;
+      const precision = descriptor.precision ?? 18;
+      const scale = descriptor.scale ?? 0;
+      const digits = decimalDigits(value);
+      if (digits.integer > precision - scale) return `has too many digits for ${type}`;
+      if (digits.fraction > scale) return `has more than ${scale} decimal places for ${type}`;
+      return null;
+    }
+
+    default:
+      return `has unknown type ${(descriptor as ParameterDescriptor).type}`;
+  }
+}
+
+// Parameters without a descriptor are bound as they are; typed ones must
+// match their descriptor. Values are never rewritten.
+export function validateParameters(statement: PreparedStatement): string[] {
+  return Object.entries(statement.types ?? {}).flatMap(([name, descriptor]) => {
+    const problem = checkParameter(statement.parameters[name], descriptor);
+    return problem ? [`@${name} ${problem}`] : [];
+  });
+}
+
+export function assertValidParameters(statement: PreparedStatement): void {
+  const errors = validateParameters(statement);
+  if (errors.length > 0) {
+    throw new Error(`Invalid parameters: ${errors.join('; ')}`);
+  }
+}
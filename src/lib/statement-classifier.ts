@@ -0,0 +1,105 @@
+import { SqlToken, tokenizeSql } from './sql-editor';
+
+export type StatementKind = 'read' | 'write' | 'ddl';
+export type QueryKind = StatementKind | 'multi';
+
+export interface ClassifiedStatement {
+  text: string;
+  kind: StatementKind;
+}
+
+export interface QueryClassification {
+  kind: QueryKind;
+  statements: ClassifiedStatement[];
+  hasWrites: boolean;
+  hasDdl: boolean;
+}
+
+export const QUERY_KIND_LABELS: Record<QueryKind, string> = {
+  read: 'Read',
+  write: 'Write',
+  ddl: 'DDL',
+  multi: 'Multi-statement',
+};
+
+const DDL_WORDS = new Set(['CREATE', 'ALTER', 'DROP', 'TRUNCATE', 'GRANT', 'REVOKE', 'DENY']);
+const WRITE_WORDS = new Set([
+  'INSERT', 'UPDATE', 'DELETE', 'MERGE', 'EXEC', 'EXECUTE', 'CALL', 'DBCC', 'BACKUP', 'RESTORE', 'KILL', 'SHUTDOWN',
+]);
+// Leading words of statements known to only read. Anything else, such as
+// `REPLACE INTO`, `COPY` or a bare procedure name, counts as a write so that
+// unrecognised statements are confirmed, previewed and blocked on read-only
+// connections rather than let through.
+const READ_WORDS = new Set(['SELECT', 'WITH', 'VALUES', 'TABLE', 'SHOW', 'DESCRIBE', 'DESC', 'EXPLAIN', 'DECLARE', 'PRINT']);
+// Session settings are reads unless they change the transaction itself, which
+// could lift a read-only transaction.
+const TRANSACTION_WORDS = new Set(['TRANSACTION', 'SESSION', 'CHARACTERISTICS']);
+
+function isBatchSeparator(tokens: SqlToken[], index: number): boolean {
+  const before = tokens[index - 1];
+  const after = tokens[index + 1];
+  return (
+    tokens[index].text.toUpperCase() === 'GO' &&
+    (!before || (before.type === 'whitespace' && before.text.includes('\n'))) &&
+    (!after || (after.type === 'whitespace' && after.text.includes('\n')))
+  );
+}
+
+// Statements end at `;` or at a GO line. T-SQL also allows statements
+// without a separator, which is why each statement is classified by the
+// strongest keyword it contains rather than by its first one.
+function splitStatements(tokens: SqlToken[]): SqlToken[][] {
+  const statements: SqlToken[][] = [[]];
+  tokens.forEach((token, index) => {
+    if ((token.type === 'punctuation' && token.text === ';') || (token.type !== 'comment' && isBatchSeparator(tokens, index))) {
+      statements.push([]);
+    } else {
+      statements[statements.length - 1].push(token);
+    }
+  });
+  return statements;
+}
+
+// Bare words only: quoted identifiers, #temp tables, column names after a
+// dot, literals and comments never decide the kind.
+function statementWords(tokens: SqlToken[]): string[] {
+  return tokens
+    .filter((token, index) => {
+      if (token.type !== 'keyword' && token.type !== 'identifier') return false;
+      if (!/^[A-Za-z_]/.test(token.text)) return false;
+      return tokens[index - 1]?.text !== '.';
+    })
+    .map(token => token.text.toUpperCase());
+}
+
+function classifyWords(words: string[]): StatementKind {
+  if (words.some(word => DDL_WORDS.has(word))) return 'ddl';
+
+  // FOR UPDATE locks rows for a read; SELECT ... INTO creates a table.
+  const writes = words.some((word, index) => WRITE_WORDS.has(word) && !(word === 'UPDATE' && words[index - 1] === 'FOR'));
+  const selectInto = (words[0] === 'SELECT' || words[0] === 'WITH') && words.includes('INTO') && !words.includes('INSERT');
+  if (writes || selectInto) return 'write';
+
+  if (words[0] === 'SET') {
+    return words.some(word => TRANSACTION_WORDS.has(word)) ? 'write' : 'read';
+  }
+  return READ_WORDS.has(words[0]) ? 'read' : 'write';
+}
+
+export function classifyQuery(query: string): QueryClassification {
+  const statements = splitStatements(tokenizeSql(query)).flatMap(tokens => {
+    const words = statementWords(tokens);
+    if (words.length === 0) return [];
+    return [{ text: tokens.map(token => token.text).join('').trim(), kind: classifyWords(words) }];
+  });
+
+  const hasDdl = statements.some(statement => statement.kind === 'ddl');
+  const hasWrites = statements.some(statement => statement.kind === 'write');
+
+  return {
+    kind: statements.length > 1 ? 'multi' : (statements[0]?.kind ?? 'read'),
+    statements,
+    hasWrites,
+    hasDdl,
+  };
+}
@@ -0,0 +1,130 @@
+import { StepGroup, StepGroupInsertMode, StepGroupUsage } from '@/models/stepgroup.model';
+import { TestStepMembership } from '@/models/testcase.model';
+import { remapStepReferences } from './data-flow';
+
+export const STEP_GROUP_INSERT_MODE_LABELS: Record<StepGroupInsertMode, string> = {
+  link: 'Linked',
+  expand: 'Expanded copy',
+};
+
+const newMembershipId = () => `membership-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+const isLinkedTo = (membership: TestStepMembership, groupId: string) =>
+  membership.stepGroupId === groupId && membership.groupLinked === true;
+
+// Numbers the memberships 1..n in array order and rewrites `${stepN.output}`
+// bindings to match. Bindings to memberships that are no longer in the list
+// are dropped.
+export function renumberMemberships(memberships: TestStepMembership[]): TestStepMembership[] {
+  const orders = new Map(memberships.map((membership, index) => [membership.processOrder, index + 1]));
+  return memberships.map((membership, index) => ({
+    ...membership,
+    processOrder: index + 1,
+    arguments: membership.arguments && remapStepReferences(membership.arguments, orders),
+  }));
+}
+
+// Appends the group's steps to the end of one test case's memberships.
+export function insertStepGroup(
+  memberships: TestStepMembership[],
+  group: StepGroup,
+  testCaseId: string,
+  mode: StepGroupInsertMode
+): TestStepMembership[] {
+  const maxOrder = Math.max(0, ...memberships.map(m => m.processOrder));
+  const createdAt = new Date();
+
+  return [
+    ...memberships,
+    ...group.catalogStepIds.map((catalogStepId, index) => ({
+      id: newMembershipId(),
+      testCaseId,
+      catalogStepId,
+      processOrder: maxOrder + index + 1,
+      stepGroupId: group.id,
+      groupLinked: mode === 'link',
+      createdAt,
+    })),
+  ];
+}
+
+// Rebuilds the linked block of one test case from the group's current steps,
+// in place of the first linked membership. Steps that stay in the group keep
+// their membership and arguments.
+export function syncLinkedMemberships(memberships: TestStepMembership[], group: StepGroup): TestStepMembership[] {
+  const sorted = [...memberships].sort((a, b) => a.processOrder - b.processOrder);
+  const anchor = sorted.findIndex(m => isLinkedTo(m, group.id));
+  if (anchor === -1) return memberships;
+
+  const previous = sorted.filter(m => isLinkedTo(m, group.id));
+  const others = sorted.filter(m => !isLinkedTo(m, group.id));
+  const before = sorted.slice(0, anchor);
+  const createdAt = new Date();
+
+  const linked = group.catalogStepIds.map(catalogStepId => {
+    const reused = previous.findIndex(m => m.catalogStepId === catalogStepId);
+    if (reused !== -1) return previous.splice(reused, 1)[0];
+    return {
+      id: newMembershipId(),
+      testCaseId: sorted[anchor].testCaseId,
+      catalogStepId,
+      processOrder: 0,
+      stepGroupId: group.id,
+      groupLinked: true,
+      createdAt,
+    };
+  });
+
+  return renumberMemberships([...before, ...linked, ...others.slice(before.length)]);
+}
+
+// Applies a changed group to every test case that links it. Returns all
+// memberships plus the IDs of the test cases that were rebuilt.
+export function applyStepGroupChange(
+  memberships: TestStepMembership[],
+  group: StepGroup
+): { memberships: TestStepMembership[]; testCaseIds: string[] } {
+  const testCaseIds = [...new Set(memberships.filter(m => isLinkedTo(m, group.id)).map(m => m.testCaseId))];
+  if (testCaseIds.length === 0) return { memberships, testCaseIds };
+
+  const affected = new Set(testCaseIds);
+  return {
+    memberships: [
+      ...memberships.filter(m => !affected.has(m.testCaseId)),
+      ...testCaseIds.flatMap(testCaseId =>
+        syncLinkedMemberships(memberships.filter(m => m.testCaseId === testCaseId), group)
+      ),
+    ],
+    testCaseIds,
+  };
+}
+
+// Turns linked memberships into expanded copies. With `forget`, the origin
+// is cleared as well, as when the group itself is deleted.
+export function detachStepGroup(
+  memberships: TestStepMembership[],
+  groupId: string,
+  forget = false
+): TestStepMembership[] {
+  return memberships.map(membership => {
+    if (membership.stepGroupId !== groupId) return membership;
+    return forget
+      ? { ...membership, stepGroupId: undefined, groupLinked: false }
+      : { ...membership, groupLinked: false };
+  });
+}
+
+export function findStepGroupUsages(memberships: TestStepMembership[], groupId: string): StepGroupUsage[] {
+  const usages = new Map<string, StepGroupUsage>();
+  for (const membership of memberships) {
+    if (membership.stepGroupId !== groupId) continue;
+    const usage = usages.get(membership.testCaseId) ?? { testCaseId: membership.testCaseId, linkedSteps: 0, expandedSteps: 0 };
+    if (membership.groupLinked) {
+      usage.linkedSteps++;
+    } else {
+      usage.expandedSteps++;
+    }
+    usages.set(membership.testCaseId, usage);
+  }
+  return [...usages.values()].sort((a, b) => a.testCaseId.localeCompare(b.testCaseId));
+}
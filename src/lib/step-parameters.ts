@@ -0,0 +1,105 @@
+import { StepArgumentValue, StepParameter, StepParameterType } from '@/models/catalog.model';
+
+export const STEP_PARAMETER_TYPE_LABELS: Record<StepParameterType, string> = {
+  string: 'Text',
+  integer: 'Integer',
+  decimal: 'Decimal',
+  boolean: 'Boolean',
+  date: 'Date',
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isMissingArgument(value: StepArgumentValue | undefined): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+// Text that does not parse as the type is kept as typed so validation can
+// report it instead of silently dropping it.
+export function parseArgumentValue(text: string, type: StepParameterType): StepArgumentValue {
+  if (type === 'string') return text;
+
+  const trimmed = text.trim();
+  if (trimmed === '') return null;
+
+  switch (type) {
+    case 'integer':
+    case 'decimal':
+      return Number.isNaN(Number(trimmed)) ? trimmed : Number(trimmed);
+    case 'boolean':
+      if (/^(true|1)$/i.test(trimmed)) return true;
+      if (/^(false|0)$/i.test(trimmed)) return false;
+      return trimmed;
+    default:
+      return trimmed;
+  }
+}
+
+export function formatArgumentValue(value: StepArgumentValue | undefined): string {
+  return value === undefined || value === null ? '' : String(value);
+}
+
+export function checkArgumentType(value: StepArgumentValue, type: StepParameterType): string | null {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string' ? null : 'expected text';
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value) ? null : 'expected a whole number';
+    case 'decimal':
+      return typeof value === 'number' && Number.isFinite(value) ? null : 'expected a number';
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'expected true or false';
+    case 'date':
+      return typeof value === 'string' && DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value))
+        ? null
+        : 'expected a date (YYYY-MM-DD)';
+  }
+}
+
+// A reference to another step's output, written `${step2.orderId}` where 2
+// is the producing step's process order.
+export interface StepReference {
+  processOrder: number;
+  outputName: string;
+}
+
+const STEP_REFERENCE_PATTERN = /^\$\{step(\d+)\.([A-Za-z_][A-Za-z0-9_]*)\}$/;
+
+export function parseStepReference(value: StepArgumentValue | undefined): StepReference | null {
+  const match = typeof value === 'string' ? STEP_REFERENCE_PATTERN.exec(value.trim()) : null;
+  return match ? { processOrder: Number(match[1]), outputName: match[2] } : null;
+}
+
+export function formatStepReference(reference: StepReference): string {
+  return `\${step${reference.processOrder}.${reference.outputName}}`;
+}
+
+// Checks a single argument against its parameter: presence, type and the
+// allowed values. Returns null when the argument is acceptable.
+export function checkArgument(parameter: StepParameter, value: StepArgumentValue | undefined): string | null {
+  if (isMissingArgument(value)) {
+    return parameter.required && isMissingArgument(parameter.defaultValue) ? 'is required' : null;
+  }
+
+  const typeError = checkArgumentType(value!, parameter.type);
+  if (typeError) return typeError;
+
+  if (parameter.allowedValues?.length && !parameter.allowedValues.includes(value!)) {
+    return `must be one of ${parameter.allowedValues.map(formatArgumentValue).join(', ')}`;
+  }
+  return null;
+}
+
+// The values a step runs with: the membership's arguments, falling back to
+// each parameter's default.
+export function resolveArguments(
+  parameters: StepParameter[],
+  args: Record<string, StepArgumentValue> = {}
+): Record<string, StepArgumentValue> {
+  return Object.fromEntries(
+    parameters.map(parameter => [
+      parameter.name,
+      isMissingArgument(args[parameter.name]) ? (parameter.defaultValue ?? null) : args[parameter.name],
+    ])
+  );
+}
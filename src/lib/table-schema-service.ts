@@ -1,5 +1,6 @@
-import { PreparedStatement, QueryResult } from './db-types';
+import { PreparedStatement, QueryResult, SqlDialect } from './db-types';
 import { dbService } from './db-service';
+import { guardStatement, isConfirmed } from './environment-guard';
 
 export interface TableColumn {
   columnName: string;
@@ -20,18 +21,194 @@ export interface TableSchemaInfo {
   tableName: string;
   columns: TableColumn[];
   lastUpdated: Date;
+  source: 'database' | 'fallback';
+}
+
+export interface TableIndex {
+  indexName: string;
+  columns: string[];
+  isUnique: boolean;
 }
 
 export interface TableRow {
   [columnName: string]: any;
 }
 
+export type FilterOperator =
+  | 'equals'
+  | 'notEquals'
+  | 'lessThan'
+  | 'lessThanOrEqual'
+  | 'greaterThan'
+  | 'greaterThanOrEqual'
+  | 'contains'
+  | 'startsWith'
+  | 'in'
+  | 'isNull'
+  | 'isNotNull';
+
+export interface FilterCondition {
+  column: string;
+  operator: FilterOperator;
+  value?: any;
+}
+
 export interface TableDataFilter {
   testCaseId?: string;
   catalogStepId?: string;
-  customWhere?: string;
+  conditions?: FilterCondition[];
+  match?: 'all' | 'any';
+}
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]{0,127}$/;
+
+const COMPARISON_OPERATORS: Partial<Record<FilterOperator, string>> = {
+  equals: '=',
+  notEquals: '<>',
+  lessThan: '<',
+  lessThanOrEqual: '<=',
+  greaterThan: '>',
+  greaterThanOrEqual: '>=',
+};
+
+export function assertIdentifier(name: string, kind: 'table' | 'column' = 'column'): string {
+  if (typeof name !== 'string' || !IDENTIFIER_PATTERN.test(name)) {
+    throw new Error(`Invalid ${kind} name "${name}": use letters, digits and underscores, starting with a letter`);
+  }
+  return name;
+}
+
+// Table and column names cannot be bound as parameters, so they are checked
+// against the introspected schema and then quoted for the dialect.
+export function quoteIdentifier(name: string, dialect: SqlDialect = 'sqlserver'): string {
+  assertIdentifier(name);
+  switch (dialect) {
+    case 'postgresql':
+      return `"${name}"`;
+    case 'mysql':
+      return `\`${name}\``;
+    default:
+      return `[${name}]`;
+  }
+}
+
+function escapeLike(value: string): string {
+  return String(value).replace(/[!%_[]/g, '!$&');
 }
 
+interface ResolvedTable {
+  table: string;
+  column: (name: string) => string;
+}
+
+export function buildFilterClause(
+  filter: TableDataFilter | undefined,
+  resolved: Pick<ResolvedTable, 'column'>
+): { clause: string; parameters: Record<string, any> } {
+  const parameters: Record<string, any> = {};
+  const required: string[] = [];
+
+  if (filter?.testCaseId) {
+    required.push(`${resolved.column('TestCaseId')} = @testCaseId`);
+    parameters.testCaseId = filter.testCaseId;
+  }
+  if (filter?.catalogStepId) {
+    required.push(`${resolved.column('CatalogStepId')} = @catalogStepId`);
+    parameters.catalogStepId = filter.catalogStepId;
+  }
+
+  const conditions = (filter?.conditions ?? []).map((condition, index) => {
+    const column = resolved.column(condition.column);
+    const name = `filter${index}`;
+
+    switch (condition.operator) {
+      case 'isNull':
+        return `${column} IS NULL`;
+      case 'isNotNull':
+        return `${column} IS NOT NULL`;
+      case 'contains':
+        parameters[name] = `%${escapeLike(condition.value)}%`;
+        return `${column} LIKE @${name} ESCAPE '!'`;
+      case 'startsWith':
+        parameters[name] = `${escapeLike(condition.value)}%`;
+        return `${column} LIKE @${name} ESCAPE '!'`;
+      case 'in': {
+        const values = Array.isArray(condition.value) ? condition.value : [];
+        if (values.length === 0) {
+          throw new Error(`Filter on ${condition.column} needs at least one value for "in"`);
+        }
+        const names = values.map((value, i) => {
+          parameters[`${name}_${i}`] = value;
+          return `@${name}_${i}`;
+        });
+        return `${column} IN (${names.join(', ')})`;
+      }
+      default: {
+        const operator = COMPARISON_OPERATORS[condition.operator];
+        if (!operator) {
+          throw new Error(`Unsupported filter operator "${condition.operator}"`);
+        }
+        parameters[name] = condition.value;
+        return `${column} ${operator} @${name}`;
+      }
+    }
+  });
+
+  if (conditions.length > 0) {
+    required.push(conditions.length === 1 ? conditions[0] : `(${conditions.join(filter?.match === 'any' ? ' OR ' : ' AND ')})`);
+  }
+
+  return { clause: required.length > 0 ? `WHERE ${required.join(' AND ')}` : '', parameters };
+}
+
+// Secondary indexes only: primary keys and unique or foreign key constraints
+// are covered by the column definitions.
+const INDEX_QUERIES: Record<SqlDialect, string> = {
+  sqlserver: `
+    SELECT i.name AS indexName, i.is_unique AS isUnique, c.name AS columnName
+    FROM sys.indexes i
+    INNER JOIN sys.tables t ON i.object_id = t.object_id
+    INNER JOIN sys.index_columns ic ON i.object_id = ic.object_id AND i.index_id = ic.index_id
+    INNER JOIN sys.columns c ON ic.object_id = c.object_id AND ic.column_id = c.column_id
+    WHERE t.name = @tableName
+      AND i.is_primary_key = 0
+      AND i.is_unique_constraint = 0
+      AND i.name IS NOT NULL
+      AND ic.is_included_column = 0
+    ORDER BY i.name, ic.key_ordinal
+  `,
+  postgresql: `
+    SELECT i.relname AS indexName, ix.indisunique AS isUnique, a.attname AS columnName
+    FROM pg_class t
+    INNER JOIN pg_index ix ON t.oid = ix.indrelid
+    INNER JOIN pg_class i ON i.oid = ix.indexrelid
+    INNER JOIN LATERAL unnest(ix.indkey) WITH ORDINALITY AS k(attnum, ord) ON TRUE
+    INNER JOIN pg_attribute a ON a.attrelid = t.oid AND a.attnum = k.attnum
+    WHERE t.relname = @tableName
+      AND NOT ix.indisprimary
+      AND NOT EXISTS (SELECT 1 FROM pg_constraint con WHERE con.conindid = ix.indexrelid)
+    ORDER BY i.relname, k.ord
+  `,
+  mysql: `
+    SELECT s.INDEX_NAME AS indexName, s.NON_UNIQUE = 0 AS isUnique, s.COLUMN_NAME AS columnName
+    FROM INFORMATION_SCHEMA.STATISTICS s
+    WHERE s.TABLE_SCHEMA = DATABASE()
+      AND s.TABLE_NAME = @tableName
+      AND s.INDEX_NAME NOT IN (
+        SELECT tc.CONSTRAINT_NAME FROM INFORMATION_SCHEMA.TABLE_CONSTRAINTS tc
+        WHERE tc.TABLE_SCHEMA = DATABASE() AND tc.TABLE_NAME = @tableName
+      )
+    ORDER BY s.INDEX_NAME, s.SEQ_IN_INDEX
+  `,
+  sqlite: `
+    SELECT il.name AS indexName, il."unique" AS isUnique, ii.name AS columnName
+    FROM pragma_index_list(@tableName) il
+    JOIN pragma_index_info(il.name) ii
+    WHERE il.origin = 'c'
+    ORDER BY il.name, ii.seqno
+  `,
+};
+
 class TableSchemaService {
   private schemaCache: Map<string, TableSchemaInfo> = new Map();
 
@@ -41,6 +218,13 @@ class TableSchemaService {
       return cached;
     }
 
+    if ((await this.getDialect()) === 'sqlite') {
+      const columns = await this.introspectSqliteTable(tableName);
+      return columns
+        ? this.cacheSchema(tableName, columns)
+        : this.cacheSchema(tableName, this.generateMockSchema(tableName), 'fallback');
+    }
+
     const columnsQuery: PreparedStatement = {
       query: `
         SELECT 
@@ -83,14 +267,7 @@ class TableSchemaService {
     const result = await dbService.executeQuery<TableColumn[]>(columnsQuery);
 
     if (!result.success || !result.data) {
-      const mockColumns = this.generateMockSchema(tableName);
-      const schema: TableSchemaInfo = {
-        tableName,
-        columns: mockColumns,
-        lastUpdated: new Date(),
-      };
-      this.schemaCache.set(tableName, schema);
-      return schema;
+      return this.cacheSchema(tableName, this.generateMockSchema(tableName), 'fallback');
     }
 
     const columns = Array.isArray(result.data) ? result.data : [];
@@ -108,14 +285,29 @@ class TableSchemaService {
         : undefined,
     }));
 
-    const schema: TableSchemaInfo = {
-      tableName,
-      columns: formattedColumns,
-      lastUpdated: new Date(),
-    };
+    return this.cacheSchema(tableName, formattedColumns);
+  }
 
-    this.schemaCache.set(tableName, schema);
-    return schema;
+  async introspectIndexes(tableName: string): Promise<TableIndex[]> {
+    const dialect = await this.getDialect();
+    const query: PreparedStatement = { query: INDEX_QUERIES[dialect], parameters: { tableName } };
+
+    const result = await dbService.executeQuery<Array<{ indexName: string; isUnique: any; columnName: string }>>(query);
+    if (!result.success) {
+      throw new Error(result.error || `Could not read indexes for ${tableName}`);
+    }
+
+    const indexes = new Map<string, TableIndex>();
+    for (const row of result.data ?? []) {
+      const index = indexes.get(row.indexName) ?? {
+        indexName: row.indexName,
+        columns: [],
+        isUnique: row.isUnique === 1 || row.isUnique === true,
+      };
+      index.columns.push(row.columnName);
+      indexes.set(row.indexName, index);
+    }
+    return Array.from(indexes.values());
   }
 
   async getTableData(
@@ -123,49 +315,49 @@ class TableSchemaService {
     filter?: TableDataFilter,
     limit: number = 100
   ): Promise<QueryResult<TableRow[]>> {
-    let whereClause = '';
-    const params: Record<string, any> = { limit };
-
-    if (filter?.testCaseId) {
-      whereClause = 'WHERE TestCaseId = @testCaseId';
-      params.testCaseId = filter.testCaseId;
-    } else if (filter?.catalogStepId) {
-      whereClause = 'WHERE CatalogStepId = @catalogStepId';
-      params.catalogStepId = filter.catalogStepId;
-    } else if (filter?.customWhere) {
-      whereClause = `WHERE ${filter.customWhere}`;
+    let query: PreparedStatement;
+    try {
+      const resolved = await this.resolveTable(tableName);
+      const { clause, parameters } = buildFilterClause(filter, resolved);
+      query = {
+        query: `
+          SELECT TOP (@limit) *
+          FROM ${resolved.table}
+          ${clause}
+          ORDER BY (SELECT NULL)
+        `,
+        parameters: { ...parameters, limit },
+      };
+    } catch (error) {
+      return this.rejected(error);
     }
 
-    const query: PreparedStatement = {
-      query: `
-        SELECT TOP (@limit) *
-        FROM ${tableName}
-        ${whereClause}
-        ORDER BY (SELECT NULL)
-      `,
-      parameters: params,
-    };
-
     return await dbService.executeQuery<TableRow[]>(query);
   }
 
   async insertRow(tableName: string, row: TableRow): Promise<QueryResult<any>> {
-    const columns = Object.keys(row);
-    const values = Object.values(row);
-    const paramNames = columns.map((_, i) => `@param${i}`);
-
-    const params: Record<string, any> = {};
-    columns.forEach((col, i) => {
-      params[`param${i}`] = values[i];
-    });
+    let query: PreparedStatement;
+    try {
+      const resolved = await this.resolveTable(tableName);
+      const columns = Object.keys(row).map(resolved.column);
+      const values = Object.values(row);
+      const paramNames = columns.map((_, i) => `@param${i}`);
+
+      const params: Record<string, any> = {};
+      columns.forEach((_, i) => {
+        params[`param${i}`] = values[i];
+      });
 
-    const query: PreparedStatement = {
-      query: `
-        INSERT INTO ${tableName} (${columns.join(', ')})
-        VALUES (${paramNames.join(', ')})
-      `,
-      parameters: params,
-    };
+      query = {
+        query: `
+          INSERT INTO ${resolved.table} (${columns.join(', ')})
+          VALUES (${paramNames.join(', ')})
+        `,
+        parameters: params,
+      };
+    } catch (error) {
+      return this.rejected(error);
+    }
 
     return await dbService.executeQuery(query);
   }
@@ -174,42 +366,76 @@ class TableSchemaService {
     tableName: string,
     row: TableRow,
     primaryKeyColumn: string,
-    primaryKeyValue: any
+    primaryKeyValue: any,
+    confirmation?: string
   ): Promise<QueryResult<any>> {
-    const columns = Object.keys(row).filter(col => col !== primaryKeyColumn);
-    const setClauses = columns.map((col, i) => `${col} = @param${i}`);
-
-    const params: Record<string, any> = { primaryKey: primaryKeyValue };
-    columns.forEach((col, i) => {
-      params[`param${i}`] = row[col];
-    });
+    let query: PreparedStatement;
+    try {
+      const resolved = await this.resolveTable(tableName);
+      const keyColumn = resolved.column(primaryKeyColumn);
+      const columns = Object.keys(row).filter(col => col.toLowerCase() !== primaryKeyColumn.toLowerCase());
+      const setClauses = columns.map((col, i) => `${resolved.column(col)} = @param${i}`);
+
+      const params: Record<string, any> = { primaryKey: primaryKeyValue };
+      columns.forEach((col, i) => {
+        params[`param${i}`] = row[col];
+      });
 
-    const query: PreparedStatement = {
-      query: `
-        UPDATE ${tableName}
-        SET ${setClauses.join(', ')}
-        WHERE ${primaryKeyColumn} = @primaryKey
-      `,
-      parameters: params,
-    };
+      query = {
+        query: `
+          UPDATE ${resolved.table}
+          SET ${setClauses.join(', ')}
+          WHERE ${keyColumn} = @primaryKey
+        `,
+        parameters: params,
+      };
+    } catch (error) {
+      return this.rejected(error);
+    }
 
-    return await dbService.executeQuery(query);
+    return await this.executeGuarded(query, confirmation, 'update');
   }
 
   async deleteRow(
     tableName: string,
     primaryKeyColumn: string,
-    primaryKeyValue: any
+    primaryKeyValue: any,
+    confirmation?: string
   ): Promise<QueryResult<any>> {
-    const query: PreparedStatement = {
-      query: `
-        DELETE FROM ${tableName}
-        WHERE ${primaryKeyColumn} = @primaryKey
-      `,
-      parameters: { primaryKey: primaryKeyValue },
-    };
+    let query: PreparedStatement;
+    try {
+      const resolved = await this.resolveTable(tableName);
+      query = {
+        query: `
+          DELETE FROM ${resolved.table}
+          WHERE ${resolved.column(primaryKeyColumn)} = @primaryKey
+        `,
+        parameters: { primaryKey: primaryKeyValue },
+      };
+    } catch (error) {
+      return this.rejected(error);
+    }
 
-    return await dbService.executeQuery(query);
+    return await this.executeGuarded(query, confirmation, 'delete');
+  }
+
+  // On protected environments `confirmation` must match the connection name
+  // returned by guardStatement, otherwise the row is left unchanged.
+  private async executeGuarded(
+    statement: PreparedStatement,
+    confirmation: string | undefined,
+    action: string
+  ): Promise<QueryResult<any>> {
+    const guard = guardStatement(dbService.getActiveConnection(), statement.query);
+    if (!guard.allowed || !isConfirmed(guard, confirmation)) {
+      return {
+        success: false,
+        error: guard.allowed ? `${guard.reason}. Type "${guard.confirmationText}" to confirm the ${action}` : guard.reason,
+        executionTime: 0,
+      };
+    }
+
+    return await dbService.executeQuery(statement);
   }
 
   clearCache(tableName?: string): void {
@@ -220,6 +446,99 @@ class TableSchemaService {
     }
   }
 
+  // Rejects names that are malformed or not in the introspected schema and
+  // returns them quoted, using the schema's spelling.
+  private async resolveTable(tableName: string): Promise<ResolvedTable> {
+    assertIdentifier(tableName, 'table');
+    const schema = await this.introspectTable(tableName);
+    if (schema.source === 'fallback') {
+      throw new Error(`Could not read the schema of ${tableName}; refusing to run unverified SQL`);
+    }
+    if (schema.columns.length === 0) {
+      throw new Error(`Unknown table "${tableName}"`);
+    }
+
+    const dialect = await this.getDialect();
+    const columns = new Map(schema.columns.map(c => [c.columnName.toLowerCase(), c.columnName]));
+
+    return {
+      table: quoteIdentifier(tableName, dialect),
+      column: (name: string) => {
+        assertIdentifier(name);
+        const columnName = columns.get(name.toLowerCase());
+        if (!columnName) {
+          throw new Error(`Unknown column "${name}" in ${tableName}`);
+        }
+        return quoteIdentifier(columnName, dialect);
+      },
+    };
+  }
+
+  private rejected(error: unknown): QueryResult<any> {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+      executionTime: 0,
+    };
+  }
+
+  private cacheSchema(
+    tableName: string,
+    columns: TableColumn[],
+    source: TableSchemaInfo['source'] = 'database'
+  ): TableSchemaInfo {
+    const schema: TableSchemaInfo = { tableName, columns, lastUpdated: new Date(), source };
+    this.schemaCache.set(tableName, schema);
+    return schema;
+  }
+
+  private async getDialect(): Promise<SqlDialect> {
+    try {
+      return (await dbService.getDriver()).dialect;
+    } catch {
+      return 'sqlserver';
+    }
+  }
+
+  // SQLite has no INFORMATION_SCHEMA. Its pragmas report the declared type,
+  // which is split into the data type and length INFORMATION_SCHEMA would give.
+  private async introspectSqliteTable(tableName: string): Promise<TableColumn[] | null> {
+    const [columns, foreignKeys] = await Promise.all([
+      dbService.executeQuery<Array<{ name: string; type: string; notnull: number; dflt_value: string | null; pk: number }>>({
+        query: 'SELECT name, type, "notnull", dflt_value, pk FROM pragma_table_info(@tableName) ORDER BY cid',
+        parameters: { tableName },
+      }),
+      dbService.executeQuery<Array<{ from: string; table: string; to: string }>>({
+        query: 'SELECT "from", "table", "to" FROM pragma_foreign_key_list(@tableName)',
+        parameters: { tableName },
+      }),
+    ]);
+
+    if (!columns.success) {
+      return null;
+    }
+
+    const references = new Map((foreignKeys.data ?? []).map(fk => [fk.from, { table: fk.table, column: fk.to }]));
+
+    return (columns.data ?? []).map(col => {
+      const typeMatch = col.type.match(/^(\w+)\s*(?:\(\s*(\w+)\s*\))?/);
+      const declaredLength = typeMatch?.[2];
+      const reference = references.get(col.name);
+
+      return {
+        columnName: col.name,
+        dataType: (typeMatch?.[1] ?? col.type).toLowerCase(),
+        maxLength: /^max$/i.test(declaredLength ?? '') ? -1 : declaredLength ? Number(declaredLength) : undefined,
+        isNullable: col.notnull === 0 && col.pk === 0,
+        isPrimaryKey: col.pk > 0,
+        isForeignKey: Boolean(reference),
+        isIdentity: false,
+        defaultValue: col.dflt_value ?? undefined,
+        foreignKeyReference: reference,
+      };
+    });
+  }
+
   private isCacheValid(schema: TableSchemaInfo): boolean {
     const cacheMaxAge = 5 * 60 * 1000;
     return Date.now() - schema.lastUpdated.getTime() < cacheMaxAge;
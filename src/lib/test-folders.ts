@@ -0,0 +1,88 @@
+import { TestFolder, TestFolderNode } from '@/models/folder.model';
+import { TestCase } from '@/models/testcase.model';
+
+export const UNFILED_FOLDER_LABEL = 'Unfiled';
+
+// Test case counts keyed by folder ID, with `null` for unfiled test cases.
+export function countTestCasesByFolder(testCases: Pick<TestCase, 'folderId'>[]): Map<string | null, number> {
+  const counts = new Map<string | null, number>();
+  for (const testCase of testCases) {
+    const key = testCase.folderId ?? null;
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return counts;
+}
+
+// Nests the folders under their parents, sorted by name at every level.
+// Folders whose parent no longer exists are shown at the root. `totalCount`
+// includes the test cases of every subfolder.
+export function buildFolderTree(folders: TestFolder[], counts: Map<string | null, number>): TestFolderNode[] {
+  const ids = new Set(folders.map(folder => folder.id));
+  const children = new Map<string | null, TestFolder[]>();
+  for (const folder of folders) {
+    const parent = folder.parentId && ids.has(folder.parentId) ? folder.parentId : null;
+    children.set(parent, [...(children.get(parent) ?? []), folder]);
+  }
+
+  const build = (parentId: string | null, depth: number, path: Set<string>): TestFolderNode[] =>
+    [...(children.get(parentId) ?? [])]
+      .filter(folder => !path.has(folder.id))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(folder => {
+        const nodes = build(folder.id, depth + 1, new Set([...path, folder.id]));
+        const directCount = counts.get(folder.id) ?? 0;
+        return {
+          folder,
+          children: nodes,
+          depth,
+          directCount,
+          totalCount: directCount + nodes.reduce((sum, node) => sum + node.totalCount, 0),
+        };
+      });
+
+  return build(null, 0, new Set());
+}
+
+// Depth-first order, as the tree is displayed.
+export function flattenFolderTree(nodes: TestFolderNode[]): TestFolderNode[] {
+  return nodes.flatMap(node => [node, ...flattenFolderTree(node.children)]);
+}
+
+// The folder itself followed by every folder nested below it.
+export function getDescendantFolderIds(folders: TestFolder[], folderId: string): string[] {
+  const result = [folderId];
+  for (let i = 0; i < result.length; i++) {
+    for (const folder of folders) {
+      if (folder.parentId === result[i] && !result.includes(folder.id)) {
+        result.push(folder.id);
+      }
+    }
+  }
+  return result;
+}
+
+// Folders from the root down to the given folder.
+export function getFolderPath(folders: TestFolder[], folderId: string | undefined): TestFolder[] {
+  const byId = new Map(folders.map(folder => [folder.id, folder]));
+  const path: TestFolder[] = [];
+  let current = folderId ? byId.get(folderId) : undefined;
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+}
+
+export function formatFolderPath(folders: TestFolder[], folderId: string | undefined): string {
+  const path = getFolderPath(folders, folderId);
+  return path.length > 0 ? path.map(folder => folder.name).join(' / ') : UNFILED_FOLDER_LABEL;
+}
+
+// Removes a folder and moves its subfolders up to its parent. Test cases in
+// the folder are moved the same way by the caller.
+export function removeFolder(folders: TestFolder[], folderId: string): TestFolder[] {
+  const removed = folders.find(folder => folder.id === folderId);
+  return folders
+    .filter(folder => folder.id !== folderId)
+    .map(folder => (folder.parentId === folderId ? { ...folder, parentId: removed?.parentId } : folder));
+}
@@ -0,0 +1,25 @@
+import { TestCase } from '@/models/testcase.model';
+import { TestSuite } from '@/models/suite.model';
+
+// Moves one entry of a suite's run order by `offset` places.
+export function moveSuiteEntry(testCaseIds: string[], index: number, offset: number): string[] {
+  const target = index + offset;
+  if (target < 0 || target >= testCaseIds.length) return testCaseIds;
+
+  const next = [...testCaseIds];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
+
+// The suite's test cases in run order, with the IDs of test cases that no
+// longer exist reported separately.
+export function resolveSuite<T extends Pick<TestCase, 'id'>>(
+  suite: Pick<TestSuite, 'testCaseIds'>,
+  testCases: T[]
+): { testCases: T[]; missingIds: string[] } {
+  const byId = new Map(testCases.map(testCase => [testCase.id, testCase]));
+  return {
+    testCases: suite.testCaseIds.flatMap(id => (byId.has(id) ? [byId.get(id)!] : [])),
+    missingIds: suite.testCaseIds.filter(id => !byId.has(id)),
+  };
+}
@@ -1,3 +1,6 @@
+import { StepArgumentValue, StepOutput, StepParameter } from '@/models/catalog.model';
+import { CustomFieldTarget, CustomFieldType, CustomFieldValue, Priority } from '@/models/classification.model';
+
 export interface CatalogStep {
   id: string;
   name: string;
@@ -5,16 +8,71 @@ export interface CatalogStep {
   javaClass: string;
   javaMethod: string;
   sqlTables: string[];
+  parameters?: StepParameter[];
+  outputs?: StepOutput[];
+  tags?: string[];
+  priority?: Priority;
+  owner?: string;
+  customFields?: Record<string, CustomFieldValue>;
   createdAt: Date;
   updatedAt: Date;
+  version?: number;
 }
 
 export interface TestCase {
   id: string;
   name: string;
   description: string;
+  folderId?: string;
+  tags?: string[];
+  priority?: Priority;
+  owner?: string;
+  customFields?: Record<string, CustomFieldValue>;
+  createdAt: Date;
+  updatedAt: Date;
+  version?: number;
+}
+
+export interface CustomFieldDefinition {
+  id: string;
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  appliesTo: CustomFieldTarget[];
+  required: boolean;
+  options?: string[];
+  createdAt: Date;
+  updatedAt: Date;
+  version?: number;
+}
+
+export interface StepGroup {
+  id: string;
+  name: string;
+  description: string;
+  catalogStepIds: string[];
+  createdAt: Date;
+  updatedAt: Date;
+  version?: number;
+}
+
+export interface TestFolder {
+  id: string;
+  name: string;
+  parentId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  version?: number;
+}
+
+export interface TestSuite {
+  id: string;
+  name: string;
+  description: string;
+  testCaseIds: string[];
   createdAt: Date;
   updatedAt: Date;
+  version?: number;
 }
 
 export interface TestStepMembership {
@@ -22,6 +80,9 @@ export interface TestStepMembership {
   testCaseId: string;
   catalogStepId: string;
   processOrder: number;
+  arguments?: Record<string, StepArgumentValue>;
+  stepGroupId?: string;
+  groupLinked?: boolean;
   createdAt: Date;
 }
 
@@ -3,6 +3,11 @@ import { useKV } from '@github/spark/hooks';
 import { useHistory } from '@/hooks/use-history';
 import { ChangeAction, EntityType } from './history-types';
 import { CatalogStep, TestCase, TestStepMembership } from './types';
+import { CatalogStepDeletePolicy } from '@/models/integrity.model';
+import { kvStorageAdapter } from '@/repositories/storage.adapter';
+import { IntegrityService } from './integrity-service';
+
+const kvIntegrityService = new IntegrityService(kvStorageAdapter);
 
 export function useTrackedCatalogSteps() {
   const [catalogSteps, setCatalogSteps] = useKV<CatalogStep[]>('catalog-steps', []);
@@ -30,7 +35,7 @@ export function useTrackedCatalogSteps() {
       const steps = current || [];
       const oldStep = steps.find(s => s.id === stepId);
       const newSteps = steps.map(s =>
-        s.id === stepId ? { ...s, ...updates, updatedAt: new Date() } : s
+        s.id === stepId ? { ...s, ...updates, updatedAt: new Date(), version: (s.version ?? 0) + 1 } : s
       );
       
       const updatedStep = newSteps.find(s => s.id === stepId);
@@ -51,12 +56,13 @@ export function useTrackedCatalogSteps() {
     });
   }, [setCatalogSteps, addHistoryEntry]);
 
-  const deleteCatalogStep = useCallback((stepId: string) => {
-    setCatalogSteps((current) => {
-      const steps = current || [];
-      const deletedStep = steps.find(s => s.id === stepId);
-      const newSteps = steps.filter(s => s.id !== stepId);
-      
+  const deleteCatalogStep = useCallback(async (stepId: string, policy: CatalogStepDeletePolicy = 'restrict') => {
+    const deletedStep = (catalogSteps || []).find(s => s.id === stepId);
+    const result = await kvIntegrityService.deleteCatalogStep(stepId, policy);
+
+    if (result.success) {
+      setCatalogSteps(await kvStorageAdapter.findAll<CatalogStep>('catalog-steps'));
+
       if (deletedStep) {
         addHistoryEntry(
           'delete',
@@ -69,10 +75,10 @@ export function useTrackedCatalogSteps() {
           deletedStep.name
         );
       }
-      
-      return newSteps;
-    });
-  }, [setCatalogSteps, addHistoryEntry]);
+    }
+
+    return result;
+  }, [catalogSteps, setCatalogSteps, addHistoryEntry]);
 
   const applyHistoryChange = useCallback(async (goingBack: boolean) => {
     const entry = goingBack ? await undo() : await redo();
@@ -139,7 +145,7 @@ export function useTrackedTestCases() {
       const cases = current || [];
       const oldCase = cases.find(c => c.id === caseId);
       const newCases = cases.map(c =>
-        c.id === caseId ? { ...c, ...updates, updatedAt: new Date() } : c
+        c.id === caseId ? { ...c, ...updates, updatedAt: new Date(), version: (c.version ?? 0) + 1 } : c
       );
       
       const updatedCase = newCases.find(c => c.id === caseId);
@@ -160,12 +166,13 @@ export function useTrackedTestCases() {
     });
   }, [setTestCases, addHistoryEntry]);
 
-  const deleteTestCase = useCallback((caseId: string) => {
-    setTestCases((current) => {
-      const cases = current || [];
-      const deletedCase = cases.find(c => c.id === caseId);
-      const newCases = cases.filter(c => c.id !== caseId);
-      
+  const deleteTestCase = useCallback(async (caseId: string) => {
+    const deletedCase = (testCases || []).find(c => c.id === caseId);
+    const result = await kvIntegrityService.deleteTestCase(caseId);
+
+    if (result.success) {
+      setTestCases((current) => (current || []).filter(c => c.id !== caseId));
+
       if (deletedCase) {
         addHistoryEntry(
           'delete',
@@ -178,10 +185,10 @@ export function useTrackedTestCases() {
           deletedCase.name
         );
       }
-      
-      return newCases;
-    });
-  }, [setTestCases, addHistoryEntry]);
+    }
+
+    return result;
+  }, [testCases, setTestCases, addHistoryEntry]);
 
   const applyHistoryChange = useCallback(async (goingBack: boolean) => {
     const entry = goingBack ? await undo() : await redo();
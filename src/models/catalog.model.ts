@@ -1,26 +1,53 @@
 import { Entity } from './common.model';
+import { Classification, ClassificationFilters } from './classification.model';
 
-export interface CatalogStep extends Entity {
+export type StepParameterType = 'string' | 'integer' | 'decimal' | 'boolean' | 'date';
+
+// Dates are ISO `YYYY-MM-DD` strings so arguments survive JSON storage.
+export type StepArgumentValue = string | number | boolean | null;
+
+// One argument of the step's Java method. `allowedValues`, when present,
+// restricts arguments to that list.
+export interface StepParameter {
+  name: string;
+  type: StepParameterType;
+  required: boolean;
+  defaultValue?: StepArgumentValue;
+  allowedValues?: StepArgumentValue[];
+}
+
+// A value the step produces when it runs, such as the ID of a row it
+// created. Later steps in a test case can bind an argument to it.
+export interface StepOutput {
+  name: string;
+  type: StepParameterType;
+}
+
+export interface CatalogStep extends Entity, Classification {
   name: string;
   description: string;
   javaClass: string;
   javaMethod: string;
   sqlTables: string[];
+  parameters?: StepParameter[];
+  outputs?: StepOutput[];
 }
 
-export interface CreateCatalogStepInput {
+export interface CreateCatalogStepInput extends Classification {
   name: string;
   description: string;
   javaClass: string;
   javaMethod: string;
   sqlTables: string[];
+  parameters?: StepParameter[];
+  outputs?: StepOutput[];
 }
 
 export interface UpdateCatalogStepInput extends Partial<CreateCatalogStepInput> {
   id: string;
 }
 
-export interface CatalogStepFilters {
+export interface CatalogStepFilters extends ClassificationFilters {
   javaClass?: string;
   sqlTable?: string;
   searchTerm?: string;
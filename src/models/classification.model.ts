@@ -0,0 +1,47 @@
+import { Entity } from './common.model';
+
+export type Priority = 'critical' | 'high' | 'medium' | 'low';
+
+export type CustomFieldType = 'text' | 'number' | 'enum' | 'date';
+
+export type CustomFieldTarget = 'catalog-step' | 'test-case';
+
+// Dates are ISO `YYYY-MM-DD` strings, as for step arguments.
+export type CustomFieldValue = string | number | null;
+
+// An admin-defined field. Values are stored under `key` in the entity's
+// `customFields`; `options` lists the choices of an enum field.
+export interface CustomFieldDefinition extends Entity {
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  appliesTo: CustomFieldTarget[];
+  required: boolean;
+  options?: string[];
+}
+
+export interface CreateCustomFieldInput {
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  appliesTo: CustomFieldTarget[];
+  required: boolean;
+  options?: string[];
+}
+
+// Shared by catalog steps and test cases.
+export interface Classification {
+  tags?: string[];
+  priority?: Priority;
+  owner?: string;
+  customFields?: Record<string, CustomFieldValue>;
+}
+
+// Tags and owners match case-insensitively; custom fields match on their
+// displayed value.
+export interface ClassificationFilters {
+  tag?: string;
+  priority?: Priority;
+  owner?: string;
+  customFields?: Record<string, string>;
+}
@@ -31,6 +31,21 @@ export interface SortOptions {
   direction: 'asc' | 'desc';
 }
 
+// Keeps items whose field holds one of `values`; `null` matches items
+// without a value.
+export interface FilterOptions {
+  field: string;
+  values: Array<string | null>;
+}
+
+export interface PageOptions {
+  page: number;
+  pageSize: number;
+  sort?: SortOptions[];
+  search?: SearchOptions;
+  filters?: FilterOptions[];
+}
+
 export interface EntityTimestamps {
   createdAt: Date;
   updatedAt: Date;
@@ -40,4 +55,17 @@ export interface EntityWithId {
   id: string;
 }
 
-export type Entity = EntityWithId & EntityTimestamps;
+export interface EntityVersion {
+  version?: number;
+}
+
+export type Entity = EntityWithId & EntityTimestamps & EntityVersion;
+
+export interface VersionConflict<T> {
+  current: T;
+  attempted: T;
+}
+
+export interface UpdateResult<T> extends Result<T> {
+  conflict?: VersionConflict<T>;
+}
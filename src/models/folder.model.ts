@@ -0,0 +1,21 @@
+import { Entity } from './common.model';
+
+// A node in the test case folder tree. Folders without `parentId` sit at the
+// root; test cases point at their folder through `TestCase.folderId`.
+export interface TestFolder extends Entity {
+  name: string;
+  parentId?: string;
+}
+
+export interface CreateTestFolderInput {
+  name: string;
+  parentId?: string;
+}
+
+export interface TestFolderNode {
+  folder: TestFolder;
+  children: TestFolderNode[];
+  depth: number;
+  directCount: number;
+  totalCount: number;
+}
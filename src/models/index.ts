@@ -1,3 +1,8 @@
 export * from './common.model';
 export * from './catalog.model';
 export * from './testcase.model';
+export * from './stepgroup.model';
+export * from './folder.model';
+export * from './suite.model';
+export * from './classification.model';
+export * from './integrity.model';
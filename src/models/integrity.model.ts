@@ -0,0 +1,60 @@
+import { CatalogStep } from './catalog.model';
+import { TestStepMembership } from './testcase.model';
+import { TestSuite } from './suite.model';
+import { StepGroup } from './stepgroup.model';
+
+export type CatalogStepDeletePolicy = 'restrict' | 'cascade' | 'placeholder';
+
+export type MembershipIssueType = 'missing-test-case' | 'missing-catalog-step' | 'duplicate-process-order';
+
+export type IntegrityIssueType = MembershipIssueType | 'suite-missing-test-case' | 'group-missing-catalog-step';
+
+export interface MembershipIssue {
+  type: MembershipIssueType;
+  membershipId: string;
+  testCaseId: string;
+  catalogStepId: string;
+  message: string;
+}
+
+// A suite that still lists a deleted test case.
+export interface SuiteIssue {
+  type: 'suite-missing-test-case';
+  suiteId: string;
+  testCaseId: string;
+  message: string;
+}
+
+// A step group that still lists a deleted catalog step.
+export interface StepGroupIssue {
+  type: 'group-missing-catalog-step';
+  stepGroupId: string;
+  catalogStepId: string;
+  message: string;
+}
+
+export type IntegrityIssue = MembershipIssue | SuiteIssue | StepGroupIssue;
+
+export interface IntegrityReport {
+  issues: IntegrityIssue[];
+  checkedAt: Date;
+  totals: {
+    catalogSteps: number;
+    testCases: number;
+    memberships: number;
+  };
+}
+
+export interface RepairPlan {
+  deleteMembershipIds: string[];
+  updateMemberships: TestStepMembership[];
+  createCatalogSteps: CatalogStep[];
+  updateSuites: TestSuite[];
+  updateStepGroups: StepGroup[];
+}
+
+export interface DeleteOutcome {
+  deletedId: string;
+  removedMemberships: number;
+  reassignedMemberships: number;
+}
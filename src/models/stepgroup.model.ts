@@ -0,0 +1,25 @@
+import { Entity } from './common.model';
+
+// An ordered sub-sequence of catalog steps, such as a login and setup
+// preamble, that test cases insert as one unit.
+export interface StepGroup extends Entity {
+  name: string;
+  description: string;
+  catalogStepIds: string[];
+}
+
+export interface CreateStepGroupInput {
+  name: string;
+  description: string;
+  catalogStepIds: string[];
+}
+
+// `expand` copies the group's steps into plain memberships; `link` keeps them
+// tied to the group so they follow later changes to it.
+export type StepGroupInsertMode = 'expand' | 'link';
+
+export interface StepGroupUsage {
+  testCaseId: string;
+  linkedSteps: number;
+  expandedSteps: number;
+}
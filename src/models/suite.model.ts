@@ -0,0 +1,15 @@
+import { Entity } from './common.model';
+
+// A named selection of test cases, possibly from different folders, run in
+// the order of `testCaseIds`.
+export interface TestSuite extends Entity {
+  name: string;
+  description: string;
+  testCaseIds: string[];
+}
+
+export interface CreateTestSuiteInput {
+  name: string;
+  description: string;
+  testCaseIds: string[];
+}
@@ -1,21 +1,31 @@
 import { Entity } from './common.model';
-import { CatalogStep } from './catalog.model';
+import { CatalogStep, StepArgumentValue } from './catalog.model';
+import { Classification, ClassificationFilters } from './classification.model';
 
-export interface TestCase extends Entity {
+// `folderId` places the test case in the folder tree; without it the test
+// case is unfiled.
+export interface TestCase extends Entity, Classification {
   name: string;
   description: string;
+  folderId?: string;
 }
 
-export interface CreateTestCaseInput {
+export interface CreateTestCaseInput extends Classification {
   id: string;
   name: string;
   description: string;
+  folderId?: string;
 }
 
 export interface UpdateTestCaseInput extends Partial<Omit<CreateTestCaseInput, 'id'>> {
   id: string;
 }
 
+export interface TestCaseFilters extends ClassificationFilters {
+  folderId?: string;
+  searchTerm?: string;
+}
+
 export interface TestCaseWithSteps {
   testCase: TestCase;
   steps: TestCaseStepDetail[];
@@ -36,11 +46,19 @@ export interface TestCaseStats {
   };
 }
 
+// `arguments` holds this test case's values for the catalog step's
+// parameters, keyed by parameter name. A value such as `${step2.orderId}`
+// binds the parameter to an output of the step at process order 2.
+// `stepGroupId` records the step group the membership came from; while
+// `groupLinked` is set it is replaced whenever that group changes.
 export interface TestStepMembership {
   id: string;
   testCaseId: string;
   catalogStepId: string;
   processOrder: number;
+  arguments?: Record<string, StepArgumentValue>;
+  stepGroupId?: string;
+  groupLinked?: boolean;
   createdAt: Date;
 }
 
@@ -48,6 +66,7 @@ export interface CreateMembershipInput {
   testCaseId: string;
   catalogStepId: string;
   processOrder: number;
+  arguments?: Record<string, StepArgumentValue>;
 }
 
 export interface UpdateMembershipInput {
@@ -1,67 +1,96 @@
 import { useKV } from '@github/spark/hooks';
-import { Entity } from '@/models/common.model';
-import { useCallback } from 'react';
+import { Entity, EntityWithId, PageOptions, PaginatedResult, SortOptions, UpdateResult } from '@/models/common.model';
+import { useCallback, useEffect, useState } from 'react';
+import { StorageAdapter, getStorageAdapter } from './storage.adapter';
 
 export abstract class BaseRepository<T extends Entity> {
-  constructor(protected readonly storageKey: string) {}
+  protected readonly searchFields: string[] = [];
+  protected readonly defaultSort: SortOptions[] = [];
 
-  protected async getFromStorage(): Promise<T[]> {
-    const data = await window.spark.kv.get<T[]>(this.storageKey);
-    return data || [];
+  constructor(
+    protected readonly storageKey: string,
+    private readonly adapter?: StorageAdapter
+  ) {}
+
+  protected get storage(): StorageAdapter {
+    return this.adapter ?? getStorageAdapter();
   }
 
-  protected async saveToStorage(data: T[]): Promise<void> {
-    await window.spark.kv.set(this.storageKey, data);
+  protected async getFromStorage(): Promise<T[]> {
+    return this.storage.findAll<T>(this.storageKey);
   }
 
   async findAll(): Promise<T[]> {
     return this.getFromStorage();
   }
 
+  async findPage(options: PageOptions): Promise<PaginatedResult<T>> {
+    return this.storage.findPage<T>(this.storageKey, {
+      ...options,
+      sort: options.sort?.length ? options.sort : this.defaultSort,
+      search: options.search && {
+        ...options.search,
+        fields: options.search.fields?.length ? options.search.fields : this.searchFields,
+      },
+    });
+  }
+
   async findById(id: string): Promise<T | undefined> {
-    const items = await this.getFromStorage();
-    return items.find(item => item.id === id);
+    return this.storage.findById<T>(this.storageKey, id);
   }
 
   async create(item: T): Promise<T> {
-    const items = await this.getFromStorage();
     const newItem = {
       ...item,
       createdAt: new Date(),
       updatedAt: new Date(),
+      version: 1,
     };
-    items.push(newItem);
-    await this.saveToStorage(items);
-    return newItem;
+    return this.storage.insert(this.storageKey, newItem);
   }
 
   async update(item: T): Promise<T> {
-    const items = await this.getFromStorage();
-    const index = items.findIndex(i => i.id === item.id);
-    
-    if (index === -1) {
-      throw new Error(`Item with id ${item.id} not found`);
+    const result = await this.tryUpdate(item);
+
+    if (!result.success) {
+      throw new Error(result.error);
     }
 
+    return result.data!;
+  }
+
+  async tryUpdate(item: T): Promise<UpdateResult<T>> {
     const updatedItem = {
       ...item,
       updatedAt: new Date(),
     };
-    items[index] = updatedItem;
-    await this.saveToStorage(items);
-    return updatedItem;
-  }
+    const outcome = await this.storage.update(this.storageKey, updatedItem, item.version ?? 0);
 
-  async delete(id: string): Promise<boolean> {
-    const items = await this.getFromStorage();
-    const filteredItems = items.filter(item => item.id !== id);
-    
-    if (filteredItems.length === items.length) {
-      return false;
+    switch (outcome.status) {
+      case 'updated':
+        return { success: true, data: outcome.item };
+      case 'conflict':
+        return {
+          success: false,
+          error: `Item with id ${item.id} was changed by someone else`,
+          conflict: { current: outcome.current, attempted: updatedItem },
+        };
+      default:
+        return { success: false, error: `Item with id ${item.id} not found` };
     }
+  }
 
-    await this.saveToStorage(filteredItems);
-    return true;
+  // Patches several items without a version check, for changes that apply
+  // whatever else was edited, such as moving subfolders to a new parent.
+  async updateMany(patches: Array<Partial<T> & EntityWithId>): Promise<void> {
+    await this.storage.updateMany<T>(
+      this.storageKey,
+      patches.map(patch => ({ ...patch, updatedAt: new Date() }))
+    );
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.storage.delete(this.storageKey, id);
   }
 
   async exists(id: string): Promise<boolean> {
@@ -75,7 +104,7 @@ export abstract class BaseRepository<T extends Entity> {
   }
 
   async clear(): Promise<void> {
-    await this.saveToStorage([]);
+    await this.storage.clear(this.storageKey);
   }
 }
 
@@ -139,3 +168,114 @@ export function useRepository<T extends Entity>(
     clear,
   };
 }
+
+export function usePagedRepository<T extends Entity>(
+  repository: BaseRepository<T>,
+  options: PageOptions
+): {
+  result: PaginatedResult<T>;
+  loading: boolean;
+  error?: string;
+  refresh: () => void;
+} {
+  const [result, setResult] = useState<PaginatedResult<T>>({
+    items: [],
+    total: 0,
+    page: options.page,
+    pageSize: options.pageSize,
+    hasMore: false,
+  });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string>();
+  const [revision, setRevision] = useState(0);
+  const optionsKey = JSON.stringify(options);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    repository
+      .findPage(JSON.parse(optionsKey))
+      .then(page => {
+        if (cancelled) return;
+        setResult(page);
+        setError(undefined);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load page');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [repository, optionsKey, revision]);
+
+  const refresh = useCallback(() => setRevision(current => current + 1), []);
+
+  return { result, loading, error, refresh };
+}
+
+// Loads a whole collection, for views that need every item rather than a
+// page. Call `refresh` after writing through the repository.
+export function useRepositoryItems<T>(repository: { findAll(): Promise<T[]> }): {
+  items: T[];
+  loading: boolean;
+  error?: string;
+  refresh: () => void;
+} {
+  const [items, setItems] = useState<T[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string>();
+  const [revision, setRevision] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    repository
+      .findAll()
+      .then(all => {
+        if (cancelled) return;
+        setItems(all);
+        setError(undefined);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load items');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [repository, revision]);
+
+  const refresh = useCallback(() => setRevision(current => current + 1), []);
+
+  return { items, loading, error, refresh };
+}
+
+// For dialogs that stay mounted while closed: reloads each time `open`
+// turns true, so duplicate checks see items saved since.
+export function useRepositoryItemsWhenOpen<T>(
+  repository: { findAll(): Promise<T[]> },
+  open: boolean
+): {
+  items: T[];
+  loading: boolean;
+  error?: string;
+  refresh: () => void;
+} {
+  const loaded = useRepositoryItems(repository);
+  const { refresh } = loaded;
+
+  useEffect(() => {
+    if (open) refresh();
+  }, [open, refresh]);
+
+  return loaded;
+}
@@ -1,9 +1,15 @@
 import { CatalogStep, CatalogStepFilters } from '@/models/catalog.model';
+import { SortOptions } from '@/models/common.model';
+import { matchesClassification } from '@/lib/classification';
 import { BaseRepository } from './base.repository';
+import { StorageAdapter } from './storage.adapter';
 
 export class CatalogRepository extends BaseRepository<CatalogStep> {
-  constructor() {
-    super('catalog-steps');
+  protected readonly searchFields = ['name', 'description', 'javaClass', 'javaMethod', 'tags', 'owner'];
+  protected readonly defaultSort: SortOptions[] = [{ field: 'name', direction: 'asc' }];
+
+  constructor(adapter?: StorageAdapter) {
+    super('catalog-steps', adapter);
   }
 
   async findAll(): Promise<CatalogStep[]> {
@@ -22,6 +28,8 @@ export class CatalogRepository extends BaseRepository<CatalogStep> {
       steps = steps.filter(s => s.sqlTables.includes(filters.sqlTable!));
     }
 
+    steps = steps.filter(s => matchesClassification(s, filters));
+
     if (filters.searchTerm) {
       const term = filters.searchTerm.toLowerCase();
       steps = steps.filter(
@@ -29,7 +37,9 @@ export class CatalogRepository extends BaseRepository<CatalogStep> {
           s.name.toLowerCase().includes(term) ||
           s.description.toLowerCase().includes(term) ||
           s.javaClass.toLowerCase().includes(term) ||
-          s.javaMethod.toLowerCase().includes(term)
+          s.javaMethod.toLowerCase().includes(term) ||
+          (s.owner ?? '').toLowerCase().includes(term) ||
+          (s.tags ?? []).some(tag => tag.toLowerCase().includes(term))
       );
     }
 
@@ -0,0 +1,25 @@
+import { CustomFieldDefinition, CustomFieldTarget } from '@/models/classification.model';
+import { SortOptions } from '@/models/common.model';
+import { getCustomFieldsFor } from '@/lib/classification';
+import { BaseRepository } from './base.repository';
+import { StorageAdapter } from './storage.adapter';
+
+export class CustomFieldRepository extends BaseRepository<CustomFieldDefinition> {
+  protected readonly searchFields = ['key', 'label'];
+  protected readonly defaultSort: SortOptions[] = [{ field: 'label', direction: 'asc' }];
+
+  constructor(adapter?: StorageAdapter) {
+    super('custom-fields', adapter);
+  }
+
+  async findAll(): Promise<CustomFieldDefinition[]> {
+    const fields = await this.getFromStorage();
+    return fields.sort((a, b) => a.label.localeCompare(b.label));
+  }
+
+  async findByTarget(target: CustomFieldTarget): Promise<CustomFieldDefinition[]> {
+    return getCustomFieldsFor(await this.getFromStorage(), target);
+  }
+}
+
+export const customFieldRepository = new CustomFieldRepository();
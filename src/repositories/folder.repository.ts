@@ -0,0 +1,26 @@
+import { TestFolder } from '@/models/folder.model';
+import { SortOptions } from '@/models/common.model';
+import { BaseRepository } from './base.repository';
+import { StorageAdapter } from './storage.adapter';
+
+export class TestFolderRepository extends BaseRepository<TestFolder> {
+  protected readonly searchFields = ['name'];
+  protected readonly defaultSort: SortOptions[] = [{ field: 'name', direction: 'asc' }];
+
+  constructor(adapter?: StorageAdapter) {
+    super('test-folders', adapter);
+  }
+
+  async findAll(): Promise<TestFolder[]> {
+    const folders = await this.getFromStorage();
+    return folders.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  // Root folders when `parentId` is omitted.
+  async findChildren(parentId?: string): Promise<TestFolder[]> {
+    const folders = await this.findAll();
+    return folders.filter(folder => (folder.parentId ?? undefined) === parentId);
+  }
+}
+
+export const testFolderRepository = new TestFolderRepository();
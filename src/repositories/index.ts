@@ -1,3 +1,11 @@
 export * from './base.repository';
 export * from './catalog.repository';
 export * from './testcase.repository';
+export * from './stepgroup.repository';
+export * from './folder.repository';
+export * from './suite.repository';
+export * from './customfield.repository';
+export * from './storage.adapter';
+export * from './kv.adapter';
+export * from './sql.adapter';
+export * from './indexeddb.adapter';
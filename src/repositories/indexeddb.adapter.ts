@@ -0,0 +1,151 @@
+import { PageOptions, PaginatedResult } from '@/models/common.model';
+import { paginate } from '@/lib/pagination';
+import type { StorageAdapter, StorageRecord, UpdateOutcome } from './storage.adapter';
+
+const STORE_NAME = 'records';
+const COLLECTION_INDEX = 'collection';
+
+interface StoredRecord<T> {
+  collection: string;
+  id: string;
+  value: T;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+  });
+}
+
+export class IndexedDBStorageAdapter implements StorageAdapter {
+  readonly kind = 'indexeddb' as const;
+  private database: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly databaseName: string = 'tceditor') {}
+
+  async findAll<T extends StorageRecord>(collection: string): Promise<T[]> {
+    const store = await this.store('readonly');
+    const records = await requestToPromise<StoredRecord<T>[]>(
+      store.index(COLLECTION_INDEX).getAll(IDBKeyRange.only(collection))
+    );
+    return records.map(record => record.value);
+  }
+
+  async findById<T extends StorageRecord>(collection: string, id: string): Promise<T | undefined> {
+    const store = await this.store('readonly');
+    const record = await requestToPromise<StoredRecord<T> | undefined>(store.get([collection, id]));
+    return record?.value;
+  }
+
+  async findWhere<T extends StorageRecord>(collection: string, field: string, value: unknown): Promise<T[]> {
+    const items = await this.findAll<T>(collection);
+    return items.filter(item => (item as Record<string, unknown>)[field] === value);
+  }
+
+  async findPage<T extends StorageRecord>(collection: string, options: PageOptions): Promise<PaginatedResult<T>> {
+    return paginate(await this.findAll<T>(collection), options);
+  }
+
+  async insert<T extends StorageRecord>(collection: string, item: T): Promise<T> {
+    const store = await this.store('readwrite');
+    await requestToPromise(store.add({ collection, id: item.id, value: item }));
+    await transactionDone(store.transaction);
+    return item;
+  }
+
+  async update<T extends StorageRecord>(collection: string, item: T, expectedVersion?: number): Promise<UpdateOutcome<T>> {
+    const store = await this.store('readwrite');
+    const existing = await requestToPromise<StoredRecord<T> | undefined>(store.get([collection, item.id]));
+
+    if (!existing) {
+      return { status: 'not-found' };
+    }
+
+    let updatedItem = item;
+    if (expectedVersion !== undefined) {
+      if ((existing.value.version ?? 0) !== expectedVersion) {
+        return { status: 'conflict', current: existing.value };
+      }
+      updatedItem = { ...item, version: expectedVersion + 1 };
+    }
+
+    store.put({ collection, id: item.id, value: updatedItem });
+    await transactionDone(store.transaction);
+    return { status: 'updated', item: updatedItem };
+  }
+
+  async updateMany<T extends StorageRecord>(
+    collection: string,
+    patches: Array<Partial<T> & StorageRecord>
+  ): Promise<void> {
+    const store = await this.store('readwrite');
+
+    for (const patch of patches) {
+      const record = await requestToPromise<StoredRecord<T> | undefined>(store.get([collection, patch.id]));
+      if (record) {
+        store.put({ ...record, value: { ...record.value, ...patch } });
+      }
+    }
+
+    await transactionDone(store.transaction);
+  }
+
+  async delete(collection: string, id: string): Promise<boolean> {
+    const store = await this.store('readwrite');
+    const existing = await requestToPromise(store.getKey([collection, id]));
+
+    if (existing === undefined) {
+      return false;
+    }
+
+    store.delete([collection, id]);
+    await transactionDone(store.transaction);
+    return true;
+  }
+
+  async deleteWhere(collection: string, field: string, value: unknown): Promise<number> {
+    const matches = await this.findWhere(collection, field, value);
+    if (matches.length === 0) return 0;
+
+    const store = await this.store('readwrite');
+    matches.forEach(item => store.delete([collection, item.id]));
+    await transactionDone(store.transaction);
+    return matches.length;
+  }
+
+  async clear(collection: string): Promise<void> {
+    const store = await this.store('readwrite');
+    const keys = await requestToPromise(store.index(COLLECTION_INDEX).getAllKeys(IDBKeyRange.only(collection)));
+    keys.forEach(key => store.delete(key));
+    await transactionDone(store.transaction);
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const database = await this.open();
+    return database.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const request = indexedDB.open(this.databaseName, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: ['collection', 'id'] });
+        store.createIndex(COLLECTION_INDEX, 'collection');
+      };
+      this.database = requestToPromise(request).catch(error => {
+        this.database = null;
+        throw error;
+      });
+    }
+    return this.database;
+  }
+}
@@ -0,0 +1,102 @@
+import { PageOptions, PaginatedResult } from '@/models/common.model';
+import { paginate } from '@/lib/pagination';
+import type { StorageAdapter, StorageRecord, UpdateOutcome } from './storage.adapter';
+
+export class KVStorageAdapter implements StorageAdapter {
+  readonly kind = 'kv' as const;
+
+  async findAll<T extends StorageRecord>(collection: string): Promise<T[]> {
+    const data = await window.spark.kv.get<T[]>(collection);
+    return data || [];
+  }
+
+  async findById<T extends StorageRecord>(collection: string, id: string): Promise<T | undefined> {
+    const items = await this.findAll<T>(collection);
+    return items.find(item => item.id === id);
+  }
+
+  async findWhere<T extends StorageRecord>(collection: string, field: string, value: unknown): Promise<T[]> {
+    const items = await this.findAll<T>(collection);
+    return items.filter(item => (item as Record<string, unknown>)[field] === value);
+  }
+
+  async findPage<T extends StorageRecord>(collection: string, options: PageOptions): Promise<PaginatedResult<T>> {
+    return paginate(await this.findAll<T>(collection), options);
+  }
+
+  async insert<T extends StorageRecord>(collection: string, item: T): Promise<T> {
+    const items = await this.findAll<T>(collection);
+    items.push(item);
+    await this.save(collection, items);
+    return item;
+  }
+
+  async update<T extends StorageRecord>(collection: string, item: T, expectedVersion?: number): Promise<UpdateOutcome<T>> {
+    const items = await this.findAll<T>(collection);
+    const index = items.findIndex(i => i.id === item.id);
+
+    if (index === -1) {
+      return { status: 'not-found' };
+    }
+
+    let updatedItem = item;
+    if (expectedVersion !== undefined) {
+      if ((items[index].version ?? 0) !== expectedVersion) {
+        return { status: 'conflict', current: items[index] };
+      }
+      updatedItem = { ...item, version: expectedVersion + 1 };
+    }
+
+    items[index] = updatedItem;
+    await this.save(collection, items);
+    return { status: 'updated', item: updatedItem };
+  }
+
+  async updateMany<T extends StorageRecord>(
+    collection: string,
+    patches: Array<Partial<T> & StorageRecord>
+  ): Promise<void> {
+    const items = await this.findAll<T>(collection);
+    const patchMap = new Map(patches.map(p => [p.id, p]));
+
+    await this.save(
+      collection,
+      items.map(item => {
+        const patch = patchMap.get(item.id);
+        return patch ? { ...item, ...patch } : item;
+      })
+    );
+  }
+
+  async delete(collection: string, id: string): Promise<boolean> {
+    const items = await this.findAll(collection);
+    const filteredItems = items.filter(item => item.id !== id);
+
+    if (filteredItems.length === items.length) {
+      return false;
+    }
+
+    await this.save(collection, filteredItems);
+    return true;
+  }
+
+  async deleteWhere(collection: string, field: string, value: unknown): Promise<number> {
+    const items = await this.findAll<StorageRecord & Record<string, unknown>>(collection);
+    const filteredItems = items.filter(item => item[field] !== value);
+    const deletedCount = items.length - filteredItems.length;
+
+    if (deletedCount > 0) {
+      await this.save(collection, filteredItems);
+    }
+
+    return deletedCount;
+  }
+
+  async clear(collection: string): Promise<void> {
+    await this.save(collection, []);
+  }
+
+  private async save<T>(collection: string, items: T[]): Promise<void> {
+    await window.spark.kv.set(collection, items);
+  }
+}
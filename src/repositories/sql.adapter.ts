@@ -0,0 +1,359 @@
+import {
+  dbService,
+  CatalogStepQueries,
+  TestCaseQueries,
+  MembershipQueries,
+  StepGroupQueries,
+  TestFolderQueries,
+  TestSuiteQueries,
+  CustomFieldQueries,
+} from '@/lib/db-service';
+import { DriverResult, PreparedStatement, PagedStatements, TransactionContext } from '@/lib/db-types';
+import { PageOptions, PaginatedResult } from '@/models/common.model';
+import { getPageBounds, paginate } from '@/lib/pagination';
+import { CatalogStep, StepArgumentValue, StepOutput, StepParameter } from '@/models/catalog.model';
+import { TestCase, TestStepMembership } from '@/models/testcase.model';
+import { StepGroup } from '@/models/stepgroup.model';
+import { TestFolder } from '@/models/folder.model';
+import { TestSuite } from '@/models/suite.model';
+import { CustomFieldDefinition, CustomFieldValue } from '@/models/classification.model';
+import type { StorageAdapter, StorageRecord, UpdateOutcome } from './storage.adapter';
+
+interface SqlCollection<T extends StorageRecord> {
+  getAll: () => PreparedStatement;
+  getById: (id: string) => PreparedStatement;
+  insert: (item: T) => PreparedStatement;
+  update: (item: T) => PreparedStatement;
+  updateMany?: (items: T[]) => PreparedStatement[];
+  delete: (id: string) => PreparedStatement;
+  deleteAll: () => PreparedStatement;
+  getPage?: (options: PageOptions) => PagedStatements;
+  findWhere?: Record<string, (value: any) => PreparedStatement>;
+  deleteWhere?: Record<string, (value: any) => PreparedStatement>;
+  fromRow: (row: Record<string, any>) => T;
+}
+
+const toDate = (value: unknown): Date => (value ? new Date(value as string) : new Date());
+
+const parseJson = <T>(value: unknown, fallback: T): T => {
+  if (value !== null && typeof value === 'object') return value as T;
+  try {
+    return value ? JSON.parse(value as string) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const catalogSteps: SqlCollection<CatalogStep> = {
+  getAll: CatalogStepQueries.getAll,
+  getById: CatalogStepQueries.getById,
+  insert: CatalogStepQueries.insert,
+  update: CatalogStepQueries.update,
+  delete: CatalogStepQueries.delete,
+  deleteAll: CatalogStepQueries.deleteAll,
+  getPage: CatalogStepQueries.getPage,
+  fromRow: row => ({
+    id: row.Id,
+    name: row.Name,
+    description: row.Description ?? '',
+    javaClass: row.JavaClass,
+    javaMethod: row.JavaMethod,
+    sqlTables: parseJson<string[]>(row.SqlTables, []),
+    parameters: parseJson<StepParameter[]>(row.Parameters, []),
+    outputs: parseJson<StepOutput[]>(row.Outputs, []),
+    tags: parseJson<string[]>(row.Tags, []),
+    priority: row.Priority ?? undefined,
+    owner: row.Owner ?? undefined,
+    customFields: parseJson<Record<string, CustomFieldValue>>(row.CustomFields, {}),
+    createdAt: toDate(row.CreatedAt),
+    updatedAt: toDate(row.UpdatedAt),
+    version: row.Version,
+  }),
+};
+
+const testCases: SqlCollection<TestCase> = {
+  getAll: TestCaseQueries.getAll,
+  getById: TestCaseQueries.getById,
+  insert: TestCaseQueries.insert,
+  update: TestCaseQueries.update,
+  delete: TestCaseQueries.delete,
+  deleteAll: TestCaseQueries.deleteAll,
+  getPage: TestCaseQueries.getPage,
+  fromRow: row => ({
+    id: row.Id,
+    name: row.Name,
+    description: row.Description ?? '',
+    folderId: row.FolderId ?? undefined,
+    tags: parseJson<string[]>(row.Tags, []),
+    priority: row.Priority ?? undefined,
+    owner: row.Owner ?? undefined,
+    customFields: parseJson<Record<string, CustomFieldValue>>(row.CustomFields, {}),
+    createdAt: toDate(row.CreatedAt),
+    updatedAt: toDate(row.UpdatedAt),
+    version: row.Version,
+  }),
+};
+
+const memberships: SqlCollection<TestStepMembership> = {
+  getAll: MembershipQueries.getAll,
+  getById: MembershipQueries.getById,
+  insert: MembershipQueries.insert,
+  update: MembershipQueries.update,
+  updateMany: MembershipQueries.bulkUpdateOrder,
+  delete: MembershipQueries.delete,
+  deleteAll: MembershipQueries.deleteAll,
+  findWhere: {
+    testCaseId: MembershipQueries.getByTestCase,
+    catalogStepId: MembershipQueries.getByCatalogStep,
+    stepGroupId: MembershipQueries.getByStepGroup,
+  },
+  deleteWhere: {
+    testCaseId: MembershipQueries.deleteByTestCase,
+    catalogStepId: MembershipQueries.deleteByCatalogStep,
+  },
+  fromRow: row => ({
+    id: row.Id,
+    testCaseId: row.TestCaseId,
+    catalogStepId: row.CatalogStepId,
+    processOrder: row.ProcessOrder,
+    arguments: parseJson<Record<string, StepArgumentValue>>(row.Arguments, {}),
+    stepGroupId: row.StepGroupId ?? undefined,
+    groupLinked: Boolean(row.GroupLinked),
+    createdAt: toDate(row.CreatedAt),
+  }),
+};
+
+const stepGroups: SqlCollection<StepGroup> = {
+  getAll: StepGroupQueries.getAll,
+  getById: StepGroupQueries.getById,
+  insert: StepGroupQueries.insert,
+  update: StepGroupQueries.update,
+  delete: StepGroupQueries.delete,
+  deleteAll: StepGroupQueries.deleteAll,
+  fromRow: row => ({
+    id: row.Id,
+    name: row.Name,
+    description: row.Description ?? '',
+    catalogStepIds: parseJson<string[]>(row.CatalogStepIds, []),
+    createdAt: toDate(row.CreatedAt),
+    updatedAt: toDate(row.UpdatedAt),
+    version: row.Version,
+  }),
+};
+
+const testFolders: SqlCollection<TestFolder> = {
+  getAll: TestFolderQueries.getAll,
+  getById: TestFolderQueries.getById,
+  insert: TestFolderQueries.insert,
+  update: TestFolderQueries.update,
+  delete: TestFolderQueries.delete,
+  deleteAll: TestFolderQueries.deleteAll,
+  fromRow: row => ({
+    id: row.Id,
+    name: row.Name,
+    parentId: row.ParentId ?? undefined,
+    createdAt: toDate(row.CreatedAt),
+    updatedAt: toDate(row.UpdatedAt),
+    version: row.Version,
+  }),
+};
+
+const testSuites: SqlCollection<TestSuite> = {
+  getAll: TestSuiteQueries.getAll,
+  getById: TestSuiteQueries.getById,
+  insert: TestSuiteQueries.insert,
+  update: TestSuiteQueries.update,
+  delete: TestSuiteQueries.delete,
+  deleteAll: TestSuiteQueries.deleteAll,
+  fromRow: row => ({
+    id: row.Id,
+    name: row.Name,
+    description: row.Description ?? '',
+    testCaseIds: parseJson<string[]>(row.TestCaseIds, []),
+    createdAt: toDate(row.CreatedAt),
+    updatedAt: toDate(row.UpdatedAt),
+    version: row.Version,
+  }),
+};
+
+const customFields: SqlCollection<CustomFieldDefinition> = {
+  getAll: CustomFieldQueries.getAll,
+  getById: CustomFieldQueries.getById,
+  insert: CustomFieldQueries.insert,
+  update: CustomFieldQueries.update,
+  delete: CustomFieldQueries.delete,
+  deleteAll: CustomFieldQueries.deleteAll,
+  fromRow: row => ({
+    id: row.Id,
+    key: row.FieldKey,
+    label: row.Label,
+    type: row.FieldType,
+    appliesTo: parseJson(row.AppliesTo, []),
+    required: Boolean(row.Required),
+    options: parseJson<string[]>(row.Options, []),
+    createdAt: toDate(row.CreatedAt),
+    updatedAt: toDate(row.UpdatedAt),
+    version: row.Version,
+  }),
+};
+
+const SQL_COLLECTIONS: Record<string, SqlCollection<any>> = {
+  'catalog-steps': catalogSteps,
+  'test-cases': testCases,
+  'test-memberships': memberships,
+  'step-groups': stepGroups,
+  'test-folders': testFolders,
+  'test-suites': testSuites,
+  'custom-fields': customFields,
+};
+
+export class SqlStorageAdapter implements StorageAdapter {
+  readonly kind = 'sql' as const;
+
+  // Bound to a transaction, statements run through it rather than queueing
+  // behind it for dbService's transaction lock.
+  constructor(private readonly transaction?: TransactionContext) {}
+
+  async findAll<T extends StorageRecord>(collection: string): Promise<T[]> {
+    const mapping = this.getCollection<T>(collection);
+    return this.query(mapping, mapping.getAll());
+  }
+
+  async findById<T extends StorageRecord>(collection: string, id: string): Promise<T | undefined> {
+    const mapping = this.getCollection<T>(collection);
+    const rows = await this.query(mapping, mapping.getById(id));
+    return rows[0];
+  }
+
+  async findWhere<T extends StorageRecord>(collection: string, field: string, value: unknown): Promise<T[]> {
+    const mapping = this.getCollection<T>(collection);
+    const statement = mapping.findWhere?.[field];
+
+    if (statement) {
+      return this.query(mapping, statement(value));
+    }
+
+    const items = await this.findAll<T>(collection);
+    return items.filter(item => (item as Record<string, unknown>)[field] === value);
+  }
+
+  async findPage<T extends StorageRecord>(collection: string, options: PageOptions): Promise<PaginatedResult<T>> {
+    const mapping = this.getCollection<T>(collection);
+
+    if (!mapping.getPage) {
+      return paginate(await this.findAll<T>(collection), options);
+    }
+
+    const statements = mapping.getPage(options);
+    const countResult = await this.run<Array<{ Total: number }>>(statements.count);
+    const matched = Number(countResult.data?.[0]?.Total ?? 0);
+    const total = options.search?.limit !== undefined ? Math.min(matched, options.search.limit) : matched;
+    const { offset, fetch } = getPageBounds(options, total);
+    const items = fetch > 0 ? await this.query(mapping, statements.page(offset, fetch)) : [];
+
+    return {
+      items,
+      total,
+      page: options.page,
+      pageSize: options.pageSize,
+      hasMore: offset + fetch < total,
+    };
+  }
+
+  async insert<T extends StorageRecord>(collection: string, item: T): Promise<T> {
+    await this.execute(this.getCollection<T>(collection).insert(item));
+    return item;
+  }
+
+  async update<T extends StorageRecord>(collection: string, item: T, expectedVersion?: number): Promise<UpdateOutcome<T>> {
+    const mapping = this.getCollection<T>(collection);
+    const rowCount = await this.execute(mapping.update({ ...item, version: expectedVersion }));
+
+    const current = await this.findById<T>(collection, item.id);
+    if (!current) {
+      return { status: 'not-found' };
+    }
+    return rowCount > 0 ? { status: 'updated', item: current } : { status: 'conflict', current };
+  }
+
+  async updateMany<T extends StorageRecord>(
+    collection: string,
+    patches: Array<Partial<T> & StorageRecord>
+  ): Promise<void> {
+    const mapping = this.getCollection<T>(collection);
+    const current = new Map((await this.findAll<T>(collection)).map(item => [item.id, item]));
+    const items = patches
+      .filter(patch => current.has(patch.id))
+      .map(patch => ({ ...current.get(patch.id)!, ...patch }) as T);
+
+    if (items.length === 0) return;
+
+    const statements = mapping.updateMany ? mapping.updateMany(items) : items.map(mapping.update);
+    if (this.transaction) {
+      for (const statement of statements) {
+        await this.transaction.execute(statement);
+      }
+      return;
+    }
+
+    const result = await dbService.executeTransaction(statements);
+
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+  }
+
+  async delete(collection: string, id: string): Promise<boolean> {
+    const rowCount = await this.execute(this.getCollection(collection).delete(id));
+    return rowCount > 0;
+  }
+
+  async deleteWhere(collection: string, field: string, value: unknown): Promise<number> {
+    const mapping = this.getCollection(collection);
+    const statement = mapping.deleteWhere?.[field];
+
+    if (statement) {
+      return this.execute(statement(value));
+    }
+
+    const items = await this.findWhere(collection, field, value);
+    for (const item of items) {
+      await this.execute(mapping.delete(item.id));
+    }
+    return items.length;
+  }
+
+  async clear(collection: string): Promise<void> {
+    await this.execute(this.getCollection(collection).deleteAll());
+  }
+
+  private getCollection<T extends StorageRecord>(collection: string): SqlCollection<T> {
+    const mapping = SQL_COLLECTIONS[collection];
+    if (!mapping) {
+      throw new Error(`Collection ${collection} has no SQL table mapping`);
+    }
+    return mapping;
+  }
+
+  private async query<T extends StorageRecord>(mapping: SqlCollection<T>, statement: PreparedStatement): Promise<T[]> {
+    const result = await this.run<Record<string, any>[]>(statement);
+    return (result.data ?? []).map(mapping.fromRow);
+  }
+
+  private async execute(statement: PreparedStatement): Promise<number> {
+    const result = await this.run(statement);
+    return result.rowCount;
+  }
+
+  private async run<R>(statement: PreparedStatement): Promise<DriverResult<R>> {
+    if (this.transaction) {
+      return this.transaction.execute<R>(statement);
+    }
+
+    const result = await dbService.executeQuery<R>(statement);
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+    return { data: result.data as R, rowCount: result.rowCount ?? 0 };
+  }
+}
@@ -0,0 +1,34 @@
+import { StepGroup, StepGroupUsage } from '@/models/stepgroup.model';
+import { TestStepMembership } from '@/models/testcase.model';
+import { SortOptions } from '@/models/common.model';
+import { findStepGroupUsages } from '@/lib/step-groups';
+import { BaseRepository } from './base.repository';
+import { StorageAdapter } from './storage.adapter';
+
+export class StepGroupRepository extends BaseRepository<StepGroup> {
+  protected readonly searchFields = ['name', 'description'];
+  protected readonly defaultSort: SortOptions[] = [{ field: 'name', direction: 'asc' }];
+
+  constructor(adapter?: StorageAdapter) {
+    super('step-groups', adapter);
+  }
+
+  async findAll(): Promise<StepGroup[]> {
+    const groups = await this.getFromStorage();
+    return groups.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async findByCatalogStep(catalogStepId: string): Promise<StepGroup[]> {
+    const groups = await this.findAll();
+    return groups.filter(group => group.catalogStepIds.includes(catalogStepId));
+  }
+
+  // Every test case holding memberships that came from the group, linked or
+  // expanded.
+  async findUsages(groupId: string): Promise<StepGroupUsage[]> {
+    const memberships = await this.storage.findWhere<TestStepMembership>('test-memberships', 'stepGroupId', groupId);
+    return findStepGroupUsages(memberships, groupId);
+  }
+}
+
+export const stepGroupRepository = new StepGroupRepository();
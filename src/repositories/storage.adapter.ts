@@ -0,0 +1,68 @@
+import { DatabaseConnection, RepositoryStorage } from '@/lib/db-types';
+import { dbService } from '@/lib/db-service';
+import { PageOptions, PaginatedResult } from '@/models/common.model';
+import { KVStorageAdapter } from './kv.adapter';
+import { SqlStorageAdapter } from './sql.adapter';
+import { IndexedDBStorageAdapter } from './indexeddb.adapter';
+
+export interface StorageRecord {
+  id: string;
+  version?: number;
+}
+
+export type UpdateOutcome<T> =
+  | { status: 'updated'; item: T }
+  | { status: 'not-found' }
+  | { status: 'conflict'; current: T };
+
+export interface StorageAdapter {
+  readonly kind: RepositoryStorage;
+  findAll<T extends StorageRecord>(collection: string): Promise<T[]>;
+  findById<T extends StorageRecord>(collection: string, id: string): Promise<T | undefined>;
+  findWhere<T extends StorageRecord>(collection: string, field: string, value: unknown): Promise<T[]>;
+  findPage<T extends StorageRecord>(collection: string, options: PageOptions): Promise<PaginatedResult<T>>;
+  insert<T extends StorageRecord>(collection: string, item: T): Promise<T>;
+  update<T extends StorageRecord>(collection: string, item: T, expectedVersion?: number): Promise<UpdateOutcome<T>>;
+  updateMany<T extends StorageRecord>(collection: string, patches: Array<Partial<T> & StorageRecord>): Promise<void>;
+  delete(collection: string, id: string): Promise<boolean>;
+  deleteWhere(collection: string, field: string, value: unknown): Promise<number>;
+  clear(collection: string): Promise<void>;
+}
+
+export const kvStorageAdapter = new KVStorageAdapter();
+
+let activeAdapter: StorageAdapter = kvStorageAdapter;
+
+export function getStorageAdapter(): StorageAdapter {
+  return activeAdapter;
+}
+
+export function setStorageAdapter(adapter: StorageAdapter): void {
+  activeAdapter = adapter;
+}
+
+// With the SQL adapter, `work` runs against an adapter bound to one database
+// transaction, so a failure part way leaves nothing changed. The other
+// adapters have no transactions and run it as is.
+export function runInStorageTransaction<R>(
+  adapter: StorageAdapter,
+  work: (adapter: StorageAdapter) => Promise<R>
+): Promise<R> {
+  return adapter.kind === 'sql' ? dbService.runInTransaction(tx => work(new SqlStorageAdapter(tx))) : work(adapter);
+}
+
+export function createStorageAdapter(connection: DatabaseConnection | null): StorageAdapter {
+  if (!connection) {
+    return kvStorageAdapter;
+  }
+
+  switch (connection.repositoryStorage ?? 'sql') {
+    case 'sql':
+      return new SqlStorageAdapter();
+    case 'indexeddb':
+      return new IndexedDBStorageAdapter(`tceditor-${connection.id}`);
+    case 'kv':
+    default:
+      return kvStorageAdapter;
+  }
+}
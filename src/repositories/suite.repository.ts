@@ -0,0 +1,25 @@
+import { TestSuite } from '@/models/suite.model';
+import { SortOptions } from '@/models/common.model';
+import { BaseRepository } from './base.repository';
+import { StorageAdapter } from './storage.adapter';
+
+export class TestSuiteRepository extends BaseRepository<TestSuite> {
+  protected readonly searchFields = ['name', 'description'];
+  protected readonly defaultSort: SortOptions[] = [{ field: 'name', direction: 'asc' }];
+
+  constructor(adapter?: StorageAdapter) {
+    super('test-suites', adapter);
+  }
+
+  async findAll(): Promise<TestSuite[]> {
+    const suites = await this.getFromStorage();
+    return suites.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async findByTestCase(testCaseId: string): Promise<TestSuite[]> {
+    const suites = await this.findAll();
+    return suites.filter(suite => suite.testCaseIds.includes(testCaseId));
+  }
+}
+
+export const testSuiteRepository = new TestSuiteRepository();
@@ -1,10 +1,16 @@
-import { TestCase, TestCaseWithSteps, TestStepMembership } from '@/models/testcase.model';
+import { TestCase, TestCaseFilters, TestCaseWithSteps, TestStepMembership } from '@/models/testcase.model';
 import { CatalogStep } from '@/models/catalog.model';
+import { SortOptions } from '@/models/common.model';
+import { matchesClassification } from '@/lib/classification';
 import { BaseRepository } from './base.repository';
+import { StorageAdapter, getStorageAdapter, runInStorageTransaction } from './storage.adapter';
 
 export class TestCaseRepository extends BaseRepository<TestCase> {
-  constructor() {
-    super('test-cases');
+  protected readonly searchFields = ['id', 'name', 'description', 'tags', 'owner'];
+  protected readonly defaultSort: SortOptions[] = [{ field: 'name', direction: 'asc' }];
+
+  constructor(adapter?: StorageAdapter) {
+    super('test-cases', adapter);
   }
 
   async findAll(): Promise<TestCase[]> {
@@ -16,11 +22,10 @@ export class TestCaseRepository extends BaseRepository<TestCase> {
     const testCase = await this.findById(id);
     if (!testCase) return undefined;
 
-    const memberships = await window.spark.kv.get<TestStepMembership[]>('test-memberships') || [];
-    const catalogSteps = await window.spark.kv.get<CatalogStep[]>('catalog-steps') || [];
+    const memberships = await this.storage.findWhere<TestStepMembership>('test-memberships', 'testCaseId', id);
+    const catalogSteps = await this.storage.findAll<CatalogStep>('catalog-steps');
 
     const caseMemberships = memberships
-      .filter(m => m.testCaseId === id)
       .sort((a, b) => a.processOrder - b.processOrder);
 
     const steps = caseMemberships.map(membership => {
@@ -37,117 +42,114 @@ export class TestCaseRepository extends BaseRepository<TestCase> {
     };
   }
 
+  async findByFolder(folderId?: string): Promise<TestCase[]> {
+    const testCases = await this.findAll();
+    return testCases.filter(tc => (tc.folderId ?? undefined) === folderId);
+  }
+
+  // Moves test cases without a version check, as when their folder is
+  // deleted and they follow it up to its parent.
+  async moveToFolder(testCaseIds: string[], folderId?: string): Promise<void> {
+    await this.storage.updateMany<TestCase>(
+      this.storageKey,
+      testCaseIds.map(id => ({ id, folderId, updatedAt: new Date() }))
+    );
+  }
+
+  async findByFilters(filters: TestCaseFilters): Promise<TestCase[]> {
+    let testCases = await this.getFromStorage();
+
+    if (filters.folderId) {
+      testCases = testCases.filter(tc => tc.folderId === filters.folderId);
+    }
+
+    testCases = testCases.filter(tc => matchesClassification(tc, filters));
+
+    if (filters.searchTerm) {
+      const term = filters.searchTerm.toLowerCase();
+      testCases = testCases.filter(
+        tc =>
+          tc.id.toLowerCase().includes(term) ||
+          tc.name.toLowerCase().includes(term) ||
+          tc.description.toLowerCase().includes(term) ||
+          (tc.owner ?? '').toLowerCase().includes(term) ||
+          (tc.tags ?? []).some(tag => tag.toLowerCase().includes(term))
+      );
+    }
+
+    return testCases.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
   async search(searchTerm: string): Promise<TestCase[]> {
-    const testCases = await this.getFromStorage();
-    const term = searchTerm.toLowerCase();
-    
-    return testCases.filter(
-      tc =>
-        tc.id.toLowerCase().includes(term) ||
-        tc.name.toLowerCase().includes(term) ||
-        tc.description.toLowerCase().includes(term)
-    ).sort((a, b) => a.name.localeCompare(b.name));
+    return this.findByFilters({ searchTerm });
   }
 }
 
 export class MembershipRepository {
   private readonly storageKey = 'test-memberships';
 
-  private async getFromStorage(): Promise<TestStepMembership[]> {
-    const data = await window.spark.kv.get<TestStepMembership[]>(this.storageKey);
-    return data || [];
-  }
+  constructor(private readonly adapter?: StorageAdapter) {}
 
-  private async saveToStorage(data: TestStepMembership[]): Promise<void> {
-    await window.spark.kv.set(this.storageKey, data);
+  private get storage(): StorageAdapter {
+    return this.adapter ?? getStorageAdapter();
   }
 
   async findAll(): Promise<TestStepMembership[]> {
-    return this.getFromStorage();
+    return this.storage.findAll<TestStepMembership>(this.storageKey);
   }
 
   async findByTestCase(testCaseId: string): Promise<TestStepMembership[]> {
-    const memberships = await this.getFromStorage();
-    return memberships
-      .filter(m => m.testCaseId === testCaseId)
-      .sort((a, b) => a.processOrder - b.processOrder);
+    const memberships = await this.storage.findWhere<TestStepMembership>(this.storageKey, 'testCaseId', testCaseId);
+    return memberships.sort((a, b) => a.processOrder - b.processOrder);
   }
 
   async findByCatalogStep(catalogStepId: string): Promise<TestStepMembership[]> {
-    const memberships = await this.getFromStorage();
-    return memberships.filter(m => m.catalogStepId === catalogStepId);
+    return this.storage.findWhere<TestStepMembership>(this.storageKey, 'catalogStepId', catalogStepId);
   }
 
   async create(membership: Omit<TestStepMembership, 'createdAt'>): Promise<TestStepMembership> {
-    const memberships = await this.getFromStorage();
     const newMembership = {
       ...membership,
       createdAt: new Date(),
     };
-    memberships.push(newMembership);
-    await this.saveToStorage(memberships);
-    return newMembership;
+    return this.storage.insert(this.storageKey, newMembership);
   }
 
   async update(membership: TestStepMembership): Promise<TestStepMembership> {
-    const memberships = await this.getFromStorage();
-    const index = memberships.findIndex(m => m.id === membership.id);
-    
-    if (index === -1) {
+    const outcome = await this.storage.update(this.storageKey, membership);
+    if (outcome.status === 'not-found') {
       throw new Error(`Membership with id ${membership.id} not found`);
     }
-
-    memberships[index] = membership;
-    await this.saveToStorage(memberships);
     return membership;
   }
 
   async bulkUpdateOrders(updates: Array<{ id: string; processOrder: number }>): Promise<void> {
-    const memberships = await this.getFromStorage();
-    const updateMap = new Map(updates.map(u => [u.id, u.processOrder]));
-
-    const updatedMemberships = memberships.map(m => {
-      const newOrder = updateMap.get(m.id);
-      return newOrder !== undefined ? { ...m, processOrder: newOrder } : m;
-    });
-
-    await this.saveToStorage(updatedMemberships);
+    await this.storage.updateMany<TestStepMembership>(this.storageKey, updates);
   }
 
   async delete(id: string): Promise<boolean> {
-    const memberships = await this.getFromStorage();
-    const filteredMemberships = memberships.filter(m => m.id !== id);
-    
-    if (filteredMemberships.length === memberships.length) {
-      return false;
-    }
+    return this.storage.delete(this.storageKey, id);
+  }
 
-    await this.saveToStorage(filteredMemberships);
-    return true;
+  // Swaps in the full step list of each test case at once, so renumbered
+  // steps never collide with UQ_TestCase_ProcessOrder on the way.
+  async replaceForTestCases(testCaseIds: string[], memberships: TestStepMembership[]): Promise<void> {
+    await runInStorageTransaction(this.storage, async storage => {
+      for (const testCaseId of testCaseIds) {
+        await storage.deleteWhere(this.storageKey, 'testCaseId', testCaseId);
+      }
+      for (const membership of memberships.filter(m => testCaseIds.includes(m.testCaseId))) {
+        await storage.insert(this.storageKey, membership);
+      }
+    });
   }
 
   async deleteByTestCase(testCaseId: string): Promise<number> {
-    const memberships = await this.getFromStorage();
-    const filteredMemberships = memberships.filter(m => m.testCaseId !== testCaseId);
-    const deletedCount = memberships.length - filteredMemberships.length;
-    
-    if (deletedCount > 0) {
-      await this.saveToStorage(filteredMemberships);
-    }
-    
-    return deletedCount;
+    return this.storage.deleteWhere(this.storageKey, 'testCaseId', testCaseId);
   }
 
   async deleteByCatalogStep(catalogStepId: string): Promise<number> {
-    const memberships = await this.getFromStorage();
-    const filteredMemberships = memberships.filter(m => m.catalogStepId !== catalogStepId);
-    const deletedCount = memberships.length - filteredMemberships.length;
-    
-    if (deletedCount > 0) {
-      await this.saveToStorage(filteredMemberships);
-    }
-    
-    return deletedCount;
+    return this.storage.deleteWhere(this.storageKey, 'catalogStepId', catalogStepId);
   }
 }
 
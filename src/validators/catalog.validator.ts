@@ -1,4 +1,6 @@
-import { CatalogStep, CreateCatalogStepInput } from '@/models/catalog.model';
+import { CatalogStep, CreateCatalogStepInput, StepOutput, StepParameter } from '@/models/catalog.model';
+import { CustomFieldDefinition } from '@/models/classification.model';
+import { checkArgument, checkArgumentType, isMissingArgument } from '@/lib/step-parameters';
 import {
   ValidationResult,
   validateRequired,
@@ -7,11 +9,13 @@ import {
   validateUnique,
   combineValidationResults,
 } from './common.validator';
+import { validateClassification } from './classification.validator';
 
 export function validateCatalogStep(
   input: Partial<CreateCatalogStepInput>,
   existingSteps: CatalogStep[],
-  currentId?: string
+  currentId?: string,
+  customFields: CustomFieldDefinition[] = []
 ): ValidationResult {
   const results: ValidationResult[] = [
     validateStepName(input.name || '', existingSteps, currentId),
@@ -24,6 +28,16 @@ export function validateCatalogStep(
     results.push(...input.sqlTables.map(validateSQLTable));
   }
 
+  if (input.parameters) {
+    results.push(validateStepParameters(input.parameters));
+  }
+
+  if (input.outputs) {
+    results.push(validateStepOutputs(input.outputs));
+  }
+
+  results.push(validateClassification(input, customFields, 'catalog-step'));
+
   return combineValidationResults(results);
 }
 
@@ -115,6 +129,81 @@ export function validateSQLTable(value: string): ValidationResult {
   );
 }
 
+function validateVariableName(name: string, label: string, suggestion: string): ValidationResult {
+  const requiredCheck = validateRequired(name, `${label} name`);
+  if (!requiredCheck.isValid) return requiredCheck;
+
+  return validatePattern(
+    name,
+    /^[a-z][a-zA-Z0-9_]*$/,
+    `${label} name`,
+    `Invalid ${label.toLowerCase()} name "${name}"`,
+    suggestion
+  );
+}
+
+function findDuplicateNames(names: string[], label: string): ValidationResult[] {
+  const seen = new Set<string>();
+  const results: ValidationResult[] = [];
+  for (const name of names.map(n => n.trim())) {
+    const key = name.toLowerCase();
+    if (key && seen.has(key)) {
+      results.push({
+        isValid: false,
+        error: `${label} "${name}" is declared more than once`,
+        warningLevel: 'error',
+      });
+    }
+    seen.add(key);
+  }
+  return results;
+}
+
+export function validateStepParameter(parameter: StepParameter): ValidationResult {
+  const name = parameter.name.trim();
+
+  const nameCheck = validateVariableName(name, 'Parameter', 'Use the camelCase name of the Java argument');
+  if (!nameCheck.isValid) return nameCheck;
+
+  const badAllowed = (parameter.allowedValues ?? []).find(value => checkArgumentType(value, parameter.type) !== null);
+  if (badAllowed !== undefined) {
+    return {
+      isValid: false,
+      error: `Allowed value "${badAllowed}" of ${name}: ${checkArgumentType(badAllowed, parameter.type)}`,
+      warningLevel: 'error',
+    };
+  }
+
+  const defaultError = isMissingArgument(parameter.defaultValue) ? null : checkArgument(parameter, parameter.defaultValue);
+  if (defaultError) {
+    return {
+      isValid: false,
+      error: `Default value of ${name} ${defaultError}`,
+      warningLevel: 'error',
+    };
+  }
+
+  return { isValid: true, warningLevel: 'info' };
+}
+
+export function validateStepParameters(parameters: StepParameter[]): ValidationResult {
+  return combineValidationResults([
+    ...parameters.map(validateStepParameter),
+    ...findDuplicateNames(parameters.map(p => p.name), 'Parameter'),
+  ]);
+}
+
+export function validateStepOutput(output: StepOutput): ValidationResult {
+  return validateVariableName(output.name.trim(), 'Output', 'Use a camelCase name such as orderId');
+}
+
+export function validateStepOutputs(outputs: StepOutput[]): ValidationResult {
+  return combineValidationResults([
+    ...outputs.map(validateStepOutput),
+    ...findDuplicateNames(outputs.map(o => o.name), 'Output'),
+  ]);
+}
+
 export function validateBulkCatalogSteps(
   inputs: CreateCatalogStepInput[],
   existingSteps: CatalogStep[]
@@ -0,0 +1,194 @@
+import {
+  Classification,
+  CreateCustomFieldInput,
+  CustomFieldDefinition,
+  CustomFieldTarget,
+  CustomFieldValue,
+} from '@/models/classification.model';
+import { checkCustomFieldValues, isPriority } from '@/lib/classification';
+import {
+  ValidationResult,
+  validateRequired,
+  validateLength,
+  validatePattern,
+  validateUnique,
+  combineValidationResults,
+} from './common.validator';
+
+const MAX_TAGS = 20;
+
+export function validateClassification(
+  input: Classification,
+  definitions: CustomFieldDefinition[],
+  target: CustomFieldTarget
+): ValidationResult {
+  return combineValidationResults([
+    validateTags(input.tags ?? []),
+    validatePriority(input.priority),
+    validateOwner(input.owner ?? ''),
+    validateCustomFieldValues(input.customFields ?? {}, definitions, target),
+  ]);
+}
+
+export function validateTags(tags: string[]): ValidationResult {
+  if (tags.length > MAX_TAGS) {
+    return {
+      isValid: false,
+      error: `No more than ${MAX_TAGS} tags are allowed`,
+      warningLevel: 'error',
+    };
+  }
+
+  const seen = new Set<string>();
+  for (const tag of tags) {
+    const lengthCheck = validateLength(tag, 'Tag', 1, 30);
+    if (!lengthCheck.isValid) return lengthCheck;
+
+    const patternCheck = validatePattern(
+      tag,
+      /^[A-Za-z0-9][A-Za-z0-9 _.-]*$/,
+      'Tag',
+      `Invalid tag "${tag}"`,
+      'Use letters, digits, spaces, dots, dashes and underscores'
+    );
+    if (!patternCheck.isValid) return patternCheck;
+
+    if (seen.has(tag.toLowerCase())) {
+      return {
+        isValid: false,
+        error: `Tag "${tag}" is listed more than once`,
+        warningLevel: 'error',
+      };
+    }
+    seen.add(tag.toLowerCase());
+  }
+
+  return { isValid: true, warningLevel: 'info' };
+}
+
+export function validatePriority(value: string | undefined): ValidationResult {
+  if (value === undefined || value === '' || isPriority(value)) {
+    return { isValid: true, warningLevel: 'info' };
+  }
+
+  return {
+    isValid: false,
+    error: `Unknown priority "${value}"`,
+    suggestion: 'Use critical, high, medium or low',
+    warningLevel: 'error',
+  };
+}
+
+export function validateOwner(value: string): ValidationResult {
+  const trimmed = value.trim();
+  if (!trimmed) return { isValid: true, warningLevel: 'info' };
+  return validateLength(trimmed, 'Owner', 1, 100);
+}
+
+export function validateCustomFieldValues(
+  values: Record<string, CustomFieldValue>,
+  definitions: CustomFieldDefinition[],
+  target: CustomFieldTarget
+): ValidationResult {
+  const errors = checkCustomFieldValues(values, definitions, target);
+  if (errors.length > 0) {
+    return {
+      isValid: false,
+      error: errors.join('; '),
+      warningLevel: 'error',
+    };
+  }
+
+  return { isValid: true, warningLevel: 'info' };
+}
+
+export function validateCustomFieldDefinition(
+  input: Partial<CreateCustomFieldInput>,
+  existingFields: CustomFieldDefinition[],
+  currentId?: string
+): ValidationResult {
+  return combineValidationResults([
+    validateCustomFieldKey(input.key || '', existingFields, currentId),
+    validateCustomFieldLabel(input.label || ''),
+    validateCustomFieldTargets(input.appliesTo || []),
+    ...(input.type === 'enum' ? [validateCustomFieldOptions(input.options || [])] : []),
+  ]);
+}
+
+// Keys are stored with the values, so they follow the camelCase rule of
+// step parameters.
+export function validateCustomFieldKey(
+  value: string,
+  existingFields: CustomFieldDefinition[],
+  currentId?: string
+): ValidationResult {
+  const trimmed = value.trim();
+
+  const requiredCheck = validateRequired(trimmed, 'Field key');
+  if (!requiredCheck.isValid) return requiredCheck;
+
+  const lengthCheck = validateLength(trimmed, 'Field key', 1, 50);
+  if (!lengthCheck.isValid) return lengthCheck;
+
+  const patternCheck = validatePattern(
+    trimmed,
+    /^[a-z][a-zA-Z0-9_]*$/,
+    'Field key',
+    `Invalid field key "${trimmed}"`,
+    'Use a camelCase key such as storyPoints'
+  );
+  if (!patternCheck.isValid) return patternCheck;
+
+  return validateUnique(trimmed, existingFields, field => field.key, currentId, 'Field key');
+}
+
+export function validateCustomFieldLabel(value: string): ValidationResult {
+  const trimmed = value.trim();
+
+  const requiredCheck = validateRequired(trimmed, 'Field label');
+  if (!requiredCheck.isValid) return requiredCheck;
+
+  return validateLength(trimmed, 'Field label', 1, 50);
+}
+
+export function validateCustomFieldTargets(targets: CustomFieldTarget[]): ValidationResult {
+  if (targets.length === 0) {
+    return {
+      isValid: false,
+      error: 'Choose catalog steps, test cases or both',
+      warningLevel: 'error',
+    };
+  }
+
+  return { isValid: true, warningLevel: 'info' };
+}
+
+export function validateCustomFieldOptions(options: string[]): ValidationResult {
+  const trimmed = options.map(option => option.trim());
+
+  if (trimmed.length === 0) {
+    return {
+      isValid: false,
+      error: 'A choice field needs at least one option',
+      warningLevel: 'error',
+    };
+  }
+
+  if (trimmed.some(option => !option)) {
+    return {
+      isValid: false,
+      error: 'Options cannot be empty',
+      warningLevel: 'error',
+    };
+  }
+
+  if (new Set(trimmed.map(option => option.toLowerCase())).size !== trimmed.length) {
+    return {
+      isValid: false,
+      error: 'Options must be unique',
+      warningLevel: 'error',
+    };
+  }
+
+  return { isValid: true, warningLevel: 'info' };
+}
@@ -0,0 +1,76 @@
+import { CreateTestFolderInput, TestFolder } from '@/models/folder.model';
+import { getDescendantFolderIds } from '@/lib/test-folders';
+import {
+  ValidationResult,
+  validateRequired,
+  validateLength,
+  validateUnique,
+  combineValidationResults,
+} from './common.validator';
+
+export function validateTestFolder(
+  input: Partial<CreateTestFolderInput>,
+  existingFolders: TestFolder[],
+  currentId?: string
+): ValidationResult {
+  return combineValidationResults([
+    validateTestFolderName(input.name || '', existingFolders, input.parentId, currentId),
+    validateTestFolderParent(input.parentId, existingFolders, currentId),
+  ]);
+}
+
+// Names only need to be unique among the folders that share a parent.
+export function validateTestFolderName(
+  value: string,
+  existingFolders: TestFolder[],
+  parentId: string | undefined,
+  currentId?: string
+): ValidationResult {
+  const trimmed = value.trim();
+
+  const requiredCheck = validateRequired(trimmed, 'Folder name');
+  if (!requiredCheck.isValid) return requiredCheck;
+
+  const lengthCheck = validateLength(trimmed, 'Folder name', 1, 100);
+  if (!lengthCheck.isValid) return lengthCheck;
+
+  if (trimmed.includes('/')) {
+    return {
+      isValid: false,
+      error: 'Folder name cannot contain "/"',
+      suggestion: 'Create a subfolder instead',
+      warningLevel: 'error',
+    };
+  }
+
+  const siblings = existingFolders.filter(folder => (folder.parentId ?? undefined) === (parentId ?? undefined));
+  return validateUnique(trimmed, siblings, folder => folder.name, currentId, 'Folder name');
+}
+
+// A folder cannot be moved below itself, which would detach it and its
+// subfolders from the tree.
+export function validateTestFolderParent(
+  parentId: string | undefined,
+  existingFolders: TestFolder[],
+  currentId?: string
+): ValidationResult {
+  if (!parentId) return { isValid: true, warningLevel: 'info' };
+
+  if (!existingFolders.some(folder => folder.id === parentId)) {
+    return {
+      isValid: false,
+      error: 'The parent folder no longer exists',
+      warningLevel: 'error',
+    };
+  }
+
+  if (currentId && getDescendantFolderIds(existingFolders, currentId).includes(parentId)) {
+    return {
+      isValid: false,
+      error: 'A folder cannot be moved into itself or one of its subfolders',
+      warningLevel: 'error',
+    };
+  }
+
+  return { isValid: true, warningLevel: 'info' };
+}
@@ -1,4 +1,8 @@
 export * from './common.validator';
 export * from './catalog.validator';
 export * from './testcase.validator';
+export * from './stepgroup.validator';
+export * from './folder.validator';
+export * from './suite.validator';
+export * from './classification.validator';
 export * from './tcid.validator';
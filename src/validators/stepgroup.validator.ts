@@ -0,0 +1,90 @@
+import { CatalogStep } from '@/models/catalog.model';
+import { CreateStepGroupInput, StepGroup } from '@/models/stepgroup.model';
+import { TestStepMembership } from '@/models/testcase.model';
+import {
+  ValidationResult,
+  validateRequired,
+  validateLength,
+  validateUnique,
+  combineValidationResults,
+} from './common.validator';
+
+export function validateStepGroup(
+  input: Partial<CreateStepGroupInput>,
+  existingGroups: StepGroup[],
+  currentId?: string
+): ValidationResult {
+  return combineValidationResults([
+    validateStepGroupName(input.name || '', existingGroups, currentId),
+    validateStepGroupSteps(input.catalogStepIds || []),
+  ]);
+}
+
+export function validateStepGroupName(
+  value: string,
+  existingGroups: StepGroup[],
+  currentId?: string
+): ValidationResult {
+  const trimmed = value.trim();
+
+  const requiredCheck = validateRequired(trimmed, 'Group name');
+  if (!requiredCheck.isValid) return requiredCheck;
+
+  const lengthCheck = validateLength(trimmed, 'Group name', 3, 100);
+  if (!lengthCheck.isValid) return lengthCheck;
+
+  return validateUnique(trimmed, existingGroups, group => group.name, currentId, 'Group name');
+}
+
+export function validateStepGroupSteps(catalogStepIds: string[]): ValidationResult {
+  if (catalogStepIds.length === 0) {
+    return {
+      isValid: false,
+      error: 'A step group needs at least one step',
+      warningLevel: 'error',
+    };
+  }
+
+  if (new Set(catalogStepIds).size !== catalogStepIds.length) {
+    return {
+      isValid: false,
+      error: 'A step can only appear once in a group',
+      warningLevel: 'error',
+    };
+  }
+
+  return { isValid: true, warningLevel: 'info' };
+}
+
+// A test case holds each catalog step at most once, so a group can only be
+// inserted when none of its steps is already there.
+export function validateStepGroupInsertion(
+  group: StepGroup,
+  memberships: TestStepMembership[],
+  catalogSteps: CatalogStep[]
+): ValidationResult {
+  const stepNames = new Map(catalogSteps.map(step => [step.id, step.name]));
+
+  const missing = group.catalogStepIds.filter(id => !stepNames.has(id));
+  if (missing.length > 0) {
+    return {
+      isValid: false,
+      error: `${group.name} refers to ${missing.length} deleted catalog step(s)`,
+      suggestion: 'Edit the group to remove them',
+      warningLevel: 'error',
+    };
+  }
+
+  const present = new Set(memberships.map(m => m.catalogStepId));
+  const duplicates = group.catalogStepIds.filter(id => present.has(id));
+  if (duplicates.length > 0) {
+    return {
+      isValid: false,
+      error: `Already in this test case: ${duplicates.map(id => stepNames.get(id)).join(', ')}`,
+      suggestion: 'Remove those steps first or insert them individually',
+      warningLevel: 'error',
+    };
+  }
+
+  return { isValid: true, warningLevel: 'info' };
+}
@@ -0,0 +1,71 @@
+import { CreateTestSuiteInput, TestSuite } from '@/models/suite.model';
+import { TestCase } from '@/models/testcase.model';
+import {
+  ValidationResult,
+  validateRequired,
+  validateLength,
+  validateUnique,
+  combineValidationResults,
+} from './common.validator';
+
+export function validateTestSuite(
+  input: Partial<CreateTestSuiteInput>,
+  existingSuites: TestSuite[],
+  testCases: Pick<TestCase, 'id'>[],
+  currentId?: string
+): ValidationResult {
+  return combineValidationResults([
+    validateTestSuiteName(input.name || '', existingSuites, currentId),
+    validateSuiteTestCases(input.testCaseIds || [], testCases),
+  ]);
+}
+
+export function validateTestSuiteName(
+  value: string,
+  existingSuites: TestSuite[],
+  currentId?: string
+): ValidationResult {
+  const trimmed = value.trim();
+
+  const requiredCheck = validateRequired(trimmed, 'Suite name');
+  if (!requiredCheck.isValid) return requiredCheck;
+
+  const lengthCheck = validateLength(trimmed, 'Suite name', 3, 100);
+  if (!lengthCheck.isValid) return lengthCheck;
+
+  return validateUnique(trimmed, existingSuites, suite => suite.name, currentId, 'Suite name');
+}
+
+export function validateSuiteTestCases(
+  testCaseIds: string[],
+  testCases: Pick<TestCase, 'id'>[]
+): ValidationResult {
+  if (testCaseIds.length === 0) {
+    return {
+      isValid: false,
+      error: 'A suite needs at least one test case',
+      warningLevel: 'error',
+    };
+  }
+
+  if (new Set(testCaseIds).size !== testCaseIds.length) {
+    return {
+      isValid: false,
+      error: 'A test case can only appear once in a suite',
+      warningLevel: 'error',
+    };
+  }
+
+  const known = new Set(testCases.map(testCase => testCase.id));
+  const missing = testCaseIds.filter(id => !known.has(id));
+  if (missing.length > 0) {
+    return {
+      isValid: false,
+      error: `Unknown test case(s): ${missing.join(', ')}`,
+      suggestion: 'Remove deleted test cases from the suite',
+      warningLevel: 'error',
+    };
+  }
+
+  return { isValid: true, warningLevel: 'info' };
+}
@@ -1,4 +1,8 @@
 import { TestCase, CreateTestCaseInput, TestStepMembership } from '@/models/testcase.model';
+import { StepArgumentValue, StepParameter } from '@/models/catalog.model';
+import { CustomFieldDefinition } from '@/models/classification.model';
+import { checkArgument, parseStepReference } from '@/lib/step-parameters';
+import { buildDataFlow, DataFlowStep } from '@/lib/data-flow';
 import {
   ValidationResult,
   validateRequired,
@@ -9,16 +13,19 @@ import {
   combineValidationResults,
 } from './common.validator';
 import { validateTCID } from './tcid.validator';
+import { validateClassification } from './classification.validator';
 
 export function validateTestCase(
   input: Partial<CreateTestCaseInput>,
   existingTestCases: TestCase[],
-  currentId?: string
+  currentId?: string,
+  customFields: CustomFieldDefinition[] = []
 ): ValidationResult {
   const results: ValidationResult[] = [
     validateTCID(input.id || '', existingTestCases, currentId),
     validateTestCaseName(input.name || '', existingTestCases, currentId),
     validateTestCaseDescription(input.description || ''),
+    validateClassification(input, customFields, 'test-case'),
   ];
 
   return combineValidationResults(results);
@@ -122,6 +129,57 @@ export function validateMembershipOrders(
   return { isValid: true, warningLevel: 'info' };
 }
 
+// Arguments are checked against the catalog step's current parameters, so a
+// membership saved before the schema changed can become invalid. Arguments
+// bound to another step's output are checked by validateDataFlow instead.
+export function validateMembershipArguments(
+  parameters: StepParameter[],
+  args: Record<string, StepArgumentValue> = {}
+): ValidationResult {
+  const declared = new Set(parameters.map(parameter => parameter.name));
+  const errors = [
+    ...parameters.flatMap(parameter => {
+      if (parseStepReference(args[parameter.name])) return [];
+      const error = checkArgument(parameter, args[parameter.name]);
+      return error ? [`${parameter.name} ${error}`] : [];
+    }),
+    ...Object.keys(args)
+      .filter(name => !declared.has(name))
+      .map(name => `${name} is not a parameter of this step`),
+  ];
+
+  if (errors.length > 0) {
+    return {
+      isValid: false,
+      error: errors.join('; '),
+      warningLevel: 'error',
+    };
+  }
+
+  return { isValid: true, warningLevel: 'info' };
+}
+
+// Keyed by membership ID; only memberships with a broken binding appear.
+export function validateDataFlow(steps: DataFlowStep[]): Map<string, ValidationResult> {
+  const errors = new Map<string, string[]>();
+  for (const edge of buildDataFlow(steps)) {
+    if (!edge.issue) continue;
+    errors.set(edge.membershipId, [...(errors.get(edge.membershipId) ?? []), `${edge.parameterName}: ${edge.issue}`]);
+  }
+
+  return new Map(
+    [...errors].map(([membershipId, messages]) => [
+      membershipId,
+      {
+        isValid: false,
+        error: messages.join('; '),
+        suggestion: 'Bind the argument to an output of a step that runs earlier',
+        warningLevel: 'error',
+      },
+    ])
+  );
+}
+
 export function suggestProcessOrders(
   currentMemberships: TestStepMembership[],
   testCaseId: string